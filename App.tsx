@@ -2,19 +2,62 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   Palette, RefreshCw, History, Upload, Image as ImageIcon, 
   Trash2, Undo, Lock, Unlock, ChevronLeft, ChevronRight, Share, Download,
-  Moon, Sun, SlidersHorizontal, ChevronUp, ChevronDown, Shuffle, PanelTopClose, PanelTopOpen, X, Menu
+  Moon, Sun, SlidersHorizontal, ChevronUp, ChevronDown, Shuffle, PanelTopClose, PanelTopOpen, X, Menu, FileCode, Library, GitCompare, LayoutGrid, Target
 } from 'lucide-react';
-import { ThemeTokens, DualTheme, GenerationMode, ColorFormat, DesignOptions, LockedColors, LockedOptions } from './types';
-import { generateTheme, extractPaletteFromImage, formatColor } from './utils/colorUtils';
+import {
+  ThemeTokens,
+  ThemeScales,
+  ColorScale,
+  DataVizPalette,
+  DualTheme,
+  GenerationMode,
+  ColorFormat,
+  ContrastAlgorithm,
+  EngineVersion,
+  CvdType,
+  DesignOptions,
+  LockedColors,
+  LockedOptions,
+  CustomHarmony
+} from './types';
+import { AdjustmentLevels, generateTheme, paletteFromSlots, formatColor, upgradeTheme } from './utils/colorUtils';
+import { buildDualThemeScales } from './utils/scales';
+import { buildDualDataVizPalettes } from './utils/dataViz';
+import { buildDualWideGamutTokens } from './utils/gamut';
+import { toOklch } from './utils/oklch';
+import { simulateThemeTokens } from './utils/cvd';
+import { ImportedTokens, toOverridePalette } from './utils/themeImport';
+import { encodeShareCode, decodeShareCode } from './utils/shareCode';
+import { ENGINE_VERSION, LEGACY_ENGINE_VERSION, resolveEngineVersion } from './utils/engineVersion';
+import { DEFAULT_CUSTOM_HARMONY, parseCustomHarmony } from './utils/paletteEngine';
+import { CandidateOptions, CandidateShortlist, ThemeCandidate } from './utils/themeCandidates';
 import PreviewSection from './components/PreviewSection';
 import SwatchStrip from './components/SwatchStrip';
 import ShareModal from './components/ShareModal';
 import ImagePickerModal from './components/ImagePickerModal';
+import ThemeImportModal from './components/ThemeImportModal';
+import ThemeLibraryModal from './components/ThemeLibraryModal';
+import CandidatePickerModal from './components/CandidatePickerModal';
+import CompareView from './components/CompareView';
+import HarmonyWheel from './components/HarmonyWheel';
+import GamutMap from './components/GamutMap';
 
 const MAX_HISTORY = 20;
 type WorkspaceTab = 'overview' | 'tokens' | 'delivery';
 type ImportSourceSide = 'light' | 'dark';
 
+// Per-call overrides for generateNewTheme; anything left out comes from app state
+interface NewThemeOptions {
+  seed?: string;
+  levels?: AdjustmentLevels;              // Shared levels, before the state update that sets them is flushed
+  overridePalette?: string[];             // Image/import slots
+  importSourceSide?: ImportSourceSide;
+  contrastAlgorithm?: ContrastAlgorithm;
+  importedTokens?: ImportedTokens;        // Win on both sides over generated tokens
+  engineVersion?: EngineVersion;          // Default ENGINE_VERSION
+  harmony?: CustomHarmony;                // Custom mode only; default: the wheel's current harmony
+}
+
 // CSS Variable Injection Helper
 const getStyleVars = (tokens: ThemeTokens) => {
   return {
@@ -38,9 +81,37 @@ const getStyleVars = (tokens: ThemeTokens) => {
     '--warn-fg': tokens.warnFg,
     '--bad': tokens.bad,
     '--bad-fg': tokens.badFg,
+    '--info': tokens.info,
+    '--info-fg': tokens.infoFg,
+    '--link': tokens.link,
+    '--link-visited': tokens.linkVisited,
+    '--overlay': tokens.overlay,
+    '--selection-bg': tokens.selectionBg,
+    '--disabled-bg': tokens.disabledBg,
+    '--disabled-fg': tokens.disabledFg,
+    '--input-bg': tokens.inputBg,
+    '--divider': tokens.divider,
+    '--focus': tokens.focus,
   } as React.CSSProperties;
 };
 
+// Effective slider levels per side (shared values unless split is on)
+const getAdjustmentLevels = (options: DesignOptions): { light: Required<AdjustmentLevels>; dark: Required<AdjustmentLevels> } => {
+  if (!options.splitAdjustments) {
+    const shared = { saturation: options.saturationLevel, contrast: options.contrastLevel, brightness: options.brightnessLevel };
+    return { light: shared, dark: shared };
+  }
+  return {
+    light: { saturation: options.lightSaturationLevel, contrast: options.lightContrastLevel, brightness: options.lightBrightnessLevel },
+    dark: { saturation: options.darkSaturationLevel, contrast: options.darkContrastLevel, brightness: options.darkBrightnessLevel },
+  };
+};
+
+// Identifies the option values that trigger a regeneration
+const getRegenerationKey = (options: DesignOptions) => JSON.stringify([
+  getAdjustmentLevels(options), options.darkFirst, options.splitAdjustments, options.contrastAlgorithm,
+]);
+
 // Custom Taichi (Yin Yang) Icon — themed via lightColor / darkColor props
 const TaichiIcon = ({ size = 24, className = "", lightColor = "white", darkColor = "black" }: { size?: number, className?: string, lightColor?: string, darkColor?: string }) => (
   <svg
@@ -73,7 +144,9 @@ const App: React.FC = () => {
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [currentTheme, setCurrentTheme] = useState<DualTheme | null>(null);
   const [mode, setMode] = useState<GenerationMode>('random');
+  const [customHarmony, setCustomHarmony] = useState<CustomHarmony>(DEFAULT_CUSTOM_HARMONY);
   const [format, setFormat] = useState<ColorFormat>('hex');
+  const [cvdSimulation, setCvdSimulation] = useState<CvdType>('none');
   const [showHistory, setShowHistory] = useState(false);
   const [showOptions, setShowOptions] = useState(false);
   const [isDarkUI, setIsDarkUI] = useState(() => {
@@ -84,12 +157,19 @@ const App: React.FC = () => {
     return false;
   });
   const [showSwatches, setShowSwatches] = useState(false);
+  const [showGamutMap, setShowGamutMap] = useState(false);
   const [autoSyncPreview, setAutoSyncPreview] = useState(true);
   const [syncedWorkspaceTab, setSyncedWorkspaceTab] = useState<WorkspaceTab>('overview');
 
   const [showMobileNotice, setShowMobileNotice] = useState(true);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showImagePickerModal, setShowImagePickerModal] = useState(false);
+  const [showThemeImportModal, setShowThemeImportModal] = useState(false);
+  const [showLibraryModal, setShowLibraryModal] = useState(false);
+  const [showCandidateModal, setShowCandidateModal] = useState(false);
+  // Compare mode: B is held by reference so new history entries don't shift it
+  const [compareTheme, setCompareTheme] = useState<DualTheme | null>(null);
+  const [compareSide, setCompareSide] = useState<'light' | 'dark'>('light');
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [imageOverridePalette, setImageOverridePalette] = useState<string[] | null>(null);
   const [imageImportSourceSide, setImageImportSourceSide] = useState<ImportSourceSide | null>(null);
@@ -104,6 +184,8 @@ const App: React.FC = () => {
     contrastLevel: 0,
     saturationLevel: 0,
     darkFirst: false,
+    wideGamut: false,
+    contrastAlgorithm: 'wcag2',
     splitAdjustments: false,
     lightBrightnessLevel: 0,
     lightContrastLevel: 0,
@@ -114,6 +196,8 @@ const App: React.FC = () => {
   });
   
   const [lockedColors, setLockedColors] = useState<LockedColors>({});
+  // Regeneration key of options restored from a share code (see slider sync below)
+  const restoredOptionsKeyRef = useRef<string | null>(null);
   const [lockedOptions, setLockedOptions] = useState<LockedOptions>({});
 
   // Randomize unlocked design options
@@ -197,9 +281,19 @@ const App: React.FC = () => {
     const params = new URLSearchParams(window.location.search);
     const urlSeed = params.get('seed');
     const urlMode = params.get('mode') as GenerationMode;
+    // Full share code; stale or corrupted codes fall back to the seed parameters
+    const shareCode = params.get('t');
+    const shared = shareCode ? decodeShareCode(shareCode) : null;
     
-    if (urlSeed && urlMode) {
-      setMode(urlMode);
+    // Custom offsets ride along as ho (degrees) and hv (chroma variance)
+    const urlHarmony = urlMode === 'custom'
+      ? parseCustomHarmony(params.get('ho') ?? '', params.get('hv') ?? undefined) ?? DEFAULT_CUSTOM_HARMONY
+      : undefined;
+    
+    if (shared || (urlSeed && urlMode)) {
+      setMode(shared?.theme.mode ?? urlMode);
+      const restoredHarmony = shared ? shared.theme.harmony : urlHarmony;
+      if (restoredHarmony) setCustomHarmony(restoredHarmony);
       // Parse Design Options from URL
       const sat = params.get('sat') ? parseInt(params.get('sat')!) : undefined;
       const con = params.get('con') ? parseInt(params.get('con')!) : undefined;
@@ -213,6 +307,13 @@ const App: React.FC = () => {
         ? grParam === 'true' || grParam === '1' || parseInt(grParam, 10) > 0
         : undefined;
       const rd = params.get('rd') ? parseInt(params.get('rd')!) : undefined;
+      const wideGamut = params.get('p3') === '1';
+      const contrastAlgorithm = params.get('ca') === 'apca' ? 'apca' : 'wcag2';
+      // Seed links from before engine versioning carry no v and were made with 1.0.0
+      const urlEngine = params.get('v');
+      const engineVersion = urlEngine === null
+        ? LEGACY_ENGINE_VERSION
+        : (resolveEngineVersion(urlEngine) ?? ENGINE_VERSION);
 
       // Split adjustment params
       const split = params.get('split') === '1';
@@ -224,28 +325,58 @@ const App: React.FC = () => {
       const dbri = params.get('dbri') ? parseInt(params.get('dbri')!) : 0;
 
       // Update options if present
-      setDesignOptions(prev => ({
-        ...prev,
-        borderWidth: bw ?? prev.borderWidth,
-        shadowStrength: sh ?? prev.shadowStrength,
-        shadowOpacity: so ?? prev.shadowOpacity,
-        gradients: gradients ?? prev.gradients,
-        radius: rd ?? prev.radius,
-        brightnessLevel: bri ?? prev.brightnessLevel,
-        contrastLevel: con ?? prev.contrastLevel,
-        saturationLevel: sat ?? prev.saturationLevel,
-        splitAdjustments: split,
-        lightBrightnessLevel: split ? lbri : (bri ?? prev.brightnessLevel),
-        lightContrastLevel: split ? lcon : (con ?? prev.contrastLevel),
-        lightSaturationLevel: split ? lsat : (sat ?? prev.saturationLevel),
-        darkBrightnessLevel: split ? dbri : (bri ?? prev.brightnessLevel),
-        darkContrastLevel: split ? dcon : (con ?? prev.contrastLevel),
-        darkSaturationLevel: split ? dsat : (sat ?? prev.saturationLevel),
-      }));
+      setDesignOptions(prev => {
+        const next: DesignOptions = {
+          ...prev,
+          borderWidth: bw ?? prev.borderWidth,
+          shadowStrength: sh ?? prev.shadowStrength,
+          shadowOpacity: so ?? prev.shadowOpacity,
+          gradients: gradients ?? prev.gradients,
+          radius: rd ?? prev.radius,
+          wideGamut,
+          contrastAlgorithm: shared?.contrastAlgorithm ?? contrastAlgorithm,
+          brightnessLevel: bri ?? prev.brightnessLevel,
+          contrastLevel: con ?? prev.contrastLevel,
+          saturationLevel: sat ?? prev.saturationLevel,
+          splitAdjustments: split,
+          lightBrightnessLevel: split ? lbri : (bri ?? prev.brightnessLevel),
+          lightContrastLevel: split ? lcon : (con ?? prev.contrastLevel),
+          lightSaturationLevel: split ? lsat : (sat ?? prev.saturationLevel),
+          darkBrightnessLevel: split ? dbri : (bri ?? prev.brightnessLevel),
+          darkContrastLevel: split ? dcon : (con ?? prev.contrastLevel),
+          darkSaturationLevel: split ? dsat : (sat ?? prev.saturationLevel),
+          darkFirst: shared?.darkFirst ?? prev.darkFirst,
+        };
+        // The restored theme must survive the slider sync these options trigger
+        if (shared) restoredOptionsKeyRef.current = getRegenerationKey(next);
+        return next;
+      });
+
+      if (shared) {
+        const restored: DualTheme = {
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          ...shared.theme,
+          engineVersion: shared.engineVersion,
+        };
+        setLockedColors(shared.lockedColors);
+        setImageOverridePalette(shared.overridePalette);
+        setImageImportSourceSide(shared.importSourceSide);
+        setHistory(prev => [restored, ...prev].slice(0, MAX_HISTORY));
+        setHistoryIndex(0);
+        setCurrentTheme(restored);
+        return;
+      }
 
       // Generate Theme directly with these params
       // We pass sat/con/bri explicitly because the state update above might not be flushed yet
-      generateNewTheme(urlMode, urlSeed, sat, con, bri);
+      generateNewTheme(urlMode, {
+        seed: urlSeed,
+        levels: { saturation: sat, contrast: con, brightness: bri },
+        contrastAlgorithm,
+        engineVersion,
+        harmony: urlHarmony,
+      });
       
       // Remove encoded params cleanly from URL bar to show pretty URL if desired, 
       // but we want to KEEP them for sharing.
@@ -254,12 +385,16 @@ const App: React.FC = () => {
 
     const saved = localStorage.getItem('theme_history');
     if (saved) {
-      const parsed = JSON.parse(saved);
+      // Recent history is capped; older builds let it grow without limit, and
+      // saved themes from before the interaction roles get them derived
+      const parsed: DualTheme[] = JSON.parse(saved).slice(0, MAX_HISTORY)
+        .map((theme: DualTheme) => upgradeTheme(theme, designOptions.contrastAlgorithm));
       if (parsed.length > 0) {
         setHistory(parsed);
         setHistoryIndex(parsed.length - 1);
         setCurrentTheme(parsed[parsed.length - 1]);
         setMode(parsed[parsed.length - 1].mode);
+        if (parsed[parsed.length - 1].harmony) setCustomHarmony(parsed[parsed.length - 1].harmony!);
         return;
       }
     }
@@ -273,11 +408,18 @@ const App: React.FC = () => {
     const params = new URLSearchParams();
     params.set('mode', currentTheme.mode);
     params.set('seed', currentTheme.seed);
+    params.set('v', currentTheme.engineVersion ?? LEGACY_ENGINE_VERSION);
+    if (currentTheme.harmony) {
+      params.set('ho', currentTheme.harmony.offsets.join(','));
+      params.set('hv', currentTheme.harmony.chromaVariance.toString());
+    }
     params.set('bw', designOptions.borderWidth.toString());
     params.set('sh', designOptions.shadowStrength.toString());
     params.set('so', designOptions.shadowOpacity.toString());
     params.set('gr', designOptions.gradients ? '1' : '0');
     params.set('rd', designOptions.radius.toString());
+    if (designOptions.wideGamut) params.set('p3', '1');
+    if (designOptions.contrastAlgorithm === 'apca') params.set('ca', 'apca');
 
     if (designOptions.splitAdjustments) {
       params.set('split', '1');
@@ -293,9 +435,22 @@ const App: React.FC = () => {
       params.set('bri', designOptions.brightnessLevel.toString());
     }
 
+    // Edits, locks and image overrides only survive in the share code
+    const shareCode = encodeShareCode({
+      theme: currentTheme,
+      lockedColors,
+      overridePalette: imageOverridePalette,
+      importSourceSide: imageOverridePalette ? imageImportSourceSide : null,
+      darkFirst: designOptions.darkFirst,
+      contrastAlgorithm: designOptions.contrastAlgorithm,
+      engineVersion: currentTheme.engineVersion ?? LEGACY_ENGINE_VERSION,
+      levels: getAdjustmentLevels(designOptions),
+    });
+    if (shareCode) params.set('t', shareCode);
+
     const newUrl = `${window.location.pathname}?${params.toString()}`;
     window.history.replaceState(null, '', newUrl);
-  }, [currentTheme, designOptions]);
+  }, [currentTheme, designOptions, lockedColors, imageOverridePalette, imageImportSourceSide]);
 
   // Persist history
   useEffect(() => {
@@ -311,14 +466,24 @@ const App: React.FC = () => {
       hasInitializedRef.current = true;
       return;
     }
-    // Only regenerate if we have a current theme
+    // Skip the sync caused by restoring a share code
+    if (restoredOptionsKeyRef.current !== null) {
+      const restoring = restoredOptionsKeyRef.current === getRegenerationKey(designOptions);
+      restoredOptionsKeyRef.current = null;
+      if (restoring) return;
+    }
+    // Only regenerate if we have a current theme; keep the engine its seed was made with
     if (currentTheme) {
-      generateNewTheme(currentTheme.mode, currentTheme.seed);
+      generateNewTheme(currentTheme.mode, {
+        seed: currentTheme.seed,
+        engineVersion: currentTheme.engineVersion ?? LEGACY_ENGINE_VERSION,
+        harmony: currentTheme.harmony,
+      });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     designOptions.saturationLevel, designOptions.contrastLevel, designOptions.brightnessLevel,
-    designOptions.darkFirst, designOptions.splitAdjustments,
+    designOptions.darkFirst, designOptions.splitAdjustments, designOptions.contrastAlgorithm,
     designOptions.lightBrightnessLevel, designOptions.lightContrastLevel, designOptions.lightSaturationLevel,
     designOptions.darkBrightnessLevel, designOptions.darkContrastLevel, designOptions.darkSaturationLevel,
   ]);
@@ -334,15 +499,9 @@ const App: React.FC = () => {
     return () => mediaQuery.removeEventListener('change', handleChange);
   }, []);
 
-  const generateNewTheme = useCallback((
-    genMode: GenerationMode,
-    seed?: string,
-    saturation?: number,
-    contrast?: number,
-    brightness?: number,
-    overridePalette?: string[],
-    overrideImportSourceSide?: ImportSourceSide
-  ) => {
+  const generateNewTheme = useCallback((genMode: GenerationMode, options: NewThemeOptions = {}) => {
+    const { seed, levels = {}, overridePalette, importedTokens, engineVersion = ENGINE_VERSION, harmony } = options;
+
     // Compute effective adjustment levels
     // When split is on, use per-mode values; otherwise use shared values
     let lightSat: number, lightCon: number, lightBri: number;
@@ -356,9 +515,9 @@ const App: React.FC = () => {
       darkCon = designOptions.darkContrastLevel;
       darkBri = designOptions.darkBrightnessLevel;
     } else {
-      const sLevel = saturation !== undefined ? saturation : designOptions.saturationLevel;
-      const cLevel = contrast !== undefined ? contrast : designOptions.contrastLevel;
-      const bLevel = brightness !== undefined ? brightness : designOptions.brightnessLevel;
+      const sLevel = levels.saturation ?? designOptions.saturationLevel;
+      const cLevel = levels.contrast ?? designOptions.contrastLevel;
+      const bLevel = levels.brightness ?? designOptions.brightnessLevel;
       lightSat = sLevel;
       lightCon = cLevel;
       lightBri = bLevel;
@@ -371,13 +530,21 @@ const App: React.FC = () => {
       overridePalette ?? (genMode === 'image' ? (imageOverridePalette ?? undefined) : undefined);
     const effectiveImportSourceSide =
       genMode === 'image'
-        ? (overrideImportSourceSide ?? imageImportSourceSide ?? (designOptions.darkFirst ? 'dark' : 'light'))
+        ? (options.importSourceSide ?? imageImportSourceSide ?? (designOptions.darkFirst ? 'dark' : 'light'))
         : undefined;
 
-    const { light, dark, seed: newSeed } = generateTheme(
-      genMode, seed, lightSat, lightCon, lightBri, effectiveOverridePalette, designOptions.darkFirst,
-      darkSat, darkCon, darkBri, effectiveImportSourceSide
-    );
+    const { light, dark, seed: newSeed, harmony: newHarmony } = generateTheme({
+      mode: genMode,
+      seed,
+      levels: { saturation: lightSat, contrast: lightCon, brightness: lightBri },
+      darkLevels: { saturation: darkSat, contrast: darkCon, brightness: darkBri },
+      darkFirst: designOptions.darkFirst,
+      palette: effectiveOverridePalette ? paletteFromSlots(effectiveOverridePalette) : undefined,
+      paletteSide: effectiveImportSourceSide,
+      contrastAlgorithm: options.contrastAlgorithm ?? designOptions.contrastAlgorithm,
+      engineVersion,
+      harmony: genMode === 'custom' ? (harmony ?? customHarmony) : undefined
+    });
     
     // Preserve locked colors from current theme
     // Also lock related tokens when a base token is locked
@@ -401,6 +568,9 @@ const App: React.FC = () => {
       bad: ['badFg'],
       warn: ['warnFg'],
       border: [],
+      info: ['infoFg'],
+      link: ['linkVisited'],
+      disabledBg: ['disabledFg'],
     };
     
     if (currentTheme) {
@@ -419,6 +589,12 @@ const App: React.FC = () => {
         }
       });
     }
+
+    // Imported colors win on both sides; the engine only fills what the import left out
+    if (importedTokens) {
+      Object.assign(mergedLight, importedTokens.light);
+      Object.assign(mergedDark, importedTokens.dark);
+    }
     
     const newTheme: DualTheme = {
       id: crypto.randomUUID(),
@@ -426,7 +602,9 @@ const App: React.FC = () => {
       light: mergedLight,
       dark: mergedDark,
       seed: newSeed,
-      mode: genMode
+      mode: genMode,
+      engineVersion,
+      ...(newHarmony ? { harmony: newHarmony } : {})
     };
 
     setHistory(prev => {
@@ -442,34 +620,51 @@ const App: React.FC = () => {
     setHistoryIndex(0);
     setCurrentTheme(newTheme);
   }, [historyIndex, designOptions.saturationLevel, designOptions.contrastLevel, designOptions.brightnessLevel,
-      designOptions.darkFirst, designOptions.splitAdjustments,
+      designOptions.darkFirst, designOptions.splitAdjustments, designOptions.contrastAlgorithm,
       designOptions.lightBrightnessLevel, designOptions.lightContrastLevel, designOptions.lightSaturationLevel,
       designOptions.darkBrightnessLevel, designOptions.darkContrastLevel, designOptions.darkSaturationLevel,
-      lockedColors, currentTheme, imageOverridePalette, imageImportSourceSide]);
+      lockedColors, currentTheme, imageOverridePalette, imageImportSourceSide, customHarmony]);
 
-  // Update a single token (manual edit)
-  const handleTokenUpdate = useCallback((side: 'light' | 'dark', key: keyof ThemeTokens, value: string) => {
+  // Push a manual edit to history
+  // This allows Undo (Cmd+Z) to revert this change
+  const pushManualEdit = useCallback((updatedTheme: DualTheme) => {
+    setHistory(prev => {
+       const newHist = [updatedTheme, ...prev];
+       if (newHist.length > MAX_HISTORY) return newHist.slice(0, MAX_HISTORY);
+       return newHist;
+    });
+    setHistoryIndex(0);
+    setCurrentTheme(updatedTheme);
+  }, []);
+
+  // Update one or more tokens on one side as a single manual edit
+  const handleTokenEdits = useCallback((side: 'light' | 'dark', edits: Partial<ThemeTokens>) => {
     if (!currentTheme) return;
 
     // Create updated theme object
-    const updatedTheme = {
+    pushManualEdit({
       ...currentTheme,
       [side]: {
         ...currentTheme[side],
-        [key]: value
+        ...edits
       }
-    };
-    
-    // Push modification to history
-    // This allows Undo (Cmd+Z) to revert this change
-    setHistory(prev => {
-       const newHist = [updatedTheme, ...prev];
-       if (newHist.length > MAX_HISTORY) return newHist.slice(0, MAX_HISTORY);
-       return newHist;
     });
-    setHistoryIndex(0);
-    setCurrentTheme(updatedTheme);
-  }, [currentTheme]);
+  }, [currentTheme, pushManualEdit]);
+
+  // Update a single token (manual edit)
+  const handleTokenUpdate = useCallback((side: 'light' | 'dark', key: keyof ThemeTokens, value: string) => {
+    handleTokenEdits(side, { [key]: value });
+  }, [handleTokenEdits]);
+
+  // Update one token in both modes as a single edit (linked hue in the slider editor)
+  const handleTokenPairUpdate = useCallback((key: keyof ThemeTokens, values: { light: string; dark: string }) => {
+    if (!currentTheme) return;
+    pushManualEdit({
+      ...currentTheme,
+      light: { ...currentTheme.light, [key]: values.light },
+      dark: { ...currentTheme.dark, [key]: values.dark }
+    });
+  }, [currentTheme, pushManualEdit]);
 
   // Toggle lock on a color token
   const toggleColorLock = useCallback((key: keyof ThemeTokens) => {
@@ -547,10 +742,77 @@ const App: React.FC = () => {
     setImageOverridePalette(palette);
     setImageImportSourceSide(importSourceSide);
     handleModeChange('image');
-    generateNewTheme('image', undefined, undefined, undefined, undefined, palette, importSourceSide); 
+    generateNewTheme('image', { overridePalette: palette, importSourceSide });
     setShowImagePickerModal(false);
   };
 
+  const handleThemeImport = (tokens: ImportedTokens) => {
+    // The side with imported colors drives generation; with both present, follow darkFirst
+    const hasLight = Object.keys(tokens.light).length > 0;
+    const hasDark = Object.keys(tokens.dark).length > 0;
+    const importSourceSide: ImportSourceSide =
+      hasLight && hasDark ? (designOptions.darkFirst ? 'dark' : 'light') : hasDark ? 'dark' : 'light';
+    const palette = toOverridePalette(tokens[importSourceSide]);
+
+    setImageOverridePalette(palette);
+    setImageImportSourceSide(importSourceSide);
+    handleModeChange('image');
+    generateNewTheme('image', { overridePalette: palette, importSourceSide, importedTokens: tokens });
+    setLockedColors(prev => {
+      const next = { ...prev };
+      for (const key of [...Object.keys(tokens.light), ...Object.keys(tokens.dark)]) {
+        next[key as keyof ThemeTokens] = true;
+      }
+      return next;
+    });
+    setShowThemeImportModal(false);
+  };
+
+  // History entries other than the one on screen
+  const compareCandidates = history.filter(entry => entry !== currentTheme);
+
+  const toggleCompare = () => {
+    setCompareTheme(compareTheme ? null : compareCandidates[0] ?? null);
+  };
+
+  // Loading a saved theme adds it to recent history like any other theme
+  const handleLibraryLoad = (saved: DualTheme) => {
+    const loaded: DualTheme = { ...saved, id: crypto.randomUUID(), timestamp: Date.now() };
+    setHistory(prev => [loaded, ...prev].slice(0, MAX_HISTORY));
+    setHistoryIndex(0);
+    setCurrentTheme(loaded);
+    handleModeChange(loaded.mode);
+    setShowLibraryModal(false);
+  };
+
+  // Same levels generateNewTheme would use; image mode has no seed-driven harmony, so browse random ones
+  const split = designOptions.splitAdjustments;
+  const candidateOptions: Omit<CandidateOptions, 'seed' | 'count'> = {
+    mode: mode === 'image' ? 'random' : mode,
+    saturation: split ? designOptions.lightSaturationLevel : designOptions.saturationLevel,
+    contrast: split ? designOptions.lightContrastLevel : designOptions.contrastLevel,
+    brightness: split ? designOptions.lightBrightnessLevel : designOptions.brightnessLevel,
+    darkSaturation: split ? designOptions.darkSaturationLevel : designOptions.saturationLevel,
+    darkContrast: split ? designOptions.darkContrastLevel : designOptions.contrastLevel,
+    darkBrightness: split ? designOptions.darkBrightnessLevel : designOptions.brightnessLevel,
+    darkFirst: designOptions.darkFirst,
+    contrastAlgorithm: designOptions.contrastAlgorithm,
+    ...(mode === 'custom' ? { harmony: customHarmony } : {}),
+  };
+
+  // Regenerating the picked seed with the shortlist's mode and levels reproduces the candidate
+  const handleCandidatePick = (candidate: ThemeCandidate, shortlist: CandidateShortlist) => {
+    handleModeChange(shortlist.mode);
+    generateNewTheme(shortlist.mode, { seed: candidate.seed, engineVersion: shortlist.engineVersion, harmony: shortlist.harmony });
+    setShowCandidateModal(false);
+  };
+
+  // Dragging only moves the wheel; releasing regenerates around the same seed
+  const handleHarmonyCommit = useCallback((harmony: CustomHarmony) => {
+    setCustomHarmony(harmony);
+    generateNewTheme('custom', { seed: currentTheme?.seed, engineVersion: currentTheme?.engineVersion ?? ENGINE_VERSION, harmony });
+  }, [currentTheme, generateNewTheme]);
+
   const handleModeChange = useCallback((nextMode: GenerationMode) => {
     setMode(nextMode);
     if (nextMode !== 'image') {
@@ -563,21 +825,52 @@ const App: React.FC = () => {
      if (!currentTheme) return;
      
      // Convert theme colors to the current format
-     const formatTheme = (tokens: ThemeTokens) => {
-       const formatted: any = {};
+     const formatTheme = (tokens: ThemeTokens | ColorScale): Record<string, string> => {
+       const formatted: Record<string, string> = {};
        Object.entries(tokens).forEach(([key, hex]) => {
          formatted[key] = formatColor(hex, format);
        });
        return formatted;
      };
+
+     const formatScales = (scales: ThemeScales) => {
+       const formatted: Record<string, Record<string, string>> = {};
+       Object.entries(scales).forEach(([role, scale]) => {
+         formatted[role] = formatTheme(scale);
+       });
+       return formatted;
+     };
+
+     const formatDataViz = (palette: DataVizPalette) => ({
+       categorical: palette.categorical.map((hex) => formatColor(hex, format)),
+       sequential: palette.sequential.map((hex) => formatColor(hex, format)),
+       diverging: palette.diverging.map((hex) => formatColor(hex, format))
+     });
+
+     const scales = buildDualThemeScales(currentTheme.light, currentTheme.dark);
+     const dataViz = buildDualDataVizPalettes(currentTheme.light, currentTheme.dark, currentTheme.mode, undefined, currentTheme.harmony);
+     const p3 = designOptions.wideGamut
+       ? buildDualWideGamutTokens(currentTheme.light, currentTheme.dark)
+       : null;
      
      const exportData = {
        generator: "https://taichi.bucaastudio.com/",
        seed: currentTheme.seed,
        mode: currentTheme.mode,
+       engineVersion: currentTheme.engineVersion ?? LEGACY_ENGINE_VERSION,
+       ...(currentTheme.harmony ? { harmony: currentTheme.harmony } : {}),
        format: format,
        light: formatTheme(currentTheme.light),
-       dark: formatTheme(currentTheme.dark)
+       dark: formatTheme(currentTheme.dark),
+       scales: {
+         light: formatScales(scales.light),
+         dark: formatScales(scales.dark)
+       },
+       dataViz: {
+         light: formatDataViz(dataViz.light),
+         dark: formatDataViz(dataViz.dark)
+       },
+       ...(p3 ? { p3 } : {})
      };
      
      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -803,6 +1096,7 @@ const App: React.FC = () => {
                 <option value="tetradic">Tetradic</option>
                 <option value="compound">Compound</option>
                 <option value="triadic-split">Triadic Split</option>
+                <option value="custom">Custom</option>
                 {(mode === 'image' || imageOverridePalette) && <option value="image">Image</option>}
               </select>
 
@@ -831,6 +1125,15 @@ const App: React.FC = () => {
                 <Palette size={18} />
               </button>
 
+              <button 
+                onClick={() => setShowGamutMap(!showGamutMap)}
+                className={`p-1.5 rounded-lg transition-colors shrink-0 ${showGamutMap ? '' : 'hover-themed'}`}
+                style={showGamutMap ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
+                title="Gamut Map"
+              >
+                <Target size={18} />
+              </button>
+
               <button 
                 onClick={() => setShowOptions(!showOptions)}
                 className={`p-1.5 rounded-lg transition-colors shrink-0 ${showOptions ? '' : 'hover-themed'}`}
@@ -844,11 +1147,39 @@ const App: React.FC = () => {
                 onClick={() => setShowHistory(!showHistory)}
                 className={`p-1.5 rounded-lg transition-colors ${showHistory ? '' : 'hover-themed'}`}
                 style={showHistory ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
-                title="History"
+                title="Recent"
               >
                 <History size={18} />
               </button>
 
+              <button 
+                onClick={toggleCompare}
+                disabled={!compareTheme && compareCandidates.length === 0}
+                className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${compareTheme ? '' : 'hover-themed'}`}
+                style={compareTheme ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
+                title="Compare with History"
+              >
+                <GitCompare size={18} />
+              </button>
+
+              <button 
+                onClick={() => setShowLibraryModal(true)}
+                className={`p-1.5 rounded-lg transition-colors ${showLibraryModal ? '' : 'hover-themed'}`}
+                style={showLibraryModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
+                title="Theme Library"
+              >
+                <Library size={18} />
+              </button>
+
+              <button 
+                onClick={() => setShowCandidateModal(true)}
+                className={`p-1.5 rounded-lg transition-colors ${showCandidateModal ? '' : 'hover-themed'}`}
+                style={showCandidateModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
+                title="Browse Candidates"
+              >
+                <LayoutGrid size={18} />
+              </button>
+
               <button 
                 onClick={() => setShowImagePickerModal(true)}
                 className={`p-1.5 rounded-lg transition-colors ${showImagePickerModal ? '' : 'hover-themed'}`}
@@ -858,6 +1189,15 @@ const App: React.FC = () => {
                 <ImageIcon size={18} />
               </button>
 
+              <button 
+                onClick={() => setShowThemeImportModal(true)}
+                className={`p-1.5 rounded-lg transition-colors ${showThemeImportModal ? '' : 'hover-themed'}`}
+                style={showThemeImportModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : {}}
+                title="Import Theme"
+              >
+                <FileCode size={18} />
+              </button>
+
               <button 
                 onClick={exportTheme}
                 className="p-1.5 rounded-lg transition-colors hover-themed"
@@ -918,6 +1258,7 @@ const App: React.FC = () => {
                 <option value="tetradic">Tetradic</option>
                 <option value="compound">Compound</option>
                 <option value="triadic-split">Triadic Split</option>
+                <option value="custom">Custom</option>
                 {(mode === 'image' || imageOverridePalette) && <option value="image">Image</option>}
               </select>
             </div>
@@ -948,6 +1289,15 @@ const App: React.FC = () => {
                 <span className="text-sm font-medium">Palette</span>
               </button>
 
+              <button 
+                onClick={() => { setShowGamutMap(!showGamutMap); setShowMobileMenu(false); }}
+                className={`p-3 rounded-lg transition-colors flex items-center justify-center gap-2 ${showGamutMap ? '' : 'border'}`}
+                style={showGamutMap ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : { borderColor: shellTheme.border }}
+              >
+                <Target size={18} />
+                <span className="text-sm font-medium">Gamut</span>
+              </button>
+
               <button 
                 onClick={() => { setShowOptions(!showOptions); setShowMobileMenu(false); }}
                 className={`p-3 rounded-lg transition-colors flex items-center justify-center gap-2 ${showOptions ? '' : 'border'}`}
@@ -963,7 +1313,25 @@ const App: React.FC = () => {
                 style={showHistory ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : { borderColor: shellTheme.border }}
               >
                 <History size={18} />
-                <span className="text-sm font-medium">History</span>
+                <span className="text-sm font-medium">Recent</span>
+              </button>
+
+              <button 
+                onClick={() => { setShowLibraryModal(true); setShowMobileMenu(false); }}
+                className={`p-3 rounded-lg transition-colors flex items-center justify-center gap-2 ${showLibraryModal ? '' : 'border'}`}
+                style={showLibraryModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : { borderColor: shellTheme.border }}
+              >
+                <Library size={18} />
+                <span className="text-sm font-medium">Library</span>
+              </button>
+
+              <button 
+                onClick={() => { setShowCandidateModal(true); setShowMobileMenu(false); }}
+                className={`p-3 rounded-lg transition-colors flex items-center justify-center gap-2 ${showCandidateModal ? '' : 'border'}`}
+                style={showCandidateModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : { borderColor: shellTheme.border }}
+              >
+                <LayoutGrid size={18} />
+                <span className="text-sm font-medium">Candidates</span>
               </button>
 
               <button 
@@ -975,6 +1343,15 @@ const App: React.FC = () => {
                 <span className="text-sm font-medium">Image</span>
               </button>
 
+              <button 
+                onClick={() => { setShowThemeImportModal(true); setShowMobileMenu(false); }}
+                className={`p-3 rounded-lg transition-colors flex items-center justify-center gap-2 ${showThemeImportModal ? '' : 'border'}`}
+                style={showThemeImportModal ? { backgroundColor: shellTheme.primary, color: shellTheme.primaryFg } : { borderColor: shellTheme.border }}
+              >
+                <FileCode size={18} />
+                <span className="text-sm font-medium">Import</span>
+              </button>
+
               <button 
                 onClick={() => { exportTheme(); setShowMobileMenu(false); }}
                 className="p-3 rounded-lg border transition-colors flex items-center justify-center gap-2"
@@ -1041,11 +1418,48 @@ const App: React.FC = () => {
            onFormatChange={setFormat}
            isDarkUI={isDarkUI}
            onUpdate={handleTokenUpdate}
+           onUpdatePair={handleTokenPairUpdate}
            lockedColors={lockedColors}
            onToggleLock={toggleColorLock}
+           contrastAlgorithm={designOptions.contrastAlgorithm}
         />
       )}
 
+      {mode === 'custom' && (
+        <div 
+          className="border-b px-3 py-4 shrink-0 transition-colors duration-500"
+          style={{ backgroundColor: shellTheme.bg, borderColor: shellTheme.border }}
+        >
+          <div className="max-w-[1920px] mx-auto w-full">
+            <HarmonyWheel
+              harmony={customHarmony}
+              primaryHue={toOklch(currentTheme.seed).H}
+              theme={shellTheme}
+              onChange={setCustomHarmony}
+              onCommit={handleHarmonyCommit}
+            />
+          </div>
+        </div>
+      )}
+
+      {showGamutMap && (
+        <div 
+          className="border-b px-3 py-4 shrink-0 transition-colors duration-500"
+          style={{ backgroundColor: shellTheme.bg, borderColor: shellTheme.border }}
+        >
+          <div className="max-w-[1920px] mx-auto w-full">
+            <GamutMap
+              light={currentTheme.light}
+              dark={currentTheme.dark}
+              primaryHue={toOklch(currentTheme.light.primary).H}
+              showP3={designOptions.wideGamut}
+              theme={shellTheme}
+              onUpdate={handleTokenUpdate}
+            />
+          </div>
+        </div>
+      )}
+
       {showOptions && (
         <div 
           className="border-b px-3 py-4 shrink-0 shadow-inner z-40 relative transition-colors duration-500"
@@ -1458,6 +1872,67 @@ const App: React.FC = () => {
              </button>
            </div>
 
+           {/* APCA Contrast Toggle */}
+           <div className="flex items-center gap-2 group/opt">
+             <button
+               onClick={() => setDesignOptions(prev => ({
+                 ...prev,
+                 contrastAlgorithm: prev.contrastAlgorithm === 'apca' ? 'wcag2' : 'apca',
+               }))}
+               onMouseDown={(e) => e.preventDefault()}
+               className="flex items-center gap-2 cursor-pointer"
+               title="Measure contrast with APCA (WCAG 3 draft) instead of WCAG 2 ratios"
+             >
+               <span
+                 className="relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors duration-200"
+                 style={{ backgroundColor: designOptions.contrastAlgorithm === 'apca' ? shellTheme.primary : `${shellTheme.text}30` }}
+               >
+                 <span className={`inline-block h-3.5 w-3.5 rounded-full shadow transition-transform duration-200 ${designOptions.contrastAlgorithm === 'apca' ? 'translate-x-[18px]' : 'translate-x-[3px]'}`} style={{ backgroundColor: designOptions.contrastAlgorithm === 'apca' ? shellTheme.primaryFg : shellTheme.bg }} />
+               </span>
+               <span className="text-xs font-bold uppercase tracking-wider opacity-70">
+                 APCA Contrast
+               </span>
+             </button>
+           </div>
+
+           {/* Wide Gamut (Display P3) Toggle */}
+           <div className="flex items-center gap-2 group/opt">
+             <button
+               onClick={() => setDesignOptions(prev => ({ ...prev, wideGamut: !prev.wideGamut }))}
+               onMouseDown={(e) => e.preventDefault()}
+               className="flex items-center gap-2 cursor-pointer"
+               title="Extend brand and status colors into Display P3 in exports, with sRGB fallbacks"
+             >
+               <span
+                 className="relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors duration-200"
+                 style={{ backgroundColor: designOptions.wideGamut ? shellTheme.primary : `${shellTheme.text}30` }}
+               >
+                 <span className={`inline-block h-3.5 w-3.5 rounded-full shadow transition-transform duration-200 ${designOptions.wideGamut ? 'translate-x-[18px]' : 'translate-x-[3px]'}`} style={{ backgroundColor: designOptions.wideGamut ? shellTheme.primaryFg : shellTheme.bg }} />
+               </span>
+               <span className="text-xs font-bold uppercase tracking-wider opacity-70">
+                 Wide Gamut (P3)
+               </span>
+             </button>
+           </div>
+
+           {/* Color-Vision Simulation (preview only) */}
+           <div className="flex items-center gap-2">
+             <span className="text-xs font-bold uppercase tracking-wider opacity-70">Vision</span>
+             <select
+               value={cvdSimulation}
+               onChange={(e) => setCvdSimulation(e.target.value as CvdType)}
+               className="text-xs rounded-md px-2 py-1 focus:outline-none border cursor-pointer"
+               style={{ ...inputStyle, outlineColor: shellTheme.primary }}
+               title="Simulate color-vision deficiency in the preview (exports are unchanged)"
+             >
+               <option value="none">Normal</option>
+               <option value="protanopia">Protanopia</option>
+               <option value="deuteranopia">Deuteranopia</option>
+               <option value="tritanopia">Tritanopia</option>
+               <option value="achromatopsia">Achromatopsia</option>
+             </select>
+           </div>
+
           </div>
           </div>
         </div>
@@ -1499,27 +1974,71 @@ const App: React.FC = () => {
                  theme.mode === 'tetradic' ? 'Tetr' :
                  theme.mode === 'compound' ? 'Cmpd' :
                  theme.mode === 'triadic-split' ? 'TrSp' :
-                 theme.mode === 'image' ? 'Img' : theme.mode.slice(0,4)}
+                 theme.mode === 'image' ? 'Img' :
+                 theme.mode === 'custom' ? 'Cstm' : theme.mode.slice(0,4)}
               </div>
             </button>
           ))}
-          {history.length === 0 && <div className="text-sm opacity-50 m-auto">No history yet</div>}
+          {history.length === 0 && <div className="text-sm opacity-50 m-auto">No recent themes yet</div>}
         </div>
       )}
 
       {/* --- Main Content Area (Sync Scroll) --- */}
       <div className="flex-1 overflow-y-auto relative scroll-smooth group">
         
-        {/* Split Preview */}
+        {compareTheme ? (
+          <CompareView
+            current={currentTheme}
+            candidate={compareTheme}
+            candidates={compareCandidates}
+            onCandidateChange={setCompareTheme}
+            side={compareSide}
+            onSideChange={setCompareSide}
+            contrastAlgorithm={designOptions.contrastAlgorithm}
+            onPromote={handleTokenEdits}
+            onClose={() => setCompareTheme(null)}
+            theme={shellTheme}
+          >
+            {/* A | B panes share this scroll container, so they scroll together */}
+            <div className="flex flex-col md:flex-row">
+              {[{ label: 'A', theme: currentTheme }, { label: 'B', theme: compareTheme }].map(({ label, theme }) => (
+                <div
+                  key={label}
+                  className="w-full md:w-1/2 bg-t-bg transition-colors duration-500"
+                  style={getStyleVars(simulateThemeTokens(theme[compareSide], cvdSimulation))}
+                >
+                  <div className="px-4 pt-3 text-xs font-bold uppercase tracking-wider text-t-textMuted">
+                    {label === 'A' ? 'A · Current' : 'B · Candidate'}
+                  </div>
+                  {/* themeName drives mode-specific styling and export orientation */}
+                  <PreviewSection
+                    themeName={compareSide === 'light' ? 'Light' : 'Dark'}
+                    themeTokens={theme[compareSide]}
+                    companionTokens={theme[compareSide === 'light' ? 'dark' : 'light']}
+                    cvdSimulation={cvdSimulation}
+                    harmonyMode={theme.mode}
+                    harmony={theme.harmony}
+                    options={designOptions}
+                  />
+                </div>
+              ))}
+            </div>
+          </CompareView>
+        ) : (
+        /* Split Preview */
         <div className="flex flex-col md:flex-row min-h-[calc(100vh-140px)]">
           {/* Light Side */}
           <div 
             className="w-full md:w-1/2 bg-t-bg transition-colors duration-500" 
-            style={getStyleVars(currentTheme.light)}
+            style={getStyleVars(simulateThemeTokens(currentTheme.light, cvdSimulation))}
           >
              <PreviewSection
                themeName="Light"
                themeTokens={currentTheme.light}
+               companionTokens={currentTheme.dark}
+               cvdSimulation={cvdSimulation}
+               harmonyMode={currentTheme.mode}
+               harmony={currentTheme.harmony}
                options={designOptions}
                onUpdateOption={updateOption}
                onOpenImagePicker={() => setShowImagePickerModal(true)}
@@ -1534,17 +2053,22 @@ const App: React.FC = () => {
                onAutoSyncPreviewChange={setAutoSyncPreview}
                syncedWorkspaceTab={syncedWorkspaceTab}
                onSyncedWorkspaceTabChange={setSyncedWorkspaceTab}
+               releaseBaselines={compareCandidates}
              />
           </div>
 
           {/* Dark Side */}
           <div 
             className="w-full md:w-1/2 bg-t-bg transition-colors duration-500" 
-            style={getStyleVars(currentTheme.dark)}
+            style={getStyleVars(simulateThemeTokens(currentTheme.dark, cvdSimulation))}
           >
              <PreviewSection
                themeName="Dark"
                themeTokens={currentTheme.dark}
+               companionTokens={currentTheme.light}
+               cvdSimulation={cvdSimulation}
+               harmonyMode={currentTheme.mode}
+               harmony={currentTheme.harmony}
                options={designOptions}
                onUpdateOption={updateOption}
                onOpenImagePicker={() => setShowImagePickerModal(true)}
@@ -1559,9 +2083,11 @@ const App: React.FC = () => {
                onAutoSyncPreviewChange={setAutoSyncPreview}
                syncedWorkspaceTab={syncedWorkspaceTab}
                onSyncedWorkspaceTabChange={setSyncedWorkspaceTab}
+               releaseBaselines={compareCandidates}
              />
           </div>
         </div>
+        )}
 
         </div>
       {/* Modals */}
@@ -1580,6 +2106,30 @@ const App: React.FC = () => {
         // Extraction slot ordering follows generation source mode, not shell theme.
         isDark={designOptions.darkFirst}
       />
+
+      <ThemeLibraryModal
+        isOpen={showLibraryModal}
+        onClose={() => setShowLibraryModal(false)}
+        onLoad={handleLibraryLoad}
+        currentTheme={currentTheme}
+        theme={currentTheme.dark}
+      />
+
+      <CandidatePickerModal
+        isOpen={showCandidateModal}
+        onClose={() => setShowCandidateModal(false)}
+        onPick={handleCandidatePick}
+        options={candidateOptions}
+        seed={currentTheme.seed}
+        theme={currentTheme.dark}
+      />
+
+      <ThemeImportModal
+        isOpen={showThemeImportModal}
+        onClose={() => setShowThemeImportModal(false)}
+        onConfirm={handleThemeImport}
+        theme={currentTheme.dark}
+      />
     </div>
   );
 };
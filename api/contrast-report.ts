@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { rateLimit } from './utils/rate-limit';
+import {
+  CONTRAST_REPORT_FORMATS,
+  buildContrastReport,
+  formatContrastReport,
+  hasContrastReportSources,
+  isContrastReportFormat
+} from '../utils/contrastReport';
+import { CONTRAST_ALGORITHMS, isContrastAlgorithm } from '../utils/contrast';
+import { parseBoolean } from './utils/params';
+
+/**
+ * API Endpoint: Contrast Report
+ * 
+ * Audits every meaningful foreground/background pairing (text, textMuted and
+ * each *Fg token, plus border for WCAG 1.4.11) in one or both modes.
+ * Returns the structured report; `format` adds a CSV or Markdown rendering,
+ * and `decorativeBorders` leaves borders out of pass/fail.
+ * 
+ * Rate Limit: 20 requests per minute per IP
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
+  );
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const rateLimitResult = await rateLimit(req, 20, 60000, 'contrast-report');
+  if (!rateLimitResult.success) {
+    return res.status(429).json({
+      success: false,
+      error: 'Rate limit exceeded. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: rateLimitResult.retryAfter
+    });
+  }
+
+  try {
+    const { theme, format = 'json', contrastAlgorithm = 'wcag2', decorativeBorders } = req.body || {};
+    const isDual = theme && typeof theme === 'object' && 'light' in theme && 'dark' in theme;
+    const validTheme = isDual
+      ? hasContrastReportSources(theme.light) && hasContrastReportSources(theme.dark)
+      : hasContrastReportSources(theme);
+
+    if (!validTheme) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid theme object. Provide hex tokens for a single theme or a { light, dark } pair.',
+        code: 'INVALID_THEME'
+      });
+    }
+
+    if (!isContrastReportFormat(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid format. Must be one of: ${CONTRAST_REPORT_FORMATS.join(', ')}`,
+        code: 'INVALID_FORMAT'
+      });
+    }
+
+    if (!isContrastAlgorithm(contrastAlgorithm)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid contrastAlgorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`,
+        code: 'INVALID_CONTRAST_ALGORITHM'
+      });
+    }
+
+    const report = buildContrastReport(theme, contrastAlgorithm, { decorativeBorders: parseBoolean(decorativeBorders) });
+    const rendered = format === 'json' ? null : formatContrastReport(report, format);
+
+    return res.status(200).json({
+      success: true,
+      report,
+      ...(rendered ? { format, content: rendered.content, filename: rendered.filename } : {})
+    });
+
+  } catch (error) {
+    console.error('Error building contrast report:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error while building contrast report',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
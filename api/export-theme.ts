@@ -1,36 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-// Inline rate limiting
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-function getClientIP(req: VercelRequest): string {
-  const forwarded = req.headers['x-forwarded-for'];
-  if (forwarded) {
-    const ip = Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0];
-    return ip.trim();
-  }
-  return 'unknown';
-}
-
-async function rateLimit(req: VercelRequest, max: number, windowMs: number) {
-  const ip = getClientIP(req);
-  const now = Date.now();
-  let entry = rateLimitStore.get(ip);
-  if (!entry || now > entry.resetTime) {
-    rateLimitStore.set(ip, { count: 1, resetTime: now + windowMs });
-    return { success: true };
-  }
-  if (entry.count < max) {
-    entry.count++;
-    return { success: true };
-  }
-  return { success: false, retryAfter: Math.ceil((entry.resetTime - now) / 1000) };
-}
+import { rateLimit } from './utils/rate-limit';
+import { EXPORT_FORMATS, exportThemeAs } from '../utils/themeExport';
+import { GAMUT_TARGETS, isGamutTarget } from '../utils/gamut';
 
 /**
  * API Endpoint: Export Theme
  * 
- * Exports a theme in various formats (CSS, JSON, Tailwind config, etc.)
+ * Exports a theme in various formats (CSS, JSON, Tailwind config, DTCG tokens, native mobile, etc.)
+ * Multi-file formats (xcassets, android) return a base64 ZIP with `encoding: 'base64'`.
+ * Accepts a single token map or a { light, dark } pair for dual-mode files.
  * 
  * Rate Limit: 15 requests per minute per IP
  */
@@ -60,7 +38,7 @@ export default async function handler(
     });
   }
 
-  const rateLimitResult = await rateLimit(req, 15, 60000);
+  const rateLimitResult = await rateLimit(req, 15, 60000, 'export-theme');
   if (!rateLimitResult.success) {
     return res.status(429).json({
       success: false,
@@ -71,7 +49,7 @@ export default async function handler(
   }
 
   try {
-    const { theme, format = 'css', options = {} } = req.body || {};
+    const { theme, format = 'css', options = {}, scales, dataViz, p3, metadata } = req.body || {};
 
     if (!theme || typeof theme !== 'object') {
       return res.status(400).json({
@@ -81,49 +59,41 @@ export default async function handler(
       });
     }
 
-    const validFormats = ['css', 'json', 'tailwind', 'scss', 'less'];
-    if (!validFormats.includes(format)) {
+    if (!EXPORT_FORMATS.includes(format)) {
       return res.status(400).json({
         success: false,
-        error: `Invalid format. Must be one of: ${validFormats.join(', ')}`,
+        error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`,
         code: 'INVALID_FORMAT'
       });
     }
 
-    const prefix = options.prefix || 'taichi';
-    const includeComments = options.includeComments !== false;
-
-    let content: string;
-    let filename: string;
-
-    switch (format) {
-      case 'css':
-        content = exportAsCSS(theme, prefix, includeComments);
-        filename = `${prefix}-theme.css`;
-        break;
-      case 'scss':
-        content = exportAsSCSS(theme, prefix, includeComments);
-        filename = `${prefix}-theme.scss`;
-        break;
-      case 'less':
-        content = exportAsLESS(theme, prefix, includeComments);
-        filename = `${prefix}-theme.less`;
-        break;
-      case 'tailwind':
-        content = exportAsTailwind(theme, includeComments);
-        filename = 'tailwind.config.js';
-        break;
-      case 'json':
-      default:
-        content = JSON.stringify(theme, null, 2);
-        filename = `${prefix}-theme.json`;
+    if (options.gamut !== undefined && !isGamutTarget(options.gamut)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid gamut. Must be one of: ${GAMUT_TARGETS.join(', ')}`,
+        code: 'INVALID_GAMUT'
+      });
     }
 
+    const { content, filename, encoding } = exportThemeAs(theme, format, {
+      prefix: options.prefix || 'taichi',
+      includeComments: options.includeComments !== false,
+      includeScales: options.includeScales !== false,
+      scales,
+      includeDataViz: options.includeDataViz !== false,
+      dataViz,
+      gamut: options.gamut,
+      p3,
+      metadata,
+      packageName: typeof options.packageName === 'string' ? options.packageName : undefined,
+    });
+
     return res.status(200).json({
       success: true,
       format,
       content,
-      filename
+      filename,
+      ...(encoding ? { encoding } : {})
     });
 
   } catch (error) {
@@ -135,115 +105,3 @@ export default async function handler(
     });
   }
 }
-
-function exportAsCSS(theme: Record<string, string>, prefix: string, includeComments: boolean): string {
-  const lines: string[] = [];
-  
-  if (includeComments) {
-    lines.push('/**');
-    lines.push(' * Taichi Theme Generator - Theme Export');
-    lines.push(` * Generated: ${new Date().toISOString()}`);
-    lines.push(' * Format: CSS Custom Properties');
-    lines.push(' */\n');
-  }
-  
-  lines.push(':root {');
-  Object.entries(theme).forEach(([key, value]) => {
-    const varName = `--${prefix}-${key.replace(/([A-Z])/g, '-$1').toLowerCase()}`;
-    lines.push(`  ${varName}: ${value};`);
-  });
-  lines.push('}\n');
-  
-  if (includeComments) {
-    lines.push('/* Usage example:');
-    lines.push(` * color: var(--${prefix}-primary);`);
-    lines.push(' */');
-  }
-  
-  return lines.join('\n');
-}
-
-function exportAsSCSS(theme: Record<string, string>, prefix: string, includeComments: boolean): string {
-  const lines: string[] = [];
-  
-  if (includeComments) {
-    lines.push('//');
-    lines.push('// Taichi Theme Generator - Theme Export');
-    lines.push(`// Generated: ${new Date().toISOString()}`);
-    lines.push('// Format: SCSS Variables');
-    lines.push('//\n');
-  }
-  
-  Object.entries(theme).forEach(([key, value]) => {
-    const varName = `$${prefix}-${key.replace(/([A-Z])/g, '-$1').toLowerCase()}`;
-    lines.push(`${varName}: ${value};`);
-  });
-  
-  if (includeComments) {
-    lines.push('\n// Usage example:');
-    lines.push(`// color: $${prefix}-primary;`);
-  }
-  
-  return lines.join('\n');
-}
-
-function exportAsLESS(theme: Record<string, string>, prefix: string, includeComments: boolean): string {
-  const lines: string[] = [];
-  
-  if (includeComments) {
-    lines.push('//');
-    lines.push('// Taichi Theme Generator - Theme Export');
-    lines.push(`// Generated: ${new Date().toISOString()}`);
-    lines.push('// Format: LESS Variables');
-    lines.push('//\n');
-  }
-  
-  Object.entries(theme).forEach(([key, value]) => {
-    const varName = `@${prefix}-${key.replace(/([A-Z])/g, '-$1').toLowerCase()}`;
-    lines.push(`${varName}: ${value};`);
-  });
-  
-  if (includeComments) {
-    lines.push('\n// Usage example:');
-    lines.push(`// color: @${prefix}-primary;`);
-  }
-  
-  return lines.join('\n');
-}
-
-function exportAsTailwind(theme: Record<string, string>, includeComments: boolean): string {
-  const lines: string[] = [];
-  
-  if (includeComments) {
-    lines.push('/**');
-    lines.push(' * Taichi Theme Generator - Theme Export');
-    lines.push(` * Generated: ${new Date().toISOString()}`);
-    lines.push(' * Format: Tailwind CSS Configuration');
-    lines.push(' */\n');
-  }
-  
-  lines.push('module.exports = {');
-  lines.push('  theme: {');
-  lines.push('    extend: {');
-  lines.push('      colors: {');
-  lines.push('        taichi: {');
-  
-  Object.entries(theme).forEach(([key, value], index, array) => {
-    const isLast = index === array.length - 1;
-    const kebabKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
-    lines.push(`          '${kebabKey}': '${value}'${isLast ? '' : ','}`);
-  });
-  
-  lines.push('        }');
-  lines.push('      }');
-  lines.push('    }');
-  lines.push('  }');
-  lines.push('}');
-  
-  if (includeComments) {
-    lines.push('\n// Usage example:');
-    lines.push('// <div className="bg-taichi-primary text-taichi-text">...');
-  }
-  
-  return lines.join('\n');
-}
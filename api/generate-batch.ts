@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { rateLimit, getRateLimitStatus } from './utils/rate-limit';
+import { parseBoolean } from './utils/params';
+import { parseThemeSpec, buildThemePayload } from './utils/generation';
+
+/**
+ * API Endpoint: Generate Batch
+ *
+ * Generates one theme per item in `items`, each item taking the same fields as
+ * /generate-theme (merged over the optional `defaults`). Results come back in
+ * request order; an invalid item gets its own error without failing the rest.
+ * `stream: true` (or `Accept: application/x-ndjson`) writes one JSON line per
+ * item as it is generated, then a summary line.
+ *
+ * Rate Limit: 200 themes per minute per IP, counted per item, separate from /generate-theme
+ */
+
+const MAX_BATCH_ITEMS = 50;
+const THEMES_PER_MINUTE = 200;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+  res.setHeader('Access-Control-Expose-Headers', 'X-RateLimit-Limit, X-RateLimit-Remaining');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const body = req.body || {};
+  const { items, defaults = {} } = body;
+
+  // Validate the envelope before charging the budget, so a malformed batch costs nothing
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid batch. Provide items as a non-empty array of generation specs.',
+      code: 'INVALID_BATCH'
+    });
+  }
+
+  if (items.length > MAX_BATCH_ITEMS) {
+    return res.status(400).json({
+      success: false,
+      error: `Batch too large. At most ${MAX_BATCH_ITEMS} items per request.`,
+      code: 'BATCH_TOO_LARGE'
+    });
+  }
+
+  if (!defaults || typeof defaults !== 'object' || Array.isArray(defaults)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid defaults. Must be an object of generation options.',
+      code: 'INVALID_BATCH'
+    });
+  }
+
+  const rateLimitResult = await rateLimit(req, THEMES_PER_MINUTE, 60000, 'generate-batch', items.length);
+  const status = getRateLimitStatus(req, THEMES_PER_MINUTE, 'generate-batch');
+  res.setHeader('X-RateLimit-Limit', String(status.total));
+  res.setHeader('X-RateLimit-Remaining', String(status.remaining));
+  if (!rateLimitResult.success) {
+    return res.status(429).json({
+      success: false,
+      error: `Rate limit exceeded. This batch needs ${items.length} of ${status.remaining} remaining themes.`,
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: rateLimitResult.retryAfter
+    });
+  }
+
+  const stream = parseBoolean(body.stream, false) || String(req.headers.accept ?? '').includes('application/x-ndjson');
+
+  // One item's failure, even an unexpected one, never aborts the batch
+  const generateItem = (item: unknown, index: number) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { index, success: false, error: 'Invalid item. Must be an object of generation options.', code: 'INVALID_ITEM' };
+    }
+    try {
+      const parsed = parseThemeSpec({ ...defaults, ...item });
+      if (!('spec' in parsed)) return { index, success: false, ...parsed };
+      return { index, success: true, ...buildThemePayload(parsed.spec) };
+    } catch (error) {
+      console.error(`Error generating batch item ${index}:`, error);
+      return { index, success: false, error: 'Internal server error while generating theme', code: 'INTERNAL_ERROR' };
+    }
+  };
+
+  const summary = { total: items.length, succeeded: 0, failed: 0 };
+
+  if (stream) {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.status(200);
+    items.forEach((item: unknown, index: number) => {
+      const result = generateItem(item, index);
+      summary[result.success ? 'succeeded' : 'failed']++;
+      res.write(`${JSON.stringify(result)}\n`);
+    });
+    res.end(`${JSON.stringify({ summary })}\n`);
+    return;
+  }
+
+  const results = items.map(generateItem);
+  for (const result of results) {
+    summary[result.success ? 'succeeded' : 'failed']++;
+  }
+
+  return res.status(200).json({ success: true, results, summary });
+}
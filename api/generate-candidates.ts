@@ -0,0 +1,135 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { rateLimit } from './utils/rate-limit';
+import { parseLevel } from './utils/params';
+import { parseThemeSpec } from './utils/generation';
+import { generateCandidates, DEFAULT_CANDIDATE_COUNT, DEFAULT_MIN_DISTANCE, MAX_CANDIDATE_COUNT } from '../utils/themeCandidates';
+import { buildDualWideGamutTokens } from '../utils/gamut';
+
+/**
+ * API Endpoint: Generate Candidates
+ *
+ * Generates several themes for a mode (and optional seed) and returns them
+ * ranked by score, each with its score breakdown and reject reasons. Near
+ * duplicates are dropped, so no two candidates are closer than `minDistance`.
+ * Regenerating a candidate's seed with the same request options reproduces it.
+ * With `gamut: 'p3'` each candidate also carries its Display P3 values.
+ *
+ * Rate Limit: 5 requests per minute per IP (each request generates up to 48 themes)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const rateLimitResult = await rateLimit(req, 5, 60000, 'generate-candidates');
+  if (!rateLimitResult.success) {
+    return res.status(429).json({
+      success: false,
+      error: 'Rate limit exceeded. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: rateLimitResult.retryAfter
+    });
+  }
+
+  try {
+    const body = req.body || {};
+    const parsed = parseThemeSpec(body);
+    if (!('spec' in parsed)) {
+      return res.status(400).json({ success: false, ...parsed });
+    }
+    const { spec } = parsed;
+
+    const count = parseLevel(body.count, DEFAULT_CANDIDATE_COUNT);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_CANDIDATE_COUNT) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid count. Must be an integer between 1 and ${MAX_CANDIDATE_COUNT}.`,
+        code: 'INVALID_COUNT'
+      });
+    }
+
+    const minDistance = parseLevel(body.minDistance, DEFAULT_MIN_DISTANCE);
+    if (minDistance < 0 || minDistance > 0.5) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid minDistance. Must be an OKLab ΔE between 0 and 0.5.',
+        code: 'INVALID_MIN_DISTANCE'
+      });
+    }
+
+    const shortlist = generateCandidates({
+      mode: spec.mode,
+      seed: spec.baseColor,
+      count,
+      minDistance,
+      saturation: spec.lightSaturation,
+      contrast: spec.lightContrast,
+      brightness: spec.lightBrightness,
+      darkSaturation: spec.darkSaturation,
+      darkContrast: spec.darkContrast,
+      darkBrightness: spec.darkBrightness,
+      darkFirst: spec.darkFirst,
+      contrastAlgorithm: spec.contrastAlgorithm,
+      engineVersion: spec.engineVersion,
+      harmony: spec.harmony
+    });
+
+    const candidates = spec.gamut === 'p3'
+      ? shortlist.candidates.map((candidate) => ({ ...candidate, p3: buildDualWideGamutTokens(candidate.light, candidate.dark) }))
+      : shortlist.candidates;
+
+    return res.status(200).json({
+      success: true,
+      candidates,
+      metadata: {
+        mode: shortlist.mode,
+        seed: spec.baseColor ?? null,
+        engineVersion: shortlist.engineVersion,
+        ...(shortlist.harmony ? { harmony: shortlist.harmony } : {}),
+        requested: count,
+        returned: shortlist.candidates.length,
+        generated: shortlist.generated,
+        nearDuplicates: shortlist.nearDuplicates,
+        minDistance: shortlist.minDistance,
+        timestamp: Date.now(),
+        gamut: spec.gamut,
+        options: {
+          darkFirst: spec.darkFirst,
+          splitAdjustments: spec.splitAdjustments,
+          contrastAlgorithm: spec.contrastAlgorithm,
+          saturationLevel: spec.saturation,
+          contrastLevel: spec.contrast,
+          brightnessLevel: spec.brightness,
+          lightSaturationLevel: spec.lightSaturation,
+          lightContrastLevel: spec.lightContrast,
+          lightBrightnessLevel: spec.lightBrightness,
+          darkSaturationLevel: spec.darkSaturation,
+          darkContrastLevel: spec.darkContrast,
+          darkBrightnessLevel: spec.darkBrightness,
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error generating candidates:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error while generating candidates',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
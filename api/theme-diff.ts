@@ -0,0 +1,118 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { rateLimit } from './utils/rate-limit';
+import type { CoreThemeTokens } from '../types';
+import {
+  THEME_DIFF_FORMATS,
+  buildThemeDiff,
+  buildThemeChangelog,
+  formatThemeChangelog,
+  hasThemeDiffSources,
+  isThemeDiffFormat
+} from '../utils/themeDiff';
+import { CONTRAST_ALGORITHMS, isContrastAlgorithm } from '../utils/contrast';
+
+/**
+ * API Endpoint: Theme Diff
+ * 
+ * Compares a theme against a baseline ({ light, dark } pairs of hex tokens) and
+ * returns a JSON changelog: changed tokens with before/after values, perceptual
+ * change size, and contrast pass/fail regressions. `format: "markdown"` adds
+ * release notes ready to paste into a PR.
+ * 
+ * Rate Limit: 20 requests per minute per IP
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
+  );
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const rateLimitResult = await rateLimit(req, 20, 60000, 'theme-diff');
+  if (!rateLimitResult.success) {
+    return res.status(429).json({
+      success: false,
+      error: 'Rate limit exceeded. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: rateLimitResult.retryAfter
+    });
+  }
+
+  try {
+    const {
+      baseline,
+      theme,
+      baselineLabel = 'baseline',
+      format = 'json',
+      contrastAlgorithm = 'wcag2'
+    } = req.body || {};
+    const isPair = (value: unknown): value is { light: CoreThemeTokens; dark: CoreThemeTokens } => {
+      if (!value || typeof value !== 'object') return false;
+      const { light, dark } = value as Record<string, unknown>;
+      return hasThemeDiffSources(light) && hasThemeDiffSources(dark);
+    };
+
+    if (!isPair(baseline) || !isPair(theme)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid theme object. Provide baseline and theme as { light, dark } pairs of hex tokens.',
+        code: 'INVALID_THEME'
+      });
+    }
+
+    if (!isThemeDiffFormat(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid format. Must be one of: ${THEME_DIFF_FORMATS.join(', ')}`,
+        code: 'INVALID_FORMAT'
+      });
+    }
+
+    if (!isContrastAlgorithm(contrastAlgorithm)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid contrastAlgorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`,
+        code: 'INVALID_CONTRAST_ALGORITHM'
+      });
+    }
+
+    const changelog = buildThemeChangelog(
+      buildThemeDiff(baseline, theme, contrastAlgorithm),
+      String(baselineLabel)
+    );
+    const rendered = format === 'json' ? null : formatThemeChangelog(changelog, format);
+
+    return res.status(200).json({
+      success: true,
+      changelog,
+      ...(rendered ? { format, content: rendered.content, filename: rendered.filename } : {})
+    });
+
+  } catch (error) {
+    console.error('Error building theme diff:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error while building theme diff',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,209 @@
+import type { GenerationMode, GamutTarget, ContrastAlgorithm, EngineVersion, CustomHarmony } from '../../types';
+import { GENERATION_STYLES, INVALID_HARMONY_MESSAGE, isGenerationStyle, parseBoolean, parseLevel, parseHarmony, inRange } from './params';
+import { generateTheme } from '../../utils/colorUtils';
+import { GAMUT_TARGETS, isGamutTarget } from '../../utils/gamut';
+import { CONTRAST_ALGORITHMS, isContrastAlgorithm } from '../../utils/contrast';
+import { ENGINE_VERSION, ENGINE_VERSIONS, resolveEngineVersion } from '../../utils/engineVersion';
+
+/**
+ * One theme generation request, shared by /generate-theme and /generate-batch
+ *
+ * Parsing returns an error object instead of throwing, so the single endpoint
+ * can answer 400 and the batch endpoint can report it against one item.
+ */
+
+export interface ThemeSpec {
+  mode: GenerationMode;
+  baseColor?: string;
+  darkFirst: boolean;
+  splitAdjustments: boolean;
+  saturation: number;
+  contrast: number;
+  brightness: number;
+  lightSaturation: number;
+  lightContrast: number;
+  lightBrightness: number;
+  darkSaturation: number;
+  darkContrast: number;
+  darkBrightness: number;
+  gamut: GamutTarget;
+  contrastAlgorithm: ContrastAlgorithm;
+  engineVersion: EngineVersion;
+  harmony?: CustomHarmony;
+}
+
+export interface SpecError {
+  error: string;
+  code: string;
+}
+
+// --- Parsing ---
+
+export function parseThemeSpec(body: Record<string, unknown>): { spec: ThemeSpec } | SpecError {
+  const mode = typeof body.mode === 'string'
+    ? body.mode
+    : (typeof body.style === 'string' ? body.style : 'random');
+
+  if (!isGenerationStyle(mode)) {
+    return {
+      error: `Invalid mode/style. Must be one of: ${GENERATION_STYLES.join(', ')}`,
+      code: 'INVALID_STYLE'
+    };
+  }
+
+  const baseColor = typeof body.baseColor === 'string'
+    ? body.baseColor
+    : (typeof body.seed === 'string' ? body.seed : undefined);
+
+  if (baseColor && !/^#[0-9A-F]{6}$/i.test(baseColor)) {
+    return {
+      error: 'Invalid baseColor/seed format. Must be a hex color (e.g., #FF5733)',
+      code: 'INVALID_BASE_COLOR'
+    };
+  }
+
+  const splitAdjustments = parseBoolean(body.splitAdjustments ?? body.split, false);
+  const darkFirst = parseBoolean(body.darkFirst, false);
+
+  const saturation = parseLevel(body.saturationLevel ?? body.saturation ?? body.sat, 0);
+  const contrast = parseLevel(body.contrastLevel ?? body.contrast ?? body.con, 0);
+  const brightness = parseLevel(body.brightnessLevel ?? body.brightness ?? body.bri, 0);
+
+  const lightSaturation = parseLevel(body.lightSaturationLevel ?? body.lsat, saturation);
+  const lightContrast = parseLevel(body.lightContrastLevel ?? body.lcon, contrast);
+  const lightBrightness = parseLevel(body.lightBrightnessLevel ?? body.lbri, brightness);
+
+  const darkSaturation = parseLevel(body.darkSaturationLevel ?? body.dsat, saturation);
+  const darkContrast = parseLevel(body.darkContrastLevel ?? body.dcon, contrast);
+  const darkBrightness = parseLevel(body.darkBrightnessLevel ?? body.dbri, brightness);
+
+  const levelsToValidate = splitAdjustments
+    ? [lightSaturation, lightContrast, lightBrightness, darkSaturation, darkContrast, darkBrightness]
+    : [saturation, contrast, brightness];
+
+  if (!levelsToValidate.every(inRange)) {
+    return {
+      error: 'Adjustment levels must be numbers between -5 and 5.',
+      code: 'INVALID_PARAMETERS'
+    };
+  }
+
+  const gamut = body.gamut ?? 'srgb';
+  if (!isGamutTarget(gamut)) {
+    return {
+      error: `Invalid gamut. Must be one of: ${GAMUT_TARGETS.join(', ')}`,
+      code: 'INVALID_GAMUT'
+    };
+  }
+
+  const contrastAlgorithm = body.contrastAlgorithm ?? 'wcag2';
+  if (!isContrastAlgorithm(contrastAlgorithm)) {
+    return {
+      error: `Invalid contrastAlgorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`,
+      code: 'INVALID_CONTRAST_ALGORITHM'
+    };
+  }
+
+  let harmony: CustomHarmony | undefined;
+  if (mode === 'custom') {
+    const parsed = parseHarmony(body);
+    if (!parsed) return { error: INVALID_HARMONY_MESSAGE, code: 'INVALID_HARMONY' };
+    harmony = parsed;
+  }
+
+  // Pinning a version regenerates a seed exactly as that engine produced it
+  const engineVersion = resolveEngineVersion(body.engineVersion ?? ENGINE_VERSION);
+  if (!engineVersion) {
+    return {
+      error: `Invalid engineVersion. Must be one of: ${ENGINE_VERSIONS.join(', ')}`,
+      code: 'INVALID_ENGINE_VERSION'
+    };
+  }
+
+  return {
+    spec: {
+      mode,
+      baseColor,
+      darkFirst,
+      splitAdjustments,
+      saturation,
+      contrast,
+      brightness,
+      lightSaturation: splitAdjustments ? lightSaturation : saturation,
+      lightContrast: splitAdjustments ? lightContrast : contrast,
+      lightBrightness: splitAdjustments ? lightBrightness : brightness,
+      darkSaturation: splitAdjustments ? darkSaturation : saturation,
+      darkContrast: splitAdjustments ? darkContrast : contrast,
+      darkBrightness: splitAdjustments ? darkBrightness : brightness,
+      gamut,
+      contrastAlgorithm,
+      engineVersion,
+      ...(harmony ? { harmony } : {})
+    }
+  };
+}
+
+// --- Generation ---
+
+/** Response body fields for one theme (everything except `success`). */
+export function buildThemePayload(spec: ThemeSpec) {
+  const result = generateTheme({
+    mode: spec.mode,
+    seed: spec.baseColor,
+    levels: { saturation: spec.lightSaturation, contrast: spec.lightContrast, brightness: spec.lightBrightness },
+    darkLevels: { saturation: spec.darkSaturation, contrast: spec.darkContrast, brightness: spec.darkBrightness },
+    darkFirst: spec.darkFirst,
+    gamut: spec.gamut,
+    contrastAlgorithm: spec.contrastAlgorithm,
+    engineVersion: spec.engineVersion,
+    harmony: spec.harmony
+  });
+
+  return {
+    light: result.light,
+    dark: result.dark,
+    scales: result.scales,
+    ...(result.p3 ? { p3: result.p3 } : {}),
+    metadata: {
+      mode: result.mode,
+      style: result.mode,
+      seed: result.seed,
+      engineVersion: result.engineVersion,
+      ...(result.harmony ? { harmony: result.harmony } : {}),
+      timestamp: Date.now(),
+      colorSpace: 'OKLCH',
+      gamut: spec.gamut,
+      philosophy: getPhilosophy(result.mode),
+      options: {
+        darkFirst: spec.darkFirst,
+        splitAdjustments: spec.splitAdjustments,
+        contrastAlgorithm: spec.contrastAlgorithm,
+        saturationLevel: spec.saturation,
+        contrastLevel: spec.contrast,
+        brightnessLevel: spec.brightness,
+        lightSaturationLevel: spec.lightSaturation,
+        lightContrastLevel: spec.lightContrast,
+        lightBrightnessLevel: spec.lightBrightness,
+        darkSaturationLevel: spec.darkSaturation,
+        darkContrastLevel: spec.darkContrast,
+        darkBrightnessLevel: spec.darkBrightness,
+      }
+    }
+  };
+}
+
+function getPhilosophy(style: string): string {
+  const philosophies: Record<string, string> = {
+    'monochrome': 'Unity and simplicity through variations of a single hue.',
+    'analogous': 'Harmony found in nature by choosing neighboring colors on the wheel.',
+    'complementary': 'High-energy contrast by pairing opposites for maximum impact.',
+    'split-complementary': 'Visual variety with less tension than a direct complement.',
+    'triadic': 'A vibrant, balanced triangle of color for a bold UI.',
+    'tetradic': 'Rich and complex harmony using four colors in two complementary pairs.',
+    'compound': 'Balanced sophistication using multiple contrasting and adjacent hues.',
+    'triadic-split': 'A wide, dynamic palette for complex design systems.',
+    'custom': 'Hue relationships drawn by hand to carry an existing brand.',
+    'random': 'Embracing spontaneity and the natural flow of creative energy.'
+  };
+  return philosophies[style] || philosophies.random;
+}
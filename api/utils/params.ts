@@ -0,0 +1,58 @@
+/**
+ * Request parameter parsing shared by the generation endpoints
+ *
+ * Clients send levels and flags as JSON numbers/booleans or as strings
+ * (query-style bodies), so both are accepted.
+ */
+
+import type { CustomHarmony, GenerationMode } from '../../types';
+import {
+  parseCustomHarmony,
+  CUSTOM_HARMONY_MIN_OFFSETS,
+  CUSTOM_HARMONY_MAX_OFFSETS,
+  CUSTOM_CHROMA_VARIANCE_MAX
+} from '../../utils/paletteEngine';
+
+export const GENERATION_STYLES: GenerationMode[] = [
+  'monochrome', 'analogous', 'complementary', 'split-complementary',
+  'triadic', 'tetradic', 'compound', 'triadic-split', 'random', 'custom'
+];
+
+export function isGenerationStyle(value: string): value is GenerationMode {
+  return (GENERATION_STYLES as string[]).includes(value);
+}
+
+export function parseBoolean(value: unknown, fallback = false): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
+    if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
+  }
+  return fallback;
+}
+
+export function parseLevel(value: unknown, fallback = 0): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return fallback;
+}
+
+export function inRange(value: number): boolean {
+  return Number.isFinite(value) && value >= -5 && value <= 5;
+}
+
+export const INVALID_HARMONY_MESSAGE =
+  `Invalid harmony. Provide ${CUSTOM_HARMONY_MIN_OFFSETS}-${CUSTOM_HARMONY_MAX_OFFSETS} hue offsets in degrees ` +
+  `and an optional chromaVariance between 0 and ${CUSTOM_CHROMA_VARIANCE_MAX}.`;
+
+/** Custom-mode offsets, from `harmony: { offsets, chromaVariance }` or top-level fields. */
+export function parseHarmony(body: Record<string, unknown>): CustomHarmony | null {
+  const nested = body.harmony;
+  const source = nested && typeof nested === 'object' ? nested as Record<string, unknown> : body;
+  return parseCustomHarmony(source.offsets, source.chromaVariance);
+}
@@ -15,10 +15,12 @@ const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
  * @param req - The Vercel request object
  * @param maxRequests - Maximum number of requests allowed in the time window
  * @param windowMs - Time window in milliseconds
+ * @param scope - Bucket name, so each endpoint keeps its own count per client
+ * @param cost - Units this request uses (e.g. themes in a batch); defaults to 1
  * @returns Promise<RateLimitResult> - Success status and retry-after time if limited
  * 
  * Example usage:
- * const result = await rateLimit(req, 10, 60000); // 10 requests per minute
+ * const result = await rateLimit(req, 10, 60000, 'generate-theme'); // 10 requests per minute
  * if (!result.success) {
  *   return res.status(429).json({ error: 'Rate limit exceeded', retryAfter: result.retryAfter });
  * }
@@ -26,10 +28,12 @@ const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 export async function rateLimit(
   req: VercelRequest,
   maxRequests: number = 10,
-  windowMs: number = 60000
+  windowMs: number = 60000,
+  scope: string = 'default',
+  cost: number = 1
 ): Promise<RateLimitResult> {
   // Get client identifier (IP address or forwarded IP)
-  const identifier = getClientIdentifier(req);
+  const identifier = `${scope}:${getClientIdentifier(req)}`;
   const now = Date.now();
 
   // Get or create rate limit entry
@@ -41,18 +45,23 @@ export async function rateLimit(
   }
 
   if (!entry || now > entry.resetTime) {
+    // A request costing more than the whole window can never succeed
+    if (cost > maxRequests) {
+      return { success: false, retryAfter: Math.ceil(windowMs / 1000) };
+    }
+
     // Create new entry or reset expired entry
     entry = {
-      count: 1,
+      count: cost,
       resetTime: now + windowMs
     };
     rateLimitStore.set(identifier, entry);
     return { success: true };
   }
 
-  if (entry.count < maxRequests) {
+  if (entry.count + cost <= maxRequests) {
     // Increment count
-    entry.count++;
+    entry.count += cost;
     rateLimitStore.set(identifier, entry);
     return { success: true };
   }
@@ -105,13 +114,14 @@ function cleanupExpiredEntries(now: number): void {
  */
 export function getRateLimitStatus(
   req: VercelRequest,
-  maxRequests: number = 10
+  maxRequests: number = 10,
+  scope: string = 'default'
 ): {
   remaining: number;
   resetTime: number;
   total: number;
 } {
-  const identifier = getClientIdentifier(req);
+  const identifier = `${scope}:${getClientIdentifier(req)}`;
   const entry = rateLimitStore.get(identifier);
   const now = Date.now();
 
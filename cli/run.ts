@@ -0,0 +1,409 @@
+/**
+ * Taichi CLI
+ * Offline theme generation, export, validation and diffing for build pipelines
+ * Version: 25.12.2
+ *
+ * Every command is a pure function of its arguments and input files: the seed
+ * is required and timestamps come from SOURCE_DATE_EPOCH (export headers omit
+ * them when it is unset, changelogs use the Unix epoch), so the same
+ * invocation always writes the same bytes.
+ *
+ * Exit codes: 0 success, 1 validation failed or diff regressed, 2 usage error.
+ */
+
+import { parseArgs } from 'node:util';
+import { basename } from 'node:path';
+import { ContrastAlgorithm, GamutTarget, GenerationMode, ThemeTokens } from '../types';
+import { generateTheme, upgradeThemeTokens, IMAGE_SLOT_KEYS, PaletteSlot } from '../utils/colorUtils';
+import { EXPORT_FORMATS, exportThemeAs } from '../utils/themeExport';
+import { base64ToBytes } from '../utils/zip';
+import { CONTRAST_ALGORITHMS, isContrastAlgorithm } from '../utils/contrast';
+import { GAMUT_TARGETS, isGamutTarget } from '../utils/gamut';
+import { ENGINE_VERSION, ENGINE_VERSIONS, resolveEngineVersion } from '../utils/engineVersion';
+import { parseCustomHarmony, CUSTOM_CHROMA_VARIANCE_MAX } from '../utils/paletteEngine';
+import { CONTRAST_REPORT_FORMATS, buildContrastReport, formatContrastReport, isContrastReportFormat } from '../utils/contrastReport';
+import {
+  THEME_DIFF_FORMATS,
+  buildThemeDiff,
+  buildThemeChangelog,
+  formatThemeChangelog,
+  hasThemeDiffSources,
+  isThemeDiffFormat
+} from '../utils/themeDiff';
+import { parseThemeSource, buildImportMapping, applyImportMapping, parseImportedColor } from '../utils/themeImport';
+
+// --- Configuration ---
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+  writeFile: (path: string, data: string | Uint8Array) => void;
+  env: Record<string, string | undefined>;
+}
+
+// Same set the generate-theme endpoint accepts; 'image' needs a photo
+const CLI_MODES: GenerationMode[] = [
+  'random', 'monochrome', 'analogous', 'complementary', 'split-complementary',
+  'triadic', 'tetradic', 'compound', 'triadic-split', 'custom',
+];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const GENERATION_OPTIONS = {
+  seed: { type: 'string' },
+  mode: { type: 'string', default: 'random' },
+  saturation: { type: 'string', default: '0' },
+  contrast: { type: 'string', default: '0' },
+  brightness: { type: 'string', default: '0' },
+  'dark-saturation': { type: 'string' },
+  'dark-contrast': { type: 'string' },
+  'dark-brightness': { type: 'string' },
+  'dark-first': { type: 'boolean', default: false },
+  palette: { type: 'string' },
+  'palette-side': { type: 'string', default: 'light' },
+  'contrast-algorithm': { type: 'string', default: 'wcag2' },
+  'engine-version': { type: 'string', default: ENGINE_VERSION },
+  offsets: { type: 'string' },
+  'chroma-variance': { type: 'string' },
+} as const;
+
+const OUTPUT_OPTIONS = {
+  format: { type: 'string' },
+  out: { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const USAGE = `Usage: taichi <command> [options]
+
+Commands:
+  generate              Generate a theme and write it in any export format
+  validate [theme]      Contrast report; exits 1 when any pair fails
+  diff <baseline> [theme]
+                        Release notes between a baseline and a theme
+
+Theme files can be CSS variables, JSON or Tailwind colors (anything Import reads)
+and must define every token for both modes. Without a theme file, validate and
+diff generate the theme from the options below.
+
+Generation:
+  --seed <hex>                  Seed color (required)
+  --mode <mode>                 ${CLI_MODES.join(', ')} (default random)
+  --saturation, --contrast, --brightness <-5..5>
+  --dark-saturation, --dark-contrast, --dark-brightness <-5..5>
+                                Dark-mode levels (default: the shared levels)
+  --offsets=<deg,...>           Custom mode: 2-4 hue offsets from the primary
+                                (secondary, accent, then good and bad), e.g. --offsets=45,-100
+  --chroma-variance <0..${CUSTOM_CHROMA_VARIANCE_MAX}>    Custom mode: secondary chroma drop (default 0.15)
+  --dark-first                  Derive light mode from dark
+  --palette <slot=color,...>    Pin slots (${IMAGE_SLOT_KEYS.join(', ')})
+  --palette-side <light|dark>   Mode the pinned colors belong to (default light)
+  --contrast-algorithm <${CONTRAST_ALGORITHMS.join('|')}>
+  --engine-version <version>    Engine to regenerate with: ${ENGINE_VERSIONS.join(', ')}
+                                (default ${ENGINE_VERSION}; a major such as 1 also works)
+
+generate:
+  --format <format>             ${EXPORT_FORMATS.join(', ')} (default css)
+  --gamut <${GAMUT_TARGETS.join('|')}>             Add Display P3 values (CSS, JSON)
+  --prefix <name>               Variable prefix (default taichi)
+  --package-name <name>         Kotlin package for compose
+  --no-scales                   Leave out tonal scales
+  --no-data-viz                 Leave out the chart palettes
+  --no-comments                 Leave out header comments
+  --out <path|->                Output file (default: the export's file name)
+
+validate:
+  --format <${CONTRAST_REPORT_FORMATS.join('|')}>  Report format (default markdown)
+  --decorative-borders          Report borders as decorative, outside pass/fail
+  --out <path>                  Write the report to a file instead of stdout
+
+diff:
+  --format <${THEME_DIFF_FORMATS.join('|')}>      Output format (default markdown)
+  --label <name>                Baseline name in the notes (default: file name)
+  --fail-on-regression          Exit 1 when a contrast pair newly fails
+  --out <path>                  Write to a file instead of stdout
+`;
+
+type DualTokens = { light: ThemeTokens; dark: ThemeTokens };
+type ParsedValues = Record<string, string | boolean | undefined>;
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+// --- Input Parsing ---
+
+function parseLevel(values: ParsedValues, name: string, fallback?: number): number {
+  const raw = values[name];
+  if (raw === undefined && fallback !== undefined) return fallback;
+  const level = Number(raw);
+  if (typeof raw !== 'string' || raw.trim() === '' || !Number.isFinite(level) || level < -5 || level > 5) {
+    fail(`--${name} must be a number between -5 and 5`);
+  }
+  return level;
+}
+
+function parsePalette(text: string): Partial<Record<PaletteSlot, string>> {
+  const palette: Partial<Record<PaletteSlot, string>> = {};
+  for (const pair of text.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [slot, value = ''] = pair.split('=').map((part) => part.trim());
+    if (!(IMAGE_SLOT_KEYS as readonly string[]).includes(slot)) {
+      fail(`Unknown palette slot "${slot}". Use one of: ${IMAGE_SLOT_KEYS.join(', ')}`);
+    }
+    const color = parseImportedColor(value);
+    if (!color) fail(`Invalid color for palette slot ${slot}: "${value}"`);
+    palette[slot as PaletteSlot] = color;
+  }
+  return palette;
+}
+
+function generateFromOptions(values: ParsedValues) {
+  const seed = values.seed;
+  if (typeof seed !== 'string') fail('--seed is required (e.g. --seed "#3b82f6")');
+  if (!HEX_PATTERN.test(seed)) fail(`Invalid --seed "${seed}". Must be a hex color (e.g. #3b82f6)`);
+
+  const mode = values.mode as GenerationMode;
+  if (!CLI_MODES.includes(mode)) fail(`Invalid --mode. Must be one of: ${CLI_MODES.join(', ')}`);
+
+  const contrastAlgorithm = values['contrast-algorithm'];
+  if (!isContrastAlgorithm(contrastAlgorithm)) {
+    fail(`Invalid --contrast-algorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`);
+  }
+
+  const gamut = values.gamut ?? 'srgb';
+  if (!isGamutTarget(gamut)) fail(`Invalid --gamut. Must be one of: ${GAMUT_TARGETS.join(', ')}`);
+
+  const engineVersion = resolveEngineVersion(values['engine-version']);
+  if (!engineVersion) fail(`Unknown --engine-version. Must be one of: ${ENGINE_VERSIONS.join(', ')}`);
+
+  const paletteSide = values['palette-side'];
+  if (paletteSide !== 'light' && paletteSide !== 'dark') fail('--palette-side must be light or dark');
+
+  const saturation = parseLevel(values, 'saturation');
+  const contrast = parseLevel(values, 'contrast');
+  const brightness = parseLevel(values, 'brightness');
+
+  const palette = typeof values.palette === 'string' ? parsePalette(values.palette) : undefined;
+
+  let harmony;
+  if (mode === 'custom') {
+    if (typeof values.offsets !== 'string') fail('--offsets is required for --mode custom (e.g. --offsets=45,-100)');
+    harmony = parseCustomHarmony(values.offsets, values['chroma-variance']);
+    if (!harmony) {
+      fail(`Invalid --offsets or --chroma-variance. Use 2-4 comma-separated degrees and a variance from 0 to ${CUSTOM_CHROMA_VARIANCE_MAX}`);
+    }
+  }
+
+  return generateTheme({
+    mode,
+    seed: seed.toLowerCase(),
+    levels: { saturation, contrast, brightness },
+    darkLevels: {
+      saturation: parseLevel(values, 'dark-saturation', saturation),
+      contrast: parseLevel(values, 'dark-contrast', contrast),
+      brightness: parseLevel(values, 'dark-brightness', brightness),
+    },
+    darkFirst: values['dark-first'] === true,
+    palette,
+    paletteSide: palette ? paletteSide : undefined,
+    gamut: gamut as GamutTarget,
+    contrastAlgorithm: contrastAlgorithm as ContrastAlgorithm,
+    engineVersion,
+    harmony
+  });
+}
+
+/** Reads a theme through the import parsers; only modes with every core token are kept, missing roles are derived. */
+function readThemeFile(io: CliIO, path: string): Partial<DualTokens> {
+  const parsed = parseThemeSource(io.readFile(path));
+  if (!parsed || parsed.colors.length === 0) fail(`No theme colors found in ${path}`);
+  const imported = applyImportMapping(parsed.colors, buildImportMapping(parsed.colors));
+  const theme: Partial<DualTokens> = {};
+  if (hasThemeDiffSources(imported.light)) theme.light = upgradeThemeTokens(imported.light);
+  if (hasThemeDiffSources(imported.dark)) theme.dark = upgradeThemeTokens(imported.dark);
+  if (!theme.light && !theme.dark) fail(`${path} does not define every theme token for either mode`);
+  return theme;
+}
+
+function requireDual(theme: Partial<DualTokens>, path: string): DualTokens {
+  if (!theme.light || !theme.dark) fail(`${path} must define every token for both light and dark modes`);
+  return { light: theme.light, dark: theme.dark };
+}
+
+function buildTimestamp(env: CliIO['env']): string | null {
+  const epoch = Number(env.SOURCE_DATE_EPOCH);
+  return env.SOURCE_DATE_EPOCH && Number.isFinite(epoch) ? new Date(epoch * 1000).toISOString() : null;
+}
+
+function emit(io: CliIO, out: string | undefined, content: string): void {
+  if (out && out !== '-') {
+    io.writeFile(out, content);
+    io.stderr(`Wrote ${out}\n`);
+  } else {
+    io.stdout(content.endsWith('\n') ? content : `${content}\n`);
+  }
+}
+
+// --- Commands ---
+
+function runGenerate(args: string[], io: CliIO): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...GENERATION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      gamut: { type: 'string', default: 'srgb' },
+      prefix: { type: 'string', default: 'taichi' },
+      'package-name': { type: 'string' },
+      'no-scales': { type: 'boolean', default: false },
+      'no-data-viz': { type: 'boolean', default: false },
+      'no-comments': { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) return usage(io);
+
+  const format = values.format ?? 'css';
+  if (!(EXPORT_FORMATS as string[]).includes(format)) {
+    fail(`Invalid --format. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const result = generateFromOptions(values);
+  const { content, filename, encoding } = exportThemeAs(
+    {
+      light: result.light,
+      dark: result.dark,
+      mode: result.mode,
+      seed: result.seed,
+      engineVersion: result.engineVersion,
+      ...(result.harmony ? { harmony: result.harmony } : {}),
+    },
+    format as (typeof EXPORT_FORMATS)[number],
+    {
+      prefix: values.prefix,
+      includeComments: !values['no-comments'],
+      includeScales: !values['no-scales'],
+      includeDataViz: !values['no-data-viz'],
+      scales: result.scales,
+      gamut: result.gamut,
+      p3: result.p3,
+      packageName: values['package-name'],
+      generatedAt: buildTimestamp(io.env),
+    }
+  );
+
+  if (values.out === '-') {
+    if (encoding === 'base64') fail(`${format} is a ZIP archive; write it to a file with --out`);
+    io.stdout(content);
+    return EXIT_OK;
+  }
+  const out = values.out ?? filename;
+  io.writeFile(out, encoding === 'base64' ? base64ToBytes(content) : content);
+  io.stderr(`Wrote ${out} (${result.mode}, seed ${result.seed})\n`);
+  return EXIT_OK;
+}
+
+function runValidate(args: string[], io: CliIO): number {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      ...GENERATION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      'decorative-borders': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+  if (values.help) return usage(io);
+  if (positionals.length > 1) fail('validate takes at most one theme file');
+
+  const format = values.format ?? 'markdown';
+  if (!isContrastReportFormat(format)) {
+    fail(`Invalid --format. Must be one of: ${CONTRAST_REPORT_FORMATS.join(', ')}`);
+  }
+  const algorithm = values['contrast-algorithm'];
+  if (!isContrastAlgorithm(algorithm)) {
+    fail(`Invalid --contrast-algorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`);
+  }
+
+  const source = positionals[0] ? readThemeFile(io, positionals[0]) : generateFromOptions(values);
+  const theme = source.light && source.dark
+    ? { light: source.light, dark: source.dark }
+    : (source.light ?? source.dark)!;
+  const report = buildContrastReport(theme, algorithm, { decorativeBorders: values['decorative-borders'] });
+
+  emit(io, values.out, format === 'json' ? JSON.stringify(report, null, 2) : formatContrastReport(report, format).content);
+  const decorative = report.summary.decorative > 0 ? `; ${report.summary.decorative} decorative not audited` : '';
+  io.stderr(`${report.summary.passed}/${report.summary.total} pairs pass (${algorithm}${decorative})\n`);
+  return report.summary.failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+function runDiff(args: string[], io: CliIO): number {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      ...GENERATION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      label: { type: 'string' },
+      'fail-on-regression': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+  if (values.help) return usage(io);
+  if (positionals.length === 0 || positionals.length > 2) fail('diff takes a baseline file and an optional theme file');
+
+  const format = values.format ?? 'markdown';
+  if (!isThemeDiffFormat(format)) fail(`Invalid --format. Must be one of: ${THEME_DIFF_FORMATS.join(', ')}`);
+  const algorithm = values['contrast-algorithm'];
+  if (!isContrastAlgorithm(algorithm)) {
+    fail(`Invalid --contrast-algorithm. Must be one of: ${CONTRAST_ALGORITHMS.join(', ')}`);
+  }
+
+  const [baselinePath, themePath] = positionals;
+  const baseline = requireDual(readThemeFile(io, baselinePath), baselinePath);
+  const theme = themePath ? requireDual(readThemeFile(io, themePath), themePath) : generateFromOptions(values);
+
+  // The changelog schema requires a timestamp; without SOURCE_DATE_EPOCH it is the Unix epoch
+  const changelog = buildThemeChangelog(
+    buildThemeDiff(baseline, theme, algorithm),
+    values.label ?? basename(baselinePath),
+    new Date(buildTimestamp(io.env) ?? 0)
+  );
+
+  emit(io, values.out, formatThemeChangelog(changelog, format).content);
+  io.stderr(`${changelog.summary.changed} changed, ${changelog.summary.regressions} regressions (${changelog.summary.size})\n`);
+  return values['fail-on-regression'] && changelog.regressions.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+function usage(io: CliIO): number {
+  io.stdout(USAGE);
+  return EXIT_OK;
+}
+
+// --- Entry ---
+
+const COMMANDS: Record<string, (args: string[], io: CliIO) => number> = {
+  generate: runGenerate,
+  validate: runValidate,
+  diff: runDiff,
+};
+
+export function runCli(argv: string[], io: CliIO): number {
+  const [command, ...args] = argv;
+  if (!command || command === '--help' || command === '-h' || command === 'help') return usage(io);
+
+  const run = COMMANDS[command];
+  if (!run) {
+    io.stderr(`taichi: unknown command "${command}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return run(args, io);
+  } catch (error) {
+    io.stderr(`taichi ${command}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_USAGE;
+  }
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import fs from 'node:fs';
+import { runCli } from './run';
+
+process.exitCode = runCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readFile: (path) => fs.readFileSync(path, 'utf8'),
+  writeFile: (path, data) => fs.writeFileSync(path, data),
+  env: process.env,
+});
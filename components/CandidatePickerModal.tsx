@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { X, LayoutGrid, Shuffle, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ThemeTokens } from '../types';
+import { THUMBNAIL_TOKENS } from '../utils/themeLibrary';
+import {
+  CandidateOptions,
+  CandidateShortlist,
+  ThemeCandidate,
+  MAX_CANDIDATE_COUNT,
+  generateCandidates
+} from '../utils/themeCandidates';
+
+interface CandidatePickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPick: (candidate: ThemeCandidate, shortlist: CandidateShortlist) => void;
+  options: Omit<CandidateOptions, 'seed' | 'count'>;
+  seed: string;             // Anchor when browsing around the current theme
+  theme: ThemeTokens;
+}
+
+const COUNTS = [6, 9, MAX_CANDIDATE_COUNT];
+
+const BREAKDOWN_LABELS: Array<[keyof ThemeCandidate['score'], string]> = [
+  ['contrastHeadroom', 'Contrast'],
+  ['harmonyConsistency', 'Harmony'],
+  ['chromaBalance', 'Chroma'],
+  ['uiUsability', 'Usability'],
+  ['aestheticBias', 'Aesthetic'],
+];
+
+const CandidatePickerModal: React.FC<CandidatePickerModalProps> = ({ isOpen, onClose, onPick, options, seed, theme }) => {
+  const [mounted, setMounted] = useState(false);
+  const [anchored, setAnchored] = useState(true);
+  const [count, setCount] = useState(COUNTS[0]);
+  const [shortlist, setShortlist] = useState<CandidateShortlist | null>(null);
+  const [batch, setBatch] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMounted(true);
+    } else {
+      setTimeout(() => setMounted(false), 300);
+    }
+  }, [isOpen]);
+
+  // Generation takes a few hundred ms; defer it so the modal paints first
+  useEffect(() => {
+    if (!isOpen) return;
+    setShortlist(null);
+    const timer = setTimeout(() => {
+      setShortlist(generateCandidates({ ...options, count, seed: anchored ? seed : undefined }));
+    }, 50);
+    return () => clearTimeout(timer);
+    // options is rebuilt on every App render; its fields are what matter
+  }, [isOpen, anchored, count, batch, seed, options.mode, options.darkFirst, options.contrastAlgorithm,
+      options.saturation, options.contrast, options.brightness,
+      options.darkSaturation, options.darkContrast, options.darkBrightness, options.harmony]);
+
+  if (!mounted && !isOpen) return null;
+
+  const inputStyle = { backgroundColor: theme.card2, borderColor: theme.border, color: theme.text };
+
+  return (
+    <div
+      className={`fixed inset-0 z-[110] flex items-center justify-center p-4 transition-all duration-300 ${isOpen ? 'bg-black/40 backdrop-blur-sm opacity-100' : 'bg-black/0 backdrop-blur-none opacity-0 pointer-events-none'}`}
+      onClick={onClose}
+    >
+      <div
+        className={`w-full max-w-[1100px] rounded-3xl shadow-2xl overflow-hidden transform transition-all duration-300 flex flex-col max-h-[94vh] ${isOpen ? 'scale-100 translate-y-0' : 'scale-95 translate-y-4'}`}
+        style={{ backgroundColor: theme.card, color: theme.text, borderColor: theme.border, borderWidth: 1 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 md:p-6 border-b flex items-center justify-between shrink-0" style={{ borderColor: theme.border }}>
+          <div className="flex items-center gap-3">
+             <div className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm" style={{ backgroundColor: theme.primary, color: theme.primaryFg }}>
+                 <LayoutGrid size={24} />
+             </div>
+             <div>
+                <h2 className="text-xl font-bold leading-tight">Candidates</h2>
+                <p className="text-sm opacity-60 font-medium">Distinct {options.mode} themes, best score first</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover-themed transition-colors" style={{ color: theme.textMuted }}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-5 md:p-6 border-b flex flex-wrap items-center gap-2 shrink-0" style={{ borderColor: theme.border }}>
+          <select
+            value={anchored ? 'seed' : 'any'}
+            onChange={(e) => setAnchored(e.target.value === 'seed')}
+            className="text-sm font-bold rounded-xl border px-3 py-2 outline-none"
+            style={inputStyle}
+          >
+            <option value="seed">Around {seed}</option>
+            <option value="any">Any hue</option>
+          </select>
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="text-sm font-bold rounded-xl border px-3 py-2 outline-none"
+            style={inputStyle}
+          >
+            {COUNTS.map((value) => (
+              <option key={value} value={value}>{value} candidates</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setBatch(batch + 1)}
+            disabled={anchored}
+            className="px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 transition-all hover-themed border disabled:opacity-50"
+            style={{ borderColor: theme.border }}
+            title={anchored ? 'Seeded shortlists are reproducible; switch to Any hue to reshuffle' : 'New batch'}
+          >
+            <Shuffle size={16} />
+            Shuffle
+          </button>
+        </div>
+
+        <div className="p-5 md:p-6 overflow-y-auto flex-1 no-scrollbar">
+          {!shortlist && <p className="text-sm text-center opacity-50 py-8">Generating candidates…</p>}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {shortlist?.candidates.map((candidate) => (
+              <button
+                key={candidate.seed}
+                onClick={() => onPick(candidate, shortlist)}
+                className="text-left rounded-2xl border p-3 space-y-3 transition-transform hover:scale-[1.02]"
+                style={{ borderColor: theme.border, backgroundColor: theme.card2 }}
+                title="Use this theme"
+              >
+                <div className="w-full h-10 rounded-lg overflow-hidden flex border" style={{ borderColor: theme.border }}>
+                  {THUMBNAIL_TOKENS.map(({ side, key }) => (
+                    <div key={`${side}-${key}`} className="flex-1 h-full" style={{ backgroundColor: candidate[side][key] }} />
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold rounded-md px-1.5 py-0.5" style={{ backgroundColor: theme.primary, color: theme.primaryFg }}>#{candidate.rank}</span>
+                  <span className="font-bold text-sm">{candidate.score.total.toFixed(1)}</span>
+                  <span className="text-[10px] font-mono opacity-60 ml-auto">{candidate.mode} · {candidate.seed}</span>
+                </div>
+                <div className="grid grid-cols-5 gap-1">
+                  {BREAKDOWN_LABELS.map(([key, label]) => (
+                    <div key={key} title={`${label}: ${candidate.score[key].toFixed(1)} / 10`}>
+                      <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: theme.border }}>
+                        <div className="h-full" style={{ width: `${Math.min(100, candidate.score[key] * 10)}%`, backgroundColor: theme.accent }} />
+                      </div>
+                      <div className="text-[9px] opacity-60 mt-0.5 truncate">{label}</div>
+                    </div>
+                  ))}
+                </div>
+                {candidate.rejects.length === 0 ? (
+                  <div className="flex items-center gap-1 text-xs" style={{ color: theme.good }}>
+                    <CheckCircle2 size={12} /> No rejects
+                  </div>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {candidate.rejects.map((reject, i) => (
+                      <li key={i} className="flex items-start gap-1 text-[11px]" style={{ color: reject.severity === 'critical' ? theme.bad : theme.textMuted }}>
+                        <AlertTriangle size={11} className="shrink-0 mt-0.5" />
+                        <span>{reject.side}: {reject.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-5 md:px-6 py-3 border-t text-xs opacity-60 shrink-0" style={{ borderColor: theme.border }}>
+          {shortlist
+            ? `${shortlist.candidates.length} of ${shortlist.generated} generated · ${shortlist.nearDuplicates} near-duplicates skipped (ΔE < ${shortlist.minDistance})`
+            : ' '}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePickerModal;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitCompare, ArrowLeftRight } from 'lucide-react';
+import { ContrastAlgorithm, DualTheme, ThemeDiffEntry, ThemeTokens } from '../types';
+import { buildThemeDiff } from '../utils/themeDiff';
+
+interface CompareViewProps {
+  current: DualTheme;
+  candidate: DualTheme;
+  candidates: DualTheme[];   // Recent history entries offered as B
+  onCandidateChange: (theme: DualTheme) => void;
+  side: 'light' | 'dark';
+  onSideChange: (side: 'light' | 'dark') => void;
+  contrastAlgorithm: ContrastAlgorithm;
+  onPromote: (side: 'light' | 'dark', tokens: Partial<ThemeTokens>) => void;
+  onClose: () => void;
+  theme: ThemeTokens;
+  children?: React.ReactNode; // The A | B preview panes
+}
+
+const formatSigned = (value: number, digits: number) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const CompareView: React.FC<CompareViewProps> = ({
+  current,
+  candidate,
+  candidates,
+  onCandidateChange,
+  side,
+  onSideChange,
+  contrastAlgorithm,
+  onPromote,
+  onClose,
+  theme,
+  children,
+}) => {
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const diff = useMemo(
+    () => buildThemeDiff(current, candidate, contrastAlgorithm),
+    [current, candidate, contrastAlgorithm]
+  );
+  const rows = diff.entries.filter((entry) => entry.side === side && (!changedOnly || entry.changed));
+  const changedRows = diff.entries.filter((entry) => entry.side === side && entry.changed);
+
+  const promote = (entries: ThemeDiffEntry[]) => {
+    const tokens: Partial<ThemeTokens> = {};
+    for (const entry of entries) tokens[entry.token] = entry.to;
+    onPromote(side, tokens);
+  };
+
+  const cellStyle = { borderColor: theme.border };
+
+  return (
+    <div style={{ backgroundColor: theme.bg, color: theme.text }}>
+      <div className="sticky top-0 z-30 border-b px-4 py-3 flex flex-wrap items-center gap-3" style={{ backgroundColor: theme.card, borderColor: theme.border }}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <GitCompare size={16} />
+          Compare
+        </div>
+        <span className="text-xs font-mono opacity-70">A: current ({current.mode})</span>
+        <ArrowLeftRight size={14} className="opacity-50" />
+        <select
+          value={candidates.indexOf(candidate)}
+          onChange={(e) => onCandidateChange(candidates[Number(e.target.value)])}
+          className="text-xs font-bold rounded-lg border px-2 py-1.5 outline-none"
+          style={{ backgroundColor: theme.card2, borderColor: theme.border, color: theme.text }}
+        >
+          {/* Manual edits keep the theme id, so entries are keyed by position */}
+          {candidates.map((entry, idx) => (
+            <option key={idx} value={idx}>B: #{idx + 1} {entry.mode} {entry.seed}</option>
+          ))}
+          {!candidates.includes(candidate) && <option value={-1}>B: {candidate.mode} {candidate.seed} (no longer in history)</option>}
+        </select>
+        <div className="flex rounded-lg border overflow-hidden text-xs font-bold" style={{ borderColor: theme.border }}>
+          {(['light', 'dark'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => onSideChange(value)}
+              className={`px-3 py-1.5 capitalize ${side === value ? '' : 'hover-themed'}`}
+              style={side === value ? { backgroundColor: theme.primary, color: theme.primaryFg } : {}}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs opacity-70">
+          {diff.summary.changed} changed · max ΔE {diff.summary.maxDeltaE.toFixed(3)} · {diff.summary.regressions} regressions · {diff.summary.improvements} improvements
+        </span>
+        <button onClick={onClose} className="ml-auto p-1.5 rounded-lg hover-themed" title="Exit compare" style={{ color: theme.textMuted }}>
+          <X size={18} />
+        </button>
+      </div>
+
+      {children}
+
+      <div className="p-4 md:p-6 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-bold">Token deltas ({side}, A → B)</h3>
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />
+              Changed only
+            </label>
+            <button
+              onClick={() => promote(changedRows)}
+              disabled={changedRows.length === 0}
+              className="px-3 py-1.5 rounded-lg font-bold disabled:opacity-50"
+              style={{ backgroundColor: theme.primary, color: theme.primaryFg }}
+            >
+              Use all of B ({changedRows.length})
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border" style={cellStyle}>
+          <table className="w-full text-xs font-mono">
+            <thead style={{ backgroundColor: theme.card2 }}>
+              <tr className="text-left">
+                {['Token', 'A', 'B', 'ΔL', 'ΔC', 'ΔH', 'ΔE', 'Contrast', ''].map((label) => (
+                  <th key={label} className="px-3 py-2 font-bold">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((entry) => (
+                <tr key={entry.token} className="border-t" style={cellStyle}>
+                  <td className="px-3 py-2 font-bold">{entry.token}</td>
+                  {[entry.from, entry.to].map((value, idx) => (
+                    <td key={idx} className="px-3 py-2">
+                      <span className="inline-flex items-center gap-2">
+                        <span className="w-4 h-4 rounded border inline-block" style={{ backgroundColor: value, borderColor: theme.border }} />
+                        {value}
+                      </span>
+                    </td>
+                  ))}
+                  <td className="px-3 py-2">{formatSigned(entry.deltaL, 3)}</td>
+                  <td className="px-3 py-2">{formatSigned(entry.deltaC, 3)}</td>
+                  <td className="px-3 py-2">{formatSigned(entry.deltaH, 1)}°</td>
+                  <td className="px-3 py-2">{entry.deltaE.toFixed(3)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap" title={`vs ${entry.partner}, target ${entry.minRatio}:1`}>
+                    <span style={{ color: entry.passesFrom ? theme.text : theme.bad }}>{entry.contrastFrom.toFixed(2)}</span>
+                    {' → '}
+                    <span className="font-bold" style={{ color: entry.passesTo ? (entry.passesFrom ? theme.text : theme.good) : theme.bad }}>
+                      {entry.contrastTo.toFixed(2)}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {entry.changed && (
+                      <button
+                        onClick={() => promote([entry])}
+                        className="px-2 py-1 rounded-md border font-bold hover-themed"
+                        style={cellStyle}
+                      >
+                        Use B
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td colSpan={9} className="px-3 py-6 text-center opacity-60">No differences on the {side} side</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
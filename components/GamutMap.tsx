@@ -0,0 +1,343 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ThemeTokens, GamutMapPoint } from '../types';
+import { OklchColor, toOklch, toHex, hueDifference } from '../utils/oklch';
+import {
+  GAMUT_MAP_MAX_CHROMA,
+  collectGamutPoints,
+  gamutEdgeChroma,
+  hueChromaEnvelope,
+  lightnessChromaBoundary,
+  relocateColor
+} from '../utils/gamutMap';
+
+interface GamutMapProps {
+  light: ThemeTokens;
+  dark: ThemeTokens;
+  primaryHue: number;  // The L×C plane opens on this hue until a token is picked
+  showP3: boolean;     // Initial state of the P3 outline toggle
+  theme: ThemeTokens;  // Shell tokens for the panel chrome
+  onUpdate: (side: 'light' | 'dark', key: keyof ThemeTokens, value: string) => void;
+}
+
+type Chart = 'wheel' | 'plane';
+type SideFilter = 'both' | 'light' | 'dark';
+
+interface DragState {
+  index: number;
+  color: OklchColor;
+  clamped: boolean;
+}
+
+const WHEEL_SIZE = 220;
+const WHEEL_CENTER = WHEEL_SIZE / 2;
+const WHEEL_RADIUS = 100;
+
+const PLANE_WIDTH = 260;
+const PLANE_HEIGHT = 220;
+const PLANE_PAD = { left: 26, right: 8, top: 8, bottom: 20 };
+const PLANE_INNER_W = PLANE_WIDTH - PLANE_PAD.left - PLANE_PAD.right;
+const PLANE_INNER_H = PLANE_HEIGHT - PLANE_PAD.top - PLANE_PAD.bottom;
+const PLANE_ROWS = 25;
+const PLANE_COLS = 20;
+
+// Tokens this close to the plane's hue are drawn at full strength there
+const PLANE_HUE_WINDOW = 20;
+const ACHROMATIC_C = 0.02;
+
+const CHROMA_GUIDES = [0.1, 0.2, 0.3];
+
+// Arrow keys nudge the focused token along the chart's axes; shift moves ten steps
+const KEY_STEPS: Record<Chart, Record<string, [keyof OklchColor, number]>> = {
+  wheel: { ArrowLeft: ['H', -1], ArrowRight: ['H', 1], ArrowUp: ['C', 0.005], ArrowDown: ['C', -0.005] },
+  plane: { ArrowUp: ['L', 0.01], ArrowDown: ['L', -0.01], ArrowRight: ['C', 0.005], ArrowLeft: ['C', -0.005] },
+};
+
+// Hue 0 at the top, increasing clockwise
+function polar(hue: number, chroma: number): { x: number; y: number } {
+  const rad = (hue * Math.PI) / 180;
+  const r = (chroma / GAMUT_MAP_MAX_CHROMA) * WHEEL_RADIUS;
+  return { x: WHEEL_CENTER + r * Math.sin(rad), y: WHEEL_CENTER - r * Math.cos(rad) };
+}
+
+const planeX = (C: number) => PLANE_PAD.left + (C / GAMUT_MAP_MAX_CHROMA) * PLANE_INNER_W;
+const planeY = (L: number) => PLANE_PAD.top + (1 - L) * PLANE_INNER_H;
+
+function outline(points: Array<{ x: number; y: number }>): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ') + 'Z';
+}
+
+const pointKey = (point: GamutMapPoint) => `${point.side}:${point.token}`;
+
+const GamutMap: React.FC<GamutMapProps> = ({ light, dark, primaryHue, showP3: initialShowP3, theme, onUpdate }) => {
+  const wheelRef = useRef<SVGSVGElement>(null);
+  const planeRef = useRef<SVGSVGElement>(null);
+  const [showP3, setShowP3] = useState(initialShowP3);
+  const [sideFilter, setSideFilter] = useState<SideFilter>('both');
+  const [selected, setSelected] = useState('light:primary');
+  const [drag, setDrag] = useState<(DragState & { chart: Chart }) | null>(null);
+
+  const points = useMemo(() => collectGamutPoints(light, dark), [light, dark]);
+  const colorOf = (index: number) => (drag?.index === index ? drag.color : points[index].color);
+
+  const selectedIndex = Math.max(0, points.findIndex((point) => pointKey(point) === selected));
+  const selectedColor = points.length ? colorOf(selectedIndex) : null;
+  const planeHue = selectedColor && selectedColor.C >= ACHROMATIC_C ? selectedColor.H : primaryHue;
+  const roundedPlaneHue = Math.round(planeHue);
+
+  // --- Geometry ---
+
+  const wheelWedges = useMemo(() => {
+    const envelope = hueChromaEnvelope('srgb');
+    return envelope.map((cusp, i) => {
+      const next = envelope[(i + 1) % envelope.length];
+      const a = polar(cusp.H, cusp.C);
+      const b = polar(next.H, next.C);
+      return {
+        path: `M${WHEEL_CENTER} ${WHEEL_CENTER} L${a.x.toFixed(1)} ${a.y.toFixed(1)} L${b.x.toFixed(1)} ${b.y.toFixed(1)}Z`,
+        fill: toHex(cusp),
+      };
+    });
+  }, []);
+  const wheelOutline = useMemo(() => ({
+    srgb: outline(hueChromaEnvelope('srgb').map((p) => polar(p.H, p.C))),
+    p3: outline(hueChromaEnvelope('p3').map((p) => polar(p.H, p.C))),
+  }), []);
+
+  const plane = useMemo(() => {
+    const srgb = lightnessChromaBoundary(roundedPlaneHue, 'srgb');
+    const p3 = lightnessChromaBoundary(roundedPlaneHue, 'p3');
+    const cells: Array<{ x: number; y: number; fill: string }> = [];
+    for (let row = 0; row < PLANE_ROWS; row++) {
+      const L = 1 - (row + 0.5) / PLANE_ROWS;
+      const edge = gamutEdgeChroma(L, roundedPlaneHue, 'srgb');
+      for (let col = 0; col < PLANE_COLS; col++) {
+        const C = ((col + 0.5) / PLANE_COLS) * GAMUT_MAP_MAX_CHROMA;
+        if (C > edge) break;
+        cells.push({ x: planeX((col / PLANE_COLS) * GAMUT_MAP_MAX_CHROMA), y: planeY(1 - row / PLANE_ROWS), fill: toHex({ L, C, H: roundedPlaneHue }) });
+      }
+    }
+    return {
+      cells,
+      srgb: outline(srgb.map((p) => ({ x: planeX(p.C), y: planeY(p.L) }))),
+      p3: outline(p3.map((p) => ({ x: planeX(p.C), y: planeY(p.L) }))),
+    };
+  }, [roundedPlaneHue]);
+
+  // --- Interaction ---
+
+  const toViewBox = (e: React.PointerEvent, svg: SVGSVGElement | null, width: number, height: number) => {
+    const rect = svg?.getBoundingClientRect();
+    if (!rect) return null;
+    return { x: ((e.clientX - rect.left) / rect.width) * width, y: ((e.clientY - rect.top) / rect.height) * height };
+  };
+
+  const targetAtPointer = (chart: Chart, e: React.PointerEvent): Partial<OklchColor> | null => {
+    if (chart === 'wheel') {
+      const p = toViewBox(e, wheelRef.current, WHEEL_SIZE, WHEEL_SIZE);
+      if (!p) return null;
+      const dx = p.x - WHEEL_CENTER;
+      const dy = p.y - WHEEL_CENTER;
+      return {
+        H: (Math.atan2(dx, -dy) * 180) / Math.PI,
+        C: (Math.hypot(dx, dy) / WHEEL_RADIUS) * GAMUT_MAP_MAX_CHROMA,
+      };
+    }
+    const p = toViewBox(e, planeRef.current, PLANE_WIDTH, PLANE_HEIGHT);
+    if (!p) return null;
+    return {
+      L: 1 - (p.y - PLANE_PAD.top) / PLANE_INNER_H,
+      C: ((p.x - PLANE_PAD.left) / PLANE_INNER_W) * GAMUT_MAP_MAX_CHROMA,
+    };
+  };
+
+  const commit = (index: number, hex: string) => {
+    const point = points[index];
+    if (hex.toLowerCase() !== point.hex.toLowerCase()) onUpdate(point.side, point.token, hex);
+  };
+
+  const handlePointerDown = (chart: Chart, index: number) => (e: React.PointerEvent) => {
+    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+    setSelected(pointKey(points[index]));
+    setDrag({ chart, index, color: points[index].color, clamped: false });
+  };
+
+  const handlePointerMove = (chart: Chart) => (e: React.PointerEvent) => {
+    if (!drag || drag.chart !== chart) return;
+    const target = targetAtPointer(chart, e);
+    if (!target) return;
+    // Preview the hex that will be committed, not the pre-rounding color
+    const moved = relocateColor(points[drag.index].color, target);
+    setDrag({ ...drag, color: toOklch(moved.hex), clamped: moved.clamped });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    commit(drag.index, toHex(drag.color));
+  };
+
+  const handleKeyDown = (chart: Chart, index: number) => (e: React.KeyboardEvent) => {
+    const step = KEY_STEPS[chart][e.key];
+    if (!step) return;
+    e.preventDefault();
+    const [channel, delta] = step;
+    const color = points[index].color;
+    commit(index, relocateColor(color, { [channel]: color[channel] + delta * (e.shiftKey ? 10 : 1) }).hex);
+  };
+
+  // --- Rendering ---
+
+  const visible = (point: GamutMapPoint) => sideFilter === 'both' || sideFilter === point.side;
+
+  const renderMarker = (chart: Chart, index: number, x: number, y: number, opacity: number) => {
+    const point = points[index];
+    const isSelected = pointKey(point) === selected;
+    const fill = toHex(colorOf(index));
+    const stroke = isSelected ? theme.text : theme.bg;
+    const strokeWidth = isSelected ? 2 : 1;
+    const size = isSelected ? 6 : 4.5;
+    return (
+      <g
+        key={pointKey(point)}
+        role="button"
+        tabIndex={0}
+        aria-label={`${point.side} ${point.token}`}
+        className="cursor-grab focus:outline-none"
+        opacity={opacity}
+        onPointerDown={handlePointerDown(chart, index)}
+        onFocus={() => setSelected(pointKey(point))}
+        onKeyDown={handleKeyDown(chart, index)}
+      >
+        <title>{`${point.side} · ${point.token} · ${point.hex}`}</title>
+        {/* Light tokens are circles, dark tokens squares */}
+        {point.side === 'light'
+          ? <circle cx={x} cy={y} r={size} fill={fill} stroke={stroke} strokeWidth={strokeWidth} />
+          : <rect x={x - size} y={y - size} width={size * 2} height={size * 2} rx={1.5} fill={fill} stroke={stroke} strokeWidth={strokeWidth} />}
+      </g>
+    );
+  };
+
+  // Selected marker last so it draws on top
+  const drawOrder = points
+    .map((point, index) => index)
+    .filter((index) => visible(points[index]))
+    .sort((a, b) => Number(a === selectedIndex) - Number(b === selectedIndex));
+
+  const selectedPoint = points[selectedIndex];
+  const srgbHeadroom = selectedColor ? Math.max(0, gamutEdgeChroma(selectedColor.L, selectedColor.H, 'srgb') - selectedColor.C) : 0;
+  const p3Headroom = selectedColor ? Math.max(0, gamutEdgeChroma(selectedColor.L, selectedColor.H, 'p3') - selectedColor.C) : 0;
+
+  return (
+    <div className="flex flex-wrap items-start gap-6">
+      <figure className="space-y-1">
+        <svg
+          ref={wheelRef}
+          width={WHEEL_SIZE}
+          height={WHEEL_SIZE}
+          viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`}
+          className="touch-none select-none"
+          onPointerMove={handlePointerMove('wheel')}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {wheelWedges.map((wedge, i) => <path key={i} d={wedge.path} fill={wedge.fill} opacity={0.35} />)}
+          {CHROMA_GUIDES.map((C) => (
+            <circle key={C} cx={WHEEL_CENTER} cy={WHEEL_CENTER} r={(C / GAMUT_MAP_MAX_CHROMA) * WHEEL_RADIUS} fill="none" stroke={theme.border} strokeWidth={0.75} />
+          ))}
+          <path d={wheelOutline.srgb} fill="none" stroke={theme.text} strokeWidth={1.25} />
+          {showP3 && <path d={wheelOutline.p3} fill="none" stroke={theme.text} strokeWidth={1} strokeDasharray="3 3" opacity={0.7} />}
+          {drawOrder.map((index) => {
+            const { x, y } = polar(colorOf(index).H, colorOf(index).C);
+            return renderMarker('wheel', index, x, y, 1);
+          })}
+        </svg>
+        <figcaption className="text-[10px] text-center opacity-60">Hue × chroma, at each hue's most colorful lightness</figcaption>
+      </figure>
+
+      <figure className="space-y-1">
+        <svg
+          ref={planeRef}
+          width={PLANE_WIDTH}
+          height={PLANE_HEIGHT}
+          viewBox={`0 0 ${PLANE_WIDTH} ${PLANE_HEIGHT}`}
+          className="touch-none select-none"
+          onPointerMove={handlePointerMove('plane')}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <rect x={PLANE_PAD.left} y={PLANE_PAD.top} width={PLANE_INNER_W} height={PLANE_INNER_H} fill={theme.card2} />
+          {plane.cells.map((cell, i) => (
+            <rect key={i} x={cell.x} y={cell.y} width={PLANE_INNER_W / PLANE_COLS + 0.5} height={PLANE_INNER_H / PLANE_ROWS + 0.5} fill={cell.fill} />
+          ))}
+          {showP3 && <path d={plane.p3} fill="none" stroke={theme.text} strokeWidth={1} strokeDasharray="3 3" opacity={0.7} />}
+          <path d={plane.srgb} fill="none" stroke={theme.text} strokeWidth={1.25} />
+
+          {[0, 0.5, 1].map((L) => (
+            <text key={L} x={PLANE_PAD.left - 4} y={planeY(L) + 3} textAnchor="end" fontSize={9} fill={theme.textMuted}>{L}</text>
+          ))}
+          {[0, ...CHROMA_GUIDES].map((C) => (
+            <text key={C} x={planeX(C)} y={PLANE_HEIGHT - 6} textAnchor="middle" fontSize={9} fill={theme.textMuted}>{C}</text>
+          ))}
+
+          {drawOrder.map((index) => {
+            const color = colorOf(index);
+            const onHue = color.C < ACHROMATIC_C || hueDifference(color.H, planeHue) <= PLANE_HUE_WINDOW;
+            return renderMarker('plane', index, planeX(color.C), planeY(color.L), onHue || index === selectedIndex ? 1 : 0.25);
+          })}
+        </svg>
+        <figcaption className="text-[10px] text-center opacity-60">Lightness × chroma at hue {roundedPlaneHue}°</figcaption>
+      </figure>
+
+      <div className="space-y-4 min-w-[200px] flex-1 max-w-xs text-xs">
+        {selectedPoint && selectedColor && (
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <span className="w-4 h-4 rounded border" style={{ backgroundColor: toHex(selectedColor), borderColor: theme.border }} />
+              <span className="font-bold">{selectedPoint.token}</span>
+              <span className="opacity-60">{selectedPoint.side}</span>
+              <span className="ml-auto font-mono opacity-70">{toHex(selectedColor)}</span>
+            </div>
+            <div className="font-mono opacity-70">
+              L {selectedColor.L.toFixed(3)} · C {selectedColor.C.toFixed(3)} · H {selectedColor.H.toFixed(1)}
+            </div>
+            <div className="flex justify-between">
+              <span className="opacity-70">sRGB headroom</span>
+              <span className="font-mono">+{srgbHeadroom.toFixed(3)}</span>
+            </div>
+            {showP3 && (
+              <div className="flex justify-between">
+                <span className="opacity-70">P3 headroom</span>
+                <span className="font-mono">+{p3Headroom.toFixed(3)}</span>
+              </div>
+            )}
+            {drag?.clamped && <div style={{ color: theme.warn }}>Past the sRGB edge: chroma is clamped</div>}
+          </div>
+        )}
+
+        <div className="flex items-center rounded-lg p-0.5 gap-0.5 w-fit" style={{ backgroundColor: theme.card2 }}>
+          {(['both', 'light', 'dark'] as SideFilter[]).map((filter) => (
+            <button
+              key={filter}
+              onClick={() => setSideFilter(filter)}
+              className="px-2.5 py-1 rounded-md font-medium capitalize transition-colors"
+              style={sideFilter === filter ? { backgroundColor: theme.primary, color: theme.primaryFg } : {}}
+            >
+              {filter}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={showP3} onChange={(e) => setShowP3(e.target.checked)} />
+          <span>Show Display P3 edge (dashed)</span>
+        </label>
+
+        <p className="opacity-50 leading-relaxed">
+          Circles are light tokens, squares dark. Drag a point, or focus it and use the arrow keys, to move the token; colors past the sRGB edge are pulled back onto it.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GamutMap;
@@ -0,0 +1,224 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Plus, Minus } from 'lucide-react';
+import { CustomHarmony, ThemeTokens } from '../types';
+import { toHex, clampToSRGBGamut } from '../utils/oklch';
+import {
+  CUSTOM_HARMONY_MIN_OFFSETS,
+  CUSTOM_HARMONY_MAX_OFFSETS,
+  CUSTOM_CHROMA_VARIANCE_MAX,
+  normalizeHueOffset
+} from '../utils/paletteEngine';
+
+interface HarmonyWheelProps {
+  harmony: CustomHarmony;
+  primaryHue: number;       // OKLCH hue of the current primary; offsets are drawn relative to it
+  theme: ThemeTokens;       // Shell tokens for the panel chrome
+  onChange: (harmony: CustomHarmony) => void;  // Every drag step, for the wheel itself
+  onCommit: (harmony: CustomHarmony) => void;  // Drag end or key press; regenerates the theme
+}
+
+// Offsets fill these slots in order, as the engine reads them
+const SLOTS = [
+  { short: 'S', label: 'Secondary' },
+  { short: 'A', label: 'Accent' },
+  { short: 'G', label: 'Good' },
+  { short: 'B', label: 'Bad' },
+];
+
+// Offsets added when the status slots are switched on, away from red and green
+const DEFAULT_STATUS_OFFSETS = [120, -120];
+
+const SIZE = 184;
+const CENTER = SIZE / 2;
+const RING_OUTER = 88;
+const RING_INNER = 68;
+const HANDLE_RADIUS = 78;
+const RING_SEGMENTS = 72;
+
+// Hue 0 at the top, increasing clockwise
+function polar(hue: number, radius: number): { x: number; y: number } {
+  const rad = (hue * Math.PI) / 180;
+  return { x: CENTER + radius * Math.sin(rad), y: CENTER - radius * Math.cos(rad) };
+}
+
+function hueSwatch(hue: number): string {
+  return toHex(clampToSRGBGamut({ L: 0.72, C: 0.13, H: hue }));
+}
+
+function formatOffset(degrees: number): string {
+  return `${degrees > 0 ? '+' : degrees < 0 ? '−' : ''}${Math.abs(degrees)}°`;
+}
+
+const HarmonyWheel: React.FC<HarmonyWheelProps> = ({ harmony, primaryHue, theme, onChange, onCommit }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const ring = useMemo(() => Array.from({ length: RING_SEGMENTS }, (_, i) => {
+    const start = (i * 360) / RING_SEGMENTS;
+    const end = ((i + 1) * 360) / RING_SEGMENTS + 0.5; // Overlap hides seams
+    const a = polar(start, RING_OUTER);
+    const b = polar(end, RING_OUTER);
+    const c = polar(end, RING_INNER);
+    const d = polar(start, RING_INNER);
+    return {
+      path: `M${a.x} ${a.y} A${RING_OUTER} ${RING_OUTER} 0 0 1 ${b.x} ${b.y} L${c.x} ${c.y} A${RING_INNER} ${RING_INNER} 0 0 0 ${d.x} ${d.y}Z`,
+      fill: hueSwatch(start + 180 / RING_SEGMENTS),
+    };
+  }), []);
+
+  const withOffset = (index: number, degrees: number): CustomHarmony => ({
+    ...harmony,
+    offsets: harmony.offsets.map((offset, i) => (i === index ? normalizeHueOffset(degrees) : offset)),
+  });
+
+  const offsetAtPointer = (e: React.PointerEvent): number | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const dx = ((e.clientX - rect.left) / rect.width) * SIZE - CENTER;
+    const dy = ((e.clientY - rect.top) / rect.height) * SIZE - CENTER;
+    const hue = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    return normalizeHueOffset(hue - primaryHue);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const offset = offsetAtPointer(e);
+    if (offset !== null && offset !== harmony.offsets[dragging]) onChange(withOffset(dragging, offset));
+  };
+
+  const handlePointerUp = () => {
+    if (dragging === null) return;
+    setDragging(null);
+    onCommit(harmony);
+  };
+
+  const handleKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 15 : 1;
+    const delta = e.key === 'ArrowRight' || e.key === 'ArrowUp' ? step : e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -step : 0;
+    if (!delta) return;
+    e.preventDefault();
+    const next = withOffset(index, harmony.offsets[index] + delta);
+    onChange(next);
+    onCommit(next);
+  };
+
+  const setStatusSlots = (enabled: boolean) => {
+    const next = {
+      ...harmony,
+      offsets: enabled
+        ? [...harmony.offsets, ...DEFAULT_STATUS_OFFSETS].slice(0, CUSTOM_HARMONY_MAX_OFFSETS)
+        : harmony.offsets.slice(0, CUSTOM_HARMONY_MIN_OFFSETS),
+    };
+    onChange(next);
+    onCommit(next);
+  };
+
+  const primaryPoint = polar(primaryHue, HANDLE_RADIUS);
+  const hasStatusSlots = harmony.offsets.length > CUSTOM_HARMONY_MIN_OFFSETS;
+
+  return (
+    <div className="flex flex-wrap items-center gap-6">
+      <svg
+        ref={svgRef}
+        width={SIZE}
+        height={SIZE}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="shrink-0 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {ring.map((segment, i) => <path key={i} d={segment.path} fill={segment.fill} />)}
+        <circle cx={CENTER} cy={CENTER} r={RING_INNER - 1} fill={theme.card} />
+
+        {harmony.offsets.map((offset, i) => {
+          const point = polar(primaryHue + offset, HANDLE_RADIUS);
+          return <line key={i} x1={CENTER} y1={CENTER} x2={point.x} y2={point.y} stroke={theme.border} strokeWidth={1.5} />;
+        })}
+        <line x1={CENTER} y1={CENTER} x2={primaryPoint.x} y2={primaryPoint.y} stroke={theme.text} strokeWidth={2} />
+
+        {/* The primary follows the seed; only the offsets move */}
+        <circle cx={primaryPoint.x} cy={primaryPoint.y} r={11} fill={hueSwatch(primaryHue)} stroke={theme.text} strokeWidth={2} />
+        <text x={primaryPoint.x} y={primaryPoint.y + 3.5} textAnchor="middle" fontSize={10} fontWeight={700} fill="#000000" pointerEvents="none">P</text>
+
+        {harmony.offsets.map((offset, i) => {
+          const hue = primaryHue + offset;
+          const point = polar(hue, HANDLE_RADIUS);
+          return (
+            <g
+              key={i}
+              role="slider"
+              tabIndex={0}
+              aria-label={`${SLOTS[i].label} hue offset`}
+              aria-valuemin={-179}
+              aria-valuemax={180}
+              aria-valuenow={offset}
+              aria-valuetext={formatOffset(offset)}
+              className="cursor-grab focus:outline-none"
+              onPointerDown={(e) => {
+                e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                setDragging(i);
+              }}
+              onKeyDown={handleKeyDown(i)}
+            >
+              <circle cx={point.x} cy={point.y} r={10} fill={hueSwatch(hue)} stroke={theme.bg} strokeWidth={dragging === i ? 3 : 2} />
+              <text x={point.x} y={point.y + 3.5} textAnchor="middle" fontSize={9} fontWeight={700} fill="#000000" pointerEvents="none">
+                {SLOTS[i].short}
+              </text>
+            </g>
+          );
+        })}
+
+        <text x={CENTER} y={CENTER - 4} textAnchor="middle" fontSize={10} fill={theme.textMuted}>Custom</text>
+        <text x={CENTER} y={CENTER + 10} textAnchor="middle" fontSize={10} fontFamily="monospace" fill={theme.text}>
+          {harmony.offsets.map(formatOffset).join(' ')}
+        </text>
+      </svg>
+
+      <div className="space-y-4 min-w-[200px] flex-1 max-w-sm">
+        <div className="space-y-1.5">
+          {harmony.offsets.map((offset, i) => (
+            <div key={i} className="flex items-center justify-between text-xs">
+              <span className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full border" style={{ backgroundColor: hueSwatch(primaryHue + offset), borderColor: theme.border }} />
+                <span className="font-medium">{SLOTS[i].label}</span>
+              </span>
+              <span className="font-mono opacity-70">{formatOffset(offset)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-bold uppercase tracking-wider opacity-70">Chroma Variance</label>
+            <span className="text-xs font-mono opacity-50">{harmony.chromaVariance.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0" max={CUSTOM_CHROMA_VARIANCE_MAX} step="0.01"
+            value={harmony.chromaVariance}
+            onChange={(e) => onChange({ ...harmony, chromaVariance: parseFloat(e.target.value) })}
+            onPointerUp={() => onCommit(harmony)}
+            onKeyUp={() => onCommit(harmony)}
+            className="w-full h-1.5 rounded-lg cursor-pointer"
+            style={{ color: theme.primary }}
+          />
+          <div className="grid grid-cols-2 text-[10px] opacity-40 px-0.5">
+            <span>Even</span>
+            <span className="text-right">Varied</span>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setStatusSlots(!hasStatusSlots)}
+          className="flex items-center gap-1.5 text-xs font-medium px-2.5 py-1.5 rounded-md border transition-colors hover-themed"
+          style={{ borderColor: theme.border }}
+        >
+          {hasStatusSlots ? <Minus size={12} /> : <Plus size={12} />}
+          {hasStatusSlots ? 'Use default status hues' : 'Set status hues'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HarmonyWheel;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Upload, ImageIcon, Check, MousePointer2, Sparkles, CheckSquare, Square } from 'lucide-react';
 import { ThemeTokens } from '../types';
-import { extractPaletteFromImage } from '../utils/colorUtils';
+import { extractPaletteFromImage } from '../utils/imageFile';
 
 interface ImagePickerModalProps {
   isOpen: boolean;
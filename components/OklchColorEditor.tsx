@@ -0,0 +1,197 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { X, Link2, AlertTriangle } from 'lucide-react';
+import { ThemeTokens, ContrastAlgorithm } from '../types';
+import { OklchColor, toOklch } from '../utils/oklch';
+import {
+  OklchChannel,
+  OKLCH_CHANNEL_RANGES,
+  channelTrackStops,
+  gamutEdgeChroma,
+  relocateColor
+} from '../utils/gamutMap';
+import { measurePartnerContrast } from '../utils/themeDiff';
+
+type Side = 'light' | 'dark';
+
+interface OklchColorEditorProps {
+  tokenKey: keyof ThemeTokens;
+  light: ThemeTokens;
+  dark: ThemeTokens;
+  initialSide: Side;
+  contrastAlgorithm: ContrastAlgorithm;
+  onUpdate: (side: Side, key: keyof ThemeTokens, value: string) => void;
+  onUpdatePair: (key: keyof ThemeTokens, values: { light: string; dark: string }) => void; // Linked edits, one history entry
+  onClose: () => void;
+}
+
+const CHANNELS: Array<{ channel: OklchChannel; label: string; step: number; digits: number }> = [
+  { channel: 'L', label: 'Lightness', step: 0.005, digits: 3 },
+  { channel: 'C', label: 'Chroma', step: 0.001, digits: 3 },
+  { channel: 'H', label: 'Hue', step: 1, digits: 0 },
+];
+
+const OTHER_SIDE: Record<Side, Side> = { light: 'dark', dark: 'light' };
+
+const OklchColorEditor: React.FC<OklchColorEditorProps> = ({
+  tokenKey,
+  light,
+  dark,
+  initialSide,
+  contrastAlgorithm,
+  onUpdate,
+  onUpdatePair,
+  onClose
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const tokens: Record<Side, ThemeTokens> = { light, dark };
+  const [side, setSide] = useState<Side>(initialSide);
+  const [linked, setLinked] = useState(false);
+  const [alignRight, setAlignRight] = useState(false);
+
+  // Swatches in the right-hand columns open the popover leftwards
+  useLayoutEffect(() => {
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (rect && rect.right > window.innerWidth) setAlignRight(true);
+  }, []);
+
+  // Requested coordinates per side; the slider shows these, the swatch their sRGB mapping
+  const committed = useMemo(
+    () => ({ light: toOklch(light[tokenKey]), dark: toOklch(dark[tokenKey]) }),
+    [light, dark, tokenKey]
+  );
+  const [draft, setDraft] = useState<Record<Side, OklchColor>>(committed);
+  useEffect(() => setDraft(committed), [committed]);
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [onClose]);
+
+  const color = draft[side];
+  const mapped = relocateColor(color, {});
+  const edge = gamutEdgeChroma(color.L, color.H, 'srgb');
+  const contrast = measurePartnerContrast(tokens[side], tokenKey, mapped.hex, contrastAlgorithm);
+
+  const setChannel = (channel: OklchChannel, value: number) => {
+    setDraft((prev) => {
+      const next = { ...prev, [side]: { ...prev[side], [channel]: value } };
+      // A linked hue turns both modes by the same amount, keeping their offset
+      if (linked && channel === 'H') {
+        const other = OTHER_SIDE[side];
+        next[other] = { ...prev[other], H: (committed[other].H + value - committed[side].H + 360) % 360 };
+      }
+      return next;
+    });
+  };
+
+  const commit = () => {
+    const hexes = { light: relocateColor(draft.light, {}).hex, dark: relocateColor(draft.dark, {}).hex };
+    const changed = (['light', 'dark'] as Side[]).filter((s) => hexes[s].toLowerCase() !== tokens[s][tokenKey].toLowerCase());
+    if (changed.length === 2) onUpdatePair(tokenKey, hexes);
+    else if (changed.length === 1) onUpdate(changed[0], tokenKey, hexes[changed[0]]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      role="dialog"
+      aria-label={`Edit ${tokenKey}`}
+      onKeyDown={handleKeyDown}
+      className={`absolute ${alignRight ? 'right-0' : 'left-0'} top-full mt-1 z-50 w-64 p-3 space-y-3 rounded-lg border border-themed bg-t-card text-t-text shadow-lg text-[10px]`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-bold uppercase tracking-wider truncate">{tokenKey}</span>
+        <div className="flex items-center rounded-md p-0.5 gap-0.5 bg-t-card2">
+          {(['light', 'dark'] as Side[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setSide(option)}
+              className={`px-2 py-0.5 rounded font-medium capitalize transition-colors ${side === option ? 'bg-t-primary text-t-primaryFg' : 'hover:bg-t-text/10'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="p-0.5 rounded hover:bg-t-text/10" title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      {/* Before / after */}
+      <div className="flex h-8 rounded-md overflow-hidden border border-themed">
+        <div className="flex-1" style={{ backgroundColor: tokens[side][tokenKey] }} title="Current" />
+        <div className="flex-1" style={{ backgroundColor: mapped.hex }} title="Edited" />
+      </div>
+
+      {CHANNELS.map(({ channel, label, step, digits }) => {
+        const { min, max } = OKLCH_CHANNEL_RANGES[channel];
+        const stops = channelTrackStops(color, channel);
+        return (
+          <div key={channel} className="space-y-1">
+            <div className="flex justify-between">
+              <label className="font-bold uppercase tracking-wider opacity-70">{label}</label>
+              <span className="font-mono opacity-70">{color[channel].toFixed(digits)}</span>
+            </div>
+            <div className="relative">
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={color[channel]}
+                aria-label={label}
+                onChange={(e) => setChannel(channel, parseFloat(e.target.value))}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                className="gradient-track w-full h-3 rounded-full block text-t-text"
+                style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }}
+              />
+              {/* Past this mark the chroma track repeats the clamped color */}
+              {channel === 'C' && edge < max && (
+                <span
+                  className="absolute top-0 h-3 w-px bg-t-text pointer-events-none"
+                  style={{ left: `calc(8px + (100% - 16px) * ${edge / max})` }}
+                  title="sRGB edge"
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {mapped.clamped && (
+        <div className="flex items-start gap-1.5 text-t-warn">
+          <AlertTriangle size={12} className="shrink-0" />
+          <span>
+            Chroma {color.C.toFixed(3)} is outside sRGB here; saved as {mapped.color.C.toFixed(3)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t border-themed pt-2">
+        <span className="opacity-70">vs {contrast.partner}</span>
+        <span className={`font-mono font-bold ${contrast.passes ? 'text-t-good' : 'text-t-bad'}`}>
+          {contrast.ratio.toFixed(2)}:1 · Lc {Math.abs(contrast.lc).toFixed(0)} {contrast.passes ? '✓' : '✗'}
+        </span>
+      </div>
+
+      <label className="flex items-center gap-1.5 cursor-pointer">
+        <input type="checkbox" checked={linked} onChange={(e) => setLinked(e.target.checked)} />
+        <Link2 size={12} />
+        <span>Link hue across light and dark</span>
+      </label>
+    </div>
+  );
+};
+
+export default OklchColorEditor;
@@ -1,14 +1,50 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Palette, Shuffle, Image as ImageIcon,
   ChevronRight, Check, Copy, Download, Share2,
   Sliders, Sparkles, Upload, Github,
-  Lock
+  Lock, FileText
 } from 'lucide-react';
-import { DesignOptions, ThemeTokens } from '../types';
-import { contrastRatio, selectForegroundHex } from '../utils/contrast';
+import { CustomHarmony, CvdType, DesignOptions, DualTheme, ThemeTokens } from '../types';
+import { contrastRatio, apcaContrast, ratioToLcEquivalent, selectForegroundHex } from '../utils/contrast';
+import { ExportFormat, exportThemeAs } from '../utils/themeExport';
+import { base64ToBytes } from '../utils/zip';
+import { ContrastReportFormat, buildContrastReport, formatContrastReport } from '../utils/contrastReport';
+import { simulateCvd, simulateThemeTokens } from '../utils/cvd';
+import { ThemeDiffFormat, buildThemeDiff, buildThemeChangelog, formatThemeChangelog } from '../utils/themeDiff';
+import { ImportedTokens, parseThemeSource, buildImportMapping, applyImportMapping } from '../utils/themeImport';
+import { buildDataVizPalette, categoricalSeparation } from '../utils/dataViz';
 
 type WorkspaceTab = 'overview' | 'tokens' | 'delivery';
+
+const MOBILE_EXPORTS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'xcassets', label: 'iOS Assets' },
+  { format: 'swiftui', label: 'SwiftUI' },
+  { format: 'android', label: 'Android XML' },
+  { format: 'compose', label: 'Compose' },
+  { format: 'flutter', label: 'Flutter' },
+];
+
+// Contrast matrix layout: foreground rows against surface columns plus their own fill
+const MATRIX_ROWS: Array<{ key: keyof ThemeTokens; label: string }> = [
+  { key: 'text', label: 'Text' },
+  { key: 'textMuted', label: 'Muted' },
+  { key: 'primaryFg', label: 'Primary Fg' },
+  { key: 'textOnColor', label: 'On Color' },
+  { key: 'secondaryFg', label: 'Secondary Fg' },
+  { key: 'accentFg', label: 'Accent Fg' },
+  { key: 'goodFg', label: 'Good Fg' },
+  { key: 'warnFg', label: 'Warn Fg' },
+  { key: 'badFg', label: 'Bad Fg' },
+  { key: 'infoFg', label: 'Info Fg' },
+  { key: 'link', label: 'Link' },
+  { key: 'linkVisited', label: 'Visited' },
+  { key: 'info', label: 'Info' },
+  { key: 'disabledFg', label: 'Disabled' },
+  { key: 'focus', label: 'Focus' },
+  { key: 'border', label: 'Border' },
+];
+const MATRIX_SURFACES: Array<keyof ThemeTokens> = ['bg', 'card', 'card2'];
 type AdjustmentOptionKey =
   | 'saturationLevel'
   | 'brightnessLevel'
@@ -23,6 +59,10 @@ type AdjustmentOptionKey =
 interface PreviewProps {
   themeName: string;
   themeTokens: ThemeTokens;
+  companionTokens?: ThemeTokens; // Tokens for the other mode, enables dual-mode CSS
+  cvdSimulation?: CvdType; // Preview-only; token values, audits and exports stay unsimulated
+  harmonyMode?: string; // Generation mode; picks the harmony the chart palettes open with
+  harmony?: CustomHarmony; // Offsets when harmonyMode is custom
   options: DesignOptions;
   onUpdateOption?: (key: keyof DesignOptions, value: number | boolean) => void;
   onOpenImagePicker?: () => void;
@@ -37,6 +77,7 @@ interface PreviewProps {
   onAutoSyncPreviewChange?: (value: boolean) => void;
   syncedWorkspaceTab?: WorkspaceTab;
   onSyncedWorkspaceTabChange?: (tab: WorkspaceTab) => void;
+  releaseBaselines?: DualTheme[]; // Recent history entries offered as release-note baselines
 }
 
 // Controlled Slider Component
@@ -110,6 +151,10 @@ const ColorSwatch: React.FC<{
 const PreviewSection: React.FC<PreviewProps> = ({
   themeName,
   themeTokens,
+  companionTokens,
+  cvdSimulation,
+  harmonyMode,
+  harmony,
   options,
   onUpdateOption,
   onOpenImagePicker,
@@ -123,7 +168,8 @@ const PreviewSection: React.FC<PreviewProps> = ({
   autoSyncPreview,
   onAutoSyncPreviewChange,
   syncedWorkspaceTab,
-  onSyncedWorkspaceTabChange
+  onSyncedWorkspaceTabChange,
+  releaseBaselines = []
 }) => {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>(() => ({
     start: true,
@@ -134,6 +180,11 @@ const PreviewSection: React.FC<PreviewProps> = ({
   const [localWorkspaceTab, setLocalWorkspaceTab] = useState<WorkspaceTab>('overview');
   const [reviewNotes, setReviewNotes] = useState('Check contrast for body text and confirm brand accents.');
   const [deliveryNote, setDeliveryNote] = useState('Theme ready for QA. Share CSS tokens with engineering.');
+  // History index as a string, or 'file' for an uploaded baseline
+  const [baselineChoice, setBaselineChoice] = useState('0');
+  const [fileBaseline, setFileBaseline] = useState<{ name: string; tokens: ImportedTokens } | null>(null);
+  const [baselineError, setBaselineError] = useState<string | null>(null);
+  const baselineInputRef = useRef<HTMLInputElement>(null);
   const [tokenFilter, setTokenFilter] = useState('');
   const [copiedToken, setCopiedToken] = useState<string | null>(null);
   const [reviewLevel, setReviewLevel] = useState<'quick' | 'balanced' | 'deep'>('balanced');
@@ -212,28 +263,39 @@ const PreviewSection: React.FC<PreviewProps> = ({
     return selectForegroundHex(background);
   };
 
+  // Inline preview colors follow the simulated palette like the CSS variables do
+  const previewCvd: CvdType = cvdSimulation ?? 'none';
+  const previewTokens = simulateThemeTokens(themeTokens, previewCvd);
+
+  // Chart palettes are measured unsimulated, then shown like the rest of the preview
+  const dataViz = useMemo(
+    () => buildDataVizPalette(themeTokens, harmonyMode, undefined, harmony),
+    [themeTokens, harmonyMode, harmony]
+  );
+  const dataVizSeparation = useMemo(() => categoricalSeparation(dataViz.categorical), [dataViz]);
+
   const cardReadableText = readableOn(
-    themeTokens.text,
-    themeTokens.card,
-    selectForegroundHex(themeTokens.card),
+    previewTokens.text,
+    previewTokens.card,
+    selectForegroundHex(previewTokens.card),
     4.2
   );
   const cardReadableMuted = readableOn(
-    themeTokens.textMuted,
-    themeTokens.card,
+    previewTokens.textMuted,
+    previewTokens.card,
     cardReadableText,
     2.6
   );
-  const interactiveAccent = readableOn(themeTokens.primary, themeTokens.card, cardReadableText, 3);
-  const previewLabelColor = readableOn(themeTokens.accent, themeTokens.card, cardReadableText, 3);
+  const interactiveAccent = readableOn(previewTokens.primary, previewTokens.card, cardReadableText, 3);
+  const previewLabelColor = readableOn(previewTokens.accent, previewTokens.card, cardReadableText, 3);
   // Keep headline color tied directly to semantic primary token.
   // Visibility is enforced upstream in the generator guardrails.
-  const headingAccent = themeTokens.primary;
+  const headingAccent = previewTokens.primary;
   const useGradientHeading = options.gradients;
   const toggleOnBg = interactiveAccent;
   const toggleOffBg = alphaHex(cardReadableText, 0.28);
   const toggleOnKnob = selectForegroundHex(toggleOnBg);
-  const toggleOffKnob = readableOn(themeTokens.bg, themeTokens.card, selectForegroundHex(themeTokens.card), 2);
+  const toggleOffKnob = readableOn(previewTokens.bg, previewTokens.card, selectForegroundHex(previewTokens.card), 2);
 
   // Hero overlay uses the theme's bg color so it stays consistent with
   // brightness/contrast adjustments (instead of hardcoded black/white)
@@ -272,18 +334,33 @@ const PreviewSection: React.FC<PreviewProps> = ({
   const completedCount = checklistItems.filter(item => checklist[item.key]).length;
   const checklistProgress = Math.round((completedCount / checklistItems.length) * 100);
 
+  // Each row is measured against the token it is read with (fills against
+  // their on-color text, text against the page, UI strokes at the 3:1 tier).
   const tokenRows = [
-    { key: 'primary', label: 'Primary', value: themeTokens.primary, varName: '--primary' },
-    { key: 'secondary', label: 'Secondary', value: themeTokens.secondary, varName: '--secondary' },
-    { key: 'accent', label: 'Accent', value: themeTokens.accent, varName: '--accent' },
-    { key: 'good', label: 'Good', value: themeTokens.good, varName: '--good' },
-    { key: 'bad', label: 'Bad', value: themeTokens.bad, varName: '--bad' },
-    { key: 'bg', label: 'Background', value: themeTokens.bg, varName: '--bg' },
-    { key: 'card', label: 'Surface', value: themeTokens.card, varName: '--card' },
-    { key: 'text', label: 'Text', value: themeTokens.text, varName: '--text' },
-    { key: 'border', label: 'Border', value: themeTokens.border, varName: '--border' },
-    { key: 'ring', label: 'Ring', value: themeTokens.ring, varName: '--ring' }
-  ];
+    { key: 'primary', label: 'Primary', value: themeTokens.primary, varName: '--primary', fg: themeTokens.primaryFg, bg: themeTokens.primary, minRatio: 4.5 },
+    { key: 'secondary', label: 'Secondary', value: themeTokens.secondary, varName: '--secondary', fg: themeTokens.secondaryFg, bg: themeTokens.secondary, minRatio: 4.5 },
+    { key: 'accent', label: 'Accent', value: themeTokens.accent, varName: '--accent', fg: themeTokens.accentFg, bg: themeTokens.accent, minRatio: 4.5 },
+    { key: 'good', label: 'Good', value: themeTokens.good, varName: '--good', fg: themeTokens.goodFg, bg: themeTokens.good, minRatio: 4.5 },
+    { key: 'bad', label: 'Bad', value: themeTokens.bad, varName: '--bad', fg: themeTokens.badFg, bg: themeTokens.bad, minRatio: 4.5 },
+    { key: 'info', label: 'Info', value: themeTokens.info, varName: '--info', fg: themeTokens.infoFg, bg: themeTokens.info, minRatio: 4.5 },
+    { key: 'bg', label: 'Background', value: themeTokens.bg, varName: '--bg', fg: themeTokens.text, bg: themeTokens.bg, minRatio: 4.5 },
+    { key: 'card', label: 'Surface', value: themeTokens.card, varName: '--card', fg: themeTokens.text, bg: themeTokens.card, minRatio: 4.5 },
+    { key: 'text', label: 'Text', value: themeTokens.text, varName: '--text', fg: themeTokens.text, bg: themeTokens.bg, minRatio: 4.5 },
+    { key: 'link', label: 'Link', value: themeTokens.link, varName: '--link', fg: themeTokens.link, bg: themeTokens.bg, minRatio: 4.5 },
+    { key: 'selectionBg', label: 'Selection', value: themeTokens.selectionBg, varName: '--selection-bg', fg: themeTokens.text, bg: themeTokens.selectionBg, minRatio: 4.5 },
+    { key: 'inputBg', label: 'Input', value: themeTokens.inputBg, varName: '--input-bg', fg: themeTokens.text, bg: themeTokens.inputBg, minRatio: 4.5 },
+    { key: 'disabledBg', label: 'Disabled', value: themeTokens.disabledBg, varName: '--disabled-bg', fg: themeTokens.disabledFg, bg: themeTokens.disabledBg, minRatio: 3 },
+    { key: 'border', label: 'Border', value: themeTokens.border, varName: '--border', fg: themeTokens.border, bg: themeTokens.bg, minRatio: 3 },
+    { key: 'ring', label: 'Ring', value: themeTokens.ring, varName: '--ring', fg: themeTokens.ring, bg: themeTokens.bg, minRatio: 3 },
+    { key: 'focus', label: 'Focus', value: themeTokens.focus, varName: '--focus', fg: themeTokens.focus, bg: themeTokens.bg, minRatio: 3 }
+  ].map(row => {
+    const ratio = contrastRatio(row.fg, row.bg);
+    const lc = Math.abs(apcaContrast(row.fg, row.bg));
+    const passes = options.contrastAlgorithm === 'apca'
+      ? lc >= ratioToLcEquivalent(row.minRatio)
+      : ratio >= row.minRatio;
+    return { ...row, ratio, lc, passes };
+  });
   const filteredTokens = tokenRows.filter(token => {
     const query = tokenFilter.trim().toLowerCase();
     if (!query) return true;
@@ -294,31 +371,21 @@ const PreviewSection: React.FC<PreviewProps> = ({
     );
   });
 
+  // With both modes available, exports are dual-mode files (same output as /api/export-theme).
+  const dualSource = companionTokens
+    ? (themeName === 'Dark'
+      ? { light: companionTokens, dark: themeTokens }
+      : { light: themeTokens, dark: companionTokens })
+    : null;
+  const exportSource = dualSource ?? themeTokens;
+
+  const exportGamut = options.wideGamut ? 'p3' : 'srgb';
+
+  const contrastReport = buildContrastReport(exportSource, options.contrastAlgorithm);
+  const reportModes = Array.from(new Set(contrastReport.entries.map(entry => entry.mode)));
+
   const buildCssText = () => {
-    const cssTokens: Array<[string, string]> = [
-      ['--bg', themeTokens.bg],
-      ['--card', themeTokens.card],
-      ['--card2', themeTokens.card2],
-      ['--text', themeTokens.text],
-      ['--text-muted', themeTokens.textMuted],
-      ['--text-on-color', themeTokens.textOnColor],
-      ['--primary', themeTokens.primary],
-      ['--primary-fg', themeTokens.primaryFg],
-      ['--secondary', themeTokens.secondary],
-      ['--secondary-fg', themeTokens.secondaryFg],
-      ['--accent', themeTokens.accent],
-      ['--accent-fg', themeTokens.accentFg],
-      ['--border', themeTokens.border],
-      ['--ring', themeTokens.ring],
-      ['--good', themeTokens.good],
-      ['--good-fg', themeTokens.goodFg],
-      ['--warn', themeTokens.warn],
-      ['--warn-fg', themeTokens.warnFg],
-      ['--bad', themeTokens.bad],
-      ['--bad-fg', themeTokens.badFg]
-    ];
-    const lines = cssTokens.map(([key, value]) => `  ${key}: ${value};`);
-    return `:root {\n${lines.join('\n')}\n}\n`;
+    return exportThemeAs(exportSource, 'css', { prefix: '', includeComments: false, gamut: exportGamut, metadata: { mode: harmonyMode, harmony } }).content;
   };
 
   const handleCopyToken = (tokenKey: string, value: string) => {
@@ -334,11 +401,95 @@ const PreviewSection: React.FC<PreviewProps> = ({
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `taichi-${themeName.toLowerCase()}-theme.css`;
+    link.download = companionTokens ? 'taichi-theme.css' : `taichi-${themeName.toLowerCase()}-theme.css`;
     link.click();
     setTimeout(() => URL.revokeObjectURL(url), 0);
   };
 
+  const handleDownloadExport = (format: ExportFormat) => {
+    const { content, filename, encoding } = exportThemeAs(exportSource, format, { gamut: exportGamut, metadata: { mode: harmonyMode, harmony } });
+    const blob = encoding === 'base64'
+      ? new Blob([base64ToBytes(content)], { type: 'application/zip' })
+      : new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleDownloadReport = (format: ContrastReportFormat) => {
+    const { content, filename } = formatContrastReport(contrastReport, format);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // Release notes diff the current theme against a history entry or an uploaded file.
+  // Slots the file doesn't define fall back to the current values, so they read as unchanged.
+  const buildReleaseChangelog = () => {
+    if (!dualSource) return null;
+    if (baselineChoice === 'file') {
+      if (!fileBaseline) return null;
+      const baseline = {
+        light: { ...dualSource.light, ...fileBaseline.tokens.light },
+        dark: { ...dualSource.dark, ...fileBaseline.tokens.dark },
+      };
+      return buildThemeChangelog(buildThemeDiff(baseline, dualSource, options.contrastAlgorithm), fileBaseline.name);
+    }
+    const index = Number(baselineChoice);
+    const entry = releaseBaselines[index];
+    if (!entry) return null;
+    return buildThemeChangelog(
+      buildThemeDiff(entry, dualSource, options.contrastAlgorithm),
+      `history #${index + 1} (${entry.mode} ${entry.seed})`
+    );
+  };
+
+  const hasReleaseBaseline = baselineChoice === 'file' ? !!fileBaseline : !!releaseBaselines[Number(baselineChoice)];
+
+  const handleGenerateReleaseNote = () => {
+    const changelog = buildReleaseChangelog();
+    if (changelog) setDeliveryNote(formatThemeChangelog(changelog, 'markdown').content);
+  };
+
+  const handleDownloadChangelog = (format: ThemeDiffFormat) => {
+    const changelog = buildReleaseChangelog();
+    if (!changelog) return;
+    // Markdown downloads keep any edits made to the note
+    const { content, filename } = format === 'markdown'
+      ? { content: deliveryNote, filename: 'taichi-release-notes.md' }
+      : formatThemeChangelog(changelog, format);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleBaselineFile = async (file: File) => {
+    try {
+      const parsed = parseThemeSource(await file.text());
+      if (!parsed || parsed.colors.length === 0) {
+        setBaselineError(`No theme colors found in ${file.name}`);
+        return;
+      }
+      setFileBaseline({ name: file.name, tokens: applyImportMapping(parsed.colors, buildImportMapping(parsed.colors)) });
+      setBaselineChoice('file');
+      setBaselineError(null);
+    } catch (err) {
+      console.error('Error reading baseline file:', err);
+      setBaselineError(`Could not read ${file.name}`);
+    }
+  };
+
   const handleCopyTokens = () => {
     if (!navigator.clipboard) return;
     const cssText = buildCssText();
@@ -382,9 +533,9 @@ const PreviewSection: React.FC<PreviewProps> = ({
         }}
       >
         {/* Solid Color Overlay */}
-        <div className="absolute inset-0 pointer-events-none" style={{ backgroundColor: `${themeTokens.bg}${heroOverlayOpacity}` }} />
+        <div className="absolute inset-0 pointer-events-none" style={{ backgroundColor: `${previewTokens.bg}${heroOverlayOpacity}` }} />
 
-        <div className={`absolute left-4 top-4 z-10 inline-flex items-center justify-center ${rClass} ${bClass} px-3 py-1.5 text-[11px] font-semibold backdrop-blur leading-none`} style={{ backgroundColor: themeTokens.card, color: cardReadableText }}>
+        <div className={`absolute left-4 top-4 z-10 inline-flex items-center justify-center ${rClass} ${bClass} px-3 py-1.5 text-[11px] font-semibold backdrop-blur leading-none`} style={{ backgroundColor: previewTokens.card, color: cardReadableText }}>
           <span style={{ color: previewLabelColor }}>{themeName} preview</span>
         </div>
 
@@ -465,7 +616,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
                   >
                     <Shuffle size={18} />
                     Randomize
-                    <span className="text-xs opacity-75 ml-1 px-2 py-0.5 rounded" style={{ backgroundColor: `${themeTokens.primaryFg}25` }}>Space</span>
+                    <span className="text-xs opacity-75 ml-1 px-2 py-0.5 rounded" style={{ backgroundColor: `${previewTokens.primaryFg}25` }}>Space</span>
                   </button>
                 </div>
                 
@@ -831,7 +982,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
                   <div className="flex items-center gap-3 min-w-0">
                     <div
                       className={`h-8 w-8 ${rClass} ${bClass}`}
-                      style={{ backgroundColor: token.value }}
+                      style={{ backgroundColor: simulateCvd(token.value, previewCvd) }}
                     />
                     <div className="min-w-0">
                       <p className="text-sm font-semibold text-t-text truncate">{token.label}</p>
@@ -839,6 +990,14 @@ const PreviewSection: React.FC<PreviewProps> = ({
                     </div>
                   </div>
                   <div className="flex items-center gap-2 text-xs font-mono text-t-text">
+                    <span
+                      className={`flex items-center gap-1 ${rClass} bg-t-card px-2 py-1 text-[11px] ${token.passes ? 'text-t-textMuted' : 'text-t-bad'}`}
+                      title={`WCAG 2 ratio and APCA Lc (target ${token.minRatio}:1 / Lc ${Math.round(ratioToLcEquivalent(token.minRatio))})`}
+                    >
+                      <span className={options.contrastAlgorithm === 'apca' ? '' : 'font-semibold'}>{token.ratio.toFixed(2)}:1</span>
+                      <span className="opacity-50">·</span>
+                      <span className={options.contrastAlgorithm === 'apca' ? 'font-semibold' : ''}>Lc {Math.round(token.lc)}</span>
+                    </span>
                     <span className="truncate">{token.value}</span>
                     <button
                       onClick={() => handleCopyToken(token.key, token.value)}
@@ -859,6 +1018,83 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 </div>
               )}
             </div>
+            <div className={`${rClass} ${bClass} bg-t-bg/60 p-4 space-y-4`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="text-xs uppercase tracking-wider text-t-textMuted">Accessibility audit</p>
+                  <h3 className="text-lg font-semibold text-t-text">Contrast matrix</h3>
+                  <p className="text-xs text-t-textMuted">
+                    {contrastReport.summary.passed}/{contrastReport.summary.total} pairs pass
+                    {options.contrastAlgorithm === 'apca' ? ' (APCA Lc 60 text, Lc 45 non-text)' : ' (4.5:1 text, 3:1 non-text)'}
+                    {contrastReport.summary.decorative > 0 && ' · borders are decorative'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {(['csv', 'markdown'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownloadReport(format)}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20`}
+                    >
+                      <Download size={14} />
+                      {format === 'csv' ? 'CSV' : 'Markdown'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {reportModes.map((mode) => {
+                const entries = contrastReport.entries.filter(entry => entry.mode === mode);
+                return (
+                  <div key={mode} className="overflow-x-auto">
+                    {reportModes.length > 1 && (
+                      <p className="mb-1 text-[11px] font-semibold uppercase tracking-wider text-t-textMuted">
+                        {mode === 'light' ? 'Light' : 'Dark'} mode
+                      </p>
+                    )}
+                    <table className="w-full text-[11px] font-mono">
+                      <thead>
+                        <tr className="text-t-textMuted">
+                          <th className="px-2 py-1 text-left font-semibold">Foreground</th>
+                          {[...MATRIX_SURFACES, 'fill'].map(column => (
+                            <th key={column} className="px-2 py-1 text-left font-semibold">{column}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {MATRIX_ROWS.map(row => (
+                          <tr key={row.key}>
+                            <td className="px-2 py-1 text-t-text">{row.label}</td>
+                            {[...MATRIX_SURFACES, 'fill'].map(column => {
+                              const entry = entries.find(item => item.fg === row.key && (
+                                column === 'fill' ? !MATRIX_SURFACES.includes(item.bg) : item.bg === column
+                              ));
+                              if (!entry) {
+                                return <td key={column} className="px-2 py-1 text-t-textMuted">–</td>;
+                              }
+                              return (
+                                <td key={column} className="px-2 py-1">
+                                  <span
+                                    className={`inline-flex items-center gap-1 ${rClass} px-1.5 py-0.5 ${
+                                      entry.kind === 'decorative' ? 'bg-t-text/10 text-t-textMuted' : entry.passes ? 'bg-t-good/15 text-t-text' : 'bg-t-bad/15 text-t-bad'
+                                    }`}
+                                    title={`${entry.fg} ${entry.fgValue} on ${entry.bg} ${entry.bgValue} · ${entry.kind === 'decorative' ? 'decorative, not audited' : `WCAG ${entry.level}`}`}
+                                  >
+                                    {entry.kind === 'decorative' ? null : entry.passes ? <Check size={10} /> : <span aria-hidden>✕</span>}
+                                    {options.contrastAlgorithm === 'apca'
+                                      ? `Lc ${Math.round(Math.abs(entry.lc))}`
+                                      : `${entry.ratio.toFixed(1)}:1`}
+                                  </span>
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
           </div>
         )}
 
@@ -897,12 +1133,64 @@ const PreviewSection: React.FC<PreviewProps> = ({
                   Share URL
                 </button>
               </div>
+              <div className="space-y-2">
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-t-textMuted">Mobile</p>
+                <div className="flex flex-wrap gap-2">
+                  {MOBILE_EXPORTS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownloadExport(format)}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20`}
+                    >
+                      <Download size={14} />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
             <div className={`${rClass} ${bClass} ${hoverPanelClass} bg-t-bg/60 p-5 space-y-4`}>
               <div>
                 <p className="text-xs uppercase tracking-wider text-t-textMuted">Release note</p>
                 <h3 className="text-lg font-semibold text-t-text">Team update</h3>
               </div>
+              {dualSource && (
+                <div className="space-y-2">
+                  <p className="text-[11px] font-semibold uppercase tracking-wider text-t-textMuted">Compare against</p>
+                  <div className="flex flex-wrap gap-2">
+                    <select
+                      value={baselineChoice}
+                      onChange={(e) => setBaselineChoice(e.target.value)}
+                      className={`flex-1 min-w-0 px-3 py-2 ${rClass} ${bClass} bg-t-bg text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
+                    >
+                      {/* Manual edits keep the theme id, so entries are keyed by position */}
+                      {releaseBaselines.map((entry, idx) => (
+                        <option key={idx} value={String(idx)}>History #{idx + 1} · {entry.mode} {entry.seed}</option>
+                      ))}
+                      {fileBaseline && <option value="file">File · {fileBaseline.name}</option>}
+                      {releaseBaselines.length === 0 && !fileBaseline && <option value="0">No baseline yet</option>}
+                    </select>
+                    <button
+                      onClick={() => baselineInputRef.current?.click()}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20`}
+                    >
+                      <Upload size={14} />
+                      Baseline file
+                    </button>
+                    <input
+                      type="file"
+                      ref={baselineInputRef}
+                      onChange={(e) => {
+                        if (e.target.files?.[0]) handleBaselineFile(e.target.files[0]);
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                      accept=".css,.json,.js,.cjs,.mjs,.ts"
+                    />
+                  </div>
+                  {baselineError && <p className="text-xs text-t-bad">{baselineError}</p>}
+                </div>
+              )}
               <textarea
                 value={deliveryNote}
                 onChange={(e) => setDeliveryNote(e.target.value)}
@@ -920,6 +1208,34 @@ const PreviewSection: React.FC<PreviewProps> = ({
                   <Copy size={14} />
                   Copy note
                 </button>
+                {dualSource && (
+                  <>
+                    <button
+                      onClick={handleGenerateReleaseNote}
+                      disabled={!hasReleaseBaseline}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20 disabled:cursor-not-allowed disabled:opacity-60`}
+                    >
+                      <FileText size={14} />
+                      Generate from diff
+                    </button>
+                    <button
+                      onClick={() => handleDownloadChangelog('markdown')}
+                      disabled={!hasReleaseBaseline}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20 disabled:cursor-not-allowed disabled:opacity-60`}
+                    >
+                      <Download size={14} />
+                      Markdown
+                    </button>
+                    <button
+                      onClick={() => handleDownloadChangelog('json')}
+                      disabled={!hasReleaseBaseline}
+                      className={`bg-t-text/10 text-t-text px-3 py-2 ${rClass} ${bClass} text-xs font-semibold flex items-center gap-2 transition-colors hover:bg-t-text/20 disabled:cursor-not-allowed disabled:opacity-60`}
+                    >
+                      <Download size={14} />
+                      JSON changelog
+                    </button>
+                  </>
+                )}
                 <button
                   onClick={onShare}
                   disabled={!onShare}
@@ -982,10 +1298,10 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 </button>
               </div>
               <div className="flex flex-wrap gap-2">
-                <button disabled className={`${gradientClass} text-t-primaryFg px-4 py-2 ${rClass} text-xs font-semibold opacity-50 cursor-not-allowed`}>
+                <button disabled className={`bg-t-disabledBg text-t-disabledFg px-4 py-2 ${rClass} text-xs font-semibold cursor-not-allowed`}>
                   Disabled
                 </button>
-                <button className={`bg-transparent text-t-primary px-4 py-2 ${rClass} text-xs font-semibold underline underline-offset-2 transition-colors hover:text-t-accent`}>
+                <button className={`bg-transparent text-t-link px-4 py-2 ${rClass} text-xs font-semibold underline underline-offset-2 transition-colors hover:text-t-linkVisited`}>
                   Link
                 </button>
               </div>
@@ -1019,7 +1335,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 <p className="text-sm font-semibold text-t-text">Section Title</p>
                 <p className="text-xs text-t-text">Body text uses your primary text token for maximum readability on the background surface.</p>
                 <p className="text-xs text-t-textMuted">Muted text for secondary information and helpers.</p>
-                <p className="text-xs"><span className="text-t-primary font-semibold">Primary link</span> &middot; <span className="text-t-accent font-semibold">Accent link</span> &middot; <span className="text-t-secondary font-semibold">Secondary link</span></p>
+                <p className="text-xs"><span className="text-t-link font-semibold underline underline-offset-2">Link</span> &middot; <span className="text-t-linkVisited font-semibold underline underline-offset-2">Visited link</span> &middot; <span className="bg-t-selectionBg text-t-text">Selected text</span></p>
               </div>
             </div>
 
@@ -1029,10 +1345,10 @@ const PreviewSection: React.FC<PreviewProps> = ({
               <input
                 type="text"
                 placeholder="Email address"
-                className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-card text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
+                className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-inputBg text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
               />
               <div className="grid grid-cols-2 gap-2">
-                <select className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-card text-xs text-t-text cursor-pointer focus:outline-none focus:ring-2 focus:ring-t-primary/30`}>
+                <select className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-inputBg text-xs text-t-text cursor-pointer focus:outline-none focus:ring-2 focus:ring-t-primary/30`}>
                   <option>Designer</option>
                   <option>Developer</option>
                   <option>Product</option>
@@ -1040,7 +1356,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 <input
                   type="text"
                   placeholder="Search..."
-                  className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-card text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
+                  className={`w-full px-3 py-2 ${rClass} ${bClass} bg-t-inputBg text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
                 />
               </div>
               <div className="flex items-center justify-between gap-3">
@@ -1056,7 +1372,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
               <textarea
                 rows={2}
                 placeholder="Leave a note..."
-                className={`w-full resize-none px-3 py-2 ${rClass} ${bClass} bg-t-card text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
+                className={`w-full resize-none px-3 py-2 ${rClass} ${bClass} bg-t-inputBg text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-t-primary/30`}
               />
             </div>
 
@@ -1075,7 +1391,7 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 <Lock size={14} className="shrink-0" />
                 <span><strong>Error:</strong> Export failed. Retry?</span>
               </div>
-              <div className={`${rClass} ${bClass} bg-t-primary/10 border-t-primary/30 px-3 py-2.5 text-xs text-t-primary flex items-center gap-2`}>
+              <div className={`${rClass} ${bClass} bg-t-info text-t-infoFg px-3 py-2.5 text-xs flex items-center gap-2`}>
                 <Sparkles size={14} className="shrink-0" />
                 <span><strong>Info:</strong> New palette generated.</span>
               </div>
@@ -1186,6 +1502,70 @@ const PreviewSection: React.FC<PreviewProps> = ({
                 ))}
               </div>
             </div>
+            {/* Charts */}
+            <div className={`${rClass} ${bClass} ${hoverPanelClass} bg-t-bg/60 p-4 space-y-3 md:col-span-2 xl:col-span-3`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-t-textMuted">Charts</p>
+                <p
+                  className="text-[10px] font-mono text-t-textMuted"
+                  title="Smallest OKLab ΔE between two series colors, as seen and under protan, deutan and tritan simulation"
+                >
+                  min ΔE {dataVizSeparation.normal.toFixed(3)} · CVD {dataVizSeparation.cvd.toFixed(3)}
+                </p>
+              </div>
+              <div className="grid gap-4 md:grid-cols-[2fr_1fr]">
+                <div className={`${rClass} ${bClass} bg-t-card p-3`}>
+                  <div className="flex h-28 items-end gap-1.5">
+                    {dataViz.categorical.map((hex, i) => (
+                      <div
+                        key={`${hex}-${i}`}
+                        className="flex-1 rounded-t-sm"
+                        style={{ backgroundColor: simulateCvd(hex, previewCvd), height: `${[82, 64, 95, 48, 70, 36, 58, 88, 42, 76, 54, 66][i]}%` }}
+                        title={`chart-${i + 1} ${hex}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="mt-1.5 h-px bg-t-divider" />
+                  <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+                    {dataViz.categorical.map((hex, i) => (
+                      <span key={`${hex}-${i}`} className="flex items-center gap-1 text-[10px] text-t-textMuted">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: simulateCvd(hex, previewCvd) }} />
+                        Series {i + 1}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {([['Sequential', dataViz.sequential], ['Diverging', dataViz.diverging]] as const).map(([label, ramp]) => (
+                    <div key={label} className="space-y-1">
+                      <p className="text-[10px] font-semibold text-t-text">{label}</p>
+                      <div className={`flex h-6 overflow-hidden ${rClass} ${bClass}`}>
+                        {ramp.map((hex, i) => (
+                          <div
+                            key={`${hex}-${i}`}
+                            className="flex-1"
+                            style={{ backgroundColor: simulateCvd(hex, previewCvd) }}
+                            title={`chart-${label.toLowerCase()}-${i + 1} ${hex}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-9 gap-0.5">
+                    {Array.from({ length: 27 }, (_, i) => {
+                      const step = Math.round(((Math.sin(i * 1.7) + Math.cos(i * 0.9)) / 4 + 0.5) * 8);
+                      return (
+                        <div
+                          key={i}
+                          className="aspect-square rounded-[2px]"
+                          style={{ backgroundColor: simulateCvd(dataViz.sequential[step], previewCvd) }}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            </div>
           </div>
         </div>
       </section>
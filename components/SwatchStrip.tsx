@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { ThemeTokens, ColorFormat, LockedColors } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ThemeTokens, ColorFormat, LockedColors, ContrastAlgorithm } from '../types';
 import { formatColor, parseToHex, hexToRgb } from '../utils/colorUtils';
-import { Copy, Check, Lock, Unlock } from 'lucide-react';
+import { ROLE_TOKEN_KEYS } from '../utils/paletteEngine';
+import { Copy, Check, Lock, Unlock, ChevronDown, SlidersHorizontal } from 'lucide-react';
+import OklchColorEditor from './OklchColorEditor';
 
 // Editable Input Component
 const EditableColorValue: React.FC<{
@@ -54,8 +56,10 @@ interface SwatchStripProps {
   onFormatChange: (fmt: ColorFormat) => void;
   isDarkUI: boolean;
   onUpdate: (side: 'light' | 'dark', key: keyof ThemeTokens, value: string) => void;
+  onUpdatePair: (key: keyof ThemeTokens, values: { light: string; dark: string }) => void;
   lockedColors: LockedColors;
   onToggleLock: (key: keyof ThemeTokens) => void;
+  contrastAlgorithm?: ContrastAlgorithm; // Decides pass/fail in the slider editor's contrast readout
 }
 
 interface CompactSwatchProps {
@@ -66,6 +70,8 @@ interface CompactSwatchProps {
   onUpdate: (side: 'light' | 'dark', key: keyof ThemeTokens, value: string) => void;
   isLocked: boolean;
   onToggleLock: () => void;
+  isEditing: boolean;
+  onToggleEditor: () => void;
 }
 
 // Helper to get contrasting text color
@@ -125,7 +131,9 @@ const CompactSwatch: React.FC<CompactSwatchProps> = ({
   format, 
   onUpdate,
   isLocked,
-  onToggleLock
+  onToggleLock,
+  isEditing,
+  onToggleEditor
 }) => {
   const [copied, setCopied] = useState<'light' | 'dark' | null>(null);
 
@@ -155,16 +163,27 @@ const CompactSwatch: React.FC<CompactSwatchProps> = ({
 
   return (
     <div className="flex flex-col rounded-lg overflow-hidden border border-themed group/token transition-all hover:scale-[1.02] hover:shadow-md">
-      {/* Header with token name and lock */}
+      {/* Header with token name, slider editor and lock */}
       <div className="flex items-center justify-between px-2 py-1 bg-t-card text-[9px] font-bold uppercase tracking-wider text-t-text/70">
         <span className="truncate">{tokenKey}</span>
-        <button
-          onClick={onToggleLock}
-          className={`transition-opacity p-0.5 rounded hover:bg-t-text/10 ${isLocked ? 'opacity-100' : 'opacity-0 group-hover/token:opacity-100'}`}
-          title={isLocked ? 'Unlock color' : 'Lock color'}
-        >
-          {isLocked ? <Lock size={10} /> : <Unlock size={10} />}
-        </button>
+        <span className="flex items-center">
+          <button
+            onClick={onToggleEditor}
+            onPointerDown={(e) => e.stopPropagation()} // Not an outside click for the open editor
+            className={`transition-opacity p-0.5 rounded hover:bg-t-text/10 ${isEditing ? 'opacity-100' : 'opacity-0 group-hover/token:opacity-100'}`}
+            title="Edit with OKLCH sliders"
+            aria-expanded={isEditing}
+          >
+            <SlidersHorizontal size={10} />
+          </button>
+          <button
+            onClick={onToggleLock}
+            className={`transition-opacity p-0.5 rounded hover:bg-t-text/10 ${isLocked ? 'opacity-100' : 'opacity-0 group-hover/token:opacity-100'}`}
+            title={isLocked ? 'Unlock color' : 'Lock color'}
+          >
+            {isLocked ? <Lock size={10} /> : <Unlock size={10} />}
+          </button>
+        </span>
       </div>
       
       {/* Color swatches side by side */}
@@ -233,12 +252,54 @@ const CompactSwatch: React.FC<CompactSwatchProps> = ({
   );
 };
 
-const SwatchStrip: React.FC<SwatchStripProps> = ({ light, dark, format, isDarkUI, onUpdate, lockedColors, onToggleLock }) => {
+const SwatchStrip: React.FC<SwatchStripProps> = ({
+  light,
+  dark,
+  format,
+  isDarkUI,
+  onUpdate,
+  onUpdatePair,
+  lockedColors,
+  onToggleLock,
+  contrastAlgorithm = 'wcag2'
+}) => {
   // Use theme colors for background
   const themeTokens = isDarkUI ? dark : light;
   
-  // 10 tokens to display
+  // 10 core tokens always shown; the 10 interaction roles on demand
   const tokens = ['bg', 'card', 'text', 'textMuted', 'textOnColor', 'primary', 'secondary', 'accent', 'good', 'bad'];
+  const [showRoles, setShowRoles] = useState(false);
+  // One slider editor open at a time, anchored under its swatch
+  const [editingKey, setEditingKey] = useState<keyof ThemeTokens | null>(null);
+  const closeEditor = useCallback(() => setEditingKey(null), []);
+
+  const renderSwatch = (key: string) => (
+    <div key={key} className="relative">
+      <CompactSwatch 
+        tokenKey={key} 
+        lightHex={light[key as keyof ThemeTokens]} 
+        darkHex={dark[key as keyof ThemeTokens]} 
+        format={format} 
+        onUpdate={onUpdate}
+        isLocked={!!lockedColors[key as keyof ThemeTokens]}
+        onToggleLock={() => onToggleLock(key as keyof ThemeTokens)}
+        isEditing={editingKey === key}
+        onToggleEditor={() => setEditingKey(prev => (prev === key ? null : key as keyof ThemeTokens))}
+      />
+      {editingKey === key && (
+        <OklchColorEditor
+          tokenKey={key as keyof ThemeTokens}
+          light={light}
+          dark={dark}
+          initialSide={isDarkUI ? 'dark' : 'light'}
+          contrastAlgorithm={contrastAlgorithm}
+          onUpdate={onUpdate}
+          onUpdatePair={onUpdatePair}
+          onClose={closeEditor}
+        />
+      )}
+    </div>
+  );
 
   // CSS Variables for theme colors
   const styleVars = {
@@ -262,6 +323,17 @@ const SwatchStrip: React.FC<SwatchStripProps> = ({ light, dark, format, isDarkUI
     '--warn-fg': themeTokens.warnFg,
     '--bad': themeTokens.bad,
     '--bad-fg': themeTokens.badFg,
+    '--info': themeTokens.info,
+    '--info-fg': themeTokens.infoFg,
+    '--link': themeTokens.link,
+    '--link-visited': themeTokens.linkVisited,
+    '--overlay': themeTokens.overlay,
+    '--selection-bg': themeTokens.selectionBg,
+    '--disabled-bg': themeTokens.disabledBg,
+    '--disabled-fg': themeTokens.disabledFg,
+    '--input-bg': themeTokens.inputBg,
+    '--divider': themeTokens.divider,
+    '--focus': themeTokens.focus,
     backgroundColor: themeTokens.bg
   } as React.CSSProperties;
 
@@ -273,18 +345,22 @@ const SwatchStrip: React.FC<SwatchStripProps> = ({ light, dark, format, isDarkUI
       <div className="max-w-[1920px] mx-auto w-full">
         {/* Compact grid: 5 columns on large, 5 on medium, 2 on mobile - fits 10 swatches */}
         <div className="grid grid-cols-2 sm:grid-cols-5 lg:grid-cols-10 gap-1.5 w-full">
-          {tokens.map(key => (
-            <CompactSwatch 
-              key={key}
-              tokenKey={key} 
-              lightHex={light[key as keyof ThemeTokens]} 
-              darkHex={dark[key as keyof ThemeTokens]} 
-              format={format} 
-              onUpdate={onUpdate}
-              isLocked={!!lockedColors[key as keyof ThemeTokens]}
-              onToggleLock={() => onToggleLock(key as keyof ThemeTokens)}
-            />
-          ))}
+          {tokens.map(renderSwatch)}
+        </div>
+        {showRoles && (
+          <div className="grid grid-cols-2 sm:grid-cols-5 lg:grid-cols-10 gap-1.5 w-full mt-1.5">
+            {ROLE_TOKEN_KEYS.map(renderSwatch)}
+          </div>
+        )}
+        <div className="flex justify-end mt-1">
+          <button
+            onClick={() => setShowRoles(prev => !prev)}
+            className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-t-text/60 hover:text-t-text transition-colors"
+            aria-expanded={showRoles}
+          >
+            {showRoles ? 'Hide roles' : 'Interaction roles'}
+            <ChevronDown size={10} className={`transition-transform ${showRoles ? 'rotate-180' : ''}`} />
+          </button>
         </div>
       </div>
     </div>
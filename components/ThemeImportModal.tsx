@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Upload, FileCode, Check, Sparkles } from 'lucide-react';
+import { ThemeTokens } from '../types';
+import {
+  ImportedTokens,
+  ImportMapping,
+  IMPORT_SLOTS,
+  parseThemeSource,
+  buildImportMapping,
+  applyImportMapping,
+} from '../utils/themeImport';
+
+interface ThemeImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (tokens: ImportedTokens) => void;
+  theme: ThemeTokens;
+}
+
+const FORMAT_LABELS: Record<string, string> = {
+  css: 'CSS custom properties',
+  json: 'Taichi / token JSON',
+  tailwind: 'Tailwind colors',
+};
+
+const ThemeImportModal: React.FC<ThemeImportModalProps> = ({ isOpen, onClose, onConfirm, theme }) => {
+  const [mounted, setMounted] = useState(false);
+  const [source, setSource] = useState('');
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMounted(true);
+      setSource('');
+      setMapping({});
+    } else {
+      setTimeout(() => setMounted(false), 300);
+    }
+  }, [isOpen]);
+
+  const parsed = useMemo(() => parseThemeSource(source), [source]);
+
+  // Re-guess the mapping whenever the pasted source changes
+  useEffect(() => {
+    setMapping(parsed ? buildImportMapping(parsed.colors) : {});
+  }, [parsed]);
+
+  const imported = useMemo(
+    () => (parsed ? applyImportMapping(parsed.colors, mapping) : { light: {}, dark: {} }),
+    [parsed, mapping]
+  );
+  const importedCount = Object.keys(imported.light).length + Object.keys(imported.dark).length;
+
+  const handleFile = async (file: File) => {
+    try {
+      setSource(await file.text());
+    } catch (err) {
+      console.error('Error reading theme file:', err);
+    }
+  };
+
+  if (!mounted && !isOpen) return null;
+
+  return (
+    <div
+      className={`fixed inset-0 z-[110] flex items-center justify-center p-4 transition-all duration-300 ${isOpen ? 'bg-black/40 backdrop-blur-sm opacity-100' : 'bg-black/0 backdrop-blur-none opacity-0 pointer-events-none'}`}
+      onClick={onClose}
+    >
+      <div
+        className={`w-full max-w-[1000px] rounded-3xl shadow-2xl overflow-hidden transform transition-all duration-300 flex flex-col max-h-[94vh] ${isOpen ? 'scale-100 translate-y-0' : 'scale-95 translate-y-4'}`}
+        style={{ backgroundColor: theme.card, color: theme.text, borderColor: theme.border, borderWidth: 1 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 md:p-6 border-b flex items-center justify-between shrink-0" style={{ borderColor: theme.border }}>
+          <div className="flex items-center gap-3">
+             <div className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm" style={{ backgroundColor: theme.primary, color: theme.primaryFg }}>
+                 <FileCode size={24} />
+             </div>
+             <div>
+                <h2 className="text-xl font-bold leading-tight">Import Theme</h2>
+                <p className="text-sm opacity-60 font-medium">CSS variables, Taichi JSON or a Tailwind colors object</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover-themed transition-colors" style={{ color: theme.textMuted }}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-5 md:p-6 overflow-y-auto flex-1 grid grid-cols-1 lg:grid-cols-2 gap-5 lg:gap-6 no-scrollbar">
+          <div className="flex flex-col gap-3">
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              spellCheck={false}
+              placeholder={':root {\n  --background: #ffffff;\n  --primary: #2563eb;\n}'}
+              className="w-full min-h-[320px] flex-1 rounded-2xl border p-4 font-mono text-xs outline-none resize-none"
+              style={{ backgroundColor: theme.card2, borderColor: theme.border, color: theme.text }}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-bold uppercase opacity-50 tracking-wider">
+                {parsed ? `${FORMAT_LABELS[parsed.format]} · ${parsed.colors.length} colors` : source.trim() ? 'Unrecognized format' : 'Paste or upload'}
+              </span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 transition-all hover-themed border"
+                style={{ borderColor: theme.border }}
+              >
+                <Upload size={16} />
+                Upload File
+              </button>
+              <input type="file" ref={fileInputRef} onChange={(e) => e.target.files && handleFile(e.target.files[0])} className="hidden" accept=".css,.json,.js,.cjs,.mjs,.ts" />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 min-h-0">
+            <div className="flex items-center gap-2 text-xs font-bold uppercase opacity-50 tracking-wider">
+              <Sparkles size={12} />
+              Token Mapping (unmapped slots are generated)
+            </div>
+            <div className="flex-1 lg:max-h-[52vh] overflow-y-auto rounded-2xl border divide-y no-scrollbar" style={{ borderColor: theme.border }}>
+              {parsed && parsed.colors.length > 0 ? parsed.colors.map((color) => (
+                <div key={`${color.side}-${color.name}`} className="flex items-center gap-3 px-3 py-2" style={{ borderColor: theme.border }}>
+                  <div className="w-7 h-7 rounded-md border shrink-0" style={{ backgroundColor: color.value, borderColor: theme.border }} />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-mono text-xs font-bold truncate">{color.name}</p>
+                    <p className="font-mono text-[10px] opacity-60">{color.value} · {color.side}</p>
+                  </div>
+                  <select
+                    value={mapping[color.name] ?? ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [color.name]: (e.target.value || null) as keyof ThemeTokens | null }))}
+                    className="text-xs font-bold rounded-lg border px-2 py-1.5 outline-none"
+                    style={{ backgroundColor: theme.card2, borderColor: theme.border, color: theme.text }}
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_SLOTS.map((slot) => (
+                      <option key={slot} value={slot}>{slot}</option>
+                    ))}
+                  </select>
+                </div>
+              )) : (
+                <p className="p-6 text-sm opacity-60 text-center">Colors found in the source will be listed here.</p>
+              )}
+            </div>
+            <button
+              onClick={() => onConfirm(imported)}
+              disabled={importedCount === 0}
+              className="px-6 py-2.5 rounded-xl font-bold flex items-center justify-center gap-2 transition-all active:scale-95 shadow-lg disabled:opacity-50"
+              style={{ backgroundColor: theme.primary, color: theme.primaryFg }}
+            >
+              <Check size={20} />
+              Import {importedCount > 0 ? `${importedCount} Colors` : 'Theme'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeImportModal;
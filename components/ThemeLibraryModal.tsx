@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Library, Star, Trash2, Search, FolderPlus, Save } from 'lucide-react';
+import { DualTheme, SavedTheme, ThemeCollection, ThemeTokens } from '../types';
+import {
+  THUMBNAIL_TOKENS,
+  filterSavedThemes,
+  getDominantHue,
+  parseTags,
+  createSavedTheme,
+  createCollection,
+  listSavedThemes,
+  putSavedTheme,
+  deleteSavedTheme,
+  listCollections,
+  putCollection,
+  deleteCollection,
+} from '../utils/themeLibrary';
+
+interface ThemeLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLoad: (theme: DualTheme) => void;
+  currentTheme: DualTheme;
+  theme: ThemeTokens;
+}
+
+// '' shows every collection, UNGROUPED only themes outside any collection
+const UNGROUPED = '__ungrouped__';
+
+const ThemeLibraryModal: React.FC<ThemeLibraryModalProps> = ({ isOpen, onClose, onLoad, currentTheme, theme }) => {
+  const [mounted, setMounted] = useState(false);
+  const [themes, setThemes] = useState<SavedTheme[]>([]);
+  const [collections, setCollections] = useState<ThemeCollection[]>([]);
+  const [query, setQuery] = useState('');
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [savedThemes, savedCollections] = await Promise.all([listSavedThemes(), listCollections()]);
+      setThemes(savedThemes);
+      setCollections(savedCollections);
+      setError(null);
+    } catch (err) {
+      console.error('Error reading theme library:', err);
+      setError('The theme library is unavailable in this browser.');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setMounted(true);
+      setSaveName('');
+      refresh();
+    } else {
+      setTimeout(() => setMounted(false), 300);
+    }
+  }, [isOpen]);
+
+  const visibleThemes = useMemo(() => filterSavedThemes(themes, {
+    query,
+    starredOnly,
+    collectionId: collectionFilter === '' ? undefined : collectionFilter === UNGROUPED ? null : collectionFilter,
+  }), [themes, query, starredOnly, collectionFilter]);
+
+  const updateTheme = async (saved: SavedTheme, changes: Partial<SavedTheme>) => {
+    const next = { ...saved, ...changes, updatedAt: Date.now() };
+    setThemes(prev => prev.map(item => (item.id === saved.id ? next : item)));
+    await putSavedTheme(next);
+  };
+
+  const handleSaveCurrent = async () => {
+    const collectionId = collectionFilter && collectionFilter !== UNGROUPED ? collectionFilter : null;
+    const saved = { ...createSavedTheme(currentTheme, saveName), collectionId };
+    await putSavedTheme(saved);
+    setSaveName('');
+    await refresh();
+  };
+
+  const handleAddCollection = async () => {
+    if (!newCollectionName.trim()) return;
+    const collection = createCollection(newCollectionName);
+    await putCollection(collection);
+    setNewCollectionName('');
+    setCollectionFilter(collection.id);
+    await refresh();
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!collectionFilter || collectionFilter === UNGROUPED) return;
+    await deleteCollection(collectionFilter);
+    setCollectionFilter('');
+    await refresh();
+  };
+
+  const handleDeleteTheme = async (id: string) => {
+    await deleteSavedTheme(id);
+    setThemes(prev => prev.filter(item => item.id !== id));
+  };
+
+  if (!mounted && !isOpen) return null;
+
+  const inputStyle = { backgroundColor: theme.card2, borderColor: theme.border, color: theme.text };
+
+  return (
+    <div
+      className={`fixed inset-0 z-[110] flex items-center justify-center p-4 transition-all duration-300 ${isOpen ? 'bg-black/40 backdrop-blur-sm opacity-100' : 'bg-black/0 backdrop-blur-none opacity-0 pointer-events-none'}`}
+      onClick={onClose}
+    >
+      <div
+        className={`w-full max-w-[1000px] rounded-3xl shadow-2xl overflow-hidden transform transition-all duration-300 flex flex-col max-h-[94vh] ${isOpen ? 'scale-100 translate-y-0' : 'scale-95 translate-y-4'}`}
+        style={{ backgroundColor: theme.card, color: theme.text, borderColor: theme.border, borderWidth: 1 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 md:p-6 border-b flex items-center justify-between shrink-0" style={{ borderColor: theme.border }}>
+          <div className="flex items-center gap-3">
+             <div className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm" style={{ backgroundColor: theme.primary, color: theme.primaryFg }}>
+                 <Library size={24} />
+             </div>
+             <div>
+                <h2 className="text-xl font-bold leading-tight">Theme Library</h2>
+                <p className="text-sm opacity-60 font-medium">Saved themes, tags and project collections</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover-themed transition-colors" style={{ color: theme.textMuted }}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-5 md:p-6 border-b grid grid-cols-1 md:grid-cols-2 gap-3 shrink-0" style={{ borderColor: theme.border }}>
+          <div className="flex gap-2">
+            <input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveCurrent()}
+              placeholder="Name the current theme"
+              className="flex-1 min-w-0 rounded-xl border px-3 py-2 text-sm outline-none"
+              style={inputStyle}
+            />
+            <button
+              onClick={handleSaveCurrent}
+              disabled={!!error}
+              className="px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 transition-all active:scale-95 shadow-lg disabled:opacity-50"
+              style={{ backgroundColor: theme.primary, color: theme.primaryFg }}
+            >
+              <Save size={16} />
+              Save
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={newCollectionName}
+              onChange={(e) => setNewCollectionName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCollection()}
+              placeholder="New collection"
+              className="flex-1 min-w-0 rounded-xl border px-3 py-2 text-sm outline-none"
+              style={inputStyle}
+            />
+            <button
+              onClick={handleAddCollection}
+              disabled={!!error || !newCollectionName.trim()}
+              className="px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 transition-all hover-themed border disabled:opacity-50"
+              style={{ borderColor: theme.border }}
+            >
+              <FolderPlus size={16} />
+              Add
+            </button>
+          </div>
+          <div className="md:col-span-2 flex flex-wrap items-center gap-2">
+            <div className="flex-1 min-w-[200px] flex items-center gap-2 rounded-xl border px-3 py-2" style={inputStyle}>
+              <Search size={14} className="opacity-50" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search name, tag, mode or hue (e.g. blue)"
+                className="flex-1 min-w-0 bg-transparent text-sm outline-none"
+              />
+            </div>
+            <select
+              value={collectionFilter}
+              onChange={(e) => setCollectionFilter(e.target.value)}
+              className="text-sm font-bold rounded-xl border px-3 py-2 outline-none"
+              style={inputStyle}
+            >
+              <option value="">All collections</option>
+              <option value={UNGROUPED}>Ungrouped</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            {collectionFilter && collectionFilter !== UNGROUPED && (
+              <button onClick={handleDeleteCollection} className="p-2 rounded-xl hover-themed" title="Delete collection (themes are kept)" style={{ color: theme.textMuted }}>
+                <Trash2 size={16} />
+              </button>
+            )}
+            <button
+              onClick={() => setStarredOnly(!starredOnly)}
+              className={`p-2 rounded-xl transition-colors ${starredOnly ? '' : 'hover-themed'}`}
+              style={starredOnly ? { backgroundColor: theme.primary, color: theme.primaryFg } : { color: theme.textMuted }}
+              title="Starred only"
+            >
+              <Star size={16} fill={starredOnly ? 'currentColor' : 'none'} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-5 md:p-6 overflow-y-auto flex-1 no-scrollbar">
+          {error && <p className="text-sm text-center opacity-70 py-8">{error}</p>}
+          {!error && visibleThemes.length === 0 && (
+            <p className="text-sm text-center opacity-50 py-8">{themes.length === 0 ? 'No saved themes yet' : 'No themes match'}</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {visibleThemes.map((saved) => (
+              <div key={saved.id} className="rounded-2xl border p-3 space-y-3" style={{ borderColor: theme.border, backgroundColor: theme.card2 }}>
+                <button
+                  onClick={() => onLoad(saved.theme)}
+                  className="w-full h-10 rounded-lg overflow-hidden flex border transition-transform hover:scale-[1.02]"
+                  style={{ borderColor: theme.border }}
+                  title="Load theme"
+                >
+                  {THUMBNAIL_TOKENS.map(({ side, key }) => (
+                    <div key={`${side}-${key}`} className="flex-1 h-full" style={{ backgroundColor: saved.theme[side][key] }} />
+                  ))}
+                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => updateTheme(saved, { starred: !saved.starred })}
+                    className="p-1 rounded-lg hover-themed"
+                    style={{ color: saved.starred ? theme.warn : theme.textMuted }}
+                    title={saved.starred ? 'Unstar' : 'Star'}
+                  >
+                    <Star size={16} fill={saved.starred ? 'currentColor' : 'none'} />
+                  </button>
+                  <input
+                    defaultValue={saved.name}
+                    onBlur={(e) => e.target.value !== saved.name && updateTheme(saved, { name: e.target.value.trim() || saved.name })}
+                    className="flex-1 min-w-0 bg-transparent font-bold text-sm outline-none"
+                  />
+                  <span className="text-[10px] font-mono opacity-60 shrink-0">{saved.theme.mode} · {getDominantHue(saved.theme).name}</span>
+                  <button onClick={() => handleDeleteTheme(saved.id)} className="p-1 rounded-lg hover-themed" style={{ color: theme.textMuted }} title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    defaultValue={saved.tags.join(', ')}
+                    onBlur={(e) => updateTheme(saved, { tags: parseTags(e.target.value) })}
+                    placeholder="tags, comma separated"
+                    className="flex-1 min-w-0 rounded-lg border px-2 py-1 text-xs outline-none"
+                    style={inputStyle}
+                  />
+                  <select
+                    value={saved.collectionId ?? ''}
+                    onChange={(e) => updateTheme(saved, { collectionId: e.target.value || null })}
+                    className="text-xs rounded-lg border px-2 py-1 outline-none max-w-[40%]"
+                    style={inputStyle}
+                  >
+                    <option value="">No collection</option>
+                    {collections.map((collection) => (
+                      <option key={collection.id} value={collection.id}>{collection.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-5 md:px-6 py-3 border-t text-xs opacity-60 shrink-0" style={{ borderColor: theme.border }}>
+          {themes.length} saved {themes.length === 1 ? 'theme' : 'themes'} · {collections.length} {collections.length === 1 ? 'collection' : 'collections'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeLibraryModal;
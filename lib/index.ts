@@ -0,0 +1,253 @@
+/**
+ * Taichi Engine
+ * Framework-free public API for theme generation, adjustment, scoring, export and conversion
+ * Version: 25.12.2
+ *
+ * This is the only module the published package exposes; everything it
+ * re-exports is covered by semver. `ENGINE_VERSION` versions the colors
+ * themselves: its major bumps whenever the same options can produce different
+ * tokens, so pinned seeds stay trustworthy across minor and patch upgrades.
+ * Nothing here touches the DOM; images come in as raw pixel buffers.
+ */
+
+import {
+  ThemeTokens,
+  CoreThemeTokens,
+  ThemeRoleTokens,
+  GenerationMode,
+  ColorFormat,
+  ContrastAlgorithm,
+  GamutTarget,
+  DualThemeScales,
+  DualWideGamutTokens,
+  DataVizPalette,
+  DualDataVizPalettes,
+  CustomHarmony,
+  EngineVersion
+} from '../types';
+import {
+  generateTheme,
+  applyAdjustments,
+  formatColor,
+  parseToHex,
+  extractPaletteFromPixels,
+  IMAGE_SLOT_KEYS,
+  PixelBuffer,
+  PaletteSlot,
+  AdjustmentLevels,
+  GenerateOptions,
+  GeneratedTheme
+} from '../utils/colorUtils';
+import { toOklch } from '../utils/oklch';
+import { parseCustomHarmony } from '../utils/paletteEngine';
+import { evaluatePalette, RejectReason, ScoreBreakdown } from '../utils/scoringEngine';
+import { EXPORT_FORMATS, ExportFormat, ExportResult, exportThemeAs } from '../utils/themeExport';
+import { ENGINE_VERSION, ENGINE_VERSIONS, isEngineVersion, resolveEngineVersion } from '../utils/engineVersion';
+
+// --- Versioning ---
+
+export { ENGINE_VERSION, ENGINE_VERSIONS, isEngineVersion, resolveEngineVersion };
+
+// --- Types ---
+
+export type {
+  ThemeTokens,
+  CoreThemeTokens,
+  ThemeRoleTokens,
+  GenerationMode,
+  ColorFormat,
+  ContrastAlgorithm,
+  GamutTarget,
+  DualThemeScales,
+  DualWideGamutTokens,
+  DataVizPalette,
+  DualDataVizPalettes,
+  CustomHarmony,
+  EngineVersion,
+  PixelBuffer,
+  PaletteSlot,
+  AdjustmentLevels,
+  GenerateOptions,
+  GeneratedTheme,
+  RejectReason,
+  ScoreBreakdown,
+  ExportFormat,
+  ExportResult
+};
+
+export interface AdjustOptions extends AdjustmentLevels {
+  contrastAlgorithm?: ContrastAlgorithm;
+}
+
+export interface ScoreOptions {
+  baseHue?: number;                      // OKLCH hue harmony is judged against; default: seed, else light primary
+  contrastAlgorithm?: ContrastAlgorithm;
+}
+
+export interface ModeScore {
+  score: ScoreBreakdown;
+  rejects: RejectReason[];
+  isValid: boolean;                      // No critical rejects
+}
+
+export interface ThemeScore {
+  light: ModeScore;
+  dark: ModeScore;
+  total: number;                         // Mean of both modes' weighted totals
+  isValid: boolean;
+}
+
+export interface ExportOptions {
+  prefix?: string;                       // Variable prefix; '' emits unprefixed names
+  includeComments?: boolean;
+  includeScales?: boolean;
+  gamut?: GamutTarget;
+  packageName?: string;                  // Kotlin package for Compose output
+  generatedAt?: string | null;           // Header timestamp; null omits it
+}
+
+export { IMAGE_SLOT_KEYS as PALETTE_SLOTS, EXPORT_FORMATS };
+
+// --- Generate ---
+
+function resolveLevel(value: number | undefined, fallback: number, name: string): number {
+  const level = value ?? fallback;
+  if (!Number.isFinite(level) || level < -5 || level > 5) {
+    throw new RangeError(`${name} must be between -5 and 5`);
+  }
+  return level;
+}
+
+export function generate(options: GenerateOptions = {}): GeneratedTheme {
+  if (options.engineVersion !== undefined && !isEngineVersion(options.engineVersion)) {
+    throw new RangeError(`engineVersion must be one of: ${ENGINE_VERSIONS.join(', ')}`);
+  }
+  const levels = options.levels ?? {};
+  const darkLevels = options.darkLevels ?? {};
+  const saturation = resolveLevel(levels.saturation, 0, 'levels.saturation');
+  const contrast = resolveLevel(levels.contrast, 0, 'levels.contrast');
+  const brightness = resolveLevel(levels.brightness, 0, 'levels.brightness');
+  const harmony = options.harmony
+    ? parseCustomHarmony(options.harmony.offsets, options.harmony.chromaVariance)
+    : undefined;
+  if (harmony === null) {
+    throw new RangeError('harmony needs 2 to 4 offsets and a chromaVariance between 0 and 0.5');
+  }
+
+  return generateTheme({
+    ...options,
+    seed: options.seed?.toLowerCase(),
+    harmony,
+    levels: { saturation, contrast, brightness },
+    darkLevels: {
+      saturation: resolveLevel(darkLevels.saturation, saturation, 'darkLevels.saturation'),
+      contrast: resolveLevel(darkLevels.contrast, contrast, 'darkLevels.contrast'),
+      brightness: resolveLevel(darkLevels.brightness, brightness, 'darkLevels.brightness'),
+    },
+    // Documented default for the package, whichever mode is generated first
+    paletteSide: options.palette ? options.paletteSide ?? 'light' : undefined,
+  });
+}
+
+/** Image-import slots from raw RGB(A) pixels; pass the result as `generate({ palette })`. */
+export function extractPalette(pixels: PixelBuffer, options: { dark?: boolean } = {}): Record<PaletteSlot, string> {
+  const colors = extractPaletteFromPixels(pixels, options.dark ?? false);
+  return Object.fromEntries(IMAGE_SLOT_KEYS.map((key, i) => [key, colors[i]])) as Record<PaletteSlot, string>;
+}
+
+// --- Adjust ---
+
+/** The app's brightness/contrast/saturation stage, including its readability guardrails. */
+export function adjust(tokens: ThemeTokens, options: AdjustOptions = {}): ThemeTokens {
+  return applyAdjustments(
+    tokens,
+    resolveLevel(options.brightness, 0, 'brightness'),
+    resolveLevel(options.contrast, 0, 'contrast'),
+    resolveLevel(options.saturation, 0, 'saturation'),
+    options.contrastAlgorithm ?? 'wcag2'
+  );
+}
+
+// --- Score ---
+
+export function score(theme: { light: ThemeTokens; dark: ThemeTokens; seed?: string }, options: ScoreOptions = {}): ThemeScore {
+  const algorithm = options.contrastAlgorithm ?? 'wcag2';
+  const baseHue = options.baseHue ?? toOklch(theme.seed ?? theme.light.primary).H;
+  const scoreMode = (tokens: ThemeTokens): ModeScore => {
+    const { score: breakdown, rejects, isValid } = evaluatePalette(tokens, baseHue, algorithm);
+    return { score: breakdown, rejects, isValid };
+  };
+
+  const light = scoreMode(theme.light);
+  const dark = scoreMode(theme.dark);
+  return {
+    light,
+    dark,
+    total: (light.score.total + dark.score.total) / 2,
+    isValid: light.isValid && dark.isValid,
+  };
+}
+
+// --- Export ---
+
+/**
+ * Same output as the app and /api/export-theme. A `{ light, dark }` theme
+ * exports both modes; `scales`, `p3`, `mode`, `harmony` and `seed` are used when present.
+ * ZIP formats (xcassets, android) return base64 `content` with `encoding: 'base64'`.
+ */
+export function exportTheme(
+  theme: { light: ThemeTokens; dark: ThemeTokens; mode?: string; seed?: string; harmony?: CustomHarmony; scales?: unknown; p3?: unknown } | ThemeTokens,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportResult {
+  const source = theme as Record<string, unknown>;
+  return exportThemeAs(theme, format, { ...options, scales: source.scales, p3: source.p3 });
+}
+
+// --- Convert ---
+
+/** Parses any supported color string (hex, rgb, hsl, oklch, ...) and formats it as `to`; null when unparseable. */
+export function convert(color: string, to: ColorFormat): string | null {
+  const hex = parseToHex(color);
+  return hex ? formatColor(hex, to) : null;
+}
+
+// --- Harmonies ---
+
+/** Preset hue offsets per mode, and the limits and parser for the custom mode's own. */
+export {
+  HARMONY_MODES,
+  DEFAULT_CUSTOM_HARMONY,
+  CUSTOM_HARMONY_MIN_OFFSETS,
+  CUSTOM_HARMONY_MAX_OFFSETS,
+  CUSTOM_CHROMA_VARIANCE_MAX,
+  parseCustomHarmony
+} from '../utils/paletteEngine';
+
+// --- Roles ---
+
+/** Info, link, overlay, selection, disabled, input, divider and focus roles derived from the 20 core tokens. */
+export { deriveRoleTokens, withRoleTokens, ROLE_TOKEN_KEYS, OVERLAY_OPACITY } from '../utils/paletteEngine';
+/** Fills the roles missing from themes saved before they existed; complete themes pass through. */
+export { upgradeTheme, upgradeThemeTokens } from '../utils/colorUtils';
+
+// --- Data Visualization ---
+
+/** Categorical, sequential and diverging chart colors for one mode, opened on the theme's harmony. */
+export {
+  buildDataVizPalette,
+  buildDualDataVizPalettes,
+  categoricalSeparation,
+  CATEGORICAL_MIN_COLORS,
+  CATEGORICAL_MAX_COLORS
+} from '../utils/dataViz';
+
+// --- Candidates ---
+
+/** Ranked shortlist of distinct themes, each with its score breakdown and reject reasons. */
+export { generateCandidates, DEFAULT_CANDIDATE_COUNT, MAX_CANDIDATE_COUNT } from '../utils/themeCandidates';
+export type { CandidateOptions, CandidateReject, CandidateShortlist, ThemeCandidate } from '../utils/themeCandidates';
+
+export { toOklch, toHex, formatOklch, parseOklch, deltaE, clampToSRGBGamut, clampToP3Gamut, isInSRGBGamut } from '../utils/oklch';
+export type { OklchColor } from '../utils/oklch';
+export { contrastRatio, apcaContrast, contrastFor } from '../utils/contrast';
@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Library build of lib/index.ts: ESM + CJS bundles with no runtime dependencies.
+// Type declarations come from `tsc -p lib/tsconfig.json` (see the build:lib script).
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: path.resolve(__dirname, 'dist'),
+    emptyOutDir: true,
+    sourcemap: true,
+    minify: false,
+    lib: {
+      entry: path.resolve(__dirname, 'index.ts'),
+      formats: ['es', 'cjs'],
+      fileName: (format) => (format === 'es' ? 'taichi-engine.js' : 'taichi-engine.cjs'),
+    },
+  },
+});
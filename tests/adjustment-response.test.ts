@@ -2,6 +2,7 @@ import { describe, expect, it } from '@jest/globals';
 import { generateTheme } from '../utils/colorUtils';
 import { toOklch } from '../utils/oklch';
 import { contrastRatio } from '../utils/contrast';
+import { buildSeed } from './helpers';
 
 const MODES = [
   'monochrome',
@@ -18,20 +19,6 @@ const SPREAD_KEYS = ['bg', 'card', 'card2', 'text', 'textMuted', 'primary', 'sec
 const BRIGHTNESS_KEYS = ['bg', 'card', 'card2', 'text', 'primary', 'secondary', 'accent'] as const;
 const VISIBLE_COLOR_KEYS = ['primary', 'secondary', 'accent'] as const;
 
-function buildSeed(index: number): string {
-  const hue = (index * 137.508) % 360;
-  const rad = (hue * Math.PI) / 180;
-  const r = Math.round(127 + 120 * Math.cos(rad));
-  const g = Math.round(127 + 120 * Math.cos(rad + 2.094));
-  const b = Math.round(127 + 120 * Math.cos(rad + 4.188));
-  return (
-    '#' +
-    [r, g, b]
-      .map((v) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0'))
-      .join('')
-  );
-}
-
 function avgLightness(theme: Record<string, string>, keys: readonly string[]): number {
   let sum = 0;
   for (const key of keys) {
@@ -54,8 +41,8 @@ describe('Adjustment response', () => {
       const con = ((i * 7) % 5) - 2;
       const darkFirst = i % 2 === 0;
 
-      const low = generateTheme(mode, seed, sat, con, -5, undefined, darkFirst);
-      const high = generateTheme(mode, seed, sat, con, 5, undefined, darkFirst);
+      const low = generateTheme({ mode, seed, levels: { saturation: sat, contrast: con, brightness: -5 }, darkFirst });
+      const high = generateTheme({ mode, seed, levels: { saturation: sat, contrast: con, brightness: 5 }, darkFirst });
 
       const lightDelta = avgLightness(high.light, BRIGHTNESS_KEYS) - avgLightness(low.light, BRIGHTNESS_KEYS);
       const darkDelta = avgLightness(high.dark, BRIGHTNESS_KEYS) - avgLightness(low.dark, BRIGHTNESS_KEYS);
@@ -80,8 +67,18 @@ describe('Adjustment response', () => {
       const sat = ((i * 5) % 5) - 2;
       const darkFirst = i % 3 === 0;
 
-      const lowContrast = generateTheme(mode, seed, sat, -5, 5, undefined, darkFirst);
-      const highContrast = generateTheme(mode, seed, sat, 5, 5, undefined, darkFirst);
+      const lowContrast = generateTheme({
+        mode,
+        seed,
+        levels: { saturation: sat, contrast: -5, brightness: 5 },
+        darkFirst,
+      });
+      const highContrast = generateTheme({
+        mode,
+        seed,
+        levels: { saturation: sat, contrast: 5, brightness: 5 },
+        darkFirst,
+      });
 
       const lowLightSpread = lightnessSpread(lowContrast.light, SPREAD_KEYS);
       const highLightSpread = lightnessSpread(highContrast.light, SPREAD_KEYS);
@@ -108,7 +105,7 @@ describe('Adjustment response', () => {
       const seed = buildSeed(i + 12000);
 
       // Bright light side should not wash out semantic colors.
-      const highBrightness = generateTheme(mode, seed, 3, -1, 5, undefined, false);
+      const highBrightness = generateTheme({ mode, seed, levels: { saturation: 3, contrast: -1, brightness: 5 } });
       for (const key of VISIBLE_COLOR_KEYS) {
         const ratio = contrastRatio(highBrightness.light[key], highBrightness.light.bg);
         if (ratio < minVisibilityRatio) {
@@ -119,7 +116,7 @@ describe('Adjustment response', () => {
       }
 
       // Very dark side should also keep semantic colors readable against dark bg.
-      const lowBrightness = generateTheme(mode, seed, 3, -1, -5, undefined, false);
+      const lowBrightness = generateTheme({ mode, seed, levels: { saturation: 3, contrast: -1, brightness: -5 } });
       for (const key of VISIBLE_COLOR_KEYS) {
         const ratio = contrastRatio(lowBrightness.dark[key], lowBrightness.dark.bg);
         if (ratio < minVisibilityRatio) {
@@ -138,7 +135,7 @@ describe('Adjustment response', () => {
     const bri = 2;
     const minBrandRatio = 2.55;
     for (const con of [-3, -4, -5]) {
-      const { light } = generateTheme(mode, seed, sat, con, bri, undefined, false);
+      const { light } = generateTheme({ mode, seed, levels: { saturation: sat, contrast: con, brightness: bri } });
       for (const key of VISIBLE_COLOR_KEYS) {
         const ratio = contrastRatio(light[key], light.bg);
         if (ratio < minBrandRatio) {
@@ -151,7 +148,11 @@ describe('Adjustment response', () => {
   });
 
   it('keeps light/dark semantic contrast feel aligned in extreme high-contrast dark-brightness cases', () => {
-    const { light, dark } = generateTheme('random', '#a8372a', -4, 5, -4, undefined, false);
+    const { light, dark } = generateTheme({
+      mode: 'random',
+      seed: '#a8372a',
+      levels: { saturation: -4, contrast: 5, brightness: -4 },
+    });
     const keys: Array<'primary' | 'secondary' | 'accent'> = ['primary', 'secondary', 'accent'];
 
     for (const key of keys) {
@@ -0,0 +1,118 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { apcaContrast, contrastFor, selectForegroundHex } from '../utils/contrast';
+import { checkHardRejects } from '../utils/scoringEngine';
+import { generateTheme as generateBasePalette, withRoleTokens } from '../utils/paletteEngine';
+import { buildSeed } from './helpers';
+
+const MODES = [
+  'monochrome',
+  'analogous',
+  'complementary',
+  'split-complementary',
+  'triadic',
+  'tetradic',
+  'compound',
+  'triadic-split',
+] as const;
+
+const ON_COLOR_PAIRS = [
+  ['primary', 'primaryFg'],
+  ['secondary', 'secondaryFg'],
+  ['accent', 'accentFg'],
+  ['good', 'goodFg'],
+  ['warn', 'warnFg'],
+  ['bad', 'badFg'],
+] as const;
+
+describe('APCA contrast', () => {
+  it('matches APCA-W3 reference Lc values with signed polarity', () => {
+    expect(apcaContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 1);
+    expect(apcaContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 1);
+    expect(apcaContrast('#888888', '#ffffff')).toBeCloseTo(63.06, 1);
+    expect(apcaContrast('#ffffff', '#ffffff')).toBe(0);
+  });
+
+  it('rejects dark-mode text that passes WCAG 2 but falls short of Lc 60', () => {
+    const palette = {
+      bg: '#121212',
+      card: '#1e1e1e',
+      text: '#8a8a8a',
+      textMuted: '#6a6a6a',
+      primary: '#3b82f6',
+      secondary: '#8b5cf6',
+      accent: '#f59e0b',
+      good: '#22c55e',
+      bad: '#ef4444',
+    };
+    const codes = (algorithm: 'wcag2' | 'apca') => checkHardRejects(palette, algorithm).map((r) => r.code);
+
+    expect(codes('wcag2')).not.toContain('LOW_TEXT_CONTRAST');
+    expect(codes('apca')).toContain('LOW_TEXT_CONTRAST');
+    expect(contrastFor('#8a8a8a', '#121212', 'apca')).toBeLessThan(contrastFor('#8a8a8a', '#121212', 'wcag2'));
+  });
+
+  it('picks the foreground polarity with the stronger Lc and reaches Lc 60', () => {
+    for (const bg of ['#3b82f6', '#f59e0b', '#22c55e', '#7c3aed', '#0f172a', '#f8fafc']) {
+      const fg = selectForegroundHex(bg, 'apca');
+      const whiteLc = Math.abs(apcaContrast('#ffffff', bg));
+      const blackLc = Math.abs(apcaContrast('#000000', bg));
+      // Mid-tone fills may cap below Lc 60; the pick must then reach the best extreme
+      const reachable = Math.min(60, Math.max(whiteLc, blackLc));
+      expect(apcaContrast(fg, bg) < 0).toBe(whiteLc >= blackLc);
+      expect(Math.abs(apcaContrast(fg, bg))).toBeGreaterThanOrEqual(reachable - 1);
+    }
+  });
+
+  it('keeps text and on-color pairs readable by Lc across generated themes', () => {
+    for (let i = 0; i < 48; i++) {
+      const mode = MODES[i % MODES.length];
+      const seed = buildSeed(i + 9600);
+      const saturation = (i % 11) - 5;
+      const { light, dark, contrastAlgorithm } = generateTheme({
+        mode,
+        seed,
+        levels: { saturation },
+        darkFirst: i % 2 === 0,
+        contrastAlgorithm: 'apca',
+      });
+      expect(contrastAlgorithm).toBe('apca');
+
+      for (const [side, theme] of [['light', light], ['dark', dark]] as const) {
+        const textLc = Math.abs(apcaContrast(theme.text, theme.bg));
+        if (textLc < 60) {
+          throw new Error(`text Lc fail side=${side} mode=${mode} seed=${seed} sat=${saturation} lc=${textLc.toFixed(1)}`);
+        }
+
+        for (const [fill, fg] of ON_COLOR_PAIRS) {
+          const lc = Math.abs(apcaContrast(theme[fg], theme[fill]));
+          if (lc < 45) {
+            throw new Error(`on-color Lc fail side=${side} role=${fill} mode=${mode} seed=${seed} lc=${lc.toFixed(1)}`);
+          }
+        }
+      }
+    }
+  });
+
+  it('picks the engine\'s on-color foregrounds with the requested algorithm', () => {
+    for (const darkFirst of [false, true]) {
+      const base = generateBasePalette('triadic', '#3b82f6', 0, 0, 0, undefined, darkFirst, 'apca');
+      for (const theme of [base.light, base.dark]) {
+        expect(theme.textOnColor).toBe(selectForegroundHex(theme.primary, 'apca'));
+        for (const [fill, fg] of ON_COLOR_PAIRS) {
+          // Status picks are made on the unrounded color, so compare by Lc rather than hex
+          const expected = Math.abs(apcaContrast(selectForegroundHex(theme[fill], 'apca'), theme[fill]));
+          expect(Math.abs(apcaContrast(theme[fg], theme[fill]))).toBeGreaterThanOrEqual(expected - 1);
+        }
+      }
+    }
+  });
+
+  it('derives the companion mode\'s roles with the requested algorithm', () => {
+    for (const darkFirst of [false, true]) {
+      const base = generateBasePalette('triadic', '#3b82f6', 0, 0, 0, undefined, darkFirst, 'apca');
+      const companion = darkFirst ? base.light : base.dark;
+      expect(companion).toEqual(withRoleTokens(companion, 'apca'));
+    }
+  });
+});
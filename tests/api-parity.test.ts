@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from '../api/generate-theme';
+import { generateTheme } from '../utils/colorUtils';
+import { buildSeed } from './helpers';
+
+const MODES = [
+  'monochrome', 'analogous', 'complementary', 'split-complementary',
+  'triadic', 'tetradic', 'compound', 'triadic-split', 'random'
+] as const;
+
+// Calls the handler in-process; each request gets its own client IP so the limiter never trips
+async function callGenerate(body: Record<string, unknown>, ip: string) {
+  const captured: { status: number; body: Record<string, any> } = { status: 0, body: {} };
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      captured.status = code;
+      return res;
+    },
+    json: (payload: Record<string, any>) => {
+      captured.body = payload;
+      return res;
+    },
+    end: () => res,
+  };
+  const req = { method: 'POST', headers: { 'x-forwarded-for': ip }, body };
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured;
+}
+
+describe('generate-theme API parity', () => {
+  it('returns byte-identical tokens to the in-app engine across a seed corpus', async () => {
+    for (let i = 0; i < 45; i++) {
+      const seed = buildSeed(i + 8300);
+      const mode = MODES[i % MODES.length];
+      const contrast = (i % 5) - 2;
+      const darkFirst = i % 3 === 0;
+      const gamut = i % 4 === 0 ? 'p3' : 'srgb';
+      const contrastAlgorithm = i % 2 === 0 ? 'wcag2' : 'apca';
+
+      const { status, body } = await callGenerate(
+        { mode, seed, contrast, darkFirst, gamut, contrastAlgorithm },
+        `10.0.0.${i}`
+      );
+      const expected = generateTheme({ mode, seed, levels: { contrast }, darkFirst, gamut, contrastAlgorithm });
+
+      expect(status).toBe(200);
+      const actual = JSON.stringify([body.light, body.dark, body.scales, body.p3 ?? null]);
+      if (actual !== JSON.stringify([expected.light, expected.dark, expected.scales, expected.p3 ?? null])) {
+        throw new Error(`API output differs from engine seed=${seed} mode=${mode}`);
+      }
+      if (body.metadata.mode !== expected.mode || body.metadata.seed !== expected.seed) {
+        throw new Error(`API metadata differs from engine seed=${seed} mode=${mode}`);
+      }
+    }
+  });
+
+  it('passes split light/dark adjustments through to the engine unchanged', async () => {
+    const { body } = await callGenerate(
+      { mode: 'triadic', seed: '#0f766e', splitAdjustments: true, lsat: 2, lcon: -1, dbri: 3, dcon: 1 },
+      '10.0.1.1'
+    );
+    const expected = generateTheme({
+      mode: 'triadic',
+      seed: '#0f766e',
+      levels: { saturation: 2, contrast: -1 },
+      darkLevels: { saturation: 0, contrast: 1, brightness: 3 },
+    });
+
+    expect(JSON.stringify([body.light, body.dark])).toBe(JSON.stringify([expected.light, expected.dark]));
+  });
+
+  it('keeps a separate rate-limit budget per client', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await callGenerate({ mode: 'analogous', seed: '#3b82f6' }, '10.0.2.1')).status);
+    }
+
+    expect(statuses.slice(0, 10).every((status) => status === 200)).toBe(true);
+    expect(statuses[10]).toBe(429);
+    expect((await callGenerate({ mode: 'analogous', seed: '#3b82f6' }, '10.0.2.2')).status).toBe(200);
+  });
+});
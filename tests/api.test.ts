@@ -264,6 +264,89 @@ describe('API Test Suite', () => {
       await delay(DELAY_BETWEEN_TESTS);
     });
 
+    it('should return Display P3 values with sRGB fallbacks for gamut p3', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'triadic', baseColor: '#3B82F6', gamut: 'p3' }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.metadata.gamut).toBe('p3');
+      expect(data.p3.light.primary.srgb).toBe(data.light.primary);
+      expect(data.p3.dark.bad.p3).toMatch(/^color\(display-p3 [\d.]+ [\d.]+ [\d.]+\)$/);
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should reject unknown gamut', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ gamut: 'rec2020' }),
+      });
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_GAMUT');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should score readability with APCA when requested', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'analogous', baseColor: '#3B82F6', contrastAlgorithm: 'apca' }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.metadata.options.contrastAlgorithm).toBe('apca');
+      expect(data.dark.primaryFg).toMatch(/^#[0-9A-Fa-f]{6}$/);
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should reject unknown contrast algorithm', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ contrastAlgorithm: 'wcag3' }),
+      });
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_CONTRAST_ALGORITHM');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should regenerate a seed with a pinned engine version', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'random', baseColor: '#F26427', engineVersion: '1' }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.metadata.engineVersion).toBe('1.0.0');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should reject unknown engine version', async () => {
+      const response = await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ engineVersion: '9.0.0' }),
+      });
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_ENGINE_VERSION');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
     it('should reject invalid style', async () => {
       const response = await apiRequest('/generate-theme', {
         method: 'POST',
@@ -508,6 +591,54 @@ describe('API Test Suite', () => {
       await delay(DELAY_BETWEEN_TESTS);
     });
 
+    it('should export light and dark themes in one CSS file', async () => {
+      const response = await apiRequest('/export-theme', {
+        method: 'POST',
+        body: JSON.stringify({ 
+          theme: { light: sampleTheme, dark: { ...sampleTheme, bg: '#0F172A' } },
+          format: 'css'
+        }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.success).toBe(true);
+      expect(data.content).toContain(':root {');
+      expect(data.content).toContain('@media (prefers-color-scheme: dark)');
+      expect(data.content).toContain('[data-theme="dark"], .dark');
+      expect(data.content).toContain('--taichi-bg: #0F172A;');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should export light and dark themes as DTCG tokens', async () => {
+      const response = await apiRequest('/export-theme', {
+        method: 'POST',
+        body: JSON.stringify({ 
+          theme: { light: sampleTheme, dark: sampleTheme, mode: 'analogous', seed: '#3B82F6' },
+          format: 'dtcg'
+        }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.success).toBe(true);
+      expect(data.format).toBe('dtcg');
+      expect(data.filename).toBe('taichi-theme.tokens.json');
+      
+      const tokens = JSON.parse(data.content);
+      expect(tokens.$description).toContain('analogous');
+      expect(tokens.$description).toContain('#3B82F6');
+      expect(tokens.light.color.$type).toBe('color');
+      expect(tokens.light.color.primary.$value).toBe(sampleTheme.primary);
+      expect(tokens.light.color.ring.$value).toBe('{light.color.primary}');
+      expect(tokens.dark.color.ring.$value).toBe('{dark.color.primary}');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
     it('should use custom prefix', async () => {
       const response = await apiRequest('/export-theme', {
         method: 'POST',
@@ -588,7 +719,119 @@ describe('API Test Suite', () => {
     });
   });
 
-  describe('3. CORS Support', () => {
+  describe('3. Contrast Report API (/api/contrast-report)', () => {
+
+    it('should audit both modes of a generated theme', async () => {
+      const generated = await (await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'analogous', baseColor: '#3B82F6' }),
+      })).json();
+      
+      await delay(DELAY_BETWEEN_TESTS);
+      
+      const response = await apiRequest('/contrast-report', {
+        method: 'POST',
+        body: JSON.stringify({ theme: { light: generated.light, dark: generated.dark } }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.success).toBe(true);
+      expect(data.report.entries).toHaveLength(56);
+      expect(data.report.summary.total).toBe(56);
+      expect(data.content).toBeUndefined();
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should render the report as CSV', async () => {
+      const response = await apiRequest('/contrast-report', {
+        method: 'POST',
+        body: JSON.stringify({
+          theme: {
+            bg: '#F8FAFC', card: '#F1F5F9', card2: '#E2E8F0', text: '#0F172A', textMuted: '#475569',
+            primary: '#3B82F6', primaryFg: '#FFFFFF', secondary: '#6366F1', secondaryFg: '#FFFFFF',
+            accent: '#F43F5E', accentFg: '#FFFFFF', border: '#CBD5E1', good: '#10B981', goodFg: '#FFFFFF',
+            warn: '#F59E0B', warnFg: '#000000', bad: '#EF4444', badFg: '#FFFFFF'
+          },
+          format: 'csv',
+        }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.filename).toBe('taichi-contrast-report.csv');
+      expect(data.content.split('\n')[0]).toContain('mode,foreground,background');
+      expect(data.report.entries[0].mode).toBe('light');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should reject a theme without hex tokens', async () => {
+      const response = await apiRequest('/contrast-report', {
+        method: 'POST',
+        body: JSON.stringify({ theme: { primary: '#3B82F6' } }),
+      });
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_THEME');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+  });
+
+  describe('4. Theme Diff API (/api/theme-diff)', () => {
+
+    it('should build a changelog and release notes against a baseline', async () => {
+      const generated = await (await apiRequest('/generate-theme', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'analogous', baseColor: '#3B82F6' }),
+      })).json();
+      
+      await delay(DELAY_BETWEEN_TESTS);
+      
+      const baseline = { light: generated.light, dark: generated.dark };
+      const response = await apiRequest('/theme-diff', {
+        method: 'POST',
+        body: JSON.stringify({
+          baseline,
+          theme: { light: { ...generated.light, textMuted: generated.light.bg }, dark: generated.dark },
+          baselineLabel: 'main',
+          format: 'markdown',
+        }),
+      });
+      
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      
+      expect(data.success).toBe(true);
+      expect(data.changelog.schemaVersion).toBe(1);
+      expect(data.changelog.changes).toHaveLength(1);
+      expect(data.changelog.regressions[0].token).toBe('textMuted');
+      expect(data.filename).toBe('taichi-release-notes.md');
+      expect(data.content).toContain('Compared with main');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+
+    it('should reject a baseline that is not a light/dark pair', async () => {
+      const response = await apiRequest('/theme-diff', {
+        method: 'POST',
+        body: JSON.stringify({ baseline: { primary: '#3B82F6' }, theme: { primary: '#3B82F6' } }),
+      });
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_THEME');
+      
+      await delay(DELAY_BETWEEN_TESTS);
+    });
+  });
+
+  describe('5. CORS Support', () => {
     
     it('should include CORS headers on all endpoints', async () => {
       const endpoints = [
@@ -610,7 +853,7 @@ describe('API Test Suite', () => {
     });
   });
 
-  describe('4. Integration Test - Complete Workflow', () => {
+  describe('6. Integration Test - Complete Workflow', () => {
     
     it('should complete full workflow: generate -> export -> verify', async () => {
       // Step 1: Generate a theme
@@ -0,0 +1,154 @@
+import { describe, expect, it } from '@jest/globals';
+import { runCli, CliIO, EXIT_OK, EXIT_FAILED, EXIT_USAGE } from '../cli/run';
+import { generateTheme } from '../utils/colorUtils';
+import { buildSeed } from './helpers';
+
+const MODES = ['analogous', 'complementary', 'triadic', 'tetradic'] as const;
+
+// In-memory filesystem and captured output
+function createIO(files: Record<string, string | Uint8Array> = {}, env: Record<string, string> = {}) {
+  const out = { stdout: '', stderr: '' };
+  const io: CliIO = {
+    stdout: (text) => { out.stdout += text; },
+    stderr: (text) => { out.stderr += text; },
+    readFile: (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return String(files[path]);
+    },
+    writeFile: (path, data) => { files[path] = data; },
+    env,
+  };
+  return { io, files, out };
+}
+
+function toCssFile(light: object, dark: object): string {
+  const block = (tokens: object) =>
+    Object.entries(tokens).map(([key, value]) => `  --${key.replace(/([A-Z])/g, '-$1').toLowerCase()}: ${value};`).join('\n');
+  return `:root {\n${block(light)}\n}\n.dark {\n${block(dark)}\n}\n`;
+}
+
+describe('taichi CLI', () => {
+  it('generates byte-identical exports for the same inputs', () => {
+    for (let i = 0; i < 6; i++) {
+      const args = ['generate', '--seed', buildSeed(i + 6100), '--mode', MODES[i % MODES.length], '--contrast', '2', '--dark-first'];
+      const first = createIO();
+      const second = createIO();
+
+      expect(runCli(args, first.io)).toBe(EXIT_OK);
+      expect(runCli(args, second.io)).toBe(EXIT_OK);
+      const content = first.files['taichi-theme.css'];
+      if (typeof content !== 'string' || content !== second.files['taichi-theme.css']) {
+        throw new Error(`non-deterministic export seed=${buildSeed(i + 6100)}`);
+      }
+
+      const theme = generateTheme({
+        mode: MODES[i % MODES.length],
+        seed: buildSeed(i + 6100),
+        levels: { contrast: 2 },
+        darkFirst: true,
+      });
+      if (!content.includes(`--taichi-primary: ${theme.light.primary};`)) {
+        throw new Error(`export does not match generateTheme seed=${buildSeed(i + 6100)}`);
+      }
+      expect(content).not.toContain('Generated:');
+    }
+
+    const stamped = createIO({}, { SOURCE_DATE_EPOCH: '1700000000' });
+    runCli(['generate', '--seed', '#3b82f6', '--format', 'scss', '--out', 'theme.scss'], stamped.io);
+    expect(stamped.files['theme.scss']).toContain('// Generated: 2023-11-14T22:13:20.000Z');
+
+    const zipped = createIO();
+    expect(runCli(['generate', '--seed', '#3b82f6', '--format', 'android'], zipped.io)).toBe(EXIT_OK);
+    expect(zipped.files['taichi-android-res.zip']).toBeInstanceOf(Uint8Array);
+
+    const custom = createIO();
+    const customArgs = ['generate', '--seed', '#3b82f6', '--mode', 'custom', '--offsets=45,-100', '--chroma-variance', '0.3', '--out', '-'];
+    expect(runCli(customArgs, custom.io)).toBe(EXIT_OK);
+    const customTheme = generateTheme({
+      mode: 'custom',
+      seed: '#3b82f6',
+      harmony: { offsets: [45, -100], chromaVariance: 0.3 },
+    });
+    expect(custom.out.stdout).toContain(`--taichi-secondary: ${customTheme.light.secondary};`);
+  });
+
+  it('applies an override palette to the pinned side', () => {
+    const { io, files } = createIO();
+    const code = runCli(
+      ['generate', '--seed', '#3b82f6', '--palette', 'primary=#c2410c,bg=#101418', '--palette-side', 'dark', '--format', 'json'],
+      io
+    );
+    const exported = JSON.parse(String(files['taichi-theme.json']));
+
+    expect(code).toBe(EXIT_OK);
+    expect(exported.dark.primary).toBe('#c2410c');
+    expect(exported.dark.bg).toBe('#101418');
+  });
+
+  it('fails generated themes on their quiet borders only', () => {
+    for (let i = 0; i < 8; i++) {
+      const { io, out } = createIO();
+      const seed = buildSeed(i);
+      expect(runCli(['validate', '--seed', seed, '--mode', MODES[i % MODES.length], '--format', 'json'], io)).toBe(EXIT_FAILED);
+      const report = JSON.parse(out.stdout);
+      expect(report.summary.failed).toBe(6);
+      expect(report.entries.filter((entry: { passes: boolean }) => !entry.passes).every((entry: { fg: string }) => entry.fg === 'border')).toBe(true);
+    }
+  });
+
+  it('passes generated themes once borders are declared decorative', () => {
+    const { io, out } = createIO();
+    const args = ['validate', '--seed', '#3b82f6', '--mode', 'analogous', '--decorative-borders', '--format', 'json'];
+
+    expect(runCli(args, io)).toBe(EXIT_OK);
+    expect(JSON.parse(out.stdout).summary).toEqual({ total: 50, passed: 50, failed: 0, decorative: 6 });
+    expect(out.stderr).toContain('50/50 pairs pass (wcag2; 6 decorative not audited)');
+  });
+
+  it('validates theme files and exits non-zero on failing pairs', () => {
+    const passing = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const failing = { light: { ...passing.light, textMuted: passing.light.bg }, dark: passing.dark };
+    const { io, out } = createIO({
+      'passing.css': toCssFile(passing.light, passing.dark),
+      'failing.css': toCssFile(failing.light, failing.dark),
+    });
+
+    expect(runCli(['validate', 'passing.css', '--decorative-borders', '--format', 'json'], io)).toBe(EXIT_OK);
+    expect(JSON.parse(out.stdout).summary.failed).toBe(0);
+    expect(runCli(['validate', 'failing.css', '--decorative-borders'], io)).toBe(EXIT_FAILED);
+    expect(out.stderr).toMatch(/pairs pass/);
+  });
+
+  it('diffs a baseline file against a generated theme', () => {
+    const { io, files, out } = createIO();
+    runCli(['generate', '--seed', '#3b82f6', '--mode', 'analogous', '--format', 'json', '--out', 'base.json'], io);
+
+    const base = JSON.parse(String(files['base.json']));
+    files['next.css'] = toCssFile({ ...base.light, textMuted: base.light.bg }, base.dark);
+
+    expect(runCli(['diff', 'base.json', '--seed', '#3b82f6', '--mode', 'analogous'], io)).toBe(EXIT_OK);
+    expect(out.stdout).toContain('No token values changed.');
+
+    const args = ['diff', 'base.json', 'next.css', '--format', 'json', '--label', 'main', '--out', 'changelog.json'];
+    expect(runCli(args, io)).toBe(EXIT_OK);
+    expect(runCli([...args, '--fail-on-regression'], io)).toBe(EXIT_FAILED);
+
+    const changelog = JSON.parse(String(files['changelog.json']));
+    expect(changelog).toMatchObject({ baseline: 'main', generatedAt: '1970-01-01T00:00:00.000Z' });
+    expect(changelog.regressions.map((entry: { token: string }) => entry.token)).toContain('textMuted');
+  });
+
+  it('reports usage errors with exit code 2', () => {
+    const { io, out } = createIO();
+
+    expect(runCli(['generate', '--mode', 'analogous'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['generate', '--seed', '#3b82f6', '--saturation', '9'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['generate', '--seed', '#3b82f6', '--format', 'pdf'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['generate', '--seed', '#3b82f6', '--palette', 'ring=#ffffff'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['generate', '--seed', '#3b82f6', '--mode', 'custom'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['generate', '--seed', '#3b82f6', '--mode', 'custom', '--offsets=45'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['diff', 'missing.json', '--seed', '#3b82f6'], io)).toBe(EXIT_USAGE);
+    expect(runCli(['publish'], io)).toBe(EXIT_USAGE);
+    expect(out.stderr).toContain('--seed is required');
+  });
+});
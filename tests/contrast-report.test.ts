@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { contrastRatio } from '../utils/contrast';
+import {
+  buildContrastReport,
+  formatContrastReportCsv,
+  formatContrastReportMarkdown,
+  hasContrastReportSources,
+} from '../utils/contrastReport';
+
+describe('Contrast report', () => {
+  const { light, dark } = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+
+  it('covers text, on-color, interaction-role, focus and border pairs in both modes', () => {
+    const report = buildContrastReport({ light, dark });
+    const lightEntries = report.entries.filter((entry) => entry.mode === 'light');
+
+    // text/textMuted x 3 surfaces, 8 on-color fills, 8 role pairs, focus and border x 3 surfaces
+    expect(lightEntries).toHaveLength(28);
+    expect(report.entries).toHaveLength(56);
+    expect(report.summary.total).toBe(56);
+    expect(report.summary.decorative).toBe(0);
+    expect(report.summary.passed + report.summary.failed).toBe(56);
+
+    const primaryFg = lightEntries.find((entry) => entry.fg === 'primaryFg');
+    expect(primaryFg?.bg).toBe('primary');
+    expect(primaryFg?.ratio).toBeCloseTo(contrastRatio(light.primaryFg, light.primary), 6);
+
+    const borders = report.entries.filter((entry) => entry.fg === 'border');
+    expect(borders.every((entry) => entry.kind === 'non-text' && entry.minRatio === 3)).toBe(true);
+
+    const onColor = lightEntries.find((entry) => entry.fg === 'textOnColor');
+    expect(onColor?.bg).toBe('primary');
+
+    const roles = lightEntries.filter((entry) => entry.kind === 'non-text').map((entry) => `${entry.fg}/${entry.bg}`);
+    expect(roles).toEqual([
+      'info/bg', 'disabledFg/disabledBg', 'focus/bg', 'focus/card', 'focus/card2',
+      'border/bg', 'border/card', 'border/card2',
+    ]);
+    expect(lightEntries.some((entry) => entry.fg === 'linkVisited' && entry.bg === 'card')).toBe(true);
+  });
+
+  it('fails only the quiet borders of a generated theme unless they are decorative', () => {
+    for (const seed of ['#3b82f6', '#e11d48', '#facc15', '#14b8a6']) {
+      const theme = generateTheme({ mode: 'analogous', seed });
+      const report = buildContrastReport(theme);
+      const failing = report.entries.filter((entry) => !entry.passes);
+      expect(failing.map((entry) => entry.fg)).toEqual(Array(6).fill('border'));
+      expect(report.summary.failed).toBe(6);
+
+      const optedOut = buildContrastReport(theme, 'wcag2', { decorativeBorders: true });
+      expect(optedOut.summary).toEqual({ total: 50, passed: 50, failed: 0, decorative: 6 });
+      expect(optedOut.entries.filter((entry) => entry.fg === 'border').every((entry) => entry.kind === 'decorative')).toBe(true);
+    }
+  });
+
+  it('keeps the focus indicator at 3:1 on every surface where the ring falls short', () => {
+    for (const contrastAlgorithm of ['wcag2', 'apca'] as const) {
+      for (const darkFirst of [false, true]) {
+        const theme = generateTheme({ mode: 'complementary', seed: '#0ea5e9', darkFirst, contrastAlgorithm });
+        const focus = buildContrastReport(theme, contrastAlgorithm).entries.filter((entry) => entry.fg === 'focus');
+        expect(focus).toHaveLength(6);
+        expect(focus.every((entry) => entry.kind === 'non-text' && entry.passes)).toBe(true);
+      }
+    }
+    expect(contrastRatio(light.ring, light.card2)).toBeLessThan(3);
+  });
+
+  it('judges pass/fail by the requested algorithm', () => {
+    const theme = { ...light, bg: '#121212', card: '#121212', card2: '#121212', text: '#8a8a8a' };
+    const pick = (algorithm: 'wcag2' | 'apca') => buildContrastReport(theme, algorithm).entries
+      .find((entry) => entry.fg === 'text' && entry.bg === 'bg')!;
+
+    expect(pick('wcag2').mode).toBe('dark');
+    expect(pick('wcag2').passes).toBe(true);
+    expect(pick('apca').passes).toBe(false);
+    expect(pick('apca').lc).toBeLessThan(0);
+  });
+
+  it('renders CSV and Markdown for audits', () => {
+    const report = buildContrastReport({ light, dark }, 'wcag2', { decorativeBorders: true });
+    const csv = formatContrastReportCsv(report).trim().split('\n');
+    expect(csv[0]).toBe('mode,foreground,background,fg_value,bg_value,kind,ratio,apca_lc,wcag_level,min_ratio,min_lc,result');
+    expect(csv).toHaveLength(57);
+    expect(csv.filter((row) => row.startsWith('dark,border,')).every((row) => row.endsWith(',decorative'))).toBe(true);
+    expect(csv[1].startsWith(`light,text,bg,${light.text},${light.bg},text,`)).toBe(true);
+
+    const markdown = formatContrastReportMarkdown(report);
+    expect(markdown).toContain('## Light mode');
+    expect(markdown).toContain('## Dark mode');
+    expect(markdown).toContain(`| \`border\` ${dark.border} | \`card\` ${dark.card} | decorative |`);
+    expect(markdown).toContain('50 of 50 pairs pass; 6 decorative pairs');
+    expect(formatContrastReportMarkdown(buildContrastReport({ light, dark })))
+      .toContain(`| \`border\` ${dark.border} | \`card\` ${dark.card} | non-text |`);
+  });
+
+  it('only accepts hex token maps', () => {
+    expect(hasContrastReportSources(light)).toBe(true);
+    expect(hasContrastReportSources({ ...light, text: 'var(--text)' })).toBe(false);
+    expect(hasContrastReportSources(null)).toBe(false);
+  });
+
+  it('derives the interaction roles missing from older themes', () => {
+    const { link, linkVisited, selectionBg, inputBg, info, infoFg, ...legacy } = light;
+    expect(hasContrastReportSources(legacy)).toBe(true);
+    expect(hasContrastReportSources({ ...legacy, link: 'blue' })).toBe(false);
+
+    const entry = buildContrastReport(legacy).entries.find((item) => item.fg === 'link' && item.bg === 'card')!;
+    expect(entry.fgValue).toBe(link);
+    expect(entry.passes).toBe(true);
+  });
+});
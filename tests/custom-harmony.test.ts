@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from '../api/generate-theme';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch, hueDifference } from '../utils/oklch';
+import { DEFAULT_CUSTOM_HARMONY, parseCustomHarmony, resolveHarmony } from '../utils/paletteEngine';
+import { buildDataVizPalette } from '../utils/dataViz';
+
+const SEEDS = ['#3b82f6', '#0f766e', '#f26427', '#8b5cf6', '#e11d48', '#84cc16'];
+const BRAND = { offsets: [45, -100], chromaVariance: 0.3 };
+
+async function callGenerate(body: Record<string, unknown>, ip: string) {
+  const captured: { status: number; body: Record<string, any> } = { status: 0, body: {} };
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      captured.status = code;
+      return res;
+    },
+    json: (payload: Record<string, any>) => {
+      captured.body = payload;
+      return res;
+    },
+    end: () => res,
+  };
+  const req = { method: 'POST', headers: { 'x-forwarded-for': ip }, body };
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured;
+}
+
+describe('Custom harmony', () => {
+  it('parses loose offsets and rejects out-of-range harmonies', () => {
+    expect(parseCustomHarmony('45, -100')).toEqual({ offsets: [45, -100], chromaVariance: DEFAULT_CUSTOM_HARMONY.chromaVariance });
+    expect(parseCustomHarmony([405, -190.4, 180, -180], '0.254')).toEqual({ offsets: [45, 170, 180, 180], chromaVariance: 0.25 });
+
+    expect(parseCustomHarmony([45])).toBeNull();
+    expect(parseCustomHarmony([1, 2, 3, 4, 5])).toBeNull();
+    expect(parseCustomHarmony('45,,10')).toBeNull();
+    expect(parseCustomHarmony([45, -100], 0.6)).toBeNull();
+    expect(parseCustomHarmony({ offsets: [45, -100] })).toBeNull();
+
+    expect(resolveHarmony('custom', BRAND).offsets).toEqual([0, 45, -100]);
+    expect(resolveHarmony('custom').offsets).toEqual([0, ...DEFAULT_CUSTOM_HARMONY.offsets]);
+  });
+
+  it('places secondary and accent on the requested offsets in both modes', () => {
+    for (const [i, seed] of SEEDS.entries()) {
+      const darkFirst = i % 2 === 1;
+      const theme = generateTheme({ mode: 'custom', seed, darkFirst, harmony: BRAND });
+      const baseHue = toOklch(seed).H;
+
+      expect(theme.mode).toBe('custom');
+      expect(theme.harmony).toEqual(BRAND);
+      for (const side of ['light', 'dark'] as const) {
+        const secondary = toOklch(theme[side].secondary).H;
+        const accent = toOklch(theme[side].accent).H;
+        if (hueDifference(secondary, baseHue + 45) > 6 || hueDifference(accent, baseHue - 100 + 360) > 6) {
+          throw new Error(`custom hues drifted seed=${seed} side=${side} secondary=${secondary} accent=${accent}`);
+        }
+      }
+    }
+  });
+
+  it('spreads brand chroma with the variance and leaves presets alone', () => {
+    const chromas = (chromaVariance: number) => {
+      const { light } = generateTheme({
+        mode: 'custom',
+        seed: '#3b82f6',
+        harmony: { offsets: [45, -100], chromaVariance },
+      });
+      return { secondary: toOklch(light.secondary).C, accent: toOklch(light.accent).C };
+    };
+    expect(chromas(0.5).secondary).toBeLessThan(chromas(0).secondary);
+
+    // A harmony passed alongside a preset mode is ignored
+    const preset = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    const withHarmony = generateTheme({ mode: 'triadic', seed: '#3b82f6', harmony: BRAND });
+    expect(withHarmony).toEqual(preset);
+  });
+
+  it('opens the chart palette on the custom hues', () => {
+    const theme = generateTheme({ mode: 'custom', seed: '#3b82f6', harmony: BRAND });
+    const { categorical } = buildDataVizPalette(theme.light, 'custom', undefined, theme.harmony);
+    const primaryHue = toOklch(theme.light.primary).H;
+    expect(hueDifference(toOklch(categorical[1]).H, primaryHue + 45)).toBeLessThan(3);
+  });
+
+  it('accepts custom harmonies in the API and reports invalid ones', async () => {
+    const nested = await callGenerate({ mode: 'custom', seed: '#3b82f6', harmony: BRAND }, '10.0.6.1');
+    const flat = await callGenerate({ mode: 'custom', seed: '#3b82f6', offsets: '45,-100', chromaVariance: '0.3' }, '10.0.6.2');
+    const expected = generateTheme({ mode: 'custom', seed: '#3b82f6', harmony: BRAND });
+
+    expect(nested.status).toBe(200);
+    expect(JSON.stringify([nested.body.light, nested.body.dark])).toBe(JSON.stringify([expected.light, expected.dark]));
+    expect(nested.body.metadata.harmony).toEqual(BRAND);
+    expect(flat.body.light).toEqual(nested.body.light);
+
+    const invalid = await callGenerate({ mode: 'custom', seed: '#3b82f6', offsets: [45] }, '10.0.6.3');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe('INVALID_HARMONY');
+  });
+});
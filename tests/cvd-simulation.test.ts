@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { getLuminance } from '../utils/contrast';
+import { CVD_TYPES, simulateCvd, simulateThemeTokens } from '../utils/cvd';
+import { toOklch, deltaE } from '../utils/oklch';
+import { checkHardRejects } from '../utils/scoringEngine';
+
+const basePalette = {
+  bg: '#f8fafc',
+  card: '#e2e8f0',
+  text: '#0f172a',
+  textMuted: '#475569',
+  primary: '#3b82f6',
+  secondary: '#8b5cf6',
+  accent: '#ec4899',
+};
+
+describe('Color-vision-deficiency simulation', () => {
+  it('keeps neutrals and leaves the unsimulated palette untouched', () => {
+    for (const type of CVD_TYPES) {
+      expect(simulateCvd('#ffffff', type)).toBe('#ffffff');
+      expect(simulateCvd('#000000', type)).toBe('#000000');
+    }
+    const { light } = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    expect(simulateThemeTokens(light, 'none')).toBe(light);
+  });
+
+  it('reduces achromatopsia to luminance-matched greys', () => {
+    for (const hex of ['#ef4444', '#22c55e', '#3b82f6', '#f59e0b']) {
+      const grey = simulateCvd(hex, 'achromatopsia');
+      expect(grey.slice(1, 3)).toBe(grey.slice(3, 5));
+      expect(grey.slice(3, 5)).toBe(grey.slice(5, 7));
+      expect(Math.abs(getLuminance(grey) - getLuminance(hex))).toBeLessThan(0.01);
+    }
+  });
+
+  it('collapses red/green for protanopia and deuteranopia but not tritanopia', () => {
+    const original = deltaE(toOklch('#4caf50'), toOklch('#f44336'));
+    const distance = (type: 'protanopia' | 'deuteranopia' | 'tritanopia') =>
+      deltaE(toOklch(simulateCvd('#4caf50', type)), toOklch(simulateCvd('#f44336', type)));
+
+    expect(distance('deuteranopia')).toBeLessThan(original / 3);
+    expect(distance('protanopia')).toBeLessThan(original);
+    expect(distance('tritanopia')).toBeGreaterThan(distance('deuteranopia') * 3);
+  });
+
+  it('flags status pairs that collapse under simulated dichromacy', () => {
+    const codes = (good: string, bad: string) =>
+      checkHardRejects({ ...basePalette, good, bad }).filter((r) => r.code === 'CVD_STATUS_COLLAPSE');
+
+    const collapsed = codes('#4caf50', '#f44336');
+    expect(collapsed.length).toBeGreaterThan(0);
+    expect(collapsed[0].severity).toBe('major');
+    expect(collapsed.some((r) => r.message.includes('deuteranopia'))).toBe(true);
+
+    // Blue/orange status colors stay apart for every dichromacy
+    expect(codes('#0072b2', '#d55e00')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { contrastRatio } from '../utils/contrast';
+import { toOklch, formatOklch, hueDifference } from '../utils/oklch';
+import {
+  CATEGORICAL_MAX_COLORS,
+  CATEGORICAL_MIN_COLORS,
+  RAMP_STEPS,
+  buildDataVizPalette,
+  buildDualDataVizPalettes,
+  categoricalSeparation
+} from '../utils/dataViz';
+import { exportThemeAs } from '../utils/themeExport';
+import { buildSeed } from './helpers';
+
+const MODES = [
+  'monochrome',
+  'analogous',
+  'complementary',
+  'split-complementary',
+  'triadic',
+  'tetradic',
+  'compound',
+  'triadic-split',
+] as const;
+
+describe('Data visualization palettes', () => {
+  it('keeps categorical colors distinct, also under CVD, and visible on the page', () => {
+    for (let i = 0; i < 16; i++) {
+      const mode = MODES[i % MODES.length];
+      const seed = buildSeed(i + 9100);
+      const theme = generateTheme({
+        mode,
+        seed,
+        levels: { saturation: (i % 11) - 5, contrast: (i % 7) - 3, brightness: (i % 5) - 2 },
+        darkFirst: i % 2 === 0,
+      });
+      const count = i % 2 === 0 ? CATEGORICAL_MIN_COLORS : CATEGORICAL_MAX_COLORS;
+      const palettes = buildDualDataVizPalettes(theme.light, theme.dark, theme.mode, count);
+
+      for (const side of ['light', 'dark'] as const) {
+        const { categorical } = palettes[side];
+        const separation = categoricalSeparation(categorical);
+        const weakest = Math.min(...categorical.map((hex) => contrastRatio(hex, theme[side].bg)));
+        if (categorical.length !== count || separation.normal < 0.05 || separation.cvd < 0.03 || weakest < 3) {
+          throw new Error(
+            `weak categorical set side=${side} mode=${mode} seed=${seed} count=${categorical.length} ` +
+            `ΔE=${separation.normal.toFixed(3)} cvd=${separation.cvd.toFixed(3)} contrast=${weakest.toFixed(2)}`
+          );
+        }
+        expect(hueDifference(toOklch(categorical[0]).H, toOklch(theme[side].primary).H)).toBeLessThan(3);
+      }
+    }
+  });
+
+  it('clamps the categorical count to 8-12', () => {
+    const { light } = generateTheme({ mode: 'triadic', seed: '#0f766e' });
+    expect(buildDataVizPalette(light, 'triadic', 3).categorical).toHaveLength(CATEGORICAL_MIN_COLORS);
+    expect(buildDataVizPalette(light, 'triadic', 40).categorical).toHaveLength(CATEGORICAL_MAX_COLORS);
+    expect(buildDataVizPalette(light, 'triadic', 10).categorical).toHaveLength(10);
+  });
+
+  it('builds ramps that move away from the page surface', () => {
+    const theme = generateTheme({ mode: 'complementary', seed: '#3b82f6' });
+    for (const side of ['light', 'dark'] as const) {
+      const { sequential, diverging } = buildDataVizPalette(theme[side], theme.mode);
+      const bgL = toOklch(theme[side].bg).L;
+      const distance = (hex: string) => Math.abs(toOklch(hex).L - bgL);
+
+      expect(sequential).toHaveLength(RAMP_STEPS);
+      expect(diverging).toHaveLength(RAMP_STEPS);
+      for (let s = 1; s < RAMP_STEPS; s++) {
+        expect(distance(sequential[s])).toBeGreaterThan(distance(sequential[s - 1]));
+      }
+
+      // Both arms grow from a near-neutral midpoint, each on its own hue
+      const middle = (RAMP_STEPS - 1) / 2;
+      expect(toOklch(diverging[middle]).C).toBeLessThan(0.01);
+      expect(distance(diverging[0])).toBeGreaterThan(distance(diverging[middle - 1]));
+      expect(distance(diverging[RAMP_STEPS - 1])).toBeGreaterThan(distance(diverging[middle + 1]));
+      expect(hueDifference(toOklch(diverging[0]).H, toOklch(diverging[RAMP_STEPS - 1]).H)).toBeGreaterThan(90);
+    }
+  });
+
+  it('ships the palettes in exports unless turned off', () => {
+    const { light, dark, mode } = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const palettes = buildDualDataVizPalettes(light, dark, mode);
+
+    const css = exportThemeAs({ light, dark, mode }, 'css', { includeComments: false }).content;
+    expect(css).toContain(`--taichi-chart-1: ${palettes.light.categorical[0]};`);
+    expect(css).toContain(`--taichi-chart-diverging-9: ${palettes.dark.diverging[8]};`);
+
+    const json = JSON.parse(exportThemeAs({ light, dark, mode }, 'json').content);
+    expect(json.light.dataViz).toEqual(palettes.light);
+
+    const shadcn = exportThemeAs({ light, dark, mode }, 'shadcn').content;
+    expect(shadcn).toContain(`--chart-1: ${formatOklch(toOklch(palettes.light.categorical[0]))};`);
+
+    const supplied = { categorical: ['#111111'], sequential: [], diverging: [] };
+    expect(exportThemeAs(light, 'css', { dataViz: supplied }).content).toContain('--taichi-chart-1: #111111;');
+    expect(exportThemeAs(light, 'css', { includeDataViz: false }).content).not.toContain('chart-');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  generate,
+  extractPalette,
+  adjust,
+  score,
+  exportTheme,
+  convert,
+  ENGINE_VERSION,
+  PALETTE_SLOTS
+} from '../lib';
+import { generateTheme, applyAdjustments } from '../utils/colorUtils';
+import { buildSeed } from './helpers';
+
+const MODES = ['analogous', 'complementary', 'triadic', 'tetradic', 'monochrome'] as const;
+const HEX_PATTERN = /^#[0-9a-f]{6}$/;
+
+// Four horizontal bands of solid color, RGB or RGBA
+function buildBands(colors: Array<[number, number, number]>, size: number, channels: 3 | 4): Uint8Array {
+  const data = new Uint8Array(size * size * channels);
+  for (let p = 0; p < size * size; p++) {
+    const band = colors[Math.floor((Math.floor(p / size) * colors.length) / size)];
+    data.set(channels === 4 ? [...band, 255] : band, p * channels);
+  }
+  return data;
+}
+
+const BANDS: Array<[number, number, number]> = [[250, 248, 245], [30, 32, 40], [59, 130, 246], [220, 80, 60]];
+
+describe('engine library', () => {
+  it('generates the same tokens as the positional engine, stamped with the engine version', () => {
+    for (let i = 0; i < 12; i++) {
+      const seed = buildSeed(i + 7200);
+      const mode = MODES[i % MODES.length];
+      const theme = generate({
+        seed,
+        mode,
+        levels: { saturation: 1, contrast: 2 },
+        darkLevels: { brightness: -1 },
+        darkFirst: i % 2 === 1,
+      });
+      const expected = generateTheme({
+        mode,
+        seed,
+        levels: { saturation: 1, contrast: 2 },
+        darkLevels: { brightness: -1 },
+        darkFirst: i % 2 === 1,
+      });
+
+      if (JSON.stringify(theme.light) !== JSON.stringify(expected.light) ||
+          JSON.stringify(theme.dark) !== JSON.stringify(expected.dark)) {
+        throw new Error(`generate differs from generateTheme seed=${seed} mode=${mode}`);
+      }
+      expect(theme.engineVersion).toBe(ENGINE_VERSION);
+    }
+
+    expect(generate({ seed: '#3B82F6', mode: 'triadic', gamut: 'p3' }).p3?.light.primary.p3).toMatch(/^color\(display-p3 /);
+    expect(() => generate({ seed: '#3b82f6', levels: { contrast: 6 } })).toThrow(RangeError);
+    expect(() => generate({ seed: '#3b82f6', darkLevels: { saturation: Number.NaN } })).toThrow(RangeError);
+  });
+
+  it('extracts a palette from raw RGB and RGBA pixel buffers', () => {
+    const rgba = extractPalette({ data: buildBands(BANDS, 100, 4), width: 100, height: 100 });
+    const rgb = extractPalette({ data: buildBands(BANDS, 100, 3), width: 100, height: 100, channels: 3 });
+    const large = extractPalette({ data: buildBands(BANDS, 400, 4), width: 400, height: 400 });
+
+    expect(Object.keys(rgba)).toEqual([...PALETTE_SLOTS]);
+    expect(rgb).toEqual(rgba);
+    expect(large).toEqual(rgba);
+    for (const value of Object.values(rgba).filter(Boolean)) {
+      expect(value).toMatch(HEX_PATTERN);
+    }
+
+    // Dark mode swaps which end of the neutral ramp text comes from
+    const dark = extractPalette({ data: buildBands(BANDS, 100, 4), width: 100, height: 100 }, { dark: true });
+    expect(dark.primary).toBe(rgba.primary);
+    expect(dark.text).not.toBe(rgba.text);
+
+    const theme = generate({ seed: '#3b82f6', palette: rgba });
+    expect(theme.light.primary).toBe(rgba.primary);
+
+    expect(() => extractPalette({ data: new Uint8Array(12), width: 10, height: 10 })).toThrow(RangeError);
+    expect(() => extractPalette({ data: new Uint8Array(0), width: 0, height: 0 })).toThrow(RangeError);
+  });
+
+  it('adjusts, scores, exports and converts through the public API', () => {
+    const theme = generate({ seed: '#0f766e', mode: 'complementary' });
+
+    expect(adjust(theme.light, { saturation: -2, contrast: 1 })).toEqual(
+      applyAdjustments(theme.light, 0, 1, -2, 'wcag2')
+    );
+    expect(() => adjust(theme.light, { brightness: -7 })).toThrow(RangeError);
+
+    const result = score(theme);
+    expect(result.total).toBeCloseTo((result.light.score.total + result.dark.score.total) / 2, 10);
+    expect(typeof result.isValid).toBe('boolean');
+
+    const css = exportTheme(theme, 'css', { generatedAt: null });
+    expect(css.content).toContain(`--taichi-primary: ${theme.light.primary};`);
+    expect(css.content).not.toContain('Generated:');
+    expect(exportTheme(theme, 'android').encoding).toBe('base64');
+
+    expect(convert('#3b82f6', 'rgb')).toBe('rgb(59, 130, 246)');
+    expect(convert('rgb(59, 130, 246)', 'hex')).toBe('#3B82F6');
+    expect(convert('not a color', 'hsl')).toBeNull();
+  });
+});
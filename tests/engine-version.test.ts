@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { ROLE_TOKEN_KEYS } from '../utils/paletteEngine';
+import {
+  ENGINE_VERSION,
+  ENGINE_VERSIONS,
+  createSeededRandom,
+  resolveEngineVersion
+} from '../utils/engineVersion';
+import { runCli, CliIO, EXIT_OK, EXIT_USAGE } from '../cli/run';
+
+// FNV-1a over the serialized tokens; a changed fingerprint means a changed theme
+function fingerprint(value: unknown): string {
+  let hash = 0x811c9dc5;
+  for (const char of JSON.stringify(value)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+// Roles are derived from the core tokens and arrived later (a minor change), so
+// the pinned fingerprints cover the original 20
+function coreTokens(tokens: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(tokens).filter(([key]) => !(ROLE_TOKEN_KEYS as string[]).includes(key)));
+}
+
+// seed, mode, darkFirst, 1.0.0 fingerprint, 2.0.0 fingerprint.
+// Never update these to make a test pass: a changed engine needs a new version.
+const GOLDEN: Array<[string, 'random' | 'analogous' | 'complementary' | 'triadic' | 'monochrome', boolean, string, string]> = [
+  ['#df8e10', 'random', false, 'a29ac4e4', 'a29ac4e4'],
+  ['#6a23f0', 'analogous', true, '9809ee8f', '9809ee8f'],
+  ['#3ff747', 'random', false, 'd4f4579e', 'd4f4579e'],
+  ['#f32a61', 'complementary', true, 'd5142a4b', 'd5142a4b'],
+  ['#1485e4', 'random', false, 'aaebb18d', '7547b480'],
+  ['#a9cc09', 'triadic', true, '4e6ab9d6', '4e6ab9d6'],
+  ['#ac08c9', 'random', false, 'b361b366', '75d93691'],
+  ['#13e289', 'monochrome', true, '540b817a', '540b817a'],
+  ['#f26427', 'random', false, '04277ad1', '50bc1107'],
+  ['#4244f7', 'analogous', true, 'f0dbbb61', 'f0dbbb61'],
+  ['#66f126', 'random', false, '1399557d', '1399557d'],
+  ['#e1128a', 'complementary', true, 'fd7068c3', 'fd7068c3'],
+  ['#08aec7', 'random', false, 'f1331e89', 'd6a35fb9'],
+  ['#cda709', 'triadic', true, '6cc7fdf4', '6cc7fdf4'],
+  ['#8315e5', 'random', false, 'e87d2d78', '6e8a5285'],
+  ['#2bf35f', 'monochrome', true, '69b11950', '69b11950'],
+];
+
+describe('engine versions', () => {
+  it('regenerates pinned fingerprints for every engine version', () => {
+    for (const [seed, mode, darkFirst, ...expected] of GOLDEN) {
+      ENGINE_VERSIONS.forEach((version, i) => {
+        const theme = generateTheme({ mode, seed, darkFirst, engineVersion: version });
+        if (fingerprint([coreTokens({ ...theme.light }), coreTokens({ ...theme.dark })]) !== expected[i]) {
+          throw new Error(`engine ${version} drifted for seed=${seed} mode=${mode}`);
+        }
+        expect(theme.engineVersion).toBe(version);
+      });
+    }
+
+    expect(generateTheme({ mode: 'analogous', seed: '#3b82f6' }).engineVersion).toBe(ENGINE_VERSION);
+  });
+
+  it('draws a well-distributed stream that is identical for identical seeds', () => {
+    const buckets = new Array(10).fill(0);
+    const rng = createSeededRandom('#3b82f6', '2.0.0');
+    const replay = createSeededRandom('#3b82f6', '2.0.0');
+    for (let i = 0; i < 10000; i++) {
+      const value = rng.next();
+      if (value < 0 || value >= 1 || value !== replay.next()) throw new Error(`bad draw ${value} at ${i}`);
+      buckets[Math.floor(value * 10)]++;
+    }
+    for (const count of buckets) {
+      expect(Math.abs(count - 1000)).toBeLessThan(120);
+    }
+
+    // Neighbouring seeds start on unrelated values
+    const first = ['#3b82f6', '#3b82f7', '#3b82f8'].map((seed) => createSeededRandom(seed, '2.0.0').next());
+    expect(Math.abs(first[0] - first[1]) + Math.abs(first[1] - first[2])).toBeGreaterThan(0.05);
+  });
+
+  it('resolves versions by major', () => {
+    expect(resolveEngineVersion('1')).toBe('1.0.0');
+    expect(resolveEngineVersion('v2')).toBe('2.0.0');
+    expect(resolveEngineVersion('2.3.1')).toBe('2.0.0');
+    expect(resolveEngineVersion(1)).toBe('1.0.0');
+    expect(resolveEngineVersion('9')).toBeNull();
+    expect(resolveEngineVersion('latest')).toBeNull();
+    expect(resolveEngineVersion(undefined)).toBeNull();
+  });
+
+  it('lets the CLI pin an engine version', () => {
+    const files: Record<string, string | Uint8Array> = {};
+    let stderr = '';
+    const io: CliIO = {
+      stdout: () => {},
+      stderr: (text) => { stderr += text; },
+      readFile: (path) => String(files[path]),
+      writeFile: (path, data) => { files[path] = data; },
+      env: {},
+    };
+    const args = ['generate', '--seed', '#f26427', '--format', 'json', '--out', 'theme.json'];
+
+    expect(runCli([...args, '--engine-version', '1'], io)).toBe(EXIT_OK);
+    const legacy = JSON.parse(String(files['theme.json']));
+    expect(runCli(args, io)).toBe(EXIT_OK);
+    const current = JSON.parse(String(files['theme.json']));
+
+    expect(legacy.engineVersion).toBe('1.0.0');
+    expect(current.engineVersion).toBe(ENGINE_VERSION);
+    // 1.0.0 resolves this seed's random harmony to compound, 2.0.0 to tetradic
+    expect([legacy.mode, current.mode]).toEqual(['compound', 'tetradic']);
+    expect(runCli([...args, '--engine-version', '7'], io)).toBe(EXIT_USAGE);
+    expect(stderr).toContain('Unknown --engine-version');
+  });
+});
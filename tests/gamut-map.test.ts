@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch, hueDifference, isInSRGBGamut, maxGamutChromaAt, maxChromaInGamut } from '../utils/oklch';
+import {
+  collectGamutPoints,
+  gamutEdgeChroma,
+  hueChromaEnvelope,
+  lightnessChromaBoundary,
+  relocateColor,
+  channelTrackStops
+} from '../utils/gamutMap';
+
+describe('Gamut map', () => {
+  it('draws the sRGB edge from the engine probe and the P3 edge around it', () => {
+    for (const hue of [0, 29, 110, 200, 264, 330]) {
+      const srgb = lightnessChromaBoundary(hue, 'srgb');
+      const p3 = lightnessChromaBoundary(hue, 'p3');
+
+      expect(srgb[0].C).toBe(0);
+      expect(srgb[srgb.length - 1].C).toBe(0);
+      for (const [i, point] of srgb.entries()) {
+        if (i > 0 && i < srgb.length - 1) expect(point.C).toBe(maxGamutChromaAt(point.L, hue));
+        expect(isInSRGBGamut({ L: point.L, C: point.C, H: hue }) || point.C === 0).toBe(true);
+        // The probe tolerates hex rounding, so above the near-black steps (where
+        // 8-bit quantization breaks the round-trip) it never falls short of the
+        // exact edge; P3 always contains that exact edge
+        const exact = maxChromaInGamut(point.L, hue, 'srgb');
+        if (point.L >= 0.15) expect(point.C).toBeGreaterThanOrEqual(exact - 0.001);
+        expect(p3[i].C).toBeGreaterThanOrEqual(exact);
+      }
+    }
+
+    const envelope = hueChromaEnvelope('srgb');
+    const blue = envelope.find((cusp) => cusp.H === 265)!;
+    expect(blue.C).toBeCloseTo(gamutEdgeChroma(blue.L, 265, 'srgb'), 6);
+    expect(blue.L).toBeLessThan(0.6); // Blue peaks dark, yellow light
+    expect(envelope.find((cusp) => cusp.H === 110)!.L).toBeGreaterThan(0.85);
+    expect(hueChromaEnvelope('srgb')).toBe(envelope);
+  });
+
+  it('places every hex token of both modes with its chroma headroom', () => {
+    const theme = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    const points = collectGamutPoints(theme.light, theme.dark);
+
+    expect(points.filter((point) => point.side === 'light')).toHaveLength(Object.keys(theme.light).length);
+    expect(points.filter((point) => point.side === 'dark')).toHaveLength(Object.keys(theme.dark).length);
+
+    const primary = points.find((point) => point.side === 'dark' && point.token === 'primary')!;
+    expect(primary.hex).toBe(theme.dark.primary);
+    expect(primary.headroom).toBeCloseTo(
+      Math.max(0, maxGamutChromaAt(primary.color.L, primary.color.H) - primary.color.C),
+      6
+    );
+  });
+
+  it('pulls moved colors back into sRGB and reports the clamp', () => {
+    const start = toOklch('#3b82f6');
+
+    const pushed = relocateColor(start, { C: 0.4 });
+    expect(pushed.clamped).toBe(true);
+    expect(pushed.color.L).toBe(start.L);
+    expect(pushed.color.H).toBe(start.H);
+    expect(pushed.color.C).toBeCloseTo(maxGamutChromaAt(start.L, start.H), 2);
+
+    const muted = relocateColor(start, { C: 0.05, H: -96 });
+    expect(muted.clamped).toBe(false);
+    expect(muted.color.H).toBe(264);
+    expect(hueDifference(toOklch(muted.hex).H, 264)).toBeLessThan(2);
+    expect(toOklch(muted.hex).C).toBeCloseTo(0.05, 2);
+  });
+
+  it('sweeps slider tracks through sRGB-mapped stops', () => {
+    const color = toOklch('#3b82f6');
+
+    const lightness = channelTrackStops(color, 'L', 10).map((hex) => toOklch(hex).L);
+    expect(lightness).toHaveLength(11);
+    expect(lightness[0]).toBeLessThan(0.01);
+    expect(lightness[10]).toBeGreaterThan(0.99);
+
+    const chroma = channelTrackStops(color, 'C', 10).map((hex) => toOklch(hex));
+    expect(chroma[0].C).toBeLessThan(0.005);
+    for (const stop of chroma) expect(stop.C).toBeLessThanOrEqual(maxGamutChromaAt(color.L, color.H) + 0.01);
+
+    const hues = channelTrackStops(color, 'H', 12).map((hex) => toOklch(hex).H);
+    expect(hueDifference(hues[3], 90)).toBeLessThan(8);
+    expect(hueDifference(hues[9], 270)).toBeLessThan(8);
+  });
+});
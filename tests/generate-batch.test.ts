@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import batchHandler from '../api/generate-batch';
+import themeHandler from '../api/generate-theme';
+
+type Handler = (req: VercelRequest, res: VercelResponse) => Promise<unknown>;
+
+// Calls a handler in-process, capturing JSON bodies, streamed chunks and headers
+async function call(handler: Handler, body: Record<string, unknown>, ip: string, accept?: string) {
+  const captured = { status: 0, body: {} as Record<string, any>, chunks: [] as string[], headers: {} as Record<string, string> };
+  const res = {
+    setHeader: (name: string, value: string) => {
+      captured.headers[name] = value;
+      return res;
+    },
+    status: (code: number) => {
+      captured.status = code;
+      return res;
+    },
+    json: (payload: Record<string, any>) => {
+      captured.body = payload;
+      return res;
+    },
+    write: (chunk: string) => {
+      captured.chunks.push(chunk);
+      return true;
+    },
+    end: (chunk?: string) => {
+      if (chunk) captured.chunks.push(chunk);
+      return res;
+    },
+  };
+  const req = { method: 'POST', headers: { 'x-forwarded-for': ip, ...(accept ? { accept } : {}) }, body };
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured;
+}
+
+// Timestamps differ between calls; everything else must match
+function withoutTimestamp(payload: Record<string, any>) {
+  const { timestamp, ...metadata } = payload.metadata;
+  return { ...payload, metadata };
+}
+
+function withoutTimestampIfPresent(result: Record<string, any>) {
+  return result.metadata ? withoutTimestamp(result) : result;
+}
+
+const ITEMS = [
+  { seed: '#3b82f6', mode: 'analogous' },
+  { seed: '#0f766e', mode: 'sunset' },
+  { seed: '#f26427', mode: 'triadic', darkFirst: true, contrast: 2 },
+  'not an object',
+  { seed: '#e11d48', splitAdjustments: true, lsat: 2, dbri: -1, gamut: 'p3' },
+  { seed: '#8b5cf6', mode: 'random', engineVersion: '1' },
+];
+
+describe('generate-batch API', () => {
+  it('returns every item in order with per-item errors, matching /generate-theme', async () => {
+    const { status, body } = await call(batchHandler, { items: ITEMS, defaults: { contrastAlgorithm: 'apca' } }, '10.0.4.1');
+
+    expect(status).toBe(200);
+    expect(body.summary).toEqual({ total: 6, succeeded: 4, failed: 2 });
+    const results: Array<{ index: number }> = body.results;
+    expect(results.map((result) => result.index)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(body.results[1]).toMatchObject({ success: false, code: 'INVALID_STYLE' });
+    expect(body.results[3]).toMatchObject({ success: false, code: 'INVALID_ITEM' });
+    expect(body.results[5].metadata.engineVersion).toBe('1.0.0');
+
+    for (const [index, item] of ITEMS.entries()) {
+      if (!body.results[index].success) continue;
+      const single = await call(themeHandler, { ...(item as object), contrastAlgorithm: 'apca' }, `10.0.5.${index}`);
+      const { index: _, ...batched } = body.results[index];
+      if (JSON.stringify(withoutTimestamp(batched)) !== JSON.stringify(withoutTimestamp(single.body))) {
+        throw new Error(`batch item ${index} differs from /generate-theme`);
+      }
+    }
+  });
+
+  it('streams the same results as NDJSON lines followed by a summary', async () => {
+    const json = await call(batchHandler, { items: ITEMS }, '10.0.4.2');
+    const streamed = await call(batchHandler, { items: ITEMS, stream: true }, '10.0.4.2');
+    const viaAccept = await call(batchHandler, { items: ITEMS.slice(0, 2) }, '10.0.4.2', 'application/x-ndjson');
+
+    expect(streamed.headers['Content-Type']).toContain('application/x-ndjson');
+    expect(streamed.chunks.every((chunk) => chunk.endsWith('\n'))).toBe(true);
+    const lines = streamed.chunks.map((chunk) => JSON.parse(chunk));
+    expect(lines).toHaveLength(ITEMS.length + 1);
+    expect(lines[ITEMS.length]).toEqual({ summary: json.body.summary });
+    expect(lines.slice(0, -1).map(withoutTimestampIfPresent)).toEqual(json.body.results.map(withoutTimestampIfPresent));
+    expect(viaAccept.chunks).toHaveLength(3);
+  });
+
+  it('enforces batch size limits and charges its own budget per item', async () => {
+    expect((await call(batchHandler, { items: [] }, '10.0.4.3')).body.code).toBe('INVALID_BATCH');
+    expect((await call(batchHandler, { items: { seed: '#3b82f6' } }, '10.0.4.3')).body.code).toBe('INVALID_BATCH');
+    expect((await call(batchHandler, { items: [{}], defaults: [] }, '10.0.4.3')).body.code).toBe('INVALID_BATCH');
+    const oversized = await call(batchHandler, { items: new Array(51).fill({ mode: 'analogous' }) }, '10.0.4.3');
+    expect(oversized.status).toBe(400);
+    expect(oversized.body.code).toBe('BATCH_TOO_LARGE');
+
+    const full = new Array(50).fill({ seed: '#3b82f6', mode: 'monochrome' });
+    const remaining: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const { status, headers } = await call(batchHandler, { items: full }, '10.0.4.4');
+      expect(status).toBe(200);
+      remaining.push(headers['X-RateLimit-Remaining']);
+    }
+    expect(remaining).toEqual(['150', '100', '50', '0']);
+
+    const limited = await call(batchHandler, { items: [{ mode: 'analogous' }] }, '10.0.4.4');
+    expect(limited.status).toBe(429);
+    expect(limited.body.retryAfter).toBeGreaterThan(0);
+
+    // The single-theme endpoint keeps its own budget for the same client
+    expect((await call(themeHandler, { mode: 'analogous' }, '10.0.4.4')).status).toBe(200);
+  });
+});
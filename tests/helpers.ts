@@ -0,0 +1,14 @@
+/** Deterministic, well-spread seed colors: the golden-angle hue step keeps consecutive indices far apart. */
+export function buildSeed(index: number): string {
+  const hue = (index * 137.508) % 360;
+  const rad = (hue * Math.PI) / 180;
+  const r = Math.round(127 + 120 * Math.cos(rad));
+  const g = Math.round(127 + 120 * Math.cos(rad + 2.094));
+  const b = Math.round(127 + 120 * Math.cos(rad + 4.188));
+  return (
+    '#' +
+    [r, g, b]
+      .map((v) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0'))
+      .join('')
+  );
+}
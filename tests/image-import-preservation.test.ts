@@ -1,5 +1,5 @@
 import { describe, expect, it } from '@jest/globals';
-import { generateTheme } from '../utils/colorUtils';
+import { generateTheme, paletteFromSlots } from '../utils/colorUtils';
 import { selectForegroundHex } from '../utils/contrast';
 
 const IMPORTED_KEYS = [
@@ -43,8 +43,18 @@ const DARK_IMAGE_PALETTE = [
 
 describe('Image import preservation', () => {
   it('keeps all 10 imported slots exact in light-first mode across slider extremes for light palettes', () => {
-    const high = generateTheme('image', '#006fa8', 5, -1, 5, LIGHT_IMAGE_PALETTE, false);
-    const low = generateTheme('image', '#006fa8', -5, 5, -5, LIGHT_IMAGE_PALETTE, false);
+    const high = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: 5, contrast: -1, brightness: 5 },
+      palette: paletteFromSlots(LIGHT_IMAGE_PALETTE),
+    });
+    const low = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: -5, contrast: 5, brightness: -5 },
+      palette: paletteFromSlots(LIGHT_IMAGE_PALETTE),
+    });
 
     for (let i = 0; i < IMPORTED_KEYS.length; i++) {
       const key = IMPORTED_KEYS[i];
@@ -67,7 +77,13 @@ describe('Image import preservation', () => {
   });
 
   it('keeps all 10 imported slots exact in dark-first mode', () => {
-    const generated = generateTheme('image', '#006fa8', 3, 2, -3, DARK_IMAGE_PALETTE, true);
+    const generated = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: 3, contrast: 2, brightness: -3 },
+      darkFirst: true,
+      palette: paletteFromSlots(DARK_IMAGE_PALETTE),
+    });
 
     for (let i = 0; i < IMPORTED_KEYS.length; i++) {
       const key = IMPORTED_KEYS[i];
@@ -76,7 +92,13 @@ describe('Image import preservation', () => {
   });
 
   it('applies imports to explicit dark source side when requested', () => {
-    const generated = generateTheme('image', '#006fa8', -3, -5, -3, DARK_IMAGE_PALETTE, false, undefined, undefined, undefined, 'dark');
+    const generated = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: -3, contrast: -5, brightness: -3 },
+      palette: paletteFromSlots(DARK_IMAGE_PALETTE),
+      paletteSide: 'dark',
+    });
 
     for (let i = 0; i < IMPORTED_KEYS.length; i++) {
       const key = IMPORTED_KEYS[i];
@@ -86,7 +108,12 @@ describe('Image import preservation', () => {
   });
 
   it('defaults import source side to light when darkFirst is off', () => {
-    const generated = generateTheme('image', '#006fa8', -3, -5, -3, DARK_IMAGE_PALETTE, false);
+    const generated = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: -3, contrast: -5, brightness: -3 },
+      palette: paletteFromSlots(DARK_IMAGE_PALETTE),
+    });
 
     for (let i = 0; i < IMPORTED_KEYS.length; i++) {
       const key = IMPORTED_KEYS[i];
@@ -98,7 +125,12 @@ describe('Image import preservation', () => {
     const withGap = [...LIGHT_IMAGE_PALETTE];
     withGap[4] = ''; // textOnColor unchecked
 
-    const generated = generateTheme('image', '#006fa8', 2, 0, 1, withGap, false);
+    const generated = generateTheme({
+      mode: 'image',
+      seed: '#006fa8',
+      levels: { saturation: 2, brightness: 1 },
+      palette: paletteFromSlots(withGap),
+    });
 
     expect(generated.light.textOnColor).toBe(generated.light.primaryFg);
 
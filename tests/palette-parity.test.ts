@@ -1,6 +1,7 @@
 import { describe, expect, it } from '@jest/globals';
 import { generateTheme } from '../utils/colorUtils';
 import { OklchColor, clampToSRGBGamut, toOklch } from '../utils/oklch';
+import { buildSeed } from './helpers';
 
 const HARMONY_MODES = [
   'monochrome',
@@ -30,23 +31,9 @@ function relativeChroma(color: OklchColor): number {
   return color.C / max;
 }
 
-function buildSeed(index: number): string {
-  const hue = (index * 137.508) % 360;
-  const rad = (hue * Math.PI) / 180;
-  const r = Math.round(127 + 120 * Math.cos(rad));
-  const g = Math.round(127 + 120 * Math.cos(rad + 2.094));
-  const b = Math.round(127 + 120 * Math.cos(rad + 4.188));
-  return (
-    '#' +
-    [r, g, b]
-      .map((v) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0'))
-      .join('')
-  );
-}
-
 describe('Palette parity', () => {
   it('keeps the screenshot seed close between modes at defaults', () => {
-    const { light, dark } = generateTheme('random', '#3a5cb8', 0, 0, 0, undefined, false);
+    const { light, dark } = generateTheme({ mode: 'random', seed: '#3a5cb8' });
 
     for (const key of CHROMATIC_KEYS) {
       const lightColor = toOklch(light[key]);
@@ -67,15 +54,7 @@ describe('Palette parity', () => {
       const brightness = ((i * 7) % 11) - 5;
       const darkFirst = i % 2 === 0;
 
-      const { light, dark } = generateTheme(
-        mode,
-        seed,
-        saturation,
-        contrast,
-        brightness,
-        undefined,
-        darkFirst
-      );
+      const { light, dark } = generateTheme({ mode, seed, levels: { saturation, contrast, brightness }, darkFirst });
 
       for (const key of CHROMATIC_KEYS) {
         const lightColor = toOklch(light[key]);
@@ -103,15 +82,7 @@ describe('Palette parity', () => {
       const brightness = ((i * 9) % 5) - 2;
       const darkFirst = i % 3 === 0;
 
-      const { light, dark } = generateTheme(
-        mode,
-        seed,
-        saturation,
-        contrast,
-        brightness,
-        undefined,
-        darkFirst
-      );
+      const { light, dark } = generateTheme({ mode, seed, levels: { saturation, contrast, brightness }, darkFirst });
 
       for (const key of CHROMATIC_KEYS) {
         const lightColor = toOklch(light[key]);
@@ -1,6 +1,7 @@
 import { describe, expect, it } from '@jest/globals';
 import { generateTheme } from '../utils/colorUtils';
 import { contrastRatio } from '../utils/contrast';
+import { buildSeed } from './helpers';
 
 const MODES = [
   'monochrome',
@@ -13,20 +14,6 @@ const MODES = [
   'triadic-split',
 ] as const;
 
-function buildSeed(index: number): string {
-  const hue = (index * 137.508) % 360;
-  const rad = (hue * Math.PI) / 180;
-  const r = Math.round(127 + 120 * Math.cos(rad));
-  const g = Math.round(127 + 120 * Math.cos(rad + 2.094));
-  const b = Math.round(127 + 120 * Math.cos(rad + 4.188));
-  return (
-    '#' +
-    [r, g, b]
-      .map((v) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0'))
-      .join('')
-  );
-}
-
 describe('Readability guardrails', () => {
   it('keeps text readable against core surfaces across generated themes', () => {
     for (let i = 0; i < 140; i++) {
@@ -37,15 +24,7 @@ describe('Readability guardrails', () => {
       const brightness = ((i * 7) % 11) - 5;
       const darkFirst = i % 2 === 0;
 
-      const { light, dark } = generateTheme(
-        mode,
-        seed,
-        saturation,
-        contrast,
-        brightness,
-        undefined,
-        darkFirst
-      );
+      const { light, dark } = generateTheme({ mode, seed, levels: { saturation, contrast, brightness }, darkFirst });
 
       const checkTheme = (theme: typeof light, themeName: 'light' | 'dark') => {
         const textMin = themeName === 'dark' ? 5 : 3.8;
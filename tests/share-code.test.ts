@@ -0,0 +1,163 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme, paletteFromSlots } from '../utils/colorUtils';
+import { deriveRoleTokens, DEFAULT_CUSTOM_HARMONY } from '../utils/paletteEngine';
+import { encodeShareCode, decodeShareCode, ShareState } from '../utils/shareCode';
+import { buildSeed } from './helpers';
+
+const MODES = ['random', 'analogous', 'complementary', 'triadic', 'tetradic', 'monochrome'] as const;
+
+function buildState(index: number): ShareState {
+  const mode = MODES[index % MODES.length];
+  const seed = buildSeed(index + 7300);
+  const darkFirst = index % 2 === 1;
+  const light = { saturation: (index % 11) - 5, contrast: (index % 3) - 1, brightness: 0 };
+  const dark = index % 4 === 0 ? { saturation: 2, contrast: -3, brightness: 4 } : light;
+  const theme = generateTheme({
+    mode,
+    seed,
+    levels: light,
+    darkLevels: dark,
+    darkFirst,
+  });
+  return {
+    theme: { light: theme.light, dark: theme.dark, seed: theme.seed, mode },
+    lockedColors: {},
+    overridePalette: null,
+    importSourceSide: null,
+    darkFirst,
+    contrastAlgorithm: 'wcag2',
+    engineVersion: theme.engineVersion,
+    levels: { light, dark },
+  };
+}
+
+describe('Share codes', () => {
+  it('round-trips seeded themes in a short URL-safe code', () => {
+    for (let i = 0; i < 12; i++) {
+      const state = buildState(i);
+      const code = encodeShareCode(state);
+      if (!code || !/^[A-Za-z0-9_-]+$/.test(code) || code.length > 40) {
+        throw new Error(`bad code ${code} for mode=${state.theme.mode} seed=${state.theme.seed}`);
+      }
+      expect(decodeShareCode(code)).toEqual(state);
+    }
+  });
+
+  it('carries manual edits, locks, image overrides and APCA exactly', () => {
+    const base = buildState(3);
+    const palette = ['#101418', '', '#f0f0f0', '', '', '#ff5500', '', '', '', ''];
+    const generated = generateTheme({
+      mode: 'image',
+      seed: base.theme.seed,
+      darkFirst: true,
+      palette: paletteFromSlots(palette),
+      paletteSide: 'dark',
+      contrastAlgorithm: 'apca',
+    });
+    const state: ShareState = {
+      ...base,
+      theme: {
+        light: { ...generated.light, primary: '#123456', ring: '#abcdef' },
+        dark: { ...generated.dark, bad: '#ee1122' },
+        seed: base.theme.seed,
+        mode: 'image',
+      },
+      lockedColors: { primary: true, bad: true },
+      overridePalette: palette,
+      importSourceSide: 'dark',
+      darkFirst: true,
+      contrastAlgorithm: 'apca',
+      levels: { light: { saturation: 0, contrast: 0, brightness: 0 }, dark: { saturation: 0, contrast: 0, brightness: 0 } },
+    };
+
+    const code = encodeShareCode(state)!;
+    expect(decodeShareCode(code)).toEqual(state);
+    // Three edited tokens cost three bytes each over the unedited code
+    const unedited = encodeShareCode({ ...state, theme: { ...generated, seed: base.theme.seed, mode: 'image' } })!;
+    expect(code.length - unedited.length).toBe(12);
+  });
+
+  it('round-trips custom harmonies with their offsets and variance', () => {
+    const base = buildState(4);
+    const harmony = { offsets: [45, -100, 170, 10], chromaVariance: 0.2 };
+    const { light, dark } = base.levels;
+    const generated = generateTheme({
+      mode: 'custom',
+      seed: base.theme.seed,
+      levels: light,
+      darkLevels: dark,
+      darkFirst: base.darkFirst,
+      harmony,
+    });
+    const state: ShareState = {
+      ...base,
+      theme: { light: generated.light, dark: generated.dark, seed: base.theme.seed, mode: 'custom', harmony },
+    };
+
+    const code = encodeShareCode(state)!;
+    expect(decodeShareCode(code)).toEqual(state);
+    // An unedited custom theme stays short: the harmony block adds count, 2 bytes per offset and variance
+    expect(code.length).toBeLessThanOrEqual(encodeShareCode(base)!.length + 14);
+
+    // Custom themes without offsets regenerate with the default harmony
+    const fallback = generateTheme({
+      mode: 'custom',
+      seed: base.theme.seed,
+      levels: light,
+      darkLevels: dark,
+      darkFirst: base.darkFirst,
+    });
+    const implicit: ShareState = { ...base, theme: { light: fallback.light, dark: fallback.dark, seed: base.theme.seed, mode: 'custom' } };
+    expect(decodeShareCode(encodeShareCode(implicit)!)?.theme).toEqual({ ...implicit.theme, harmony: DEFAULT_CUSTOM_HARMONY });
+  });
+
+  it('rejects corrupted, truncated and unknown-version codes', () => {
+    const code = encodeShareCode(buildState(5))!;
+    const flipped = code.slice(0, 8) + (code[8] === 'A' ? 'B' : 'A') + code.slice(9);
+    // First character holds the high six bits of the version byte, the second its low two
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+    const version4 = 'B' + alphabet[alphabet.indexOf(code[1]) & 15] + code.slice(2);
+
+    expect(decodeShareCode(flipped)).toBeNull();
+    expect(decodeShareCode(code.slice(0, -3))).toBeNull();
+    expect(decodeShareCode(version4)).toBeNull();
+    expect(decodeShareCode('not a code!')).toBeNull();
+    expect(decodeShareCode('')).toBeNull();
+  });
+
+  it('decodes v1 codes with the engine that issued them', () => {
+    // Issued before engine versions were recorded; 2.0.0 resolves this seed to a different harmony
+    const shared = decodeShareCode('AQAA8mQnBQUFBQUFAABAAAAAAAAAP6U')!;
+    const legacy = generateTheme({ mode: 'random', seed: '#f26427', engineVersion: '1.0.0' });
+
+    expect(shared.engineVersion).toBe('1.0.0');
+    expect(shared.lockedColors).toEqual({ primary: true });
+    expect(shared.theme.light).toEqual(legacy.light);
+    expect(shared.theme.dark).toEqual(legacy.dark);
+    expect(generateTheme({ mode: 'random', seed: '#f26427' }).light).not.toEqual(legacy.light);
+
+    // Re-encoding upgrades the layout but keeps the engine
+    const reencoded = encodeShareCode(shared)!;
+    expect(decodeShareCode(reencoded)).toEqual(shared);
+  });
+
+  it('upgrades v2 codes, re-deriving roles on the sides they edited', () => {
+    // Issued before the interaction roles: light primary edited to #7c3aed, bad locked
+    const shared = decodeShareCode('AgABBQ92bgUFBQUFBQQAAAAAQHw67QAAACuO')!;
+    const base = generateTheme({ mode: 'triadic', seed: '#0f766e' });
+    const editedLight = { ...base.light, primary: '#7c3aed' };
+
+    expect(shared.lockedColors).toEqual({ bad: true });
+    expect(shared.theme.light).toEqual({ ...editedLight, ...deriveRoleTokens(editedLight) });
+    expect(shared.theme.light.link).not.toBe(base.light.link);
+    expect(shared.theme.dark).toEqual(base.dark);
+    expect(decodeShareCode(encodeShareCode(shared)!)).toEqual(shared);
+  });
+
+  it('declines states it cannot represent', () => {
+    const state = buildState(2);
+    expect(encodeShareCode({ ...state, theme: { ...state.theme, seed: 'ocean' } })).toBeNull();
+    expect(encodeShareCode({ ...state, levels: { ...state.levels, dark: { saturation: 9, contrast: 0, brightness: 0 } } })).toBeNull();
+    expect(encodeShareCode({ ...state, engineVersion: '9.0.0' as ShareState['engineVersion'] })).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from '../api/generate-candidates';
+import { generateTheme } from '../utils/colorUtils';
+import { evaluatePalette } from '../utils/scoringEngine';
+import { toOklch } from '../utils/oklch';
+import { generateCandidates, candidateDistance, MAX_CANDIDATE_COUNT } from '../utils/themeCandidates';
+import { buildDualWideGamutTokens } from '../utils/gamut';
+
+async function callCandidates(body: Record<string, unknown>, ip: string) {
+  const captured: { status: number; body: Record<string, any> } = { status: 0, body: {} };
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      captured.status = code;
+      return res;
+    },
+    json: (payload: Record<string, any>) => {
+      captured.body = payload;
+      return res;
+    },
+    end: () => res,
+  };
+  const req = { method: 'POST', headers: { 'x-forwarded-for': ip }, body };
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured;
+}
+
+describe('theme candidates', () => {
+  it('ranks distinct candidates by validity then score, each reproducible from its seed', () => {
+    for (const [mode, seed] of [['random', '#e11d48'], ['triadic', '#0f766e'], ['analogous', undefined]] as const) {
+      const shortlist = generateCandidates({ mode, seed, count: 6, contrast: 1, darkFirst: seed === undefined });
+      const { candidates } = shortlist;
+
+      expect(candidates.length).toBeGreaterThan(2);
+      candidates.forEach((candidate, i) => {
+        expect(candidate.rank).toBe(i + 1);
+        const previous = candidates[i - 1];
+        if (previous && (Number(previous.isValid) < Number(candidate.isValid) ||
+            (previous.isValid === candidate.isValid && previous.score.total < candidate.score.total))) {
+          throw new Error(`rank ${candidate.rank} outranks rank ${previous.rank} for mode=${mode}`);
+        }
+        for (const other of candidates.slice(0, i)) {
+          if (candidateDistance(candidate, other) < shortlist.minDistance) {
+            throw new Error(`ranks ${other.rank} and ${candidate.rank} are near-duplicates for mode=${mode}`);
+          }
+        }
+
+        const regenerated = generateTheme({
+          mode,
+          seed: candidate.seed,
+          levels: { contrast: 1 },
+          darkFirst: seed === undefined,
+        });
+        if (JSON.stringify([regenerated.light, regenerated.dark]) !== JSON.stringify([candidate.light, candidate.dark])) {
+          throw new Error(`seed ${candidate.seed} does not reproduce rank ${candidate.rank} for mode=${mode}`);
+        }
+
+        const baseHue = toOklch(candidate.seed).H;
+        const light = evaluatePalette(candidate.light, baseHue);
+        const dark = evaluatePalette(candidate.dark, baseHue);
+        expect(candidate.score.total).toBeCloseTo((light.score.total + dark.score.total) / 2, 10);
+        expect(candidate.rejects.filter((reject) => reject.side === 'dark')).toEqual(
+          dark.rejects.map((reject) => ({ ...reject, side: 'dark' }))
+        );
+        expect(candidate.isValid).toBe(light.isValid && dark.isValid);
+      });
+    }
+  });
+
+  it('is reproducible for a seed and trades shortlist size for diversity', () => {
+    const first = generateCandidates({ mode: 'complementary', seed: '#3B82F6' });
+    const again = generateCandidates({ mode: 'complementary', seed: '#3b82f6' });
+    expect(JSON.stringify(again)).toBe(JSON.stringify(first));
+
+    const loose = generateCandidates({ mode: 'complementary', seed: '#3b82f6', count: 40, minDistance: 0 });
+    expect(loose.candidates).toHaveLength(MAX_CANDIDATE_COUNT);
+    expect(loose.nearDuplicates).toBe(0);
+
+    const strict = generateCandidates({ mode: 'complementary', seed: '#3b82f6', minDistance: 0.3 });
+    expect(strict.candidates).toHaveLength(1);
+    expect(strict.nearDuplicates).toBe(strict.generated - 1);
+    expect(strict.candidates[0].nearestDistance).toBeNull();
+  });
+
+  it('serves ranked shortlists over the API and validates its options', async () => {
+    const { status, body } = await callCandidates({ mode: 'triadic', seed: '#f26427', count: 4, contrast: 1 }, '10.0.3.1');
+    const expected = generateCandidates({ mode: 'triadic', seed: '#f26427', count: 4, contrast: 1 });
+
+    expect(status).toBe(200);
+    expect(JSON.stringify(body.candidates)).toBe(JSON.stringify(expected.candidates));
+    expect(body.metadata).toMatchObject({ mode: 'triadic', requested: 4, returned: expected.candidates.length });
+
+    const split = await callCandidates({ mode: 'triadic', seed: '#f26427', count: 2, split: true, dcon: 2, dbri: -1 }, '10.0.3.4');
+    const splitExpected = generateCandidates({ mode: 'triadic', seed: '#f26427', count: 2, darkContrast: 2, darkBrightness: -1 });
+    expect(JSON.stringify(split.body.candidates)).toBe(JSON.stringify(splitExpected.candidates));
+    expect(split.body.metadata.options).toMatchObject({ splitAdjustments: true, darkContrastLevel: 2, darkBrightnessLevel: -1 });
+
+    const wide = await callCandidates({ mode: 'triadic', seed: '#f26427', count: 2, gamut: 'p3' }, '10.0.3.5');
+    const [top] = wide.body.candidates;
+    expect(wide.body.metadata.gamut).toBe('p3');
+    expect(top.p3).toEqual(buildDualWideGamutTokens(top.light, top.dark));
+    expect(body.candidates[0].p3).toBeUndefined();
+    expect((await callCandidates({ gamut: 'rec2020' }, '10.0.3.5')).body.code).toBe('INVALID_GAMUT');
+
+    expect((await callCandidates({ count: 13 }, '10.0.3.2')).body.code).toBe('INVALID_COUNT');
+    expect((await callCandidates({ count: 2.5 }, '10.0.3.2')).body.code).toBe('INVALID_COUNT');
+    expect((await callCandidates({ minDistance: -1 }, '10.0.3.2')).body.code).toBe('INVALID_MIN_DISTANCE');
+    expect((await callCandidates({ mode: 'image' }, '10.0.3.2')).body.code).toBe('INVALID_STYLE');
+    expect((await callCandidates({ engineVersion: '9' }, '10.0.3.3')).status).toBe(400);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch, deltaE } from '../utils/oklch';
+import { contrastRatio, apcaContrast } from '../utils/contrast';
+import {
+  buildThemeDiff,
+  buildThemeChangelog,
+  classifyChangeSize,
+  formatThemeChangelog,
+  measurePartnerContrast,
+  DIFF_TOKENS
+} from '../utils/themeDiff';
+import { buildSeed } from './helpers';
+
+const MODES = ['analogous', 'complementary', 'triadic', 'tetradic'] as const;
+
+describe('Theme diff', () => {
+  it('reports no change for identical themes', () => {
+    const theme = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    const diff = buildThemeDiff(theme, theme);
+
+    expect(diff.entries).toHaveLength(DIFF_TOKENS.length * 2);
+    expect(diff.summary).toEqual({ changed: 0, regressions: 0, improvements: 0, maxDeltaE: 0 });
+  });
+
+  it('measures OKLCH deltas and contrast against each partner token', () => {
+    for (let i = 0; i < 8; i++) {
+      const a = generateTheme({ mode: MODES[i % MODES.length], seed: buildSeed(i + 5100) });
+      const b = generateTheme({ mode: MODES[(i + 1) % MODES.length], seed: buildSeed(i + 5200) });
+      const diff = buildThemeDiff(a, b);
+
+      for (const entry of diff.entries) {
+        const from = toOklch(entry.from);
+        const to = toOklch(entry.to);
+        const context = `side=${entry.side} token=${entry.token} seed=${buildSeed(i + 5100)}`;
+
+        if (Math.abs(entry.deltaL - (to.L - from.L)) > 1e-9) throw new Error(`deltaL ${context}`);
+        if (Math.abs(entry.deltaE - deltaE(from, to)) > 1e-9) throw new Error(`deltaE ${context}`);
+        if (Math.abs(entry.deltaH) > 180) throw new Error(`deltaH out of range ${context}`);
+        const partnerAfter = b[entry.side][entry.partner];
+        if (Math.abs(entry.contrastTo - contrastRatio(entry.to, partnerAfter)) > 1e-9) throw new Error(`contrast ${context}`);
+      }
+      expect(diff.summary.changed).toBe(diff.entries.filter((entry) => entry.changed).length);
+    }
+  });
+
+  it('flags pass/fail regressions and improvements', () => {
+    const base = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const broken = { light: { ...base.light, textMuted: base.light.bg }, dark: base.dark };
+
+    const regression = buildThemeDiff(base, broken);
+    const entry = regression.entries.find((item) => item.side === 'light' && item.token === 'textMuted')!;
+    expect(entry).toMatchObject({ changed: true, partner: 'bg', passesFrom: true, passesTo: false });
+    expect(regression.summary).toMatchObject({ changed: 1, regressions: 1, improvements: 0 });
+
+    expect(buildThemeDiff(broken, base).summary).toMatchObject({ regressions: 0, improvements: 1 });
+  });
+
+  it('reads out a candidate value against the token partner', () => {
+    const { light } = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const current = measurePartnerContrast(light, 'primary');
+    expect(current).toMatchObject({ partner: 'primaryFg', minRatio: 4.5, passes: true });
+    expect(current.ratio).toBeCloseTo(contrastRatio(light.primary, light.primaryFg), 9);
+    expect(current.lc).toBeCloseTo(apcaContrast(light.primary, light.primaryFg), 9);
+
+    // A candidate matching its partner fails under either algorithm
+    expect(measurePartnerContrast(light, 'primary', light.primaryFg).passes).toBe(false);
+    expect(measurePartnerContrast(light, 'primary', light.primaryFg, 'apca').passes).toBe(false);
+  });
+
+  it('takes the short way around the hue circle', () => {
+    const base = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const red = { light: { ...base.light, primary: '#e11d48' }, dark: base.dark };
+    const shifted = { light: { ...base.light, primary: '#db2777' }, dark: base.dark };
+    const entry = buildThemeDiff(red, shifted).entries.find((item) => item.side === 'light' && item.token === 'primary')!;
+
+    // rose (H≈16°) to pink (H≈355°) is a small negative turn, not +339°
+    expect(entry.deltaH).toBeLessThan(0);
+    expect(entry.deltaH).toBeGreaterThan(-40);
+  });
+
+  it('sizes changes by OKLab ΔE', () => {
+    expect(classifyChangeSize(0, false)).toBe('none');
+    expect(classifyChangeSize(0.01)).toBe('subtle');
+    expect(classifyChangeSize(0.05)).toBe('noticeable');
+    expect(classifyChangeSize(0.2)).toBe('major');
+
+    const base = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    for (let i = 0; i < 8; i++) {
+      const candidate = generateTheme({ mode: MODES[i % MODES.length], seed: buildSeed(i + 5300) });
+      const changelog = buildThemeChangelog(buildThemeDiff(base, candidate), 'base');
+      for (const change of changelog.changes) {
+        if (change.size !== classifyChangeSize(change.deltaE)) {
+          throw new Error(`size mismatch side=${change.side} token=${change.token} seed=${buildSeed(i + 5300)}`);
+        }
+      }
+    }
+  });
+
+  it('builds a JSON changelog and Markdown release notes', () => {
+    const base = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const next = { light: { ...base.light, textMuted: base.light.bg, primary: '#7c3aed' }, dark: base.dark };
+    const changelog = buildThemeChangelog(buildThemeDiff(base, next), 'v1.2.0', new Date(0));
+
+    expect(changelog).toMatchObject({ schemaVersion: 1, baseline: 'v1.2.0', generatedAt: '1970-01-01T00:00:00.000Z' });
+    expect(changelog.changes.map((change) => change.token).sort()).toEqual(['primary', 'textMuted']);
+    expect(changelog.regressions.map((entry) => entry.token)).toContain('textMuted');
+    expect(changelog.summary.regressions).toBe(changelog.regressions.length);
+    expect(changelog.summary.size).toBe('major');
+
+    const json = formatThemeChangelog(changelog, 'json');
+    expect(json.filename).toBe('taichi-changelog.json');
+    expect(JSON.parse(json.content)).toEqual(changelog);
+
+    const markdown = formatThemeChangelog(changelog, 'markdown');
+    expect(markdown.filename).toBe('taichi-release-notes.md');
+    expect(markdown.content).toContain('Compared with v1.2.0');
+    expect(markdown.content).toContain(`| \`textMuted\` | ${base.light.textMuted} | ${base.light.bg} |`);
+    expect(markdown.content).toMatch(/now fail/);
+    expect(markdown.content).not.toContain('## Dark mode');
+  });
+});
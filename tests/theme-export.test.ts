@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch, formatOklch } from '../utils/oklch';
+import { EXPORT_FORMATS, exportThemeAs } from '../utils/themeExport';
+import { NATIVE_EXPORT_FORMATS, NativeExportFormat } from '../utils/nativeExport';
+import { base64ToBytes } from '../utils/zip';
+
+describe('Theme export', () => {
+  const { light, dark, seed, mode } = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+
+  it('keeps single-theme CSS as one :root block', () => {
+    const { content, filename } = exportThemeAs(light, 'css');
+    expect(filename).toBe('taichi-theme.css');
+    expect(content).toContain(`--taichi-primary: ${light.primary};`);
+    expect(content).toContain('--taichi-primary-500:');
+    expect(content).not.toContain('prefers-color-scheme');
+  });
+
+  it('emits light and dark blocks with media query and class selectors', () => {
+    const { content } = exportThemeAs({ light, dark }, 'css', { includeComments: false });
+    const [rootBlock, darkBlocks] = content.split('@media (prefers-color-scheme: dark)');
+
+    expect(rootBlock).toContain(`--taichi-bg: ${light.bg};`);
+    expect(darkBlocks).toContain(':root:not([data-theme="light"]):not(.light)');
+    expect(darkBlocks).toContain('[data-theme="dark"], .dark {');
+    expect(darkBlocks).toContain(`--taichi-bg: ${dark.bg};`);
+  });
+
+  it('supports unprefixed variables for in-app CSS', () => {
+    const { content } = exportThemeAs(light, 'css', { prefix: '', includeComments: false });
+    expect(content.startsWith(':root {\n  --')).toBe(true);
+    expect(content).toContain(`--text-muted: ${light.textMuted};`);
+  });
+
+  it('emits Tailwind v4 @theme colors in OKLCH', () => {
+    const single = exportThemeAs(light, 'tailwind4').content;
+    expect(single).toMatch(/@theme \{\n  --color-taichi-bg: oklch\(/);
+
+    const dual = exportThemeAs({ light, dark }, 'tailwind4').content;
+    expect(dual).toContain('@theme inline {');
+    expect(dual).toContain('--color-taichi-primary: var(--taichi-primary);');
+    expect(dual).toContain('[data-theme="dark"], .dark {');
+  });
+
+  it('maps tokens onto shadcn/ui variables for both modes', () => {
+    const { content } = exportThemeAs({ light, dark }, 'shadcn');
+    const [rootBlock, darkBlock] = content.split('.dark {');
+
+    for (const name of ['--background', '--foreground', '--card-foreground', '--muted', '--destructive', '--ring']) {
+      expect(rootBlock).toMatch(new RegExp(`  ${name}: oklch\\(`));
+      expect(darkBlock).toMatch(new RegExp(`  ${name}: oklch\\(`));
+    }
+    expect(content).toContain('--color-destructive: var(--destructive);');
+    expect(darkBlock).toContain(`  --ring: ${formatOklch(toOklch(dark.focus))};`);
+
+    const { focus, ...legacy } = light;
+    expect(exportThemeAs(legacy, 'shadcn').content).toContain(`  --ring: ${formatOklch(toOklch(light.ring))};`);
+  });
+
+  it('packs asset catalogs and Android resources into ZIP archives', () => {
+    const catalog = exportThemeAs({ light, dark }, 'xcassets');
+    expect(catalog.encoding).toBe('base64');
+    expect(catalog.filename.endsWith('.zip')).toBe(true);
+
+    const archive = new TextDecoder().decode(base64ToBytes(catalog.content));
+    expect(archive.startsWith('PK')).toBe(true);
+    expect(archive).toContain('TaichiColors.xcassets/TaichiPrimary.colorset/Contents.json');
+    expect(archive).toContain('"appearance": "luminosity"');
+
+    const android = new TextDecoder().decode(base64ToBytes(exportThemeAs({ light, dark }, 'android').content));
+    expect(android).toContain('res/values/colors.xml');
+    expect(android).toContain('res/values-night/colors.xml');
+    expect(android).toContain(`<color name="taichi_primary">${dark.primary.toUpperCase()}</color>`);
+  });
+
+  it('names the source of derived DTCG tokens the engine shifted away from it', () => {
+    const tokens = JSON.parse(exportThemeAs({ light, dark, seed, mode }, 'dtcg').content);
+
+    for (const [side, theme] of [['light', light], ['dark', dark]] as const) {
+      const ring = tokens[side].color.ring;
+      expect(theme.ring).not.toBe(theme.primary);
+      expect(ring.$value).toBe(theme.ring);
+      expect(ring.$extensions['com.bucaastudio.taichi'].derivedFrom).toBe(`{${side}.color.primary}`);
+      expect(tokens[side].color.primary.$extensions).toBeUndefined();
+    }
+  });
+
+  it('renders every format for dual themes', () => {
+    for (const format of EXPORT_FORMATS) {
+      const { content, encoding } = exportThemeAs({ light, dark, seed, mode }, format);
+      const text = encoding === 'base64' ? new TextDecoder().decode(base64ToBytes(content)) : content;
+      const digits = dark.primary.slice(1).toUpperCase();
+      const darkPrimary = format === 'tailwind4' || format === 'shadcn'
+        ? formatOklch(toOklch(dark.primary))
+        : format === 'xcassets'
+          ? `"red": "0x${digits.slice(0, 2)}"`
+          : NATIVE_EXPORT_FORMATS.includes(format as NativeExportFormat)
+            ? digits
+            : dark.primary;
+      if (!text.includes(darkPrimary)) {
+        throw new Error(`dark tokens missing format=${format}`);
+      }
+    }
+  });
+});
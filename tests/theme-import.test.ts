@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme, IMAGE_SLOT_KEYS } from '../utils/colorUtils';
+import { exportThemeAs } from '../utils/themeExport';
+import {
+  detectImportFormat,
+  parseThemeSource,
+  buildImportMapping,
+  applyImportMapping,
+  guessTokenSlot,
+  parseImportedColor,
+  toOverridePalette,
+} from '../utils/themeImport';
+import { ThemeTokens } from '../types';
+import { buildSeed } from './helpers';
+
+const MODES = ['analogous', 'complementary', 'triadic', 'monochrome'] as const;
+
+function importText(text: string) {
+  const parsed = parseThemeSource(text);
+  if (!parsed) throw new Error(`unparsed source: ${text.slice(0, 80)}`);
+  return { format: parsed.format, tokens: applyImportMapping(parsed.colors, buildImportMapping(parsed.colors)) };
+}
+
+describe('Theme import', () => {
+  it('round-trips our CSS, JSON and shadcn exports for both modes', () => {
+    for (let i = 0; i < 8; i++) {
+      const mode = MODES[i % MODES.length];
+      const seed = buildSeed(i + 4200);
+      const { light, dark } = generateTheme({ mode, seed });
+
+      for (const format of ['css', 'json'] as const) {
+        const { content } = exportThemeAs({ light, dark }, format);
+        const imported = importText(content);
+        if (imported.format !== format) throw new Error(`detected ${imported.format} for ${format} seed=${seed}`);
+        for (const key of Object.keys(light) as Array<keyof ThemeTokens>) {
+          if (imported.tokens.light[key] !== light[key] || imported.tokens.dark[key] !== dark[key]) {
+            throw new Error(`${format} lost ${key} mode=${mode} seed=${seed}`);
+          }
+        }
+      }
+
+      const shadcn = importText(exportThemeAs({ light, dark }, 'shadcn').content);
+      expect(shadcn.tokens.light.primary).toBeDefined();
+      expect(shadcn.tokens.dark.bg).toBeDefined();
+    }
+  });
+
+  it('reads Tailwind color objects with nesting, DEFAULT and dark keys', () => {
+    const config = `
+      module.exports = {
+        theme: {
+          extend: {
+            colors: {
+              background: '#ffffff',
+              foreground: "#0a0a0a",
+              brand: { DEFAULT: '#2563eb', foreground: '#ffffff', 500: '#3b82f6' },
+              destructive: { DEFAULT: 'hsl(0 84.2% 60.2%)' },
+              dark: { background: '#09090b' },
+            },
+          },
+        },
+      };
+    `;
+    const { format, tokens } = importText(config);
+
+    expect(format).toBe('tailwind');
+    expect(tokens.light).toEqual({
+      bg: '#ffffff',
+      text: '#0a0a0a',
+      primary: '#2563eb',
+      primaryFg: '#ffffff',
+      bad: '#ef4444',
+    });
+    expect(tokens.dark).toEqual({ bg: '#09090b' });
+  });
+
+  it('parses shadcn triplets, oklch, var() references and dark scopes', () => {
+    const css = `
+      :root {
+        --background: 0 0% 100%;
+        --primary: oklch(0.205 0 0);
+        --ring: var(--primary);
+        --muted-foreground: 240 3.8% 46.1%;
+      }
+      @media (prefers-color-scheme: dark) {
+        :root:not(.light) { --background: 240 10% 3.9%; }
+      }
+    `;
+    const { format, tokens } = importText(css);
+
+    expect(format).toBe('css');
+    expect(tokens.light).toEqual({ bg: '#ffffff', primary: '#171717', ring: '#171717', textMuted: '#71717a' });
+    expect(tokens.dark).toEqual({ bg: '#09090b' });
+    expect(parseImportedColor('#11223380')).toBe('#112233');
+    expect(parseImportedColor('rgb(17, 34, 51)')).toBe('#112233');
+    expect(parseImportedColor('transparent')).toBeNull();
+    expect(detectImportFormat('   ')).toBeNull();
+  });
+
+  it('guesses slots by name and honours an edited mapping', () => {
+    expect(guessTokenSlot('--color-success')).toBe('good');
+    expect(guessTokenSlot('on-primary')).toBe('primaryFg');
+    expect(guessTokenSlot('--destructive-foreground')).toBe('badFg');
+    expect(guessTokenSlot('--taichi-text-muted')).toBe('textMuted');
+    expect(guessTokenSlot('primary-500')).toBeNull();
+    expect(guessTokenSlot('--radius')).toBeNull();
+
+    const parsed = parseThemeSource(':root { --paper: #101010; --ink: #eeeeee; --brand: #ff5500; }')!;
+    const mapping = { ...buildImportMapping(parsed.colors), '--paper': 'bg' as const, '--brand': null };
+    const tokens = applyImportMapping(parsed.colors, mapping);
+
+    // A lone theme with a dark page surface is imported as the dark side
+    expect(tokens).toEqual({ light: {}, dark: { bg: '#101010', text: '#eeeeee' } });
+
+    const palette = toOverridePalette(tokens.dark);
+    expect(palette).toHaveLength(IMAGE_SLOT_KEYS.length);
+    expect(palette[IMAGE_SLOT_KEYS.indexOf('bg')]).toBe('#101010');
+    expect(palette[IMAGE_SLOT_KEYS.indexOf('primary')]).toBe('');
+  });
+});
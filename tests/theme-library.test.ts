@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch } from '../utils/oklch';
+import {
+  createSavedTheme,
+  filterSavedThemes,
+  getDominantHue,
+  normalizeSavedTheme,
+  parseTags,
+} from '../utils/themeLibrary';
+import { DualTheme, GenerationMode, SavedTheme } from '../types';
+
+function buildTheme(mode: GenerationMode, seed: string, index: number): DualTheme {
+  const { light, dark } = generateTheme({ mode, seed });
+  return { id: `theme-${index}`, timestamp: index, light, dark, seed, mode };
+}
+
+function buildLibrary(): SavedTheme[] {
+  const entries: Array<[string, GenerationMode, string, string[], boolean]> = [
+    ['Ocean dashboard', 'analogous', '#2563eb', ['dashboard', 'client-a'], false],
+    ['Forest marketing', 'triadic', '#16a34a', ['marketing'], true],
+    ['Sunset landing', 'complementary', '#ea580c', ['marketing', 'client-a'], false],
+    ['Slate admin', 'monochrome', '#64748b', [], false],
+  ];
+  return entries.map(([name, mode, seed, tags, starred], i) => ({
+    ...createSavedTheme(buildTheme(mode, seed, i), name, 1000 + i),
+    tags,
+    starred,
+    collectionId: i < 2 ? 'project-x' : null,
+  }));
+}
+
+describe('Theme library', () => {
+  it('names the dominant hue of the light primary', () => {
+    const library = buildLibrary();
+    const names = library.map((saved) => getDominantHue(saved.theme).name);
+
+    for (const saved of library) {
+      const { hue } = getDominantHue(saved.theme);
+      expect(hue).toBeCloseTo(toOklch(saved.theme.light.primary).H, 6);
+    }
+    expect(names[0]).toBe('blue');
+    expect(names[1]).toBe('green');
+    expect(names[2]).toBe('orange');
+  });
+
+  it('searches by name, tag, mode and hue with every term required', () => {
+    const library = buildLibrary();
+    const names = (query: string) => filterSavedThemes(library, { query }).map((saved) => saved.name);
+
+    expect(names('ocean')).toEqual(['Ocean dashboard']);
+    expect(names('client-a')).toEqual(['Sunset landing', 'Ocean dashboard']);
+    expect(names('marketing orange')).toEqual(['Sunset landing']);
+    expect(names('triadic')).toEqual(['Forest marketing']);
+    // Slate is a blue-grey, so it counts as blue
+    expect(names('blue')).toEqual(['Slate admin', 'Ocean dashboard']);
+    // Starred first, then most recently updated
+    expect(names('')).toEqual(['Forest marketing', 'Slate admin', 'Sunset landing', 'Ocean dashboard']);
+  });
+
+  it('filters by collection and starred state', () => {
+    const library = buildLibrary();
+    const names = (filter: Parameters<typeof filterSavedThemes>[1]) =>
+      filterSavedThemes(library, filter).map((saved) => saved.name);
+
+    expect(names({ collectionId: 'project-x' })).toEqual(['Forest marketing', 'Ocean dashboard']);
+    expect(names({ collectionId: null })).toEqual(['Slate admin', 'Sunset landing']);
+    expect(names({ starredOnly: true })).toEqual(['Forest marketing']);
+  });
+
+  it('normalizes tags and records from older builds', () => {
+    expect(parseTags(' Client-A, marketing,,client-a ')).toEqual(['client-a', 'marketing']);
+
+    const theme = buildTheme('analogous', '#2563eb', 9);
+    expect(normalizeSavedTheme({ id: 'legacy', theme })).toEqual({
+      id: 'legacy',
+      name: 'Untitled theme',
+      starred: false,
+      tags: [],
+      collectionId: null,
+      theme,
+      createdAt: 9,
+      updatedAt: 9,
+    });
+    // Saved before the interaction roles existed: derived from the saved core tokens
+    const { link, divider, ...preRoles } = theme.light;
+    const upgraded = normalizeSavedTheme({ id: 'pre-roles', theme: { ...theme, light: preRoles } })!;
+    expect(upgraded.theme.light.link).toBe(link);
+    expect(upgraded.theme.light.divider).toBe(divider);
+    expect(upgraded.theme.dark).toBe(theme.dark);
+
+    expect(normalizeSavedTheme({ id: 'broken' })).toBeNull();
+    expect(normalizeSavedTheme(null)).toBeNull();
+  });
+});
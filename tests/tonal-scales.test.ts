@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme } from '../utils/colorUtils';
+import { toOklch, isInSRGBGamut } from '../utils/oklch';
+import { SCALE_ROLES, SCALE_STEPS, buildThemeScales } from '../utils/scales';
+import { buildSeed } from './helpers';
+
+const MODES = [
+  'monochrome',
+  'analogous',
+  'complementary',
+  'split-complementary',
+  'triadic',
+  'tetradic',
+  'compound',
+  'triadic-split',
+] as const;
+
+describe('Tonal scales', () => {
+  it('returns gamut-safe, ordered ramps for every role in both modes', () => {
+    for (let i = 0; i < 48; i++) {
+      const mode = MODES[i % MODES.length];
+      const seed = buildSeed(i + 7000);
+      const { scales } = generateTheme({ mode, seed, levels: { saturation: (i % 11) - 5 }, darkFirst: i % 2 === 0 });
+
+      for (const side of ['light', 'dark'] as const) {
+        for (const role of SCALE_ROLES) {
+          const lightness = SCALE_STEPS.map((step) => {
+            const hex = scales[side][role][step];
+            if (!/^#[0-9a-f]{6}$/i.test(hex) || !isInSRGBGamut(toOklch(hex))) {
+              throw new Error(`invalid scale color side=${side} role=${role} step=${step} mode=${mode} seed=${seed} value=${hex}`);
+            }
+            return toOklch(hex).L;
+          });
+
+          for (let s = 1; s < lightness.length; s++) {
+            const ordered = side === 'light'
+              ? lightness[s] < lightness[s - 1]
+              : lightness[s] > lightness[s - 1];
+            if (!ordered) {
+              throw new Error(
+                `scale out of order side=${side} role=${role} step=${SCALE_STEPS[s]} mode=${mode} seed=${seed}`
+              );
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it('matches scales rebuilt from the final tokens', () => {
+    const { light, dark, scales } = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    expect(buildThemeScales(light)).toEqual(scales.light);
+    expect(buildThemeScales(dark)).toEqual(scales.dark);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateTheme, formatColor } from '../utils/colorUtils';
+import { toOklch, isInP3Gamut, maxChromaInGamut } from '../utils/oklch';
+import { getLuminance, getLuminanceOklch } from '../utils/contrast';
+import { WIDE_GAMUT_ROLES, buildWideGamutTokens } from '../utils/gamut';
+import { exportThemeAs } from '../utils/themeExport';
+import { buildSeed } from './helpers';
+
+const MODES = [
+  'monochrome',
+  'analogous',
+  'complementary',
+  'split-complementary',
+  'triadic',
+  'tetradic',
+  'compound',
+  'triadic-split',
+] as const;
+
+const FG_PAIRS: Record<string, string> = {
+  primary: 'primaryFg',
+  secondary: 'secondaryFg',
+  accent: 'accentFg',
+  ring: 'bg',
+  good: 'goodFg',
+  warn: 'warnFg',
+  bad: 'badFg',
+};
+
+function parseP3(value: string): [number, number, number] {
+  const match = value.match(/^color\(display-p3 ([\d.]+) ([\d.]+) ([\d.]+)\)$/);
+  if (!match) throw new Error(`not a display-p3 color: ${value}`);
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3])];
+}
+
+// Display P3 (gamma-encoded) -> OKLCH via linear P3 -> linear sRGB -> hex-free OKLab
+function p3ToOklch([r, g, b]: [number, number, number]) {
+  const lin = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  const [pr, pg, pb] = [lin(r), lin(g), lin(b)];
+  const sr = 1.2249401763 * pr - 0.2249401763 * pg;
+  const sg = -0.0420569547 * pr + 1.0420569547 * pg;
+  const sb = -0.0196375546 * pr - 0.0786360456 * pg + 1.0982736003 * pb;
+  const l = Math.cbrt(0.4122214708 * sr + 0.5363325363 * sg + 0.0514459929 * sb);
+  const m = Math.cbrt(0.2119034982 * sr + 0.6806995451 * sg + 0.1073970037 * sb);
+  const s = Math.cbrt(0.0883024619 * sr + 0.2817188376 * sg + 0.6299787005 * sb);
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+  let H = Math.atan2(B, A) * (180 / Math.PI);
+  if (H < 0) H += 360;
+  return { L, C: Math.sqrt(A * A + B * B), H };
+}
+
+describe('Wide-gamut generation', () => {
+  it('only returns P3 tokens when the p3 target is requested', () => {
+    const srgb = generateTheme({ mode: 'triadic', seed: '#3b82f6' });
+    expect(srgb.gamut).toBe('srgb');
+    expect(srgb.p3).toBeUndefined();
+
+    const p3 = generateTheme({ mode: 'triadic', seed: '#3b82f6', gamut: 'p3' });
+    expect(p3.gamut).toBe('p3');
+    expect(p3.light).toEqual(srgb.light);
+    expect(p3.p3?.light.primary.srgb).toBe(srgb.light.primary);
+  });
+
+  it('extends chroma into P3 while keeping lightness, hue and contrast', () => {
+    let extended = 0;
+
+    for (let i = 0; i < 32; i++) {
+      const mode = MODES[i % MODES.length];
+      const seed = buildSeed(i + 9100);
+      const { light, dark, p3 } = generateTheme({
+        mode,
+        seed,
+        levels: { saturation: (i % 11) - 5 },
+        darkFirst: i % 2 === 0,
+        gamut: 'p3',
+      });
+
+      for (const side of ['light', 'dark'] as const) {
+        const tokens = side === 'light' ? light : dark;
+        for (const role of WIDE_GAMUT_ROLES) {
+          const pair = p3![side][role];
+          const base = toOklch(pair.srgb);
+          const wide = p3ToOklch(parseP3(pair.p3));
+          const context = `side=${side} role=${role} mode=${mode} seed=${seed} value=${pair.p3}`;
+
+          if (pair.srgb !== tokens[role]) throw new Error(`fallback mismatch ${context}`);
+          if (!isInP3Gamut({ ...wide, C: wide.C * 0.995 })) throw new Error(`outside P3 ${context}`);
+          if (Math.abs(wide.L - base.L) > 0.01) throw new Error(`lightness drift ${context}`);
+          if (wide.C < base.C - 0.005) throw new Error(`chroma reduced ${context}`);
+          if (base.C > 0.05 && Math.min(Math.abs(wide.H - base.H), 360 - Math.abs(wide.H - base.H)) > 2) {
+            throw new Error(`hue drift ${context}`);
+          }
+
+          const fg = getLuminance(tokens[FG_PAIRS[role] as keyof typeof tokens]);
+          const ratio = (l1: number, l2: number) => (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+          const floor = Math.min(role === 'ring' ? 3 : 4.5, ratio(getLuminance(pair.srgb), fg));
+          if (ratio(getLuminanceOklch(wide), fg) < floor - 0.05) throw new Error(`contrast lost ${context}`);
+
+          if (wide.C > maxChromaInGamut(base.L, base.H, 'srgb') + 0.005) extended++;
+        }
+      }
+    }
+
+    expect(extended).toBeGreaterThan(0);
+  });
+
+  it('emits P3 overrides behind @supports and color-gamut queries', () => {
+    const { light, dark } = generateTheme({ mode: 'analogous', seed: '#3b82f6' });
+    const single = exportThemeAs(light, 'css').content;
+    expect(single).not.toContain('display-p3');
+
+    const { content } = exportThemeAs({ light, dark }, 'css', { gamut: 'p3', includeComments: false });
+    const [fallback, wide] = content.split('@supports (color: color(display-p3 1 1 1)) {');
+    const darkP3 = buildWideGamutTokens(dark).primary.p3;
+
+    expect(fallback).toContain(`--taichi-primary: ${light.primary};`);
+    expect(wide).toContain('@media (color-gamut: p3) {');
+    expect(wide).toContain(`--taichi-primary: ${buildWideGamutTokens(light).primary.p3};`);
+    expect(wide.split('[data-theme="dark"], .dark {')[1]).toContain(`--taichi-primary: ${darkP3};`);
+    expect(wide).not.toContain('--taichi-bg:');
+
+    const json = JSON.parse(exportThemeAs({ light, dark }, 'json', { gamut: 'p3' }).content);
+    expect(json.dark.p3.primary).toEqual({ p3: darkP3, srgb: dark.primary });
+  });
+
+  it('formats hex values as display-p3 colors', () => {
+    expect(formatColor('#ff0000', 'display-p3')).toBe('color(display-p3 0.9175 0.2003 0.1386)');
+  });
+});
@@ -4,7 +4,7 @@ export interface ColorToken {
   name: string; // e.g., "Primary", "Background"
 }
 
-export interface ThemeTokens {
+export interface CoreThemeTokens {
   bg: string;
   card: string;
   card2: string;
@@ -18,7 +18,7 @@ export interface ThemeTokens {
   accent: string;
   accentFg: string;
   border: string;
-  ring: string;
+  ring: string;         // Brand ring; focus outlines use the focus role
   good: string;
   goodFg: string;
   warn: string;
@@ -27,6 +27,24 @@ export interface ThemeTokens {
   badFg: string;
 }
 
+// Interaction and surface roles, derived from the core tokens of the same side.
+// Themes saved before these existed lack them until upgraded (see upgradeTheme).
+export interface ThemeRoleTokens {
+  info: string;
+  infoFg: string;
+  link: string;
+  linkVisited: string;
+  overlay: string;      // Modal scrim, applied at OVERLAY_OPACITY
+  selectionBg: string;  // Text selection highlight; text stays readable on it
+  disabledBg: string;
+  disabledFg: string;
+  inputBg: string;
+  divider: string;      // Hairline separators, quieter than border
+  focus: string;        // Focus indicator: ring's hue, ≥ 3:1 on bg, card and card2
+}
+
+export interface ThemeTokens extends CoreThemeTokens, ThemeRoleTokens {}
+
 export interface DualTheme {
   id: string;
   timestamp: number;
@@ -34,9 +52,26 @@ export interface DualTheme {
   dark: ThemeTokens;
   seed: string; // The base hue or hex used to generate
   mode: GenerationMode;
+  engineVersion?: EngineVersion; // Absent on themes saved before versioning (1.0.0)
+  harmony?: CustomHarmony; // Only on custom-mode themes
+}
+
+export type GenerationMode = 'random' | 'monochrome' | 'analogous' | 'complementary' | 'split-complementary' | 'triadic' | 'tetradic' | 'compound' | 'triadic-split' | 'image' | 'custom';
+
+// A user-defined harmony for the custom mode. Offsets are degrees from the
+// primary hue, in slot order: secondary, accent, then optionally good and bad.
+export interface CustomHarmony {
+  offsets: number[];
+  chromaVariance: number; // 0..0.5, how far secondary drops below primary chroma
 }
 
-export type GenerationMode = 'random' | 'monochrome' | 'analogous' | 'complementary' | 'split-complementary' | 'triadic' | 'tetradic' | 'compound' | 'triadic-split' | 'image';
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
+// Semver of generation output: a new major whenever the same seed and options yield different tokens
+export type EngineVersion = '1.0.0' | '2.0.0';
+
+// Color-vision-deficiency simulations for the live preview
+export type CvdType = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
 
 export type ColorFormat = 'hex' | 'rgb' | 'cmyk' | 'hsl' | 'lab' | 'lch' | 'oklch' | 'display-p3';
 
@@ -50,6 +85,8 @@ export interface DesignOptions {
   contrastLevel: number; // -5 to 5, 0 is normal (shared when split is off)
   saturationLevel: number; // -5 to 5, 0 is normal (shared when split is off)
   darkFirst: boolean;    // Generate dark mode first, derive light from dark
+  wideGamut: boolean;    // Extend brand/status chroma into Display P3 (sRGB kept as fallback)
+  contrastAlgorithm: ContrastAlgorithm; // Contrast model for guardrails and foreground picks
   splitAdjustments: boolean; // When true, light/dark have independent B/C/S sliders
   lightBrightnessLevel: number; // -5 to 5 (per-mode)
   lightContrastLevel: number;   // -5 to 5 (per-mode)
@@ -59,6 +96,89 @@ export interface DesignOptions {
   darkSaturationLevel: number;  // -5 to 5 (per-mode)
 }
 
+// Per-token comparison of two themes (compare view, release notes)
+export interface ThemeDiffEntry {
+  side: 'light' | 'dark';
+  token: keyof ThemeTokens;
+  from: string;
+  to: string;
+  changed: boolean;
+  deltaL: number;   // OKLCH lightness, signed
+  deltaC: number;   // OKLCH chroma, signed
+  deltaH: number;   // Shortest signed hue turn in degrees; 0 when either color is achromatic
+  deltaE: number;   // OKLab distance
+  partner: keyof ThemeTokens; // Token this one is read against
+  contrastFrom: number; // WCAG ratio against the partner, before
+  contrastTo: number;   // ... and after
+  minRatio: number;
+  passesFrom: boolean;  // Judged by the diff's algorithm
+  passesTo: boolean;
+}
+
+export interface ThemeDiff {
+  algorithm: ContrastAlgorithm;
+  entries: ThemeDiffEntry[];
+  summary: {
+    changed: number;
+    regressions: number;   // Pairs that passed before and fail now
+    improvements: number;  // Pairs that failed before and pass now
+    maxDeltaE: number;
+  };
+}
+
+// Perceptual size of a token change (OKLab ΔE buckets)
+export type ChangeSize = 'none' | 'subtle' | 'noticeable' | 'major';
+
+export interface ThemeChangelogEntry {
+  side: 'light' | 'dark';
+  token: keyof ThemeTokens;
+  before: string;
+  after: string;
+  size: ChangeSize;
+  deltaE: number;
+  deltaL: number;
+  deltaC: number;
+  deltaH: number;
+  contrast: {
+    partner: keyof ThemeTokens;
+    before: number;
+    after: number;
+    minRatio: number;
+    passedBefore: boolean;
+    passesAfter: boolean;
+  };
+}
+
+// Machine-readable release notes (schemaVersion bumps on breaking changes)
+export interface ThemeChangelog {
+  schemaVersion: 1;
+  generatedAt: string;
+  baseline: string;
+  algorithm: ContrastAlgorithm;
+  summary: ThemeDiff['summary'] & { size: ChangeSize };
+  changes: ThemeChangelogEntry[];
+  regressions: ThemeChangelogEntry[];   // Includes unchanged tokens whose partner changed
+  improvements: ThemeChangelogEntry[];
+}
+
+// Theme library (IndexedDB); history stays a separate capped list
+export interface SavedTheme {
+  id: string;
+  name: string;
+  starred: boolean;
+  tags: string[];
+  collectionId: string | null;
+  theme: DualTheme;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ThemeCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
 export type LockedColors = Partial<Record<keyof ThemeTokens, boolean>>;
 
 export type LockedOptions = Partial<Record<keyof DesignOptions, boolean>>;
@@ -84,6 +204,89 @@ export interface ColorScale {
   900: string;
 }
 
+export type ScaleRole = 'primary' | 'secondary' | 'accent' | 'neutral' | 'good' | 'warn' | 'bad';
+
+export type ThemeScales = Record<ScaleRole, ColorScale>;
+
+export interface DualThemeScales {
+  light: ThemeScales;
+  dark: ThemeScales;
+}
+
+// Chart colors for one mode: distinct series colors, a low-to-high ramp
+// (step 1 closest to the page surface) and a two-sided ramp around a neutral midpoint
+export interface DataVizPalette {
+  categorical: string[];
+  sequential: string[];
+  diverging: string[];
+}
+
+export interface DualDataVizPalettes {
+  light: DataVizPalette;
+  dark: DataVizPalette;
+}
+
+export type GamutTarget = 'srgb' | 'p3';
+
+export type WideGamutRole = 'primary' | 'secondary' | 'accent' | 'ring' | 'good' | 'warn' | 'bad';
+
+export interface WideGamutToken {
+  p3: string;   // color(display-p3 r g b)
+  srgb: string; // Hex fallback (the regular token value)
+}
+
+export type WideGamutTokens = Record<WideGamutRole, WideGamutToken>;
+
+export interface DualWideGamutTokens {
+  light: WideGamutTokens;
+  dark: WideGamutTokens;
+}
+
+// One token placed on the gamut map, with the chroma it could still gain
+export interface GamutMapPoint {
+  side: 'light' | 'dark';
+  token: keyof ThemeTokens;
+  hex: string;
+  color: OklchColor;
+  headroom: number; // sRGB chroma left at the token's lightness and hue
+}
+
+// Gamut edge sample: the largest chroma reachable at L (and H, on the hue wheel)
+export interface GamutBoundaryPoint {
+  L: number;
+  C: number;
+  H: number;
+}
+
+// Decorative pairs (borders, when opted out of the audit) are measured for reference but never pass or fail
+export type ContrastPairKind = 'text' | 'non-text' | 'decorative';
+
+export interface ContrastReportEntry {
+  mode: 'light' | 'dark';
+  fg: keyof ThemeTokens;
+  bg: keyof ThemeTokens;
+  fgValue: string;
+  bgValue: string;
+  kind: ContrastPairKind; // non-text pairs follow WCAG 1.4.11 (3:1)
+  ratio: number;          // WCAG 2 contrast ratio
+  lc: number;             // APCA Lc (signed: negative for light text on dark)
+  level: 'AAA' | 'AA' | 'A' | 'fail'; // Decorative pairs read against 1.4.11
+  minRatio: number;
+  minLc: number;
+  passes: boolean;        // Judged by the report's algorithm
+}
+
+export interface ContrastReport {
+  algorithm: ContrastAlgorithm;
+  entries: ContrastReportEntry[];
+  summary: {
+    total: number;      // Audited pairs; decorative ones are counted apart
+    passed: number;
+    failed: number;
+    decorative: number;
+  };
+}
+
 export interface PaletteMetadata {
   seed: string;
   baseHue: number;
@@ -96,4 +299,6 @@ export interface ExtendedTheme extends DualTheme {
   metadata: PaletteMetadata;
   neutralScale?: ColorScale;
   primaryScale?: ColorScale;
+  scales?: DualThemeScales;
+  p3?: DualWideGamutTokens;
 }
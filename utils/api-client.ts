@@ -1,4 +1,20 @@
-import { ThemeTokens, GenerationMode } from '../types';
+import {
+  ThemeTokens,
+  GenerationMode,
+  DualTheme,
+  DualThemeScales,
+  ThemeScales,
+  GamutTarget,
+  ContrastAlgorithm,
+  EngineVersion,
+  CustomHarmony,
+  DualWideGamutTokens,
+  WideGamutTokens,
+  ContrastReport,
+  ThemeChangelog
+} from '../types';
+import { base64ToBytes } from './zip';
+import type { ThemeCandidate } from './themeCandidates';
 
 /**
  * API Client for Taichi Theme Generator
@@ -14,16 +30,23 @@ const API_BASE_URL = typeof window !== 'undefined' && window.location.origin.inc
 
 export type Theme = ThemeTokens;
 
+// Light + dark pair for dual-mode exports (mode/seed feed DTCG metadata)
+export type DualThemeInput = Pick<DualTheme, 'light' | 'dark'> & Partial<Pick<DualTheme, 'mode' | 'seed'>>;
+
 export interface ThemeMetadata {
   mode?: string;
   style: string;
   seed: string;
+  engineVersion?: EngineVersion;  // Pass back as engineVersion to regenerate this exact theme
+  harmony?: CustomHarmony;        // Custom mode only; pass back with the seed
   timestamp: number;
   colorSpace?: string;
+  gamut?: GamutTarget;
   philosophy: string;
   options?: {
     darkFirst?: boolean;
     splitAdjustments?: boolean;
+    contrastAlgorithm?: ContrastAlgorithm;
     saturationLevel?: number;
     contrastLevel?: number;
     brightnessLevel?: number;
@@ -40,24 +63,91 @@ export interface GenerateThemeResponse {
   success: boolean;
   light?: Theme;
   dark?: Theme;
+  scales?: DualThemeScales;
+  p3?: DualWideGamutTokens;  // Only when generated with gamut: 'p3'
   metadata?: ThemeMetadata;
   error?: string;
   code?: string;
   retryAfter?: number;
 }
 
+// One /generate-batch result, in request order; failed items carry error and code
+export type BatchItemResult = Omit<GenerateThemeResponse, 'retryAfter'> & { index: number };
+
+export interface GenerateBatchResponse {
+  success: boolean;
+  results?: BatchItemResult[];
+  summary?: { total: number; succeeded: number; failed: number };
+  error?: string;
+  code?: string;
+  retryAfter?: number;
+}
+
+export interface GenerateCandidatesResponse {
+  success: boolean;
+  candidates?: Array<ThemeCandidate & { p3?: DualWideGamutTokens }>; // Best first; regenerate a seed with the same options to reproduce it
+  metadata?: {
+    mode: string;
+    seed: string | null;
+    engineVersion: EngineVersion;
+    harmony?: CustomHarmony;
+    requested: number;
+    returned: number;       // Below requested when the pool ran out of distinct themes
+    generated: number;
+    nearDuplicates: number;
+    minDistance: number;
+    timestamp: number;
+    gamut: GamutTarget;
+    options: {
+      darkFirst: boolean;
+      contrastAlgorithm: ContrastAlgorithm;
+      saturationLevel: number;
+      contrastLevel: number;
+      brightnessLevel: number;
+    };
+  };
+  error?: string;
+  code?: string;
+  retryAfter?: number;
+}
+
 export interface ExportThemeResponse {
   success: boolean;
   format?: string;
   content?: string;
   filename?: string;
+  encoding?: 'base64';  // ZIP archives for multi-file formats (xcassets, android)
+  error?: string;
+  code?: string;
+  retryAfter?: number;
+}
+
+export interface ContrastReportResponse {
+  success: boolean;
+  report?: ContrastReport;
+  format?: 'csv' | 'markdown';
+  content?: string;   // Rendered report when a csv/markdown format was requested
+  filename?: string;
+  error?: string;
+  code?: string;
+  retryAfter?: number;
+}
+
+export interface ThemeDiffResponse {
+  success: boolean;
+  changelog?: ThemeChangelog;
+  format?: 'markdown';
+  content?: string;   // Release notes when the markdown format was requested
+  filename?: string;
   error?: string;
   code?: string;
   retryAfter?: number;
 }
 
 export type ThemeStyle = GenerationMode;
-export type ExportFormat = 'css' | 'scss' | 'less' | 'tailwind' | 'json';
+export type ExportFormat =
+  | 'css' | 'scss' | 'less' | 'tailwind' | 'tailwind4' | 'shadcn' | 'json' | 'dtcg'
+  | 'xcassets' | 'swiftui' | 'android' | 'compose' | 'flutter';
 
 export interface GenerateThemeOptions {
   mode?: ThemeStyle;
@@ -78,6 +168,10 @@ export interface GenerateThemeOptions {
   darkSaturationLevel?: number;
   darkContrastLevel?: number;
   darkBrightnessLevel?: number;
+  gamut?: GamutTarget;       // 'p3' adds Display P3 brand/status values
+  contrastAlgorithm?: ContrastAlgorithm; // 'apca' runs guardrails on APCA Lc
+  engineVersion?: EngineVersion;         // Defaults to the server's current engine
+  harmony?: CustomHarmony;               // Required for mode 'custom'
 }
 
 /**
@@ -114,7 +208,11 @@ export async function generateTheme(
     lightBrightnessLevel,
     darkSaturationLevel,
     darkContrastLevel,
-    darkBrightnessLevel
+    darkBrightnessLevel,
+    gamut = 'srgb',
+    contrastAlgorithm = 'wcag2',
+    engineVersion,
+    harmony
   } = options;
 
   const resolvedMode = mode ?? style ?? 'random';
@@ -137,7 +235,11 @@ export async function generateTheme(
       lightBrightnessLevel: lightBrightnessLevel ?? resolvedBrightness,
       darkSaturationLevel: darkSaturationLevel ?? resolvedSaturation,
       darkContrastLevel: darkContrastLevel ?? resolvedContrast,
-      darkBrightnessLevel: darkBrightnessLevel ?? resolvedBrightness
+      darkBrightnessLevel: darkBrightnessLevel ?? resolvedBrightness,
+      gamut,
+      contrastAlgorithm,
+      ...(engineVersion ? { engineVersion } : {}),
+      ...(harmony ? { harmony } : {})
     };
 
     const response = await fetch(`${API_BASE_URL}/generate-theme`, {
@@ -170,21 +272,126 @@ export async function generateTheme(
   }
 }
 
+/**
+ * Generate many themes in one request
+ *
+ * @param items - Up to 50 generation specs, each shaped like generateTheme's options
+ * @param defaults - Options merged under every item (e.g. shared levels)
+ * @returns Promise with results in request order, each with its own success/error
+ */
+export async function generateBatch(
+  items: GenerateThemeOptions[],
+  defaults: GenerateThemeOptions = {}
+): Promise<GenerateBatchResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/generate-batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ items, defaults })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to generate batch',
+        code: data.code,
+        retryAfter: data.retryAfter
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error generating batch:', error);
+    return {
+      success: false,
+      error: 'Network error while generating batch',
+      code: 'NETWORK_ERROR'
+    };
+  }
+}
+
+export interface GenerateCandidatesOptions {
+  mode?: ThemeStyle;
+  baseColor?: string;        // Candidates vary around this seed; omit to span the hue wheel
+  count?: number;            // 1 to 12, default 6
+  minDistance?: number;      // Minimum OKLab ΔE between candidates, default 0.05
+  saturationLevel?: number;  // -5 to 5
+  contrastLevel?: number;    // -5 to 5
+  brightnessLevel?: number;  // -5 to 5
+  darkFirst?: boolean;
+  contrastAlgorithm?: ContrastAlgorithm;
+  gamut?: GamutTarget;       // 'p3' adds each candidate's Display P3 values
+  engineVersion?: EngineVersion;
+  harmony?: CustomHarmony;   // Required for mode 'custom'
+}
+
+/**
+ * Generate a ranked shortlist of distinct themes
+ *
+ * @param options - Mode, optional seed, shortlist size and generation levels
+ * @returns Promise with candidates (best first) and their score breakdowns, or error
+ */
+export async function generateCandidates(
+  options: GenerateCandidatesOptions = {}
+): Promise<GenerateCandidatesResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/generate-candidates`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ mode: 'random', ...options })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to generate candidates',
+        code: data.code,
+        retryAfter: data.retryAfter
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error generating candidates:', error);
+    return {
+      success: false,
+      error: 'Network error while generating candidates',
+      code: 'NETWORK_ERROR'
+    };
+  }
+}
+
 /**
  * Export a theme in the specified format
  * 
- * @param theme - Theme object to export
- * @param format - Export format (css, scss, less, tailwind, json)
+ * @param theme - Theme object to export, or a { light, dark } pair for a dual-mode file
+ * @param format - Export format (css, scss, less, tailwind, tailwind4, shadcn, json, dtcg, xcassets, swiftui, android, compose, flutter)
  * @param options - Optional export options
+ * @param scales - Optional tonal scales ({ light, dark } for pairs; derived server-side when omitted)
+ * @param p3 - Optional Display P3 values from generateTheme; implies gamut 'p3'
  * @returns Promise with exported content or error
  */
 export async function exportTheme(
-  theme: Theme,
+  theme: Theme | DualThemeInput,
   format: ExportFormat = 'css',
   options?: {
     prefix?: string;
     includeComments?: boolean;
-  }
+    includeScales?: boolean;
+    includeDataViz?: boolean;
+    packageName?: string;
+    gamut?: GamutTarget;
+  },
+  scales?: ThemeScales | DualThemeScales,
+  p3?: WideGamutTokens | DualWideGamutTokens
 ): Promise<ExportThemeResponse> {
   try {
     const response = await fetch(`${API_BASE_URL}/export-theme`, {
@@ -195,7 +402,9 @@ export async function exportTheme(
       body: JSON.stringify({
         theme,
         format,
-        options
+        options,
+        scales,
+        p3
       })
     });
 
@@ -221,19 +430,125 @@ export async function exportTheme(
   }
 }
 
+/**
+ * Build a pass/fail contrast matrix for a theme
+ * 
+ * @param theme - Single token map, or a { light, dark } pair to audit both modes
+ * @param format - 'json' for the report only, or 'csv' / 'markdown' to also get a rendered file
+ * @param contrastAlgorithm - Metric that decides pass/fail (both are always reported)
+ * @returns Promise with the report or error
+ */
+export async function getContrastReport(
+  theme: Theme | DualThemeInput,
+  format: 'json' | 'csv' | 'markdown' = 'json',
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2'
+): Promise<ContrastReportResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/contrast-report`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        theme,
+        format,
+        contrastAlgorithm
+      })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to build contrast report',
+        code: data.code,
+        retryAfter: data.retryAfter
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error building contrast report:', error);
+    return {
+      success: false,
+      error: 'Network error while building contrast report',
+      code: 'NETWORK_ERROR'
+    };
+  }
+}
+
+/**
+ * Diff a theme against a baseline and build a release-note changelog
+ * 
+ * @param baseline - { light, dark } pair the change is measured from
+ * @param theme - { light, dark } pair being released
+ * @param format - 'json' for the changelog only, or 'markdown' to also get release notes
+ * @param baselineLabel - Name of the baseline shown in the notes (e.g. a tag or branch)
+ * @param contrastAlgorithm - Metric that decides pass/fail regressions
+ * @returns Promise with the changelog or error
+ */
+export async function getThemeDiff(
+  baseline: DualThemeInput,
+  theme: DualThemeInput,
+  format: 'json' | 'markdown' = 'json',
+  baselineLabel: string = 'baseline',
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2'
+): Promise<ThemeDiffResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/theme-diff`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        baseline,
+        theme,
+        baselineLabel,
+        format,
+        contrastAlgorithm
+      })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to build theme diff',
+        code: data.code,
+        retryAfter: data.retryAfter
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error building theme diff:', error);
+    return {
+      success: false,
+      error: 'Network error while building theme diff',
+      code: 'NETWORK_ERROR'
+    };
+  }
+}
+
 /**
  * Download exported theme as a file
  * 
- * @param content - File content
+ * @param content - File content (base64 when `encoding` is 'base64')
  * @param filename - Filename for download
  * @param mimeType - MIME type for the file
+ * @param encoding - Pass the response `encoding` to decode ZIP archives
  */
 export function downloadThemeFile(
   content: string,
   filename: string,
-  mimeType: string = 'text/plain'
+  mimeType: string = 'text/plain',
+  encoding?: 'base64'
 ): void {
-  const blob = new Blob([content], { type: mimeType });
+  const blob = encoding === 'base64'
+    ? new Blob([base64ToBytes(content)], { type: 'application/zip' })
+    : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
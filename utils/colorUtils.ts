@@ -1,7 +1,27 @@
-import { ThemeTokens, GenerationMode, ColorFormat } from '../types';
-import { generateTheme as paletteEngineGenerateTheme } from './paletteEngine';
-import { toOklch, toHex, clampToSRGBGamut } from './oklch';
-import { selectForeground, selectForegroundHex, contrastRatio, adjustForContrast } from './contrast';
+import {
+  ThemeTokens,
+  CoreThemeTokens,
+  ThemeRoleTokens,
+  GenerationMode,
+  ColorFormat,
+  DualThemeScales,
+  GamutTarget,
+  DualWideGamutTokens,
+  ContrastAlgorithm,
+  EngineVersion,
+  CustomHarmony
+} from '../types';
+import {
+  generateTheme as paletteEngineGenerateTheme,
+  withRoleTokens,
+  deriveRoleTokens,
+  ROLE_TOKEN_KEYS,
+} from './paletteEngine';
+import { ENGINE_VERSION } from './engineVersion';
+import { buildDualThemeScales } from './scales';
+import { buildDualWideGamutTokens } from './gamut';
+import { toOklch, toHex, clampToSRGBGamut, maxGamutChromaAt, formatDisplayP3 } from './oklch';
+import { selectForeground, selectForegroundHex, contrastFor, adjustForContrast } from './contrast';
 
 // --- Conversions ---
 
@@ -79,6 +99,7 @@ export function formatColor(hex: string, format: ColorFormat): string {
     case 'rgb': return `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`;
     case 'hsl': return `hsl(${hsl.h}, ${hsl.s}%, ${hsl.l}%)`;
     case 'oklch': return hexToOklchRaw(hex);
+    case 'display-p3': return formatDisplayP3(toOklch(hex));
     default: return hex.toUpperCase();
   }
 }
@@ -137,6 +158,12 @@ export function parseToHex(input: string, format?: ColorFormat): string | null {
 // 2) contrast around dynamic midpoint
 // 3) chroma scaling for saturation
 
+// Foreground target for a contrast level: 4.5:1 normally, relaxed when the
+// user lowers contrast so re-derivation doesn't undo the compression.
+function readabilityTargetRatio(contrast: number): number {
+  return contrast >= 0 ? 4.5 : Math.max(1.5, 4.5 * Math.pow(2, contrast * 0.35));
+}
+
 /**
  * Apply Photoshop-like brightness/contrast/saturation to a theme.
  *
@@ -150,12 +177,19 @@ export function parseToHex(input: string, format?: ColorFormat): string | null {
  *   mid = average lightness of all brightness-adjusted tokens
  *
  * Saturation: Chroma scaling — C_out = C_in * (1 + saturation * 0.2)
+ *
+ * Readability guardrails measure contrast with `algorithm`; APCA Lc is mapped
+ * onto the ratio scale, so the same targets apply to both models.
+ *
+ * Interaction roles (info, link, selection, ...) are re-derived from the
+ * adjusted core tokens, so input without them (older saved themes) is fine.
  */
 export function applyAdjustments(
-  tokens: ThemeTokens,
+  tokens: CoreThemeTokens,
   brightness: number,  // -5 to 5
   contrast: number,    // -5 to 5
-  saturation: number   // -5 to 5
+  saturation: number,  // -5 to 5
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): ThemeTokens {
   const allKeys = [
     'bg', 'card', 'card2', 'text', 'textMuted', 'textOnColor', 'border', 'ring',
@@ -170,8 +204,7 @@ export function applyAdjustments(
     //   con= 0 → floor 3:1, target 4.5:1  (normal)
     //   con=-3 → floor 1.4:1, target 2.0:1 (reduced)
     //   con=-5 → floor 1.1:1, target 1.5:1 (very flat — only fix if nearly invisible)
-    const contrastFactor = Math.pow(2, contrastForReadability * 0.35);
-    const fgTargetRatio = contrastForReadability >= 0 ? 4.5 : Math.max(1.5, 4.5 * contrastFactor);
+    const fgTargetRatio = readabilityTargetRatio(contrastForReadability);
     const fgFloor = contrastForReadability >= 0 ? 3 : Math.max(1.1, fgTargetRatio * 0.7);
 
     const fgPairs: [string, string][] = [
@@ -181,9 +214,9 @@ export function applyAdjustments(
     ];
     const enforceForegroundPairs = () => {
       for (const [fgKey, bgKey] of fgPairs) {
-        if (contrastRatio(adjusted[fgKey], adjusted[bgKey]) < fgFloor) {
+        if (contrastFor(adjusted[fgKey], adjusted[bgKey], algorithm) < fgFloor) {
           const bg = toOklch(adjusted[bgKey]);
-          adjusted[fgKey] = toHex(selectForeground(bg, true, fgTargetRatio));
+          adjusted[fgKey] = toHex(selectForeground(bg, true, fgTargetRatio, algorithm));
         }
       }
     };
@@ -259,7 +292,7 @@ export function applyAdjustments(
       let worstKey: 'bg' | 'card' | 'card2' = bgKeys[0];
       let worstRatio = Number.POSITIVE_INFINITY;
       for (const bgKey of bgKeys) {
-        const ratio = contrastRatio(fgHex, adjusted[bgKey]);
+        const ratio = contrastFor(fgHex, adjusted[bgKey], algorithm);
         if (ratio < worstRatio) {
           worstRatio = ratio;
           worstKey = bgKey;
@@ -278,7 +311,7 @@ export function applyAdjustments(
         const fgHex = toHex(fg);
         const { key: worstKey, ratio: worstRatio } = getWorstSurface(fgHex, bgKeys);
         if (worstRatio >= minRatio) break;
-        fg = adjustForContrast(fg, toOklch(adjusted[worstKey]), minRatio);
+        fg = adjustForContrast(fg, toOklch(adjusted[worstKey]), minRatio, algorithm);
       }
       let fgHex = toHex(fg);
       const post = getWorstSurface(fgHex, bgKeys);
@@ -288,9 +321,9 @@ export function applyAdjustments(
         const achromaticLight = toHex({ L: 0.999, C: 0, H: toOklch(adjusted.bg).H });
         const achromaticDark = toHex({ L: 0.001, C: 0, H: toOklch(adjusted.bg).H });
         const candidates = [
-          toHex(selectForeground(toOklch(adjusted.bg), true, minRatio)),
-          toHex(selectForeground(toOklch(adjusted.card), true, minRatio)),
-          toHex(selectForeground(toOklch(adjusted.card2), true, minRatio)),
+          toHex(selectForeground(toOklch(adjusted.bg), true, minRatio, algorithm)),
+          toHex(selectForeground(toOklch(adjusted.card), true, minRatio, algorithm)),
+          toHex(selectForeground(toOklch(adjusted.card2), true, minRatio, algorithm)),
           achromaticLight,
           achromaticDark,
         ];
@@ -336,7 +369,7 @@ export function applyAdjustments(
         const hex = toHex(color);
         const { key: worstKey, ratio: worstRatio } = getWorstSurface(hex, surfaces);
         if (worstRatio >= minRatio) break;
-        color = adjustForContrast(color, toOklch(adjusted[worstKey]), minRatio);
+        color = adjustForContrast(color, toOklch(adjusted[worstKey]), minRatio, algorithm);
       }
       adjusted[key] = toHex(color);
     };
@@ -351,7 +384,7 @@ export function applyAdjustments(
 
     // Recompute on-color text after chromatic adjustments.
     const deriveOnColorFg = (bgKey: 'primary' | 'secondary' | 'accent' | 'good' | 'warn' | 'bad'): string =>
-      toHex(selectForeground(toOklch(adjusted[bgKey]), true, fgTargetRatio));
+      toHex(selectForeground(toOklch(adjusted[bgKey]), true, fgTargetRatio, algorithm));
     adjusted.textOnColor = deriveOnColorFg('primary');
     adjusted.primaryFg = deriveOnColorFg('primary');
     adjusted.secondaryFg = deriveOnColorFg('secondary');
@@ -364,7 +397,7 @@ export function applyAdjustments(
     // Preserve visual hierarchy after readability correction.
     ensureSeparation('textMuted', 'text', 0.06);
 
-    return {
+    return withRoleTokens({
       bg: adjusted.bg, card: adjusted.card, card2: adjusted.card2,
       text: adjusted.text, textMuted: adjusted.textMuted,
       border: adjusted.border, ring: adjusted.ring,
@@ -378,7 +411,7 @@ export function applyAdjustments(
       goodFg: adjusted.goodFg,
       warnFg: adjusted.warnFg,
       badFg: adjusted.badFg,
-    };
+    }, algorithm, fgTargetRatio);
   };
 
   // If adjustments are neutral, skip transform math and only run guardrails.
@@ -441,24 +474,26 @@ export function applyAdjustments(
 
 interface ParityOptions {
   strength?: number;
+  algorithm?: ContrastAlgorithm;
 }
 
-function tokenSurfaceContrast(theme: ThemeTokens, key: keyof ThemeTokens): number {
+function tokenSurfaceContrast(theme: ThemeTokens, key: keyof ThemeTokens, algorithm: ContrastAlgorithm): number {
   const token = theme[key];
-  const bgRatio = contrastRatio(token, theme.bg);
-  const cardRatio = contrastRatio(token, theme.card);
+  const bgRatio = contrastFor(token, theme.bg, algorithm);
+  const cardRatio = contrastFor(token, theme.card, algorithm);
   return Math.min(bgRatio, cardRatio);
 }
 
 function fitContrastTowardTarget(
   color: { L: number; C: number; H: number },
   bgHex: string,
-  targetRatio: number
+  targetRatio: number,
+  algorithm: ContrastAlgorithm
 ): { L: number; C: number; H: number } {
   const bg = toOklch(bgHex);
   const base = clampToSRGBGamut(color);
   const baseHex = toHex(base);
-  const baseRatio = contrastRatio(baseHex, bgHex);
+  const baseRatio = contrastFor(baseHex, bgHex, algorithm);
   if (!Number.isFinite(targetRatio) || targetRatio <= 0 || Math.abs(baseRatio - targetRatio) < 0.02) {
     return base;
   }
@@ -478,7 +513,7 @@ function fitContrastTowardTarget(
       C: base.C,
       H: base.H,
     });
-    const ratio = contrastRatio(toHex(sampled), bgHex);
+    const ratio = contrastFor(toHex(sampled), bgHex, algorithm);
     const delta = Math.abs(ratio - targetRatio);
     if (delta < bestDelta) {
       best = sampled;
@@ -492,7 +527,8 @@ function fitContrastTowardTarget(
 function harmonizeSemanticContrastBetweenModes(
   light: ThemeTokens,
   dark: ThemeTokens,
-  strength: number
+  strength: number,
+  algorithm: ContrastAlgorithm
 ): { light: ThemeTokens; dark: ThemeTokens } {
   const tunedLight: ThemeTokens = { ...light };
   const tunedDark: ThemeTokens = { ...dark };
@@ -501,8 +537,8 @@ function harmonizeSemanticContrastBetweenModes(
   if (balance <= 0) return { light: tunedLight, dark: tunedDark };
 
   for (const key of keys) {
-    const lightRatio = tokenSurfaceContrast(tunedLight, key);
-    const darkRatio = tokenSurfaceContrast(tunedDark, key);
+    const lightRatio = tokenSurfaceContrast(tunedLight, key, algorithm);
+    const darkRatio = tokenSurfaceContrast(tunedDark, key, algorithm);
 
     // Shared perceptual target:
     // - geometric mean keeps both sides moving toward each other
@@ -512,34 +548,35 @@ function harmonizeSemanticContrastBetweenModes(
     const targetDark = darkRatio + (sharedTarget - darkRatio) * balance;
 
     tunedLight[key] = toHex(
-      fitContrastTowardTarget(toOklch(tunedLight[key]), tunedLight.bg, targetLight)
+      fitContrastTowardTarget(toOklch(tunedLight[key]), tunedLight.bg, targetLight, algorithm)
     );
     tunedDark[key] = toHex(
-      fitContrastTowardTarget(toOklch(tunedDark[key]), tunedDark.bg, targetDark)
+      fitContrastTowardTarget(toOklch(tunedDark[key]), tunedDark.bg, targetDark, algorithm)
     );
   }
 
   // Keep foreground tokens coherent with any semantic color changes.
-  tunedLight.textOnColor = selectForegroundHex(tunedLight.primary);
-  tunedLight.primaryFg = selectForegroundHex(tunedLight.primary);
-  tunedLight.secondaryFg = selectForegroundHex(tunedLight.secondary);
-  tunedLight.accentFg = selectForegroundHex(tunedLight.accent);
-  tunedLight.goodFg = selectForegroundHex(tunedLight.good);
-  tunedLight.warnFg = selectForegroundHex(tunedLight.warn);
-  tunedLight.badFg = selectForegroundHex(tunedLight.bad);
-
-  tunedDark.textOnColor = selectForegroundHex(tunedDark.primary);
-  tunedDark.primaryFg = selectForegroundHex(tunedDark.primary);
-  tunedDark.secondaryFg = selectForegroundHex(tunedDark.secondary);
-  tunedDark.accentFg = selectForegroundHex(tunedDark.accent);
-  tunedDark.goodFg = selectForegroundHex(tunedDark.good);
-  tunedDark.warnFg = selectForegroundHex(tunedDark.warn);
-  tunedDark.badFg = selectForegroundHex(tunedDark.bad);
+  tunedLight.textOnColor = selectForegroundHex(tunedLight.primary, algorithm);
+  tunedLight.primaryFg = selectForegroundHex(tunedLight.primary, algorithm);
+  tunedLight.secondaryFg = selectForegroundHex(tunedLight.secondary, algorithm);
+  tunedLight.accentFg = selectForegroundHex(tunedLight.accent, algorithm);
+  tunedLight.goodFg = selectForegroundHex(tunedLight.good, algorithm);
+  tunedLight.warnFg = selectForegroundHex(tunedLight.warn, algorithm);
+  tunedLight.badFg = selectForegroundHex(tunedLight.bad, algorithm);
+
+  tunedDark.textOnColor = selectForegroundHex(tunedDark.primary, algorithm);
+  tunedDark.primaryFg = selectForegroundHex(tunedDark.primary, algorithm);
+  tunedDark.secondaryFg = selectForegroundHex(tunedDark.secondary, algorithm);
+  tunedDark.accentFg = selectForegroundHex(tunedDark.accent, algorithm);
+  tunedDark.goodFg = selectForegroundHex(tunedDark.good, algorithm);
+  tunedDark.warnFg = selectForegroundHex(tunedDark.warn, algorithm);
+  tunedDark.badFg = selectForegroundHex(tunedDark.bad, algorithm);
 
   return { light: tunedLight, dark: tunedDark };
 }
 
-const IMAGE_SLOT_KEYS = [
+// Slot order of `overridePalette` (image picker and theme import)
+export const IMAGE_SLOT_KEYS = [
   'bg',
   'card',
   'text',
@@ -552,11 +589,20 @@ const IMAGE_SLOT_KEYS = [
   'bad',
 ] as const;
 
-type ImageSlotKey = typeof IMAGE_SLOT_KEYS[number];
+export type PaletteSlot = typeof IMAGE_SLOT_KEYS[number];
+
+/** Keys an `overridePalette` array (empty entries are unpinned) by slot, for `generateTheme({ palette })`. */
+export function paletteFromSlots(colors: string[]): Partial<Record<PaletteSlot, string>> {
+  const palette: Partial<Record<PaletteSlot, string>> = {};
+  IMAGE_SLOT_KEYS.forEach((key, i) => {
+    if (colors[i]) palette[key] = colors[i];
+  });
+  return palette;
+}
 
-function parseImageOverrides(overridePalette?: string[]): Partial<Record<ImageSlotKey, string>> {
+function parseImageOverrides(overridePalette?: string[]): Partial<Record<PaletteSlot, string>> {
   if (!overridePalette || overridePalette.length !== IMAGE_SLOT_KEYS.length) return {};
-  const mapped: Partial<Record<ImageSlotKey, string>> = {};
+  const mapped: Partial<Record<PaletteSlot, string>> = {};
   for (let i = 0; i < IMAGE_SLOT_KEYS.length; i++) {
     const raw = (overridePalette[i] || '').trim();
     if (!raw) continue;
@@ -573,7 +619,8 @@ function hueMidpoint(a: number, b: number): number {
 
 function deriveThemeFromImportedSlots(
   theme: ThemeTokens,
-  importedSlots: Partial<Record<ImageSlotKey, string>>
+  importedSlots: Partial<Record<PaletteSlot, string>>,
+  algorithm: ContrastAlgorithm
 ): ThemeTokens {
   const next: ThemeTokens = { ...theme };
 
@@ -619,12 +666,12 @@ function deriveThemeFromImportedSlots(
     H: hueMidpoint(good.H, bad.H),
   }));
 
-  next.primaryFg = selectForegroundHex(next.primary);
-  next.secondaryFg = selectForegroundHex(next.secondary);
-  next.accentFg = selectForegroundHex(next.accent);
-  next.goodFg = selectForegroundHex(next.good);
-  next.warnFg = selectForegroundHex(next.warn);
-  next.badFg = selectForegroundHex(next.bad);
+  next.primaryFg = selectForegroundHex(next.primary, algorithm);
+  next.secondaryFg = selectForegroundHex(next.secondary, algorithm);
+  next.accentFg = selectForegroundHex(next.accent, algorithm);
+  next.goodFg = selectForegroundHex(next.good, algorithm);
+  next.warnFg = selectForegroundHex(next.warn, algorithm);
+  next.badFg = selectForegroundHex(next.bad, algorithm);
 
   // Keep imported textOnColor exact when provided; otherwise derive from primary.
   if (!importedSlots.textOnColor) {
@@ -634,17 +681,13 @@ function deriveThemeFromImportedSlots(
   return next;
 }
 
-function maxGamutChromaAt(lightness: number, hue: number): number {
-  const safeL = Math.max(0.001, Math.min(0.999, lightness));
-  return clampToSRGBGamut({ L: safeL, C: 0.4, H: hue }).C;
-}
-
 function enforceCompanionParity(
   anchor: ThemeTokens,
   companion: ThemeTokens,
   options: ParityOptions = {}
 ): ThemeTokens {
   const strength = Math.max(0, Math.min(1, options.strength ?? 1));
+  const algorithm = options.algorithm ?? 'wcag2';
   if (strength <= 0) return companion;
 
   const adjusted: ThemeTokens = { ...companion };
@@ -704,37 +747,71 @@ function enforceCompanionParity(
   }));
 
   // Recompute on-color foreground tokens for any changed chromatic tokens.
-  adjusted.textOnColor = selectForegroundHex(adjusted.primary);
-  adjusted.primaryFg = selectForegroundHex(adjusted.primary);
-  adjusted.secondaryFg = selectForegroundHex(adjusted.secondary);
-  adjusted.accentFg = selectForegroundHex(adjusted.accent);
-  adjusted.goodFg = selectForegroundHex(adjusted.good);
-  adjusted.warnFg = selectForegroundHex(adjusted.warn);
-  adjusted.badFg = selectForegroundHex(adjusted.bad);
+  adjusted.textOnColor = selectForegroundHex(adjusted.primary, algorithm);
+  adjusted.primaryFg = selectForegroundHex(adjusted.primary, algorithm);
+  adjusted.secondaryFg = selectForegroundHex(adjusted.secondary, algorithm);
+  adjusted.accentFg = selectForegroundHex(adjusted.accent, algorithm);
+  adjusted.goodFg = selectForegroundHex(adjusted.good, algorithm);
+  adjusted.warnFg = selectForegroundHex(adjusted.warn, algorithm);
+  adjusted.badFg = selectForegroundHex(adjusted.bad, algorithm);
 
   return adjusted;
 }
 
 // --- Theme Builder ---
 
-export function generateTheme(
-  mode: GenerationMode,
-  seedColor?: string,
-  saturationLevel: number = 0,
-  contrastLevel: number = 0,
-  brightnessLevel: number = 0,
-  overridePalette?: string[],
-  darkFirst: boolean = false,
-  darkSaturationLevel?: number,
-  darkContrastLevel?: number,
-  darkBrightnessLevel?: number,
-  imageImportSourceSide?: 'light' | 'dark'
-): { light: ThemeTokens, dark: ThemeTokens, seed: string, mode: GenerationMode } {
+export interface AdjustmentLevels {
+  saturation?: number;   // -5 to 5
+  contrast?: number;     // -5 to 5
+  brightness?: number;   // -5 to 5
+}
+
+export interface GenerateOptions {
+  mode?: GenerationMode;                 // Default 'random' (picks a harmony from the seed)
+  harmony?: CustomHarmony;               // Offsets and chroma variance for mode 'custom'
+  seed?: string;                         // Hex; omit for a non-reproducible random theme
+  levels?: AdjustmentLevels;             // Both modes
+  darkLevels?: AdjustmentLevels;         // Dark-mode overrides, per level
+  darkFirst?: boolean;                   // Derive light from dark instead of the reverse
+  palette?: Partial<Record<PaletteSlot, string>>; // Pinned slot colors (hex), e.g. from extractPalette
+  paletteSide?: 'light' | 'dark';        // Mode the pinned colors belong to; default: the mode generated first
+  gamut?: GamutTarget;                   // 'p3' adds Display P3 values
+  contrastAlgorithm?: ContrastAlgorithm;
+  engineVersion?: EngineVersion;         // Default ENGINE_VERSION; pin to regenerate older seeds exactly
+}
+
+export interface GeneratedTheme {
+  engineVersion: EngineVersion;
+  light: ThemeTokens;
+  dark: ThemeTokens;
+  seed: string;
+  mode: GenerationMode;
+  harmony?: CustomHarmony;               // Set for mode 'custom'
+  scales: DualThemeScales;
+  gamut: GamutTarget;
+  contrastAlgorithm: ContrastAlgorithm;
+  p3?: DualWideGamutTokens;
+}
+
+export function generateTheme(options: GenerateOptions = {}): GeneratedTheme {
+  const {
+    mode = 'random',
+    seed: seedColor,
+    darkFirst = false,
+    gamut = 'srgb',
+    contrastAlgorithm = 'wcag2',
+    engineVersion = ENGINE_VERSION,
+  } = options;
+  const saturationLevel = options.levels?.saturation ?? 0;
+  const contrastLevel = options.levels?.contrast ?? 0;
+  const brightnessLevel = options.levels?.brightness ?? 0;
+  const overridePalette = options.palette ? IMAGE_SLOT_KEYS.map((key) => options.palette?.[key] ?? '') : undefined;
+
   // Generate the base palette at neutral levels.
   // Brightness/contrast/saturation are applied in one adjustment stage below.
-  const dSat = darkSaturationLevel ?? saturationLevel;
-  const dCon = darkContrastLevel ?? contrastLevel;
-  const dBri = darkBrightnessLevel ?? brightnessLevel;
+  const dSat = options.darkLevels?.saturation ?? saturationLevel;
+  const dCon = options.darkLevels?.contrast ?? contrastLevel;
+  const dBri = options.darkLevels?.brightness ?? brightnessLevel;
 
   const base = paletteEngineGenerateTheme(
     mode,
@@ -743,11 +820,14 @@ export function generateTheme(
     0,
     0,
     overridePalette,
-    darkFirst
+    darkFirst,
+    contrastAlgorithm,
+    engineVersion,
+    options.harmony
   );
   
-  let light = applyAdjustments(base.light, brightnessLevel, contrastLevel, saturationLevel);
-  let dark = applyAdjustments(base.dark, dBri, dCon, dSat);
+  let light = applyAdjustments(base.light, brightnessLevel, contrastLevel, saturationLevel, contrastAlgorithm);
+  let dark = applyAdjustments(base.dark, dBri, dCon, dSat, contrastAlgorithm);
 
   // Final parity pass: keep semantic chroma/hue identity aligned between modes.
   // If split adjustments diverge heavily, reduce (not disable) parity influence.
@@ -756,24 +836,25 @@ export function generateTheme(
     Math.abs(contrastLevel - dCon) +
     Math.abs(brightnessLevel - dBri);
   const parityStrength = Math.max(0.35, 1 - splitDelta / 18);
+  const parity = { strength: parityStrength, algorithm: contrastAlgorithm };
 
   if (darkFirst) {
-    light = enforceCompanionParity(dark, light, { strength: parityStrength });
+    light = enforceCompanionParity(dark, light, parity);
   } else {
-    dark = enforceCompanionParity(light, dark, { strength: parityStrength });
+    dark = enforceCompanionParity(light, dark, parity);
   }
 
   // Image imports: keep checked 10 slots exact on the source side.
   // The other 10 tokens are derived from those imported slots.
   const importedSlots = parseImageOverrides(overridePalette);
   if (Object.keys(importedSlots).length > 0) {
-    const importSourceSide = imageImportSourceSide ?? (darkFirst ? 'dark' : 'light');
+    const importSourceSide = options.paletteSide ?? (darkFirst ? 'dark' : 'light');
     if (importSourceSide === 'dark') {
-      dark = deriveThemeFromImportedSlots(dark, importedSlots);
-      light = enforceCompanionParity(dark, light, { strength: parityStrength });
+      dark = deriveThemeFromImportedSlots(dark, importedSlots, contrastAlgorithm);
+      light = enforceCompanionParity(dark, light, parity);
     } else {
-      light = deriveThemeFromImportedSlots(light, importedSlots);
-      dark = enforceCompanionParity(light, dark, { strength: parityStrength });
+      light = deriveThemeFromImportedSlots(light, importedSlots, contrastAlgorithm);
+      dark = enforceCompanionParity(light, dark, parity);
     }
   } else {
     // Semantic contrast balancing is only needed in stronger contrast profiles.
@@ -782,131 +863,173 @@ export function generateTheme(
     const balanceGate = Math.max(0, contrastIntensity - 2) / 3; // 0 at <=2, 1 at 5
     const balanceStrength = parityStrength * Math.max(0, Math.min(1, balanceGate));
     if (balanceStrength > 0.01) {
-      const balanced = harmonizeSemanticContrastBetweenModes(light, dark, balanceStrength);
+      const balanced = harmonizeSemanticContrastBetweenModes(light, dark, balanceStrength, contrastAlgorithm);
       light = balanced.light;
       dark = balanced.dark;
     }
   }
 
+  // Parity and import passes move core tokens; refresh the roles derived from them.
+  light = withRoleTokens(light, contrastAlgorithm, readabilityTargetRatio(contrastLevel));
+  dark = withRoleTokens(dark, contrastAlgorithm, readabilityTargetRatio(dCon));
+
   return {
     light,
     dark,
     seed: base.seed,
     mode: base.mode,
+    engineVersion: base.engineVersion,
+    ...(base.harmony ? { harmony: base.harmony } : {}),
+    // Ramps are anchored on the final tokens so they match what ships.
+    scales: buildDualThemeScales(light, dark),
+    gamut,
+    contrastAlgorithm,
+    // The hex tokens above stay the sRGB fallback for each P3 value.
+    ...(gamut === 'p3' ? { p3: buildDualWideGamutTokens(light, dark) } : {}),
   };
 }
 
-export async function extractPaletteFromImage(file: File, isDark: boolean = false): Promise<string[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject("No context");
-        const size = 100;
-        canvas.width = size;
-        canvas.height = size;
-        ctx.drawImage(img, 0, 0, size, size);
-        const data = ctx.getImageData(0, 0, size, size).data;
-        const colorCounts: Record<string, number> = {};
-        for (let i = 0; i < data.length; i += 4 * 4) {
-          const r = data[i], g = data[i+1], b = data[i+2], a = data[i+3];
-          if (a < 128) continue;
-          const qr = Math.round(r / 16) * 16, qg = Math.round(g / 16) * 16, qb = Math.round(b / 16) * 16;
-          const key = `${qr},${qg},${qb}`;
-          colorCounts[key] = (colorCounts[key] || 0) + 1;
-        }
-        const sortedColors = Object.entries(colorCounts).sort((a, b) => b[1] - a[1]).map(([key]) => {
-            const [r, g, b] = key.split(',').map(Number);
-            return { r, g, b, hsl: rgbToHsl(r, g, b) };
-          });
-
-        // Extract 10 colors matching palette structure:
-        // [primary, secondary, accent, good, warn, bad, bg, card, text, border]
-        const TARGET_COUNT = 10;
-        const palette: string[] = [];
-        const minHueDiff = 15;
-        for (const c of sortedColors) {
-          if (palette.length >= TARGET_COUNT) break;
-          const isTooSimilar = palette.some(existingHex => {
-            const extHsl = hexToHsl(existingHex);
-            const hueDiff = Math.min(Math.abs(extHsl.h - c.hsl.h), 360 - Math.abs(extHsl.h - c.hsl.h));
-            return hueDiff < minHueDiff && Math.abs(extHsl.s - c.hsl.s) < 15 && Math.abs(extHsl.l - c.hsl.l) < 15;
-          });
-          if (!isTooSimilar) palette.push(hslToHex(c.hsl.h, c.hsl.s, c.hsl.l));
-        }
-        if (palette.length < TARGET_COUNT) {
-          for (const c of sortedColors) {
-            if (palette.length >= TARGET_COUNT) break;
-            const hex = hslToHex(c.hsl.h, c.hsl.s, c.hsl.l);
-            if (!palette.includes(hex)) palette.push(hex);
-          }
-        }
+/**
+ * Fills in the roles missing from tokens saved before they existed (history,
+ * library, share codes, imports), deriving them from the same side's core
+ * tokens. Roles that are present, edited or not, are kept as they are.
+ */
+export function upgradeThemeTokens(
+  tokens: CoreThemeTokens & Partial<ThemeRoleTokens>,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): ThemeTokens {
+  if (ROLE_TOKEN_KEYS.every((key) => typeof tokens[key] === 'string')) return tokens as ThemeTokens;
+  const derived = deriveRoleTokens(tokens, algorithm);
+  const upgraded = { ...tokens } as ThemeTokens;
+  for (const key of ROLE_TOKEN_KEYS) {
+    if (typeof upgraded[key] !== 'string') upgraded[key] = derived[key];
+  }
+  return upgraded;
+}
 
-        // Sort extracted colors into semantic slots by HSL properties.
-        // Slot order matches palette UI: [bg, card, text, textMuted, textOnColor, primary, secondary, accent, good, bad]
-        const colorObjs = palette.map(hex => ({ hex, hsl: hexToHsl(hex) }));
-        const chromatic = colorObjs.filter(c => c.hsl.s > 20);
-        const neutral = colorObjs.filter(c => c.hsl.s <= 20);
-
-        // Sort chromatic by hue for diverse assignment
-        chromatic.sort((a, b) => a.hsl.h - b.hsl.h);
-        // Sort neutrals for semantic assignment based on mode
-        // Light mode: bg=lightest, card=next, text=darkest, textMuted=mid-dark
-        // Dark mode:  bg=darkest, card=next-dark, text=lightest, textMuted=mid-light
-        if (isDark) {
-          neutral.sort((a, b) => a.hsl.l - b.hsl.l); // darkest first
-        } else {
-          neutral.sort((a, b) => b.hsl.l - a.hsl.l); // lightest first
-        }
+export function upgradeTheme<T extends { light: CoreThemeTokens; dark: CoreThemeTokens }>(
+  theme: T,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): T & { light: ThemeTokens; dark: ThemeTokens } {
+  return { ...theme, light: upgradeThemeTokens(theme.light, algorithm), dark: upgradeThemeTokens(theme.dark, algorithm) };
+}
 
-        const slots: string[] = new Array(TARGET_COUNT).fill('');
-
-        // Neutral slots: bg(0)=most extreme, card(1)=next, then assign text/textMuted
-        // from the opposite end of the lightness spectrum
-        if (neutral.length >= 4) {
-          slots[0] = neutral[0].hex; // bg: lightest (light) or darkest (dark)
-          slots[1] = neutral[1].hex; // card: next
-          slots[2] = neutral[neutral.length - 1].hex; // text: opposite end
-          slots[3] = neutral[neutral.length - 2].hex; // textMuted: near text
-          // textOnColor(4) filled from remaining
-        } else {
-          for (let i = 0; i < 5 && i < neutral.length; i++) {
-            slots[i] = neutral[i].hex;
-          }
-        }
-        // Brand slots: primary(5), secondary(6), accent(7)
-        for (let i = 0; i < 3 && i < chromatic.length; i++) {
-          slots[5 + i] = chromatic[i].hex;
-        }
-        // Status slots: good(8), bad(9)
-        for (let i = 0; i < 2 && i + 3 < chromatic.length; i++) {
-          slots[8 + i] = chromatic[i + 3].hex;
-        }
+/** Raw RGB(A) pixels, row-major, one byte per channel (canvas ImageData, sharp raw output, ...). */
+export interface PixelBuffer {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  channels?: 3 | 4;   // Default 4 (RGBA)
+}
 
-        // Fill any remaining empty slots with leftover colors
-        const used = new Set(slots.filter(Boolean));
-        const remaining = colorObjs.filter(c => !used.has(c.hex));
-        for (let i = 0; i < TARGET_COUNT; i++) {
-          if (!slots[i] && remaining.length > 0) {
-            slots[i] = remaining.shift()!.hex;
-          }
-        }
+const PIXEL_SAMPLES = 2500;
 
-        // Final fallback for any still-empty slots
-        const fallback = isDark
-          ? ['#0f172a', '#1e293b', '#f8fafc', '#94a3b8', '#ffffff', '#3b82f6', '#10b981', '#f59e0b', '#22c55e', '#ef4444']
-          : ['#f8fafc', '#f1f5f9', '#1e293b', '#64748b', '#ffffff', '#3b82f6', '#10b981', '#f59e0b', '#22c55e', '#ef4444'];
-        for (let i = 0; i < TARGET_COUNT; i++) {
-          if (!slots[i]) slots[i] = fallback[i];
-        }
+/**
+ * Extracts the 10 image-import slots from raw pixels without touching the DOM.
+ * Slot order: [bg, card, text, textMuted, textOnColor, primary, secondary, accent, good, bad]
+ */
+export function extractPaletteFromPixels(pixels: PixelBuffer, isDark: boolean = false): string[] {
+  const { data, width, height, channels = 4 } = pixels;
+  const pixelCount = width * height;
+  if (!Number.isInteger(pixelCount) || pixelCount <= 0 || data.length < pixelCount * channels) {
+    throw new RangeError('Pixel buffer must hold width × height × channels values');
+  }
+  // ~2,500 samples whatever the resolution (every 4th pixel of the app's 100×100 thumbnail)
+  const step = Math.max(1, Math.floor(pixelCount / PIXEL_SAMPLES));
+  const colorCounts: Record<string, number> = {};
+  for (let p = 0; p < pixelCount; p += step) {
+    const i = p * channels;
+    const r = data[i], g = data[i+1], b = data[i+2], a = channels === 4 ? data[i+3] : 255;
+    if (a < 128) continue;
+    // Clamp: 248+ would round up to 256 and yield a 7-digit hex
+    const qr = Math.min(255, Math.round(r / 16) * 16), qg = Math.min(255, Math.round(g / 16) * 16), qb = Math.min(255, Math.round(b / 16) * 16);
+    const key = `${qr},${qg},${qb}`;
+    colorCounts[key] = (colorCounts[key] || 0) + 1;
+  }
+  const sortedColors = Object.entries(colorCounts).sort((a, b) => b[1] - a[1]).map(([key]) => {
+      const [r, g, b] = key.split(',').map(Number);
+      return { r, g, b, hsl: rgbToHsl(r, g, b) };
+    });
 
-        resolve(slots);
-      };
-      img.src = event.target?.result as string;
-    };
-    reader.readAsDataURL(file);
-  });
+  // Extract 10 colors matching palette structure:
+  // [primary, secondary, accent, good, warn, bad, bg, card, text, border]
+  const TARGET_COUNT = 10;
+  const palette: string[] = [];
+  const minHueDiff = 15;
+  for (const c of sortedColors) {
+    if (palette.length >= TARGET_COUNT) break;
+    const isTooSimilar = palette.some(existingHex => {
+      const extHsl = hexToHsl(existingHex);
+      const hueDiff = Math.min(Math.abs(extHsl.h - c.hsl.h), 360 - Math.abs(extHsl.h - c.hsl.h));
+      return hueDiff < minHueDiff && Math.abs(extHsl.s - c.hsl.s) < 15 && Math.abs(extHsl.l - c.hsl.l) < 15;
+    });
+    if (!isTooSimilar) palette.push(hslToHex(c.hsl.h, c.hsl.s, c.hsl.l));
+  }
+  if (palette.length < TARGET_COUNT) {
+    for (const c of sortedColors) {
+      if (palette.length >= TARGET_COUNT) break;
+      const hex = hslToHex(c.hsl.h, c.hsl.s, c.hsl.l);
+      if (!palette.includes(hex)) palette.push(hex);
+    }
+  }
+
+  // Sort extracted colors into semantic slots by HSL properties.
+  // Slot order matches palette UI: [bg, card, text, textMuted, textOnColor, primary, secondary, accent, good, bad]
+  const colorObjs = palette.map(hex => ({ hex, hsl: hexToHsl(hex) }));
+  const chromatic = colorObjs.filter(c => c.hsl.s > 20);
+  const neutral = colorObjs.filter(c => c.hsl.s <= 20);
+
+  // Sort chromatic by hue for diverse assignment
+  chromatic.sort((a, b) => a.hsl.h - b.hsl.h);
+  // Sort neutrals for semantic assignment based on mode
+  // Light mode: bg=lightest, card=next, text=darkest, textMuted=mid-dark
+  // Dark mode:  bg=darkest, card=next-dark, text=lightest, textMuted=mid-light
+  if (isDark) {
+    neutral.sort((a, b) => a.hsl.l - b.hsl.l); // darkest first
+  } else {
+    neutral.sort((a, b) => b.hsl.l - a.hsl.l); // lightest first
+  }
+
+  const slots: string[] = new Array(TARGET_COUNT).fill('');
+
+  // Neutral slots: bg(0)=most extreme, card(1)=next, then assign text/textMuted
+  // from the opposite end of the lightness spectrum
+  if (neutral.length >= 4) {
+    slots[0] = neutral[0].hex; // bg: lightest (light) or darkest (dark)
+    slots[1] = neutral[1].hex; // card: next
+    slots[2] = neutral[neutral.length - 1].hex; // text: opposite end
+    slots[3] = neutral[neutral.length - 2].hex; // textMuted: near text
+    // textOnColor(4) filled from remaining
+  } else {
+    for (let i = 0; i < 5 && i < neutral.length; i++) {
+      slots[i] = neutral[i].hex;
+    }
+  }
+  // Brand slots: primary(5), secondary(6), accent(7)
+  for (let i = 0; i < 3 && i < chromatic.length; i++) {
+    slots[5 + i] = chromatic[i].hex;
+  }
+  // Status slots: good(8), bad(9)
+  for (let i = 0; i < 2 && i + 3 < chromatic.length; i++) {
+    slots[8 + i] = chromatic[i + 3].hex;
+  }
+
+  // Fill any remaining empty slots with leftover colors
+  const used = new Set(slots.filter(Boolean));
+  const remaining = colorObjs.filter(c => !used.has(c.hex));
+  for (let i = 0; i < TARGET_COUNT; i++) {
+    if (!slots[i] && remaining.length > 0) {
+      slots[i] = remaining.shift()!.hex;
+    }
+  }
+
+  // Final fallback for any still-empty slots
+  const fallback = isDark
+    ? ['#0f172a', '#1e293b', '#f8fafc', '#94a3b8', '#ffffff', '#3b82f6', '#10b981', '#f59e0b', '#22c55e', '#ef4444']
+    : ['#f8fafc', '#f1f5f9', '#1e293b', '#64748b', '#ffffff', '#3b82f6', '#10b981', '#f59e0b', '#22c55e', '#ef4444'];
+  for (let i = 0; i < TARGET_COUNT; i++) {
+    if (!slots[i]) slots[i] = fallback[i];
+  }
+
+  return slots;
 }
@@ -1,10 +1,11 @@
 /**
  * Contrast and Accessibility Utility Module
- * Implements WCAG contrast ratio calculations
+ * Implements WCAG 2 contrast ratios and APCA (WCAG 3 draft) lightness contrast
  * Version: 25.12.2
  */
 
-import { OklchColor, toOklch, toHex, hexToRgb, clampToSRGBGamut } from './oklch';
+import { ContrastAlgorithm } from '../types';
+import { OklchColor, toOklch, toHex, hexToRgb, clampToSRGBGamut, toLinearSrgb } from './oklch';
 
 // --- Luminance Calculation ---
 
@@ -21,6 +22,14 @@ export function getLuminance(hex: string): number {
   return getRelativeLuminance(r, g, b);
 }
 
+// Works for wide-gamut colors too: Y is taken from unclamped linear sRGB.
+export function getLuminanceOklch(color: OklchColor): number {
+  if (color.L <= 0) return 0;
+  if (color.L >= 1) return 1;
+  const { r, g, b } = toLinearSrgb(color);
+  return Math.max(0, 0.2126 * r + 0.7152 * g + 0.0722 * b);
+}
+
 // --- Contrast Ratio ---
 
 export function contrastRatio(fg: string, bg: string): number {
@@ -35,6 +44,114 @@ export function contrastRatioOklch(fg: OklchColor, bg: OklchColor): number {
   return contrastRatio(toHex(fg), toHex(bg));
 }
 
+// --- APCA Lightness Contrast ---
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.0721750,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+};
+
+function apcaLuminance(hex: string): number {
+  const { r, g, b } = hexToRgb(hex);
+  return (
+    APCA.sRco * Math.pow(r / 255, APCA.mainTRC) +
+    APCA.sGco * Math.pow(g / 255, APCA.mainTRC) +
+    APCA.sBco * Math.pow(b / 255, APCA.mainTRC)
+  );
+}
+
+function softClampBlack(y: number): number {
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+/**
+ * APCA Lc for text on background. Polarity-aware: positive for dark text on a
+ * light background, negative for light text on a dark background (about
+ * +106 for black on white, -108 for white on black).
+ */
+export function apcaContrast(text: string, bg: string): number {
+  const txtY = softClampBlack(apcaLuminance(text));
+  const bgY = softClampBlack(apcaLuminance(bg));
+  if (Math.abs(bgY - txtY) < APCA.deltaYmin) return 0;
+
+  if (bgY > txtY) {
+    const sapc = (Math.pow(bgY, APCA.normBG) - Math.pow(txtY, APCA.normTXT)) * APCA.scaleBoW;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loBoWoffset) * 100;
+  }
+  const sapc = (Math.pow(bgY, APCA.revBG) - Math.pow(txtY, APCA.revTXT)) * APCA.scaleWoB;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loWoBoffset) * 100;
+}
+
+// --- Algorithm-Aware Contrast ---
+
+export const CONTRAST_ALGORITHMS: ContrastAlgorithm[] = ['wcag2', 'apca'];
+
+export function isContrastAlgorithm(value: unknown): value is ContrastAlgorithm {
+  return typeof value === 'string' && (CONTRAST_ALGORITHMS as string[]).includes(value);
+}
+
+// Commonly used APCA equivalents of WCAG 2 ratio targets
+// (Lc 45 ~ 3:1 large text, Lc 60 ~ 4.5:1 body text, Lc 75 ~ 7:1).
+const LC_RATIO_EQUIVALENTS: Array<[number, number]> = [
+  [0, 1],
+  [15, 1.5],
+  [30, 2],
+  [45, 3],
+  [60, 4.5],
+  [75, 7],
+  [90, 10],
+  [108, 21],
+];
+
+function interpolate(value: number, table: Array<[number, number]>, from: 0 | 1): number {
+  const to = from === 0 ? 1 : 0;
+  if (value <= table[0][from]) return table[0][to];
+  for (let i = 1; i < table.length; i++) {
+    const [a, b] = [table[i - 1], table[i]];
+    if (value <= b[from]) {
+      const t = (value - a[from]) / (b[from] - a[from]);
+      return a[to] + (b[to] - a[to]) * t;
+    }
+  }
+  return table[table.length - 1][to];
+}
+
+/** Maps an absolute APCA Lc onto the WCAG 2 ratio scale. */
+export function lcToRatioEquivalent(lc: number): number {
+  return interpolate(Math.abs(lc), LC_RATIO_EQUIVALENTS, 0);
+}
+
+/** Maps a WCAG 2 ratio target onto the matching absolute APCA Lc. */
+export function ratioToLcEquivalent(ratio: number): number {
+  return interpolate(ratio, LC_RATIO_EQUIVALENTS, 1);
+}
+
+/**
+ * Contrast of fg on bg in WCAG 2 ratio units. With 'apca' the Lc is mapped
+ * onto the same scale, so existing ratio targets (4.5, 3, ...) keep working
+ * while the ordering of candidates follows APCA.
+ */
+export function contrastFor(fg: string, bg: string, algorithm: ContrastAlgorithm = 'wcag2'): number {
+  return algorithm === 'apca'
+    ? lcToRatioEquivalent(apcaContrast(fg, bg))
+    : contrastRatio(fg, bg);
+}
+
 // --- WCAG Compliance ---
 
 export type WCAGLevel = 'AAA' | 'AA' | 'A' | 'fail';
@@ -62,13 +179,15 @@ export function meetsWCAG(fg: string, bg: string, level: 'AA' | 'AAA' = 'AA'): b
 export function selectForeground(
   bg: OklchColor,
   _preferLight: boolean = true,
-  targetRatio: number = 4.5
+  targetRatio: number = 4.5,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): OklchColor {
   const bgHex = toHex(bg);
+  const contrast = (fgHex: string) => contrastFor(fgHex, bgHex, algorithm);
 
   // Determine direction: light or dark foreground
-  const whiteRatio = contrastRatio('#ffffff', bgHex);
-  const blackRatio = contrastRatio('#000000', bgHex);
+  const whiteRatio = contrast('#ffffff');
+  const blackRatio = contrast('#000000');
   const goLight = whiteRatio >= blackRatio;
 
   // Themed tint: carry the bg's hue with visible chroma instead of pure B/W.
@@ -82,7 +201,7 @@ export function selectForeground(
 
   for (let i = 0; i < 25; i++) {
     const candidate = clampToSRGBGamut({ L, C: tintC, H: bg.H });
-    if (contrastRatio(toHex(candidate), bgHex) >= targetRatio) {
+    if (contrast(toHex(candidate)) >= targetRatio) {
       return candidate;
     }
     L = Math.max(0.03, Math.min(0.97, L + step));
@@ -94,20 +213,20 @@ export function selectForeground(
   const tintedExtreme = goLight
     ? clampToSRGBGamut({ L: 0.97, C: tintC, H: bg.H })
     : clampToSRGBGamut({ L: 0.05, C: tintC, H: bg.H });
-  if (contrastRatio(toHex(tintedExtreme), bgHex) >= targetRatio) {
+  if (contrast(toHex(tintedExtreme)) >= targetRatio) {
     return tintedExtreme;
   }
 
   const pureLight = { L: 0.999, C: 0, H: bg.H };
   const pureDark = { L: 0.001, C: 0, H: bg.H };
-  const lightRatio = contrastRatio(toHex(pureLight), bgHex);
-  const darkRatio = contrastRatio(toHex(pureDark), bgHex);
+  const lightRatio = contrast(toHex(pureLight));
+  const darkRatio = contrast(toHex(pureDark));
   return lightRatio >= darkRatio ? pureLight : pureDark;
 }
 
-export function selectForegroundHex(bgHex: string): string {
+export function selectForegroundHex(bgHex: string, algorithm: ContrastAlgorithm = 'wcag2'): string {
   const bg = toOklch(bgHex);
-  return toHex(selectForeground(bg));
+  return toHex(selectForeground(bg, true, 4.5, algorithm));
 }
 
 // --- Contrast Enhancement ---
@@ -115,7 +234,8 @@ export function selectForegroundHex(bgHex: string): string {
 export function adjustForContrast(
   fg: OklchColor,
   bg: OklchColor,
-  minRatio: number = 4.5
+  minRatio: number = 4.5,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): OklchColor {
   const bgHex = toHex(bg);
   const step = 0.02;
@@ -124,12 +244,12 @@ export function adjustForContrast(
   const search = (direction: 1 | -1) => {
     let candidate = { ...fg };
     let best = clampToSRGBGamut(candidate);
-    let bestRatio = contrastRatio(toHex(best), bgHex);
+    let bestRatio = contrastFor(toHex(best), bgHex, algorithm);
 
     for (let i = 0; i < maxSteps; i++) {
       candidate.L = Math.max(0.001, Math.min(0.999, candidate.L + direction * step));
       const clamped = clampToSRGBGamut(candidate);
-      const ratio = contrastRatio(toHex(clamped), bgHex);
+      const ratio = contrastFor(toHex(clamped), bgHex, algorithm);
       if (ratio > bestRatio) {
         best = clamped;
         bestRatio = ratio;
@@ -159,8 +279,8 @@ export function adjustForContrast(
 
 // --- Contrast Headroom ---
 
-export function getContrastHeadroom(fg: string, bg: string): number {
-  const ratio = contrastRatio(fg, bg);
+export function getContrastHeadroom(fg: string, bg: string, algorithm: ContrastAlgorithm = 'wcag2'): number {
+  const ratio = contrastFor(fg, bg, algorithm);
   // How much above the 4.5:1 minimum (0 = exactly at minimum, positive = extra)
   return ratio - 4.5;
 }
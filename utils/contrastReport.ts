@@ -0,0 +1,253 @@
+/**
+ * Contrast Matrix Report
+ * Audits every foreground/background token pairing in one or both modes
+ * Version: 25.12.2
+ *
+ * Text pairs (including links, and text on selection and input fills) are held
+ * to WCAG 1.4.3 (4.5:1, or Lc 60 under APCA); the info fill, disabled text and
+ * the focus indicator to WCAG 1.4.11 (3:1, or Lc 45), and so is border on each
+ * surface. Generated borders are quiet separators (~1.5:1) and fail that audit;
+ * `decorativeBorders` opts out, reporting them as decorative: measured and read
+ * against 1.4.11, but left out of pass/fail. Both metrics are always reported,
+ * the theme's algorithm decides pass/fail.
+ */
+
+import {
+  ThemeTokens,
+  CoreThemeTokens,
+  ThemeRoleTokens,
+  ContrastAlgorithm,
+  ContrastPairKind,
+  ContrastReport,
+  ContrastReportEntry
+} from '../types';
+import { contrastRatio, apcaContrast, checkWCAGLevel, getLuminance, ratioToLcEquivalent } from './contrast';
+import { upgradeThemeTokens } from './colorUtils';
+import { ROLE_TOKEN_KEYS } from './paletteEngine';
+
+// --- Configuration ---
+
+export type ContrastReportFormat = 'json' | 'csv' | 'markdown';
+
+export const CONTRAST_REPORT_FORMATS: ContrastReportFormat[] = ['json', 'csv', 'markdown'];
+
+export interface ContrastReportOptions {
+  decorativeBorders?: boolean; // Report borders as decorative instead of auditing them (default false)
+}
+
+const SURFACES: Array<keyof ThemeTokens> = ['bg', 'card', 'card2'];
+
+// On-color foregrounds are read on their own fill
+const FILL_PAIRS: Array<[keyof ThemeTokens, keyof ThemeTokens]> = [
+  ['primaryFg', 'primary'],
+  ['textOnColor', 'primary'],
+  ['secondaryFg', 'secondary'],
+  ['accentFg', 'accent'],
+  ['goodFg', 'good'],
+  ['warnFg', 'warn'],
+  ['badFg', 'bad'],
+  ['infoFg', 'info'],
+];
+
+// Interaction roles read as body text, or with body text on them
+const ROLE_TEXT_PAIRS: Array<[keyof ThemeTokens, keyof ThemeTokens]> = [
+  ['link', 'bg'],
+  ['link', 'card'],
+  ['linkVisited', 'bg'],
+  ['linkVisited', 'card'],
+  ['text', 'selectionBg'],
+  ['text', 'inputBg'],
+];
+
+// Roles held to the 1.4.11 tier: the info fill as a status indicator on the
+// page, disabled text, which 1.4.3 exempts but the engine keeps legible, and
+// the focus indicator on every surface a focused control can sit on
+const ROLE_NON_TEXT_PAIRS: Array<[keyof ThemeTokens, keyof ThemeTokens]> = [
+  ['info', 'bg'],
+  ['disabledFg', 'disabledBg'],
+  ['focus', 'bg'],
+  ['focus', 'card'],
+  ['focus', 'card2'],
+];
+
+const MIN_RATIO: Record<ContrastPairKind, number> = {
+  'text': 4.5,
+  'non-text': 3,
+  'decorative': 1, // Any color clears a 1:1 floor
+};
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+type ReportMode = ContrastReportEntry['mode'];
+
+// --- Pair Matrix ---
+
+function reportPairs(decorativeBorders: boolean = false): Array<{ fg: keyof ThemeTokens; bg: keyof ThemeTokens; kind: ContrastPairKind }> {
+  const pairs: Array<{ fg: keyof ThemeTokens; bg: keyof ThemeTokens; kind: ContrastPairKind }> = [];
+  for (const fg of ['text', 'textMuted'] as const) {
+    for (const bg of SURFACES) pairs.push({ fg, bg, kind: 'text' });
+  }
+  for (const [fg, bg] of FILL_PAIRS) pairs.push({ fg, bg, kind: 'text' });
+  for (const [fg, bg] of ROLE_TEXT_PAIRS) pairs.push({ fg, bg, kind: 'text' });
+  for (const [fg, bg] of ROLE_NON_TEXT_PAIRS) pairs.push({ fg, bg, kind: 'non-text' });
+  for (const bg of SURFACES) pairs.push({ fg: 'border', bg, kind: decorativeBorders ? 'decorative' : 'non-text' });
+  return pairs;
+}
+
+function measurePair(
+  tokens: ThemeTokens,
+  mode: ReportMode,
+  pair: { fg: keyof ThemeTokens; bg: keyof ThemeTokens; kind: ContrastPairKind },
+  algorithm: ContrastAlgorithm
+): ContrastReportEntry {
+  const fgValue = tokens[pair.fg];
+  const bgValue = tokens[pair.bg];
+  const ratio = contrastRatio(fgValue, bgValue);
+  const lc = apcaContrast(fgValue, bgValue);
+  const minRatio = MIN_RATIO[pair.kind];
+  const minLc = ratioToLcEquivalent(minRatio);
+
+  return {
+    mode,
+    fg: pair.fg,
+    bg: pair.bg,
+    fgValue,
+    bgValue,
+    kind: pair.kind,
+    ratio,
+    lc,
+    // 1.4.11 only defines an AA tier
+    level: pair.kind === 'text' ? checkWCAGLevel(ratio) : ratio >= MIN_RATIO['non-text'] ? 'AA' : 'fail',
+    minRatio,
+    minLc,
+    passes: algorithm === 'apca' ? Math.abs(lc) >= minLc : ratio >= minRatio,
+  };
+}
+
+/**
+ * True when every token the matrix reads is a plain hex color. Roles may be
+ * absent (themes saved before they existed); they are derived for the report.
+ */
+export function hasContrastReportSources(tokens: unknown): tokens is CoreThemeTokens {
+  if (!tokens || typeof tokens !== 'object') return false;
+  const record = tokens as Record<string, unknown>;
+  return reportPairs().every(({ fg, bg }) => [fg, bg].every((key) => {
+    const value = record[key];
+    if (value === undefined && ROLE_TOKEN_KEYS.includes(key as keyof ThemeRoleTokens)) return true;
+    return typeof value === 'string' && HEX_PATTERN.test(value);
+  }));
+}
+
+/**
+ * Builds the matrix for a single token map (mode inferred from the page
+ * surface) or for a { light, dark } pair.
+ */
+export function buildContrastReport(
+  theme: CoreThemeTokens | { light: CoreThemeTokens; dark: CoreThemeTokens },
+  algorithm: ContrastAlgorithm = 'wcag2',
+  options: ContrastReportOptions = {}
+): ContrastReport {
+  const sources: Array<[ReportMode, CoreThemeTokens]> = 'light' in theme && 'dark' in theme
+    ? [['light', theme.light], ['dark', theme.dark]]
+    : [[getLuminance((theme as CoreThemeTokens).bg) >= 0.18 ? 'light' : 'dark', theme as CoreThemeTokens]];
+  const sets = sources.map(([mode, tokens]): [ReportMode, ThemeTokens] => [mode, upgradeThemeTokens(tokens, algorithm)]);
+
+  const entries = sets.flatMap(([mode, tokens]) =>
+    reportPairs(options.decorativeBorders).map((pair) => measurePair(tokens, mode, pair, algorithm))
+  );
+  const audited = entries.filter((entry) => entry.kind !== 'decorative');
+  const passed = audited.filter((entry) => entry.passes).length;
+
+  return {
+    algorithm,
+    entries,
+    summary: {
+      total: audited.length,
+      passed,
+      failed: audited.length - passed,
+      decorative: entries.length - audited.length,
+    },
+  };
+}
+
+// --- Serialization ---
+
+function csvRow(values: Array<string | number | boolean>): string {
+  return values.map((value) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+function entryResult(entry: ContrastReportEntry): 'pass' | 'fail' | 'decorative' {
+  if (entry.kind === 'decorative') return 'decorative';
+  return entry.passes ? 'pass' : 'fail';
+}
+
+export function formatContrastReportCsv(report: ContrastReport): string {
+  const header = ['mode', 'foreground', 'background', 'fg_value', 'bg_value', 'kind', 'ratio', 'apca_lc', 'wcag_level', 'min_ratio', 'min_lc', 'result'];
+  const rows = report.entries.map((entry) => csvRow([
+    entry.mode,
+    entry.fg,
+    entry.bg,
+    entry.fgValue,
+    entry.bgValue,
+    entry.kind,
+    entry.ratio.toFixed(2),
+    entry.lc.toFixed(1),
+    entry.level,
+    entry.minRatio,
+    Math.round(entry.minLc),
+    entryResult(entry),
+  ]));
+  return [csvRow(header), ...rows].join('\n') + '\n';
+}
+
+export function formatContrastReportMarkdown(report: ContrastReport): string {
+  const algorithmLabel = report.algorithm === 'apca' ? 'APCA Lc' : 'WCAG 2 ratio';
+  const lines = [
+    '# Contrast Report',
+    '',
+    `Judged by ${algorithmLabel}. ${report.summary.passed} of ${report.summary.total} pairs pass` +
+      (report.summary.decorative > 0 ? `; ${report.summary.decorative} decorative pairs are listed for reference.` : '.'),
+    '',
+  ];
+
+  const modes = Array.from(new Set(report.entries.map((entry) => entry.mode)));
+  for (const mode of modes) {
+    lines.push(`## ${mode === 'light' ? 'Light' : 'Dark'} mode`, '');
+    lines.push('| Foreground | Background | Kind | Ratio | Lc | Level | Target | Result |');
+    lines.push('| --- | --- | --- | ---: | ---: | --- | --- | --- |');
+    for (const entry of report.entries.filter((item) => item.mode === mode)) {
+      const target = entry.kind === 'decorative'
+        ? '–'
+        : report.algorithm === 'apca' ? `Lc ${Math.round(entry.minLc)}` : `${entry.minRatio}:1`;
+      const result = entryResult(entry);
+      lines.push(
+        `| \`${entry.fg}\` ${entry.fgValue} | \`${entry.bg}\` ${entry.bgValue} | ${entry.kind} | ` +
+        `${entry.ratio.toFixed(2)}:1 | ${entry.lc.toFixed(1)} | ${entry.level} | ${target} | ${result[0].toUpperCase()}${result.slice(1)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function formatContrastReport(
+  report: ContrastReport,
+  format: ContrastReportFormat
+): { content: string; filename: string } {
+  switch (format) {
+    case 'csv':
+      return { content: formatContrastReportCsv(report), filename: 'taichi-contrast-report.csv' };
+    case 'markdown':
+      return { content: formatContrastReportMarkdown(report), filename: 'taichi-contrast-report.md' };
+    default:
+      return { content: JSON.stringify(report, null, 2), filename: 'taichi-contrast-report.json' };
+  }
+}
+
+export function isContrastReportFormat(value: unknown): value is ContrastReportFormat {
+  return typeof value === 'string' && (CONTRAST_REPORT_FORMATS as string[]).includes(value);
+}
@@ -0,0 +1,77 @@
+/**
+ * Color-Vision-Deficiency Simulation
+ * Previews tokens as seen with dichromacy or achromatopsia
+ * Version: 25.12.2
+ *
+ * Dichromacies use the Machado et al. (2009) matrices at full severity,
+ * applied in linear sRGB. Achromatopsia keeps only relative luminance.
+ */
+
+import { ThemeTokens, CvdType } from '../types';
+import { hexToRgb, rgbToHex, linearizeChannel, delinearizeChannel } from './oklch';
+
+// --- Configuration ---
+
+export const CVD_TYPES: CvdType[] = ['none', 'protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+
+type Matrix3 = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number],
+];
+
+const MACHADO_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+// Rec. 709 luminance weights (same as WCAG relative luminance)
+const LUMINANCE_WEIGHTS: [number, number, number] = [0.2126, 0.7152, 0.0722];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// --- Simulation ---
+
+export function simulateCvd(hex: string, type: CvdType): string {
+  if (type === 'none' || !HEX_PATTERN.test(hex)) return hex;
+
+  const { r, g, b } = hexToRgb(hex);
+  const linear: [number, number, number] = [linearizeChannel(r), linearizeChannel(g), linearizeChannel(b)];
+
+  if (type === 'achromatopsia') {
+    const y = linear.reduce((sum, c, i) => sum + c * LUMINANCE_WEIGHTS[i], 0);
+    const v = delinearizeChannel(y);
+    return rgbToHex(v, v, v);
+  }
+
+  const [simR, simG, simB] = MACHADO_MATRICES[type].map(
+    (row) => row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+  );
+  return rgbToHex(delinearizeChannel(simR), delinearizeChannel(simG), delinearizeChannel(simB));
+}
+
+export function simulateThemeTokens(tokens: ThemeTokens, type: CvdType): ThemeTokens {
+  if (type === 'none') return tokens;
+  const simulated = {} as ThemeTokens;
+  for (const key of Object.keys(tokens) as Array<keyof ThemeTokens>) {
+    simulated[key] = simulateCvd(tokens[key], type);
+  }
+  return simulated;
+}
+
+export function isCvdType(value: unknown): value is CvdType {
+  return typeof value === 'string' && (CVD_TYPES as string[]).includes(value);
+}
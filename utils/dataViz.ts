@@ -0,0 +1,269 @@
+/**
+ * Data Visualization Palettes
+ * Chart colors derived from a theme: categorical series plus sequential and diverging ramps
+ * Version: 25.12.2
+ *
+ * The categorical set opens on the primary hue and the theme's harmony hues,
+ * then fills up greedily with the candidate farthest (OKLab ΔE) from every
+ * color already chosen, measured both as seen and under protan, deutan and
+ * tritan simulation. A swap pass then raises the smallest remaining distance;
+ * the harmony seeds themselves stay put.
+ * Every series color keeps 3:1 against the page background (the non-text
+ * tier), so bars and lines stay visible without a stroke.
+ */
+
+import { ThemeTokens, DataVizPalette, DualDataVizPalettes, CvdType, CustomHarmony } from '../types';
+import { OklchColor, toOklch, toHex, deltaE, hueDifference, maxChromaInGamut, clampToSRGBGamut } from './oklch';
+import { contrastRatio } from './contrast';
+import { simulateCvd } from './cvd';
+import { resolveHarmony } from './paletteEngine';
+
+// --- Configuration ---
+
+export const CATEGORICAL_MIN_COLORS = 8;
+export const CATEGORICAL_MAX_COLORS = 12;
+export const RAMP_STEPS = 9;
+
+// Distances are checked as seen and under these simulations (achromatopsia
+// cannot separate eight hues at matched lightness, so it is left out)
+export const DATA_VIZ_CVD_TYPES: CvdType[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+const GRAPHIC_MIN_RATIO = 3;
+
+// Series lightness bands, ordered from the preferred middle outwards. The
+// outer levels only survive the 3:1 filter on mid-grey pages, where they
+// are what keeps the set from crowding.
+const LIGHT_SERIES_L = [0.52, 0.46, 0.58, 0.64, 0.4, 0.34];
+const DARK_SERIES_L = [0.72, 0.78, 0.66, 0.84, 0.9, 0.6];
+const CANDIDATE_HUE_STEP = 10;
+const SERIES_MAX_CHROMA = 0.2;
+
+// Harmony hues closer than this to an earlier seed would crowd the set
+const SEED_MIN_HUE_GAP = 20;
+const SEED_MIN_DISTANCE = 0.05;
+
+// Ramp endpoints: step 1 sits near the page, the last step carries full weight
+const LIGHT_RAMP_L = { near: 0.95, far: 0.34 };
+const DARK_RAMP_L = { near: 0.3, far: 0.9 };
+const RAMP_MAX_CHROMA = 0.17;
+
+// Diverging ramps pair the primary with the farthest harmony hue, or its complement
+const DIVERGING_MIN_HUE_GAP = 90;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+interface Candidate {
+  hex: string;
+  views: OklchColor[]; // As seen, then one per DATA_VIZ_CVD_TYPES entry
+}
+
+// --- Categorical ---
+
+function toCandidate(color: OklchColor): Candidate {
+  const hex = toHex(clampToSRGBGamut(color));
+  return {
+    hex,
+    views: [toOklch(hex), ...DATA_VIZ_CVD_TYPES.map((type) => toOklch(simulateCvd(hex, type)))],
+  };
+}
+
+// Smallest ΔE between two colors across every view
+function candidateDistance(a: Candidate, b: Candidate): number {
+  return Math.min(...a.views.map((view, i) => deltaE(view, b.views[i])));
+}
+
+function seriesColor(L: number, H: number, chromaScale: number): OklchColor {
+  return { L, C: Math.min(maxChromaInGamut(L, H, 'srgb'), SERIES_MAX_CHROMA) * chromaScale, H };
+}
+
+function buildCategorical(bg: string, primaryHue: number, harmonyHues: number[], chromaVariance: number, count: number): string[] {
+  const isDark = toOklch(bg).L < 0.5;
+  const bandL = isDark ? DARK_SERIES_L : LIGHT_SERIES_L;
+  const passes = (candidate: Candidate) => contrastRatio(candidate.hex, bg) >= GRAPHIC_MIN_RATIO;
+
+  // The harmony's chroma variance sets how far the muted candidates drop
+  const chromaScales = [1, 1 - chromaVariance];
+  const pool: Candidate[] = [];
+  for (let hue = 0; hue < 360; hue += CANDIDATE_HUE_STEP) {
+    for (const L of bandL) {
+      for (const scale of chromaScales) {
+        const candidate = toCandidate(seriesColor(L, hue, scale));
+        if (passes(candidate)) pool.push(candidate);
+      }
+    }
+  }
+
+  // Seeds: primary first, then each harmony hue at the first lightness that
+  // neither crowds an earlier seed's hue nor collapses onto it under CVD
+  const seeds: Candidate[] = [];
+  const seedHues: number[] = [];
+  for (const hue of [primaryHue, ...harmonyHues]) {
+    if (seedHues.some((seen) => hueDifference(seen, hue) < SEED_MIN_HUE_GAP)) continue;
+    const candidate = bandL
+      .map((L) => toCandidate(seriesColor(L, hue, 1)))
+      .find((option) => passes(option) && seeds.every((seed) => candidateDistance(option, seed) >= SEED_MIN_DISTANCE));
+    if (!candidate) continue;
+    seedHues.push(hue);
+    seeds.push(candidate);
+    if (seeds.length === count) break;
+  }
+
+  // Pairwise distances are memoized by index: seeds first, then the pool
+  const all = [...seeds, ...pool];
+  const memo = new Float64Array(all.length * all.length).fill(-1);
+  const distance = (a: number, b: number): number => {
+    const key = a < b ? a * all.length + b : b * all.length + a;
+    if (memo[key] < 0) memo[key] = candidateDistance(all[a], all[b]);
+    return memo[key];
+  };
+  const setFloor = (set: number[]): number => {
+    let min = Infinity;
+    for (let i = 0; i < set.length; i++) {
+      for (let j = i + 1; j < set.length; j++) min = Math.min(min, distance(set[i], set[j]));
+    }
+    return min;
+  };
+
+  const chosen = seeds.map((_, i) => i);
+  while (chosen.length < count && chosen.length < all.length) {
+    let best = -1;
+    let bestDistance = -1;
+    for (let c = seeds.length; c < all.length; c++) {
+      if (chosen.includes(c)) continue;
+      const nearest = Math.min(...chosen.map((other) => distance(c, other)));
+      if (nearest > bestDistance) {
+        best = c;
+        bestDistance = nearest;
+      }
+    }
+    chosen.push(best);
+  }
+
+  // Swap pass: seeds stay; any other color is replaced when a pool
+  // candidate raises the set's smallest distance
+  let floor = setFloor(chosen);
+  for (let i = seeds.length; i < chosen.length; i++) {
+    for (let c = seeds.length; c < all.length; c++) {
+      if (chosen.includes(c)) continue;
+      const trial = chosen.map((index, j) => (j === i ? c : index));
+      const trialFloor = setFloor(trial);
+      if (trialFloor > floor) {
+        chosen[i] = c;
+        floor = trialFloor;
+      }
+    }
+  }
+
+  return chosen.map((index) => all[index].hex);
+}
+
+// --- Ramps ---
+
+function rampColor(L: number, H: number, weight: number): string {
+  const C = Math.min(maxChromaInGamut(L, H, 'srgb') * 0.9, RAMP_MAX_CHROMA) * weight;
+  return toHex(clampToSRGBGamut({ L, C, H }));
+}
+
+function buildSequential(isDark: boolean, hue: number): string[] {
+  const { near, far } = isDark ? DARK_RAMP_L : LIGHT_RAMP_L;
+  return Array.from({ length: RAMP_STEPS }, (_, i) => {
+    const t = i / (RAMP_STEPS - 1);
+    return rampColor(near + (far - near) * t, hue, 0.25 + 0.75 * t);
+  });
+}
+
+function buildDiverging(isDark: boolean, lowHue: number, highHue: number): string[] {
+  const { near, far } = isDark ? DARK_RAMP_L : LIGHT_RAMP_L;
+  const middle = (RAMP_STEPS - 1) / 2;
+  return Array.from({ length: RAMP_STEPS }, (_, i) => {
+    const t = Math.abs(i - middle) / middle;
+    return rampColor(near + (far - near) * t, i < middle ? lowHue : highHue, t);
+  });
+}
+
+function divergingPartner(primaryHue: number, harmonyHues: number[]): number {
+  const farthest = harmonyHues.reduce(
+    (best, hue) => (hueDifference(primaryHue, hue) > hueDifference(primaryHue, best) ? hue : best),
+    primaryHue
+  );
+  return hueDifference(primaryHue, farthest) >= DIVERGING_MIN_HUE_GAP ? farthest : (primaryHue + 180) % 360;
+}
+
+// --- Public API ---
+
+export function clampCategoricalCount(count: number | undefined): number {
+  if (count === undefined || !Number.isFinite(count)) return CATEGORICAL_MIN_COLORS;
+  return Math.min(CATEGORICAL_MAX_COLORS, Math.max(CATEGORICAL_MIN_COLORS, Math.round(count)));
+}
+
+/**
+ * Chart palettes for one mode. `mode` picks the harmony the series colors
+ * open with; unknown modes (random, image) fall back to analogous, as the
+ * engine does, and custom takes its offsets from `customHarmony`.
+ */
+export function buildDataVizPalette(tokens: ThemeTokens, mode?: string, count?: number, customHarmony?: CustomHarmony): DataVizPalette {
+  const harmony = resolveHarmony(mode ?? '', customHarmony);
+  const primaryHue = toOklch(tokens.primary).H;
+  const harmonyHues = harmony.offsets.map((offset) => (primaryHue + offset + 360) % 360);
+  const isDark = toOklch(tokens.bg).L < 0.5;
+
+  return {
+    categorical: buildCategorical(tokens.bg, primaryHue, harmonyHues, harmony.chromaVariance, clampCategoricalCount(count)),
+    sequential: buildSequential(isDark, primaryHue),
+    diverging: buildDiverging(isDark, primaryHue, divergingPartner(primaryHue, harmonyHues)),
+  };
+}
+
+export function buildDualDataVizPalettes(
+  light: ThemeTokens,
+  dark: ThemeTokens,
+  mode?: string,
+  count?: number,
+  customHarmony?: CustomHarmony
+): DualDataVizPalettes {
+  return {
+    light: buildDataVizPalette(light, mode, count, customHarmony),
+    dark: buildDataVizPalette(dark, mode, count, customHarmony),
+  };
+}
+
+/** Smallest pairwise OKLab ΔE of a categorical set, as seen and across the simulated deficiencies. */
+export function categoricalSeparation(colors: string[]): { normal: number; cvd: number } {
+  const views = colors.map((hex) => toCandidate(toOklch(hex)).views);
+  let normal = Infinity;
+  let cvd = Infinity;
+  for (let i = 0; i < views.length; i++) {
+    for (let j = i + 1; j < views.length; j++) {
+      normal = Math.min(normal, deltaE(views[i][0], views[j][0]));
+      for (let k = 1; k < views[i].length; k++) {
+        cvd = Math.min(cvd, deltaE(views[i][k], views[j][k]));
+      }
+    }
+  }
+  return { normal, cvd };
+}
+
+// --- Export Helpers ---
+
+/** True when the tokens the palettes are anchored on are plain hex colors. */
+export function hasDataVizSources(tokens: Record<string, unknown>): tokens is Record<string, unknown> & ThemeTokens {
+  return (['bg', 'primary'] as const).every((key) => {
+    const value = tokens[key];
+    return typeof value === 'string' && HEX_PATTERN.test(value);
+  });
+}
+
+/** Flattens a palette to `chart-1`, `chart-sequential-1` and `chart-diverging-1` style keys. */
+export function flattenDataViz(palette: DataVizPalette): Record<string, string> {
+  const flat: Record<string, string> = {};
+  palette.categorical.forEach((hex, i) => {
+    flat[`chart-${i + 1}`] = hex;
+  });
+  palette.sequential.forEach((hex, i) => {
+    flat[`chart-sequential-${i + 1}`] = hex;
+  });
+  palette.diverging.forEach((hex, i) => {
+    flat[`chart-diverging-${i + 1}`] = hex;
+  });
+  return flat;
+}
@@ -0,0 +1,119 @@
+/**
+ * Engine Versions
+ * Pinned seeded random streams, so a seed regenerates the same theme across releases
+ * Version: 25.12.2
+ *
+ * A seed only reproduces a theme if the random stream it expands into never
+ * changes. Each engine version pins one PRNG; new themes use ENGINE_VERSION and
+ * anything that carries an older version (share links, saved themes, API
+ * clients) regenerates with the stream it was made with. Never edit a shipped
+ * generator: add a new major version and append it to ENGINE_VERSIONS.
+ */
+
+import { EngineVersion } from '../types';
+
+// --- Versions ---
+
+// Append only; share codes store the index
+export const ENGINE_VERSIONS: EngineVersion[] = ['1.0.0', '2.0.0'];
+
+export const ENGINE_VERSION: EngineVersion = '2.0.0';
+
+// Everything generated before versions were recorded
+export const LEGACY_ENGINE_VERSION: EngineVersion = '1.0.0';
+
+export function isEngineVersion(value: unknown): value is EngineVersion {
+  return typeof value === 'string' && (ENGINE_VERSIONS as string[]).includes(value);
+}
+
+/**
+ * Accepts a full version or any version with the same major ('2', '2.1.0',
+ * 'v2'), since output only changes across majors. Null when no engine matches.
+ */
+export function resolveEngineVersion(value: unknown): EngineVersion | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const match = /^v?(\d+)(?:\.\d+){0,2}$/.exec(String(value).trim());
+  if (!match) return null;
+  return ENGINE_VERSIONS.find((version) => version.split('.')[0] === match[1]) ?? null;
+}
+
+// --- Seeded Random ---
+
+export abstract class SeededRandom {
+  /** Uniform float in [0, 1). */
+  abstract next(): number;
+
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  nextFloat(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  pick<T>(arr: T[]): T {
+    return arr[this.nextInt(0, arr.length - 1)];
+  }
+}
+
+/**
+ * 1.0.0: fractional part of sin(n) * 10000 over a 31-bit string hash.
+ * Badly distributed (neighbouring seeds correlate, Math.sin precision is
+ * platform-defined) but kept bit-for-bit so legacy seeds still resolve.
+ */
+class SineRandom extends SeededRandom {
+  private seed: number;
+
+  constructor(seed: string | number) {
+    super();
+    this.seed = typeof seed === 'string' ? SineRandom.hashString(seed) : seed;
+  }
+
+  private static hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      hash = str.charCodeAt(i) + ((hash << 5) - hash);
+    }
+    return Math.abs(hash);
+  }
+
+  next(): number {
+    const x = Math.sin(this.seed++) * 10000;
+    return x - Math.floor(x);
+  }
+}
+
+/**
+ * 2.0.0: Mulberry32 (Tommy Ettinger, public domain) seeded with the 32-bit
+ * FNV-1a hash of the seed string. Integer-only arithmetic, so every platform
+ * produces the same stream, and every state in its 2^32 period is visited once.
+ */
+class Mulberry32Random extends SeededRandom {
+  private state: number;
+
+  constructor(seed: string | number) {
+    super();
+    this.state = typeof seed === 'string' ? Mulberry32Random.fnv1a(seed) : seed >>> 0;
+  }
+
+  private static fnv1a(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+export function createSeededRandom(seed: string | number, version: EngineVersion = ENGINE_VERSION): SeededRandom {
+  return version === '1.0.0' ? new SineRandom(seed) : new Mulberry32Random(seed);
+}
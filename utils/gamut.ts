@@ -0,0 +1,110 @@
+/**
+ * Wide-Gamut Token Builder
+ * Extends brand and status chroma into Display P3 with sRGB fallbacks
+ * Version: 25.12.2
+ *
+ * Each chromatic token keeps its place inside the gamut: a color sitting at
+ * 80% of the sRGB chroma limit for its lightness and hue lands at 80% of the
+ * P3 limit. Lightness and hue are untouched, so the hex token remains a
+ * faithful fallback on sRGB displays.
+ */
+
+import { ThemeTokens, WideGamutRole, WideGamutTokens, DualWideGamutTokens, GamutTarget } from '../types';
+import { OklchColor, toOklch, maxChromaInGamut, clampToP3Gamut, formatDisplayP3 } from './oklch';
+import { getLuminance, getLuminanceOklch } from './contrast';
+
+// --- Configuration ---
+
+export const GAMUT_TARGETS: GamutTarget[] = ['srgb', 'p3'];
+
+export const WIDE_GAMUT_ROLES: WideGamutRole[] = ['primary', 'secondary', 'accent', 'ring', 'good', 'warn', 'bad'];
+
+// Token each role is read against, with the contrast floor it must keep
+const CONTRAST_PAIRS: Record<WideGamutRole, { token: keyof ThemeTokens; floor: number }> = {
+  primary: { token: 'primaryFg', floor: 4.5 },
+  secondary: { token: 'secondaryFg', floor: 4.5 },
+  accent: { token: 'accentFg', floor: 4.5 },
+  ring: { token: 'bg', floor: 3 },
+  good: { token: 'goodFg', floor: 4.5 },
+  warn: { token: 'warnFg', floor: 4.5 },
+  bad: { token: 'badFg', floor: 4.5 },
+};
+
+// Below this sRGB headroom a color is treated as achromatic and left alone
+const MIN_SRGB_CHROMA = 0.001;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Extension is backed off in these steps when it would cost contrast
+const BACKOFF_STEPS = 8;
+
+// --- Chroma Extension ---
+
+function luminanceContrast(l1: number, l2: number): number {
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+function extendChroma(color: OklchColor): OklchColor {
+  const srgbMax = maxChromaInGamut(color.L, color.H, 'srgb');
+  if (srgbMax < MIN_SRGB_CHROMA) return color;
+
+  const relative = Math.min(1, color.C / srgbMax);
+  const p3Max = maxChromaInGamut(color.L, color.H, 'p3');
+  return clampToP3Gamut({ ...color, C: Math.max(color.C, relative * p3Max) });
+}
+
+function buildWideGamutColor(tokens: ThemeTokens, role: WideGamutRole): string {
+  const base = toOklch(tokens[role]);
+  const extended = extendChroma(base);
+  const pair = CONTRAST_PAIRS[role];
+  const pairLuminance = getLuminance(tokens[pair.token]);
+  const required = Math.min(
+    pair.floor,
+    luminanceContrast(getLuminance(tokens[role]), pairLuminance)
+  );
+
+  // Walk back toward the sRGB chroma until the paired contrast holds.
+  for (let step = BACKOFF_STEPS; step > 0; step--) {
+    const t = step / BACKOFF_STEPS;
+    const candidate = { ...base, C: base.C + (extended.C - base.C) * t };
+    if (luminanceContrast(getLuminanceOklch(candidate), pairLuminance) >= required) {
+      return formatDisplayP3(candidate);
+    }
+  }
+
+  return formatDisplayP3(base);
+}
+
+// --- Token Construction ---
+
+export function buildWideGamutTokens(tokens: ThemeTokens): WideGamutTokens {
+  const wide = {} as WideGamutTokens;
+  for (const role of WIDE_GAMUT_ROLES) {
+    wide[role] = {
+      p3: buildWideGamutColor(tokens, role),
+      srgb: tokens[role],
+    };
+  }
+  return wide;
+}
+
+export function buildDualWideGamutTokens(light: ThemeTokens, dark: ThemeTokens): DualWideGamutTokens {
+  return {
+    light: buildWideGamutTokens(light),
+    dark: buildWideGamutTokens(dark),
+  };
+}
+
+// --- Export Helpers ---
+
+/** True when every role and its contrast partner is a plain hex color. */
+export function hasWideGamutSources(tokens: Record<string, unknown>): tokens is Record<string, unknown> & ThemeTokens {
+  return WIDE_GAMUT_ROLES.every((role) => [role, CONTRAST_PAIRS[role].token].every((key) => {
+    const value = tokens[key];
+    return typeof value === 'string' && HEX_PATTERN.test(value);
+  }));
+}
+
+export function isGamutTarget(value: unknown): value is GamutTarget {
+  return typeof value === 'string' && (GAMUT_TARGETS as string[]).includes(value);
+}
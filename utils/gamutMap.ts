@@ -0,0 +1,133 @@
+/**
+ * Gamut Map
+ * Plots theme tokens against the sRGB and Display P3 gamut boundaries in OKLCH
+ * Version: 25.12.2
+ *
+ * The sRGB edge comes from maxGamutChromaAt, the same hex round-trip probe the
+ * engine sizes companion chroma with, so headroom read off the map is the
+ * headroom generation works with. That probe accepts hex rounding, so it runs
+ * up to ~0.02 chroma past the exact sRGB edge; where P3 is barely wider (the
+ * blues) the P3 edge, from the exact channel test, can sit just inside it.
+ * Tokens are stored as hex, so a moved point is always mapped back into sRGB.
+ */
+
+import { ThemeTokens, GamutTarget, GamutMapPoint, GamutBoundaryPoint } from '../types';
+import { OklchColor, toOklch, toHex, clampToSRGBGamut, maxGamutChromaAt, maxChromaInGamut } from './oklch';
+
+// --- Configuration ---
+
+// Chroma axis of both charts; the P3 cusps top out just below it
+export const GAMUT_MAP_MAX_CHROMA = 0.37;
+
+const BOUNDARY_STEPS = 48;
+const ENVELOPE_HUE_STEP = 5;
+const ENVELOPE_L_STEP = 0.02;
+
+// A move that loses more chroma than this to sRGB mapping counts as clamped
+const CLAMP_TOLERANCE = 0.002;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// --- Boundaries ---
+
+/** Largest chroma inside `gamut` at this lightness and hue. */
+export function gamutEdgeChroma(L: number, H: number, gamut: GamutTarget): number {
+  if (L <= 0 || L >= 1) return 0;
+  return gamut === 'p3' ? maxChromaInGamut(L, H, 'p3') : maxGamutChromaAt(L, H);
+}
+
+/** The gamut edge on the L×C plane at one hue, from black to white. */
+export function lightnessChromaBoundary(hue: number, gamut: GamutTarget, steps: number = BOUNDARY_STEPS): GamutBoundaryPoint[] {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const L = i / steps;
+    return { L, C: gamutEdgeChroma(L, hue, gamut), H: hue };
+  });
+}
+
+const envelopeCache = new Map<GamutTarget, GamutBoundaryPoint[]>();
+
+/**
+ * The most chroma any lightness reaches at each hue (the gamut's cusp line),
+ * which is the outline a hue wheel plotted by chroma can fill. Independent of
+ * the theme, so it is computed once per gamut.
+ */
+export function hueChromaEnvelope(gamut: GamutTarget): GamutBoundaryPoint[] {
+  const cached = envelopeCache.get(gamut);
+  if (cached) return cached;
+
+  const envelope: GamutBoundaryPoint[] = [];
+  for (let H = 0; H < 360; H += ENVELOPE_HUE_STEP) {
+    let cusp: GamutBoundaryPoint = { L: 0.5, C: 0, H };
+    for (let L = ENVELOPE_L_STEP; L < 1; L += ENVELOPE_L_STEP) {
+      const C = gamutEdgeChroma(L, H, gamut);
+      if (C > cusp.C) cusp = { L, C, H };
+    }
+    envelope.push(cusp);
+  }
+  envelopeCache.set(gamut, envelope);
+  return envelope;
+}
+
+// --- Token Points ---
+
+function sidePoints(side: 'light' | 'dark', tokens: ThemeTokens): GamutMapPoint[] {
+  return (Object.keys(tokens) as Array<keyof ThemeTokens>)
+    .filter((token) => typeof tokens[token] === 'string' && HEX_PATTERN.test(tokens[token]))
+    .map((token) => {
+      const color = toOklch(tokens[token]);
+      return {
+        side,
+        token,
+        hex: tokens[token],
+        color,
+        headroom: Math.max(0, gamutEdgeChroma(color.L, color.H, 'srgb') - color.C),
+      };
+    });
+}
+
+/** Every hex token of both modes, light first. */
+export function collectGamutPoints(light: ThemeTokens, dark: ThemeTokens): GamutMapPoint[] {
+  return [...sidePoints('light', light), ...sidePoints('dark', dark)];
+}
+
+/**
+ * Moves a color to the requested coordinates and maps it into sRGB, keeping
+ * lightness and hue. `clamped` reports when the requested chroma did not fit.
+ */
+export function relocateColor(
+  color: OklchColor,
+  target: Partial<OklchColor>
+): { hex: string; color: OklchColor; clamped: boolean } {
+  const requested: OklchColor = {
+    L: Math.max(0, Math.min(1, target.L ?? color.L)),
+    C: Math.max(0, target.C ?? color.C),
+    H: (((target.H ?? color.H) % 360) + 360) % 360,
+  };
+  const mapped = clampToSRGBGamut(requested);
+  return {
+    hex: toHex(mapped),
+    color: mapped,
+    clamped: requested.C - mapped.C > CLAMP_TOLERANCE,
+  };
+}
+
+// --- Slider Tracks ---
+
+export type OklchChannel = keyof OklchColor;
+
+export const OKLCH_CHANNEL_RANGES: Record<OklchChannel, { min: number; max: number }> = {
+  L: { min: 0, max: 1 },
+  C: { min: 0, max: GAMUT_MAP_MAX_CHROMA },
+  H: { min: 0, max: 360 },
+};
+
+/**
+ * Evenly spaced hex stops along one channel with the other two held, each
+ * mapped into sRGB: the gradient a slider for that channel would sweep.
+ */
+export function channelTrackStops(color: OklchColor, channel: OklchChannel, steps: number = 12): string[] {
+  const { min, max } = OKLCH_CHANNEL_RANGES[channel];
+  return Array.from({ length: steps + 1 }, (_, i) => (
+    toHex(clampToSRGBGamut({ ...color, [channel]: min + ((max - min) * i) / steps }))
+  ));
+}
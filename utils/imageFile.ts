@@ -0,0 +1,31 @@
+/**
+ * Image File Palette
+ * Browser wrapper that decodes an uploaded image and hands its pixels to the engine
+ * Version: 25.12.2
+ *
+ * Kept apart from colorUtils so the engine itself stays free of DOM APIs.
+ */
+
+import { extractPaletteFromPixels } from './colorUtils';
+
+export async function extractPaletteFromImage(file: File, isDark: boolean = false): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject("No context");
+        const size = 100;
+        canvas.width = size;
+        canvas.height = size;
+        ctx.drawImage(img, 0, 0, size, size);
+        const { data } = ctx.getImageData(0, 0, size, size);
+        resolve(extractPaletteFromPixels({ data, width: size, height: size }, isDark));
+      };
+      img.src = event.target?.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,399 @@
+/**
+ * Native Mobile Export Module
+ * Renders themes for iOS (asset catalog, SwiftUI), Android (XML, Compose) and Flutter
+ * Version: 25.12.2
+ *
+ * Called from themeExport.ts with pre-resolved token sets. Dual themes map
+ * onto each platform's own light/dark mechanism; multi-file formats are
+ * returned as a base64 ZIP archive.
+ */
+
+import type { ExportResult } from './themeExport';
+import { toOklch } from './oklch';
+import { createZip, bytesToBase64, ZipEntry } from './zip';
+
+// --- Types ---
+
+export type NativeExportFormat = 'xcassets' | 'swiftui' | 'android' | 'compose' | 'flutter';
+
+export const NATIVE_EXPORT_FORMATS: NativeExportFormat[] = ['xcassets', 'swiftui', 'android', 'compose', 'flutter'];
+
+export interface NativeTokenSet {
+  name: 'theme' | 'light' | 'dark';
+  entries: Array<[string, string]>;  // kebab-case key -> hex
+}
+
+export interface NativeExportOptions {
+  prefix: string;
+  includeComments: boolean;
+  packageName?: string;              // Kotlin package for Compose output
+  generatedAt?: string | null;       // Header timestamp; null omits the line
+}
+
+// --- Naming ---
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function pascalCase(kebab: string): string {
+  return kebab
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function camelCase(kebab: string): string {
+  const pascal = pascalCase(kebab);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function snakeCase(kebab: string): string {
+  return kebab.replace(/-/g, '_').toLowerCase();
+}
+
+function hexDigits(hex: string): string {
+  return hex.slice(1).toUpperCase();
+}
+
+function isDarkSet(set: NativeTokenSet): boolean {
+  if (set.name !== 'theme') return set.name === 'dark';
+  const bg = set.entries.find(([key]) => key === 'bg');
+  return !!bg && toOklch(bg[1]).L < 0.5;
+}
+
+function headerComment(marker: string, format: string, generatedAt: string | null | undefined): string[] {
+  const stamp = generatedAt === undefined ? new Date().toISOString() : generatedAt;
+  return [
+    `${marker} Taichi Theme Generator - Theme Export`,
+    ...(stamp ? [`${marker} Generated: ${stamp}`] : []),
+    `${marker} Format: ${format}`,
+    '',
+  ];
+}
+
+// Material role -> Taichi token, shared by Compose and Flutter color schemes.
+const MATERIAL_ROLES: Array<[string, string]> = [
+  ['primary', 'primary'],
+  ['onPrimary', 'primary-fg'],
+  ['secondary', 'secondary'],
+  ['onSecondary', 'secondary-fg'],
+  ['tertiary', 'accent'],
+  ['onTertiary', 'accent-fg'],
+  ['error', 'bad'],
+  ['onError', 'bad-fg'],
+  ['surface', 'bg'],
+  ['onSurface', 'text'],
+  ['surfaceContainer', 'card'],
+  ['surfaceContainerHighest', 'card2'],
+  ['onSurfaceVariant', 'text-muted'],
+  ['outline', 'border'],
+  ['outlineVariant', 'divider'],
+  ['scrim', 'overlay'],
+];
+
+const FLUTTER_REQUIRED_ROLES = ['primary', 'onPrimary', 'secondary', 'onSecondary', 'error', 'onError', 'surface', 'onSurface'];
+
+// --- Public API ---
+
+export function exportNative(
+  sets: NativeTokenSet[],
+  format: NativeExportFormat,
+  options: NativeExportOptions
+): ExportResult {
+  const hexSets = sets.map((set) => ({
+    ...set,
+    entries: set.entries.filter(([, value]) => HEX_COLOR.test(value)),
+  }));
+  const filePrefix = options.prefix || 'taichi';
+
+  switch (format) {
+    case 'xcassets':
+      return zipResult(exportAsAssetCatalog(hexSets, options), `${filePrefix}-xcassets.zip`);
+    case 'swiftui':
+      return { content: exportAsSwiftUI(hexSets, options), filename: `Color+${pascalCase(filePrefix)}.swift` };
+    case 'android':
+      return zipResult(exportAsAndroidResources(hexSets, options), `${filePrefix}-android-res.zip`);
+    case 'compose':
+      return { content: exportAsCompose(hexSets, options), filename: `${pascalCase(filePrefix)}Colors.kt` };
+    case 'flutter':
+    default:
+      return { content: exportAsFlutter(hexSets, options), filename: `${snakeCase(filePrefix)}_theme.dart` };
+  }
+}
+
+function zipResult(entries: ZipEntry[], filename: string): ExportResult {
+  return { content: bytesToBase64(createZip(entries)), filename, encoding: 'base64' };
+}
+
+// --- iOS Asset Catalog ---
+
+function colorsetComponents(hex: string) {
+  const digits = hexDigits(hex);
+  return {
+    'color-space': 'srgb',
+    components: {
+      alpha: '1.000',
+      blue: `0x${digits.slice(4, 6)}`,
+      green: `0x${digits.slice(2, 4)}`,
+      red: `0x${digits.slice(0, 2)}`,
+    },
+  };
+}
+
+function exportAsAssetCatalog(sets: NativeTokenSet[], options: NativeExportOptions): ZipEntry[] {
+  const namespace = pascalCase(options.prefix || 'taichi');
+  const root = `${namespace}Colors.xcassets`;
+  const info = { author: 'xcode', version: 1 };
+  const [base, dark] = sets;
+  const darkValues = new Map(dark?.entries ?? []);
+
+  const entries: ZipEntry[] = [
+    { path: `${root}/Contents.json`, content: JSON.stringify({ info }, null, 2) },
+  ];
+
+  base.entries.forEach(([key, value]) => {
+    const colors: Array<Record<string, unknown>> = [
+      { color: colorsetComponents(value), idiom: 'universal' },
+    ];
+    const darkValue = darkValues.get(key);
+    if (darkValue) {
+      colors.push({
+        appearances: [{ appearance: 'luminosity', value: 'dark' }],
+        color: colorsetComponents(darkValue),
+        idiom: 'universal',
+      });
+    }
+    entries.push({
+      path: `${root}/${namespace}${pascalCase(key)}.colorset/Contents.json`,
+      content: JSON.stringify({ colors, info }, null, 2),
+    });
+  });
+
+  return entries;
+}
+
+// --- SwiftUI ---
+
+function exportAsSwiftUI(sets: NativeTokenSet[], options: NativeExportOptions): string {
+  const namespace = pascalCase(options.prefix || 'taichi');
+  const helper = `${camelCase(options.prefix || 'taichi')}Hex`;
+  const [base, dark] = sets;
+  const darkValues = new Map(dark?.entries ?? []);
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...headerComment('//', dark ? 'SwiftUI Color extension (light + dark)' : 'SwiftUI Color extension', options.generatedAt));
+  }
+
+  lines.push('import SwiftUI');
+  if (dark) {
+    lines.push('#if canImport(UIKit)');
+    lines.push('import UIKit');
+    lines.push('#endif');
+  }
+  lines.push('');
+  lines.push('public extension Color {');
+  lines.push(`    enum ${namespace} {`);
+  base.entries.forEach(([key, value]) => {
+    const darkValue = darkValues.get(key);
+    const expression = darkValue
+      ? `Color.${camelCase(namespace)}Dynamic(light: 0x${hexDigits(value)}, dark: 0x${hexDigits(darkValue)})`
+      : `Color(${helper}: 0x${hexDigits(value)})`;
+    lines.push(`        public static let ${camelCase(key)} = ${expression}`);
+  });
+  lines.push('    }');
+  lines.push('}');
+  lines.push('');
+  lines.push('private extension Color {');
+  lines.push(`    init(${helper} hex: UInt32) {`);
+  lines.push('        self.init(');
+  lines.push('            .sRGB,');
+  lines.push('            red: Double((hex >> 16) & 0xFF) / 255,');
+  lines.push('            green: Double((hex >> 8) & 0xFF) / 255,');
+  lines.push('            blue: Double(hex & 0xFF) / 255,');
+  lines.push('            opacity: 1');
+  lines.push('        )');
+  lines.push('    }');
+
+  if (dark) {
+    lines.push('');
+    lines.push(`    static func ${camelCase(namespace)}Dynamic(light: UInt32, dark: UInt32) -> Color {`);
+    lines.push('        #if canImport(UIKit)');
+    lines.push('        return Color(UIColor { traits in');
+    lines.push(`            UIColor(${helper}: traits.userInterfaceStyle == .dark ? dark : light)`);
+    lines.push('        })');
+    lines.push('        #else');
+    lines.push(`        return Color(${helper}: light)`);
+    lines.push('        #endif');
+    lines.push('    }');
+    lines.push('}');
+    lines.push('');
+    lines.push('#if canImport(UIKit)');
+    lines.push('private extension UIColor {');
+    lines.push(`    convenience init(${helper} hex: UInt32) {`);
+    lines.push('        self.init(');
+    lines.push('            red: CGFloat((hex >> 16) & 0xFF) / 255,');
+    lines.push('            green: CGFloat((hex >> 8) & 0xFF) / 255,');
+    lines.push('            blue: CGFloat(hex & 0xFF) / 255,');
+    lines.push('            alpha: 1');
+    lines.push('        )');
+    lines.push('    }');
+    lines.push('}');
+    lines.push('#endif');
+  } else {
+    lines.push('}');
+  }
+
+  if (options.includeComments) {
+    lines.push('');
+    lines.push('// Usage example:');
+    lines.push(`// Text("Hello").foregroundStyle(Color.${namespace}.primary)`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// --- Android Resources ---
+
+function androidColorsXml(set: NativeTokenSet, options: NativeExportOptions, qualifier: string): string {
+  const prefix = snakeCase(options.prefix || 'taichi');
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>'];
+  if (options.includeComments) {
+    lines.push(`<!-- Taichi Theme Generator - Theme Export (${qualifier}) -->`);
+  }
+  lines.push('<resources>');
+  set.entries.forEach(([key, value]) => {
+    lines.push(`    <color name="${prefix}_${snakeCase(key)}">#${hexDigits(value)}</color>`);
+  });
+  lines.push('</resources>');
+  return lines.join('\n') + '\n';
+}
+
+function exportAsAndroidResources(sets: NativeTokenSet[], options: NativeExportOptions): ZipEntry[] {
+  const [base, dark] = sets;
+  const entries: ZipEntry[] = [
+    { path: 'res/values/colors.xml', content: androidColorsXml(base, options, 'values') },
+  ];
+  if (dark) {
+    entries.push({ path: 'res/values-night/colors.xml', content: androidColorsXml(dark, options, 'values-night') });
+  }
+  return entries;
+}
+
+// --- Jetpack Compose ---
+
+function exportAsCompose(sets: NativeTokenSet[], options: NativeExportOptions): string {
+  const namespace = pascalCase(options.prefix || 'taichi');
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...headerComment('//', sets.length > 1 ? 'Jetpack Compose color schemes (light + dark)' : 'Jetpack Compose color scheme', options.generatedAt));
+  }
+
+  lines.push(`package ${options.packageName || 'com.example.ui.theme'}`);
+  lines.push('');
+  lines.push('import androidx.compose.material3.darkColorScheme');
+  lines.push('import androidx.compose.material3.lightColorScheme');
+  lines.push('import androidx.compose.ui.graphics.Color');
+
+  sets.forEach((set) => {
+    const dark = isDarkSet(set);
+    const objectName = `${namespace}${dark ? 'Dark' : 'Light'}Colors`;
+    const values = new Map(set.entries);
+
+    lines.push('');
+    lines.push(`object ${objectName} {`);
+    set.entries.forEach(([key, value]) => {
+      lines.push(`    val ${pascalCase(key)} = Color(0xFF${hexDigits(value)})`);
+    });
+    lines.push('}');
+    lines.push('');
+    lines.push(`val ${namespace}${dark ? 'Dark' : 'Light'}ColorScheme = ${dark ? 'darkColorScheme' : 'lightColorScheme'}(`);
+    const roles: Array<[string, string]> = [
+      ...MATERIAL_ROLES,
+      ['background', 'bg'],
+      ['onBackground', 'text'],
+    ];
+    roles
+      .filter(([, token]) => values.has(token))
+      .forEach(([role, token]) => {
+        lines.push(`    ${role} = ${objectName}.${pascalCase(token)},`);
+      });
+    lines.push(')');
+  });
+
+  if (options.includeComments) {
+    lines.push('');
+    lines.push('// Usage example:');
+    lines.push(`// MaterialTheme(colorScheme = if (isSystemInDarkTheme()) ${namespace}DarkColorScheme else ${namespace}LightColorScheme) { ... }`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// --- Flutter ---
+
+function exportAsFlutter(sets: NativeTokenSet[], options: NativeExportOptions): string {
+  const namespace = pascalCase(options.prefix || 'taichi');
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...headerComment('//', sets.length > 1 ? 'Flutter ThemeData (light + dark)' : 'Flutter ThemeData', options.generatedAt));
+  }
+
+  lines.push("import 'package:flutter/material.dart';");
+  lines.push('');
+  lines.push(`class ${namespace}Colors {`);
+  lines.push(`  const ${namespace}Colors._();`);
+  sets.forEach((set) => {
+    const mode = isDarkSet(set) ? 'dark' : 'light';
+    lines.push('');
+    set.entries.forEach(([key, value]) => {
+      lines.push(`  static const ${mode}${pascalCase(key)} = Color(0xFF${hexDigits(value)});`);
+    });
+  });
+  lines.push('}');
+  lines.push('');
+  lines.push(`class ${namespace}Theme {`);
+  lines.push(`  const ${namespace}Theme._();`);
+
+  sets.forEach((set) => {
+    const mode = isDarkSet(set) ? 'dark' : 'light';
+    const values = new Map(set.entries);
+    const roles = MATERIAL_ROLES.filter(([, token]) => values.has(token));
+    const hasRequired = FLUTTER_REQUIRED_ROLES.every((role) => roles.some(([name]) => name === role));
+    const color = (token: string) => `${namespace}Colors.${mode}${pascalCase(token)}`;
+
+    if (!hasRequired) {
+      lines.push('');
+      lines.push(`  // ${mode} ColorScheme skipped: theme is missing required tokens.`);
+      return;
+    }
+
+    lines.push('');
+    lines.push(`  static const ${mode}Scheme = ColorScheme(`);
+    lines.push(`    brightness: Brightness.${mode},`);
+    roles.forEach(([role, token]) => {
+      lines.push(`    ${role}: ${color(token)},`);
+    });
+    lines.push('  );');
+    lines.push('');
+    lines.push(`  static ThemeData get ${mode} => ThemeData(`);
+    lines.push('    useMaterial3: true,');
+    lines.push(`    colorScheme: ${mode}Scheme,`);
+    if (values.has('bg')) lines.push(`    scaffoldBackgroundColor: ${color('bg')},`);
+    const dividerToken = values.has('divider') ? 'divider' : 'border';
+    if (values.has(dividerToken)) lines.push(`    dividerColor: ${color(dividerToken)},`);
+    lines.push('  );');
+  });
+
+  lines.push('}');
+
+  if (options.includeComments) {
+    lines.push('');
+    lines.push('// Usage example:');
+    lines.push(`// MaterialApp(theme: ${namespace}Theme.light, darkTheme: ${namespace}Theme.dark, ...)`);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -12,12 +12,12 @@ export interface OklchColor {
 
 // --- RGB/sRGB Helpers ---
 
-function linearizeChannel(c: number): number {
+export function linearizeChannel(c: number): number {
   const v = c / 255;
   return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
 }
 
-function delinearizeChannel(c: number): number {
+export function delinearizeChannel(c: number): number {
   const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
   return Math.round(Math.max(0, Math.min(255, v * 255)));
 }
@@ -76,13 +76,9 @@ export function toOklch(hex: string): OklchColor {
   return { L, C, H };
 }
 
-export function toHex(color: OklchColor): string {
+export function toLinearSrgb(color: OklchColor): { r: number; g: number; b: number } {
   const { L, C, H } = color;
   
-  // Edge cases
-  if (L <= 0) return '#000000';
-  if (L >= 1) return '#ffffff';
-  
   // OKLCH to Oklab
   const hRad = (H * Math.PI) / 180;
   const a = C * Math.cos(hRad);
@@ -97,10 +93,20 @@ export function toHex(color: OklchColor): string {
   const m = m_ * m_ * m_;
   const s = s_ * s_ * s_;
   
-  // LMS to Linear sRGB
-  const lr = +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
-  const lg = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
-  const lb = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
+  // LMS to Linear sRGB (unclamped; channels outside 0-1 are out of gamut)
+  return {
+    r: +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  };
+}
+
+export function toHex(color: OklchColor): string {
+  // Edge cases
+  if (color.L <= 0) return '#000000';
+  if (color.L >= 1) return '#ffffff';
+  
+  const { r: lr, g: lg, b: lb } = toLinearSrgb(color);
   
   // Delinearize to sRGB
   const r = delinearizeChannel(lr);
@@ -110,6 +116,34 @@ export function toHex(color: OklchColor): string {
   return rgbToHex(r, g, rb);
 }
 
+// --- Display P3 Conversion ---
+
+// Linear sRGB -> linear Display P3 (both D65, shared transfer curve)
+function linearSrgbToLinearP3(rgb: { r: number; g: number; b: number }): { r: number; g: number; b: number } {
+  return {
+    r: 0.8224619687 * rgb.r + 0.1775380313 * rgb.g,
+    g: 0.0331941989 * rgb.r + 0.9668058011 * rgb.g,
+    b: 0.0170826307 * rgb.r + 0.0723974407 * rgb.g + 0.9105199286 * rgb.b,
+  };
+}
+
+function encodeChannel(c: number): number {
+  const v = Math.max(0, Math.min(1, c));
+  return v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+export function toDisplayP3(color: OklchColor): { r: number; g: number; b: number } {
+  if (color.L <= 0) return { r: 0, g: 0, b: 0 };
+  if (color.L >= 1) return { r: 1, g: 1, b: 1 };
+  
+  const linear = linearSrgbToLinearP3(toLinearSrgb(color));
+  return {
+    r: encodeChannel(linear.r),
+    g: encodeChannel(linear.g),
+    b: encodeChannel(linear.b),
+  };
+}
+
 // --- Gamut Mapping ---
 
 export function isInSRGBGamut(color: OklchColor): boolean {
@@ -147,6 +181,55 @@ export function clampToSRGBGamut(color: OklchColor): OklchColor {
   return result;
 }
 
+// Largest chroma that survives the hex round-trip at this lightness and hue;
+// the engine sizes companion chroma and the gamut map draws the sRGB edge with it
+export function maxGamutChromaAt(lightness: number, hue: number): number {
+  const safeL = Math.max(0.001, Math.min(0.999, lightness));
+  // Probe with high chroma and let gamut mapping resolve the max reachable value.
+  return clampToSRGBGamut({ L: safeL, C: 0.4, H: hue }).C;
+}
+
+export type Gamut = 'srgb' | 'p3';
+
+// Exact channel test (no hex rounding), used when sizing chroma headroom
+const GAMUT_EPSILON = 0.0001;
+
+function channelsInRange(rgb: { r: number; g: number; b: number }): boolean {
+  return [rgb.r, rgb.g, rgb.b].every((c) => c >= -GAMUT_EPSILON && c <= 1 + GAMUT_EPSILON);
+}
+
+export function isInP3Gamut(color: OklchColor): boolean {
+  if (color.L <= 0 || color.L >= 1) return color.C < 0.0001;
+  return channelsInRange(linearSrgbToLinearP3(toLinearSrgb(color)));
+}
+
+export function maxChromaInGamut(L: number, H: number, gamut: Gamut): number {
+  if (L <= 0 || L >= 1) return 0;
+  
+  const inGamut = (C: number) => {
+    const linear = toLinearSrgb({ L, C, H });
+    return channelsInRange(gamut === 'p3' ? linearSrgbToLinearP3(linear) : linear);
+  };
+  
+  let low = 0;
+  let high = 0.5;
+  while (high - low > 0.0005) {
+    const mid = (low + high) / 2;
+    if (inGamut(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  
+  return low;
+}
+
+export function clampToP3Gamut(color: OklchColor): OklchColor {
+  if (isInP3Gamut(color)) return color;
+  return { ...color, C: Math.min(color.C, maxChromaInGamut(color.L, color.H, 'p3')) };
+}
+
 // --- Color Difference ---
 
 export function deltaE(a: OklchColor, b: OklchColor): number {
@@ -250,3 +333,8 @@ export function parseOklch(str: string): OklchColor | null {
     H: parseFloat(match[3]),
   };
 }
+
+export function formatDisplayP3(color: OklchColor): string {
+  const { r, g, b } = toDisplayP3(color);
+  return `color(display-p3 ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)})`;
+}
@@ -10,12 +10,13 @@
  * 4. Every palette is scored, validated, and reproducible
  */
 
-import { ThemeTokens, GenerationMode } from '../types';
+import { ThemeTokens, CoreThemeTokens, ThemeRoleTokens, GenerationMode, ContrastAlgorithm, EngineVersion, CustomHarmony } from '../types';
 import {
   OklchColor,
   toOklch,
   toHex,
   clampToSRGBGamut,
+  maxGamutChromaAt,
   deltaE,
   hueDifference,
   adjustLightness,
@@ -25,56 +26,18 @@ import {
   generateScale,
   hexToRgb,
 } from './oklch';
-import { contrastRatio, selectForeground, selectForegroundHex, adjustForContrast, meetsWCAG } from './contrast';
+import { contrastRatio, contrastFor, selectForeground, selectForegroundHex, adjustForContrast, meetsWCAG } from './contrast';
 import { evaluatePalette, selectBestPalette, ScoredPalette } from './scoringEngine';
-
-// --- Seeded Random ---
-
-class SeededRandom {
-  private seed: number;
-  
-  constructor(seed: string | number) {
-    if (typeof seed === 'string') {
-      this.seed = this.hashString(seed);
-    } else {
-      this.seed = seed;
-    }
-  }
-  
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    return Math.abs(hash);
-  }
-  
-  next(): number {
-    const x = Math.sin(this.seed++) * 10000;
-    return x - Math.floor(x);
-  }
-  
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-  
-  nextFloat(min: number, max: number): number {
-    return this.next() * (max - min) + min;
-  }
-  
-  pick<T>(arr: T[]): T {
-    return arr[this.nextInt(0, arr.length - 1)];
-  }
-}
+import { SeededRandom, createSeededRandom, ENGINE_VERSION } from './engineVersion';
 
 // --- Harmony Modes ---
 
-interface HarmonyConfig {
+export interface HarmonyConfig {
   offsets: number[];
   chromaVariance: number;
 }
 
-const HARMONY_MODES: Record<string, HarmonyConfig> = {
+export const HARMONY_MODES: Record<string, HarmonyConfig> = {
   monochrome: { offsets: [0, 0, 0, 0, 0], chromaVariance: 0.3 },
   analogous: { offsets: [0, 30, -30, 15, -15], chromaVariance: 0.15 },
   complementary: { offsets: [0, 180, 30, 210, -30], chromaVariance: 0.2 },
@@ -85,6 +48,62 @@ const HARMONY_MODES: Record<string, HarmonyConfig> = {
   'triadic-split': { offsets: [0, 120, 150, 240, 270], chromaVariance: 0.2 },
 };
 
+// --- Custom Harmony ---
+
+// Custom offsets fill the secondary and accent slots, then optionally good
+// and bad; status slots left out fall back to the green/red search.
+export const CUSTOM_HARMONY_MIN_OFFSETS = 2;
+export const CUSTOM_HARMONY_MAX_OFFSETS = 4;
+export const CUSTOM_CHROMA_VARIANCE_MAX = 0.5;
+
+export const DEFAULT_CUSTOM_HARMONY: CustomHarmony = { offsets: [30, -30], chromaVariance: 0.15 };
+
+/** Wraps an offset to whole degrees in (-180, 180]. */
+export function normalizeHueOffset(degrees: number): number {
+  const wrapped = ((Math.round(degrees) % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * Reads a custom harmony from loose input: offsets as a number array or a
+ * comma-separated string ("45,-100"), variance as a number or numeric
+ * string (defaulting to DEFAULT_CUSTOM_HARMONY's). Returns null when the
+ * offset count or any value is out of range.
+ */
+export function parseCustomHarmony(offsets: unknown, chromaVariance?: unknown): CustomHarmony | null {
+  const rawOffsets = typeof offsets === 'string'
+    ? offsets.split(',').map((part) => (part.trim() ? Number(part) : NaN))
+    : offsets;
+  if (!Array.isArray(rawOffsets)) return null;
+  if (rawOffsets.length < CUSTOM_HARMONY_MIN_OFFSETS || rawOffsets.length > CUSTOM_HARMONY_MAX_OFFSETS) return null;
+  if (!rawOffsets.every((value) => typeof value === 'number' && Number.isFinite(value))) return null;
+
+  const variance = chromaVariance === undefined || chromaVariance === ''
+    ? DEFAULT_CUSTOM_HARMONY.chromaVariance
+    : Number(chromaVariance);
+  if (!Number.isFinite(variance) || variance < 0 || variance > CUSTOM_CHROMA_VARIANCE_MAX) return null;
+
+  return {
+    offsets: (rawOffsets as number[]).map(normalizeHueOffset),
+    chromaVariance: Math.round(variance * 100) / 100,
+  };
+}
+
+/** The harmony a mode generates with; custom reads its offsets from `customHarmony`. */
+export function resolveHarmony(mode: string, customHarmony?: CustomHarmony): HarmonyConfig {
+  if (mode === 'custom') {
+    const custom = customHarmony ?? DEFAULT_CUSTOM_HARMONY;
+    return { offsets: [0, ...custom.offsets], chromaVariance: custom.chromaVariance };
+  }
+  return HARMONY_MODES[mode] || HARMONY_MODES.analogous;
+}
+
+// Preset modes keep their fixed brand chroma ratios; a custom variance of v
+// drops secondary to 1 - v of the primary chroma and lifts accent by v / 2
+function customBrandChroma(chromaVariance: number): BrandChroma {
+  return { secondary: 1 - chromaVariance, accent: 1 + chromaVariance / 2 };
+}
+
 function normalizeOverridePalette(overridePalette?: string[]): Array<string | null> | null {
   if (!overridePalette || (overridePalette.length !== 5 && overridePalette.length !== 10)) return null;
   return overridePalette.map((color) => {
@@ -256,13 +275,23 @@ interface BrandColors {
   accent: OklchColor;
 }
 
+// Secondary and accent chroma as multiples of the primary's
+interface BrandChroma {
+  secondary: number;
+  accent: number;
+}
+
+const LIGHT_BRAND_CHROMA: BrandChroma = { secondary: 0.75, accent: 1.1 };
+const DARK_BRAND_CHROMA: BrandChroma = { secondary: 0.8, accent: 1.1 };
+
 function constructBrandColors(
   hues: number[],
   bg: OklchColor,
   rng: SeededRandom,
   saturationLevel: number,
   brightnessLevel: number,
-  contrastLevel: number
+  contrastLevel: number,
+  chroma: BrandChroma = LIGHT_BRAND_CHROMA
 ): BrandColors {
   // Brightness affects base lightness of all brand colors
   // Range: -5 to 5 maps to lightness adjustments
@@ -298,7 +327,7 @@ function constructBrandColors(
   
   const adjustedSecondary = clampToSRGBGamut({
     L: secondaryL,
-    C: Math.max(0.02, baseC * 0.75),
+    C: Math.max(0.02, baseC * chroma.secondary),
     H: secondary.H,
   });
   
@@ -309,7 +338,7 @@ function constructBrandColors(
   
   const adjustedAccent = clampToSRGBGamut({
     L: accentL,
-    C: Math.max(0.03, baseC * 1.1),
+    C: Math.max(0.03, baseC * chroma.accent),
     H: accent.H,
   });
   
@@ -371,7 +400,8 @@ function constructStatusColors(
   bg: OklchColor,
   rng: SeededRandom,
   saturationLevel: number,
-  brightnessLevel: number
+  brightnessLevel: number,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): StatusColors {
   const { goodHue, badHue } = resolveStatusHues(hues);
   
@@ -388,14 +418,155 @@ function constructStatusColors(
   
   return {
     good,
-    goodFg: selectForeground(good),
+    goodFg: selectForeground(good, true, 4.5, algorithm),
     bad,
-    badFg: selectForeground(bad),
+    badFg: selectForeground(bad, true, 4.5, algorithm),
     warn,
-    warnFg: selectForeground(warn),
+    warnFg: selectForeground(warn, true, 4.5, algorithm),
+  };
+}
+
+// --- Interaction & Surface Roles ---
+//
+// Derived from the finished core tokens of one side, so light and dark roles
+// follow the same derivation as the tokens they sit next to. Guarantees:
+//   link, linkVisited     ≥ minRatio on bg and card (body-text links)
+//   infoFg on info        ≥ minRatio; info ≥ 3:1 on bg (non-text UI, WCAG 1.4.11)
+//   text on selectionBg   ≥ minRatio; text on inputBg ≥ minRatio
+//   disabledFg on disabledBg ≥ 3:1 — legible, but deliberately below body text
+//   focus                 ≥ 3:1 on bg, card and card2 (focus indicator, WCAG 1.4.11)
+// overlay and divider are decorative and carry no contrast target.
+
+const STATUS_INFO_HUE = 250;
+const LINK_VISITED_HUE_SHIFT = 40;
+const GRAPHIC_MIN_RATIO = 3;
+
+/** Opacity the overlay scrim is meant to be laid over content with. */
+export const OVERLAY_OPACITY = 0.5;
+
+export const ROLE_TOKEN_KEYS: Array<keyof ThemeRoleTokens> = [
+  'info', 'infoFg', 'link', 'linkVisited', 'overlay',
+  'selectionBg', 'disabledBg', 'disabledFg', 'inputBg', 'divider', 'focus',
+];
+
+const clampL = (L: number) => Math.max(0.03, Math.min(0.97, L));
+
+// Walks `color` along lightness until it clears minRatio against every surface
+function contrastOnSurfaces(
+  color: OklchColor,
+  surfaces: OklchColor[],
+  minRatio: number,
+  algorithm: ContrastAlgorithm
+): OklchColor {
+  let fixed = clampToSRGBGamut(color);
+  for (let i = 0; i < 6; i++) {
+    const ratios = surfaces.map((surface) => contrastFor(toHex(fixed), toHex(surface), algorithm));
+    const worst = ratios.indexOf(Math.min(...ratios));
+    if (ratios[worst] >= minRatio) break;
+    fixed = adjustForContrast(fixed, surfaces[worst], minRatio, algorithm);
+  }
+  return fixed;
+}
+
+export function deriveRoleTokens(
+  core: CoreThemeTokens,
+  algorithm: ContrastAlgorithm = 'wcag2',
+  minRatio: number = 4.5
+): ThemeRoleTokens {
+  const bg = toOklch(core.bg);
+  const card = toOklch(core.card);
+  const card2 = toOklch(core.card2);
+  const text = toOklch(core.text);
+  const textMuted = toOklch(core.textMuted);
+  const border = toOklch(core.border);
+  const primary = toOklch(core.primary);
+  const ring = toOklch(core.ring);
+  const good = toOklch(core.good);
+  const bad = toOklch(core.bad);
+  const isDark = bg.L < 0.5;
+  const graphicRatio = Math.min(GRAPHIC_MIN_RATIO, minRatio);
+
+  // Info sits with the other status colors: their mean lightness and chroma, blue hue
+  const info = contrastOnSurfaces(
+    { L: (good.L + bad.L) / 2, C: (good.C + bad.C) / 2, H: STATUS_INFO_HUE },
+    [bg],
+    graphicRatio,
+    algorithm
+  );
+
+  const link = contrastOnSurfaces(primary, [bg, card], minRatio, algorithm);
+  const linkVisited = contrastOnSurfaces(
+    { L: link.L, C: link.C * 0.8, H: (link.H + LINK_VISITED_HUE_SHIFT) % 360 },
+    [bg, card],
+    minRatio,
+    algorithm
+  );
+
+  const overlay = clampToSRGBGamut({
+    L: isDark ? Math.max(0.02, bg.L * 0.5) : 0.22,
+    C: Math.min(bg.C, 0.02),
+    H: bg.H,
+  });
+
+  const selectionBg = contrastOnSurfaces(
+    { L: clampL(bg.L + (isDark ? 0.15 : -0.1)), C: Math.min(primary.C * 0.45, 0.08), H: primary.H },
+    [text],
+    minRatio,
+    algorithm
+  );
+
+  // Inputs sit one step past the outermost surface, away from the text
+  const outerL = isDark ? Math.min(bg.L, card.L) - 0.015 : Math.max(bg.L, card.L) + 0.015;
+  const inputBg = contrastOnSurfaces(
+    { L: Math.max(0.03, Math.min(0.995, outerL)), C: card.C * 0.6, H: card.H },
+    [text],
+    minRatio,
+    algorithm
+  );
+
+  const disabledBg = clampToSRGBGamut({ L: (card.L + border.L) / 2, C: card.C * 0.5, H: card.H });
+  const disabledFg = contrastOnSurfaces(
+    { L: textMuted.L + (disabledBg.L - textMuted.L) * 0.4, C: textMuted.C * 0.3, H: textMuted.H },
+    [disabledBg],
+    Math.min(GRAPHIC_MIN_RATIO, minRatio),
+    algorithm
+  );
+
+  // Quieter than border, but never lost against bg or card
+  const dividerDir = border.L < bg.L ? -1 : 1;
+  const dividerBase = bg.L + (border.L - bg.L) * 0.6;
+  const dividerL = dividerDir < 0
+    ? Math.min(dividerBase, bg.L - 0.03, card.L - 0.03)
+    : Math.max(dividerBase, bg.L + 0.03, card.L + 0.03);
+  const divider = clampToSRGBGamut({ L: clampL(dividerL), C: border.C, H: border.H });
+
+  // The ring hue, pushed until a focus outline shows on every surface it can land on
+  const focus = contrastOnSurfaces(ring, [bg, card, card2], graphicRatio, algorithm);
+
+  return {
+    info: toHex(info),
+    infoFg: toHex(selectForeground(info, true, minRatio, algorithm)),
+    link: toHex(link),
+    linkVisited: toHex(linkVisited),
+    overlay: toHex(overlay),
+    selectionBg: toHex(selectionBg),
+    disabledBg: toHex(disabledBg),
+    disabledFg: toHex(disabledFg),
+    inputBg: toHex(inputBg),
+    divider: toHex(divider),
+    focus: toHex(focus),
   };
 }
 
+/** Completes a core token set with its derived roles. */
+export function withRoleTokens(
+  core: CoreThemeTokens,
+  algorithm: ContrastAlgorithm = 'wcag2',
+  minRatio: number = 4.5
+): ThemeTokens {
+  return { ...core, ...deriveRoleTokens(core, algorithm, minRatio) };
+}
+
 // --- Dark Mode Derivation ---
 
 interface CompanionChromaOptions {
@@ -406,12 +577,6 @@ interface CompanionChromaOptions {
   maxChangeRatio?: number;
 }
 
-function maxGamutChromaAt(lightness: number, hue: number): number {
-  const safeL = Math.max(0.001, Math.min(0.999, lightness));
-  // Probe with high chroma and let gamut mapping resolve the max reachable value.
-  return clampToSRGBGamut({ L: safeL, C: 0.4, H: hue }).C;
-}
-
 function remapCompanionChroma(
   source: OklchColor,
   targetL: number,
@@ -457,7 +622,7 @@ function deriveCompanionColor(
   return clampToSRGBGamut({ L: safeL, C: safeC, H: source.H });
 }
 
-function deriveDarkMode(light: ThemeTokens, brightnessLevel: number = 0): ThemeTokens {
+function deriveDarkMode(light: ThemeTokens, brightnessLevel: number = 0, algorithm: ContrastAlgorithm = 'wcag2'): ThemeTokens {
   const darkTargets = NEUTRAL_TARGETS.dark;
   
   // Positive brightness makes dark mode lighter, negative makes it darker
@@ -522,33 +687,33 @@ function deriveDarkMode(light: ThemeTokens, brightnessLevel: number = 0): ThemeT
     relativeBias: 1,
   });
   
-  return {
+  return withRoleTokens({
     bg: toHex(darkBg),
     card: toHex(darkCard),
     card2: toHex(darkCard2),
     text: toHex(darkText),
     textMuted: toHex(darkTextMuted),
-    textOnColor: selectForegroundHex(toHex(darkPrimary)),
+    textOnColor: selectForegroundHex(toHex(darkPrimary), algorithm),
     primary: toHex(darkPrimary),
-    primaryFg: selectForegroundHex(toHex(darkPrimary)),
+    primaryFg: selectForegroundHex(toHex(darkPrimary), algorithm),
     secondary: toHex(darkSecondary),
-    secondaryFg: selectForegroundHex(toHex(darkSecondary)),
+    secondaryFg: selectForegroundHex(toHex(darkSecondary), algorithm),
     accent: toHex(darkAccent),
-    accentFg: selectForegroundHex(toHex(darkAccent)),
+    accentFg: selectForegroundHex(toHex(darkAccent), algorithm),
     border: toHex(darkBorder),
     ring: toHex(darkRing),
     good: toHex(darkGood),
-    goodFg: selectForegroundHex(toHex(darkGood)),
+    goodFg: selectForegroundHex(toHex(darkGood), algorithm),
     warn: toHex(darkWarn),
-    warnFg: selectForegroundHex(toHex(darkWarn)),
+    warnFg: selectForegroundHex(toHex(darkWarn), algorithm),
     bad: toHex(darkBad),
-    badFg: selectForegroundHex(toHex(darkBad)),
-  };
+    badFg: selectForegroundHex(toHex(darkBad), algorithm),
+  }, algorithm);
 }
 
 // --- Light Mode Derivation (for dark-first generation) ---
 
-function deriveLightMode(dark: ThemeTokens): ThemeTokens {
+function deriveLightMode(dark: ThemeTokens, algorithm: ContrastAlgorithm = 'wcag2'): ThemeTokens {
   const lightTargets = NEUTRAL_TARGETS.light;
   
   const darkBg = toOklch(dark.bg);
@@ -610,28 +775,28 @@ function deriveLightMode(dark: ThemeTokens): ThemeTokens {
     relativeBias: 1,
   });
   
-  return {
+  return withRoleTokens({
     bg: toHex(lightBg),
     card: toHex(lightCard),
     card2: toHex(lightCard2),
     text: toHex(lightText),
     textMuted: toHex(lightTextMuted),
-    textOnColor: selectForegroundHex(toHex(lightPrimary)),
+    textOnColor: selectForegroundHex(toHex(lightPrimary), algorithm),
     primary: toHex(lightPrimary),
-    primaryFg: selectForegroundHex(toHex(lightPrimary)),
+    primaryFg: selectForegroundHex(toHex(lightPrimary), algorithm),
     secondary: toHex(lightSecondary),
-    secondaryFg: selectForegroundHex(toHex(lightSecondary)),
+    secondaryFg: selectForegroundHex(toHex(lightSecondary), algorithm),
     accent: toHex(lightAccent),
-    accentFg: selectForegroundHex(toHex(lightAccent)),
+    accentFg: selectForegroundHex(toHex(lightAccent), algorithm),
     border: toHex(lightBorder),
     ring: toHex(lightRing),
     good: toHex(lightGood),
-    goodFg: selectForegroundHex(toHex(lightGood)),
+    goodFg: selectForegroundHex(toHex(lightGood), algorithm),
     warn: toHex(lightWarn),
-    warnFg: selectForegroundHex(toHex(lightWarn)),
+    warnFg: selectForegroundHex(toHex(lightWarn), algorithm),
     bad: toHex(lightBad),
-    badFg: selectForegroundHex(toHex(lightBad)),
-  };
+    badFg: selectForegroundHex(toHex(lightBad), algorithm),
+  }, algorithm);
 }
 
 // --- Main Generation Function ---
@@ -642,6 +807,8 @@ export interface PaletteResult {
   seed: string;
   baseHue: number;
   mode: GenerationMode;
+  engineVersion: EngineVersion;
+  harmony?: CustomHarmony;
   score?: number;
 }
 
@@ -651,11 +818,14 @@ export function generatePalette(
   saturationLevel: number = 0,
   contrastLevel: number = 0,
   brightnessLevel: number = 0,
-  overridePalette?: string[]
+  overridePalette?: string[],
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2',
+  engineVersion: EngineVersion = ENGINE_VERSION,
+  customHarmony?: CustomHarmony
 ): PaletteResult {
   // Initialize RNG
   const rngSeed = seedColor || `${Date.now()}-${Math.random()}`;
-  const rng = new SeededRandom(rngSeed);
+  const rng = createSeededRandom(rngSeed, engineVersion);
   const normalizedOverrides = normalizeOverridePalette(overridePalette);
   
   // Determine base hue
@@ -682,8 +852,9 @@ export function generatePalette(
     harmonyMode = rng.pick(modes);
   }
 
-  const harmony = HARMONY_MODES[harmonyMode] || HARMONY_MODES.analogous;
+  const harmony = resolveHarmony(harmonyMode, customHarmony);
   const hues = harmony.offsets.map(offset => (baseHue + offset + 360) % 360);
+  const custom = harmonyMode === 'custom' ? customHarmony ?? DEFAULT_CUSTOM_HARMONY : undefined;
 
   // Handle override palette - map override indices to hue indices
   // 10-color layout: [bg(0), card(1), text(2), textMuted(3), textOnColor(4), primary(5), secondary(6), accent(7), good(8), bad(9)]
@@ -713,10 +884,11 @@ export function generatePalette(
   const neutrals = buildNeutralFoundation(baseHue, warmth, contrastLevel, brightnessLevel, saturationLevel);
 
   // Step 2: Construct brand colors - applies saturation, brightness, contrast
-  const brand = constructBrandColors(hues, neutrals.bg, rng, saturationLevel, brightnessLevel, contrastLevel);
+  const brandChroma = custom ? customBrandChroma(custom.chromaVariance) : LIGHT_BRAND_CHROMA;
+  const brand = constructBrandColors(hues, neutrals.bg, rng, saturationLevel, brightnessLevel, contrastLevel, brandChroma);
 
   // Step 3: Construct status colors - applies saturation, brightness
-  const status = constructStatusColors(hues, neutrals.bg, rng, saturationLevel, brightnessLevel);
+  const status = constructStatusColors(hues, neutrals.bg, rng, saturationLevel, brightnessLevel, contrastAlgorithm);
 
   // Destructure overrides based on layout
   // 10-color: [bg, card, text, textMuted, textOnColor, primary, secondary, accent, good, bad]
@@ -752,31 +924,31 @@ export function generatePalette(
   const statusUsesOverrides = Boolean(ov.good || ov.bad);
 
   // Step 4: Assemble light theme
-  const light: ThemeTokens = {
+  const light = withRoleTokens({
     bg: ov.bg || toHex(neutrals.bg),
     card: ov.card || toHex(neutrals.card),
     card2: toHex(neutrals.card2),
     text: ov.text || toHex(neutrals.text),
     textMuted: ov.textMuted || toHex(neutrals.textMuted),
-    textOnColor: ov.textOnColor || selectForegroundHex(primaryHex),
+    textOnColor: ov.textOnColor || selectForegroundHex(primaryHex, contrastAlgorithm),
     primary: primaryHex,
-    primaryFg: selectForegroundHex(primaryHex),
+    primaryFg: selectForegroundHex(primaryHex, contrastAlgorithm),
     secondary: secondaryHex,
-    secondaryFg: selectForegroundHex(secondaryHex),
+    secondaryFg: selectForegroundHex(secondaryHex, contrastAlgorithm),
     accent: accentHex,
-    accentFg: selectForegroundHex(accentHex),
+    accentFg: selectForegroundHex(accentHex, contrastAlgorithm),
     border: toHex(neutrals.border),
     ring: toHex(clampToSRGBGamut({ L: 0.6, C: brand.primary.C, H: brand.primary.H })),
     good: goodHex,
-    goodFg: statusUsesOverrides ? selectForegroundHex(goodHex) : toHex(status.goodFg),
+    goodFg: statusUsesOverrides ? selectForegroundHex(goodHex, contrastAlgorithm) : toHex(status.goodFg),
     warn: warnHex,
-    warnFg: statusUsesOverrides ? selectForegroundHex(warnHex) : toHex(status.warnFg),
+    warnFg: statusUsesOverrides ? selectForegroundHex(warnHex, contrastAlgorithm) : toHex(status.warnFg),
     bad: badHex,
-    badFg: statusUsesOverrides ? selectForegroundHex(badHex) : toHex(status.badFg),
-  };
+    badFg: statusUsesOverrides ? selectForegroundHex(badHex, contrastAlgorithm) : toHex(status.badFg),
+  }, contrastAlgorithm);
   
   // Step 5: Derive the other mode deterministically
-  const dark = deriveDarkMode(light, brightnessLevel);
+  const dark = deriveDarkMode(light, brightnessLevel, contrastAlgorithm);
   
   // Step 6: Score and validate
   const scored = evaluatePalette(
@@ -791,7 +963,8 @@ export function generatePalette(
       good: light.good,
       bad: light.bad,
     },
-    baseHue
+    baseHue,
+    contrastAlgorithm
   );
   
   return {
@@ -800,6 +973,8 @@ export function generatePalette(
     seed: seedColor || toHex({ L: 0.5, C: 0.15, H: baseHue }),
     baseHue,
     mode: harmonyMode as GenerationMode,
+    engineVersion,
+    ...(custom ? { harmony: custom } : {}),
     score: scored.score.total,
   };
 }
@@ -812,11 +987,14 @@ export function generatePaletteDarkFirst(
   saturationLevel: number = 0,
   contrastLevel: number = 0,
   brightnessLevel: number = 0,
-  overridePalette?: string[]
+  overridePalette?: string[],
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2',
+  engineVersion: EngineVersion = ENGINE_VERSION,
+  customHarmony?: CustomHarmony
 ): PaletteResult {
   // Initialize RNG
   const rngSeed = seedColor || `${Date.now()}-${Math.random()}`;
-  const rng = new SeededRandom(rngSeed);
+  const rng = createSeededRandom(rngSeed, engineVersion);
   const normalizedOverrides = normalizeOverridePalette(overridePalette);
   
   // Determine base hue
@@ -842,8 +1020,9 @@ export function generatePaletteDarkFirst(
     harmonyMode = rng.pick(modes);
   }
 
-  const harmony = HARMONY_MODES[harmonyMode] || HARMONY_MODES.analogous;
+  const harmony = resolveHarmony(harmonyMode, customHarmony);
   const hues = harmony.offsets.map(offset => (baseHue + offset + 360) % 360);
+  const custom = harmonyMode === 'custom' ? customHarmony ?? DEFAULT_CUSTOM_HARMONY : undefined;
 
   // Handle override palette hues
   if (normalizedOverrides) {
@@ -889,10 +1068,11 @@ export function generatePaletteDarkFirst(
   const baseC = 0.02 + satNormalized * 0.20;
   const baseL = 0.58 + brightnessLevel * 0.02;
 
+  const brandChroma = custom ? customBrandChroma(custom.chromaVariance) : DARK_BRAND_CHROMA;
   const darkBrand = {
     primary: clampToSRGBGamut({ L: baseL, C: baseC, H: hues[0] }),
-    secondary: clampToSRGBGamut({ L: baseL - 0.05, C: baseC * 0.8, H: hues[1] }),
-    accent: clampToSRGBGamut({ L: baseL + 0.05, C: baseC * 1.1, H: hues[2] }),
+    secondary: clampToSRGBGamut({ L: baseL - 0.05, C: baseC * brandChroma.secondary, H: hues[1] }),
+    accent: clampToSRGBGamut({ L: baseL + 0.05, C: baseC * brandChroma.accent, H: hues[2] }),
   };
 
   // Status colors for dark
@@ -937,31 +1117,31 @@ export function generatePaletteDarkFirst(
   const warnHex = toHex(darkStatus.warn);
 
   // Assemble dark theme
-  const dark: ThemeTokens = {
+  const dark = withRoleTokens({
     bg: ov.bg || toHex(darkNeutrals.bg),
     card: ov.card || toHex(darkNeutrals.card),
     card2: toHex(darkNeutrals.card2),
     text: ov.text || toHex(darkNeutrals.text),
     textMuted: ov.textMuted || toHex(darkNeutrals.textMuted),
-    textOnColor: ov.textOnColor || selectForegroundHex(primaryHex),
+    textOnColor: ov.textOnColor || selectForegroundHex(primaryHex, contrastAlgorithm),
     primary: primaryHex,
-    primaryFg: selectForegroundHex(primaryHex),
+    primaryFg: selectForegroundHex(primaryHex, contrastAlgorithm),
     secondary: secondaryHex,
-    secondaryFg: selectForegroundHex(secondaryHex),
+    secondaryFg: selectForegroundHex(secondaryHex, contrastAlgorithm),
     accent: accentHex,
-    accentFg: selectForegroundHex(accentHex),
+    accentFg: selectForegroundHex(accentHex, contrastAlgorithm),
     border: toHex(darkNeutrals.border),
     ring: toHex(clampToSRGBGamut({ L: 0.5, C: darkBrand.primary.C * 0.8, H: darkBrand.primary.H })),
     good: goodHex,
-    goodFg: selectForegroundHex(goodHex),
+    goodFg: selectForegroundHex(goodHex, contrastAlgorithm),
     warn: warnHex,
-    warnFg: selectForegroundHex(warnHex),
+    warnFg: selectForegroundHex(warnHex, contrastAlgorithm),
     bad: badHex,
-    badFg: selectForegroundHex(badHex),
-  };
+    badFg: selectForegroundHex(badHex, contrastAlgorithm),
+  }, contrastAlgorithm);
   
   // Derive light mode from dark
-  const light = deriveLightMode(dark);
+  const light = deriveLightMode(dark, contrastAlgorithm);
   
   // Score based on dark mode
   const scored = evaluatePalette(
@@ -976,7 +1156,8 @@ export function generatePaletteDarkFirst(
       good: dark.good,
       bad: dark.bad,
     },
-    baseHue
+    baseHue,
+    contrastAlgorithm
   );
   
   return {
@@ -985,6 +1166,8 @@ export function generatePaletteDarkFirst(
     seed: seedColor || toHex({ L: 0.5, C: 0.15, H: baseHue }),
     baseHue,
     mode: harmonyMode as GenerationMode,
+    engineVersion,
+    ...(custom ? { harmony: custom } : {}),
     score: scored.score.total,
   };
 }
@@ -998,17 +1181,22 @@ export function generateTheme(
   contrastLevel: number = 0,
   brightnessLevel: number = 0,
   overridePalette?: string[],
-  darkFirst: boolean = false
-): { light: ThemeTokens; dark: ThemeTokens; seed: string; mode: GenerationMode } {
+  darkFirst: boolean = false,
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2',
+  engineVersion: EngineVersion = ENGINE_VERSION,
+  customHarmony?: CustomHarmony
+): { light: ThemeTokens; dark: ThemeTokens; seed: string; mode: GenerationMode; engineVersion: EngineVersion; harmony?: CustomHarmony } {
   const result = darkFirst
-    ? generatePaletteDarkFirst(mode, seedColor, saturationLevel, contrastLevel, brightnessLevel, overridePalette)
-    : generatePalette(mode, seedColor, saturationLevel, contrastLevel, brightnessLevel, overridePalette);
+    ? generatePaletteDarkFirst(mode, seedColor, saturationLevel, contrastLevel, brightnessLevel, overridePalette, contrastAlgorithm, engineVersion, customHarmony)
+    : generatePalette(mode, seedColor, saturationLevel, contrastLevel, brightnessLevel, overridePalette, contrastAlgorithm, engineVersion, customHarmony);
   
   return {
     light: result.light,
     dark: result.dark,
     seed: result.seed,
     mode: result.mode,
+    engineVersion: result.engineVersion,
+    ...(result.harmony ? { harmony: result.harmony } : {}),
   };
 }
 
@@ -0,0 +1,94 @@
+/**
+ * Tonal Scale Builder
+ * Derives 50–900 OKLCH ramps for every brand, neutral and status role
+ * Version: 25.12.2
+ *
+ * Light scales run from light (50) to dark (900). Dark scales are mirrored so
+ * that low steps always sit closest to the page surface, which keeps
+ * `primary-100` usable as a subtle fill in both modes.
+ */
+
+import { ThemeTokens, ColorScale, ScaleRole, ThemeScales, DualThemeScales } from '../types';
+import { OklchColor, toOklch, toHex, generateScale } from './oklch';
+
+// --- Configuration ---
+
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+export const SCALE_ROLES: ScaleRole[] = ['primary', 'secondary', 'accent', 'neutral', 'good', 'warn', 'bad'];
+
+// Token each ramp is anchored on (neutral follows the page surface hue)
+const SCALE_SOURCE: Record<ScaleRole, keyof ThemeTokens> = {
+  primary: 'primary',
+  secondary: 'secondary',
+  accent: 'accent',
+  neutral: 'bg',
+  good: 'good',
+  warn: 'warn',
+  bad: 'bad',
+};
+
+// Keep neutrals neutral even when the surface carries a visible tint
+const NEUTRAL_MAX_CHROMA = 0.03;
+
+// Dark steps sample the light ramp mirrored around this point (50 <-> 900)
+const DARK_MIRROR_STEP = 950;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// --- Scale Construction ---
+
+export function buildColorScale(base: OklchColor, isDark: boolean = false): ColorScale {
+  const sampleSteps = SCALE_STEPS.map((step) => (isDark ? DARK_MIRROR_STEP - step : step));
+  const samples = generateScale(base, sampleSteps);
+  const scale = {} as ColorScale;
+
+  SCALE_STEPS.forEach((step, index) => {
+    scale[step] = toHex(samples.get(sampleSteps[index])!);
+  });
+
+  return scale;
+}
+
+export function buildThemeScales(tokens: ThemeTokens, isDark?: boolean): ThemeScales {
+  const dark = isDark ?? toOklch(tokens.bg).L < 0.5;
+  const scales = {} as ThemeScales;
+
+  for (const role of SCALE_ROLES) {
+    const base = toOklch(tokens[SCALE_SOURCE[role]]);
+    const anchor = role === 'neutral'
+      ? { ...base, C: Math.min(base.C, NEUTRAL_MAX_CHROMA) }
+      : base;
+    scales[role] = buildColorScale(anchor, dark);
+  }
+
+  return scales;
+}
+
+export function buildDualThemeScales(light: ThemeTokens, dark: ThemeTokens): DualThemeScales {
+  return {
+    light: buildThemeScales(light, false),
+    dark: buildThemeScales(dark, true),
+  };
+}
+
+// --- Export Helpers ---
+
+/** True when every token a scale is anchored on is a plain hex color. */
+export function hasScaleSources(tokens: Record<string, unknown>): tokens is Record<string, unknown> & ThemeTokens {
+  return SCALE_ROLES.every((role) => {
+    const value = tokens[SCALE_SOURCE[role]];
+    return typeof value === 'string' && HEX_PATTERN.test(value);
+  });
+}
+
+/** Flattens scales to `primary-50`-style keys in role/step order. */
+export function flattenScales(scales: ThemeScales): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const role of SCALE_ROLES) {
+    for (const step of SCALE_STEPS) {
+      flat[`${role}-${step}`] = scales[role][step];
+    }
+  }
+  return flat;
+}
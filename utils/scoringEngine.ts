@@ -4,8 +4,10 @@
  * Version: 25.12.2
  */
 
+import { ContrastAlgorithm } from '../types';
 import { OklchColor, toOklch, toHex, deltaE, hueDifference, clampToSRGBGamut, isInSRGBGamut } from './oklch';
-import { contrastRatio, meetsWCAG, getContrastHeadroom } from './contrast';
+import { contrastRatio, contrastFor, apcaContrast, meetsWCAG, getContrastHeadroom } from './contrast';
+import { simulateCvd } from './cvd';
 
 // --- Score Weights ---
 
@@ -21,8 +23,10 @@ const SCORE_WEIGHTS = {
 
 export const THRESHOLDS = {
   minTextContrast: 4.5,             // WCAG AA
+  minTextLc: 60,                    // APCA body text
   minPrimaryToAccentDelta: 0.12,    // Minimum perceptual difference
   minBgToCardDelta: 0.03,           // Background vs card distinction
+  minStatusCvdDelta: 0.05,          // good vs bad under simulated dichromacy
   dangerHueRange: { min: 350, max: 10 }, // Red-ish hues (danger zone)
   warnHueRange: { min: 35, max: 55 },    // Yellow-orange (warning zone)
 };
@@ -35,24 +39,36 @@ export interface RejectReason {
   severity: 'critical' | 'major';
 }
 
-export function checkHardRejects(palette: PaletteCandidate): RejectReason[] {
+function measureTextContrast(text: string, bg: string, algorithm: ContrastAlgorithm) {
+  if (algorithm === 'apca') {
+    const lc = Math.abs(apcaContrast(text, bg));
+    return { passes: lc >= THRESHOLDS.minTextLc, label: `APCA Lc ${lc.toFixed(1)} < ${THRESHOLDS.minTextLc}` };
+  }
+  const ratio = contrastRatio(text, bg);
+  return { passes: ratio >= THRESHOLDS.minTextContrast, label: `${ratio.toFixed(2)} < ${THRESHOLDS.minTextContrast}` };
+}
+
+export function checkHardRejects(
+  palette: PaletteCandidate,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): RejectReason[] {
   const rejects: RejectReason[] = [];
   
   // 1. Text contrast check
-  const textOnBgRatio = contrastRatio(palette.text, palette.bg);
-  if (textOnBgRatio < THRESHOLDS.minTextContrast) {
+  const textOnBg = measureTextContrast(palette.text, palette.bg, algorithm);
+  if (!textOnBg.passes) {
     rejects.push({
       code: 'LOW_TEXT_CONTRAST',
-      message: `Text on background contrast ${textOnBgRatio.toFixed(2)} < ${THRESHOLDS.minTextContrast}`,
+      message: `Text on background contrast ${textOnBg.label}`,
       severity: 'critical',
     });
   }
   
-  const textOnCardRatio = contrastRatio(palette.text, palette.card);
-  if (textOnCardRatio < THRESHOLDS.minTextContrast) {
+  const textOnCard = measureTextContrast(palette.text, palette.card, algorithm);
+  if (!textOnCard.passes) {
     rejects.push({
       code: 'LOW_CARD_TEXT_CONTRAST',
-      message: `Text on card contrast ${textOnCardRatio.toFixed(2)} < ${THRESHOLDS.minTextContrast}`,
+      message: `Text on card contrast ${textOnCard.label}`,
       severity: 'critical',
     });
   }
@@ -105,6 +121,21 @@ export function checkHardRejects(palette: PaletteCandidate): RejectReason[] {
     });
   }
   
+  // 6. Status colors indistinguishable under color-vision deficiency
+  for (const type of ['protanopia', 'deuteranopia', 'tritanopia'] as const) {
+    const statusDelta = deltaE(
+      toOklch(simulateCvd(palette.good, type)),
+      toOklch(simulateCvd(palette.bad, type))
+    );
+    if (statusDelta < THRESHOLDS.minStatusCvdDelta) {
+      rejects.push({
+        code: 'CVD_STATUS_COLLAPSE',
+        message: `Good and bad too similar under ${type} (deltaE: ${statusDelta.toFixed(3)})`,
+        severity: 'major',
+      });
+    }
+  }
+  
   return rejects;
 }
 
@@ -133,7 +164,8 @@ export interface ScoreBreakdown {
 
 export function scorePalette(
   palette: PaletteCandidate,
-  baseHue: number
+  baseHue: number,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): ScoreBreakdown {
   let contrastHeadroom = 0;
   let harmonyConsistency = 0;
@@ -143,8 +175,8 @@ export function scorePalette(
   
   // --- Contrast Headroom ---
   // More contrast = better (up to a point)
-  const textBgHeadroom = getContrastHeadroom(palette.text, palette.bg);
-  const textCardHeadroom = getContrastHeadroom(palette.text, palette.card);
+  const textBgHeadroom = getContrastHeadroom(palette.text, palette.bg, algorithm);
+  const textCardHeadroom = getContrastHeadroom(palette.text, palette.card, algorithm);
   contrastHeadroom = Math.min(10, textBgHeadroom + textCardHeadroom);
   
   // --- Harmony Consistency ---
@@ -168,7 +200,7 @@ export function scorePalette(
   // --- UI Usability ---
   // Primary should be prominent, muted text readable but subdued
   const primaryProminence = primaryOklch.C > 0.1 ? 5 : primaryOklch.C * 50;
-  const mutedRatio = contrastRatio(palette.textMuted, palette.bg);
+  const mutedRatio = contrastFor(palette.textMuted, palette.bg, algorithm);
   const mutedBalance = mutedRatio >= 3 && mutedRatio < 7 ? 5 : 2;
   uiUsability = primaryProminence + mutedBalance;
   
@@ -208,10 +240,11 @@ export interface ScoredPalette {
 
 export function evaluatePalette(
   palette: PaletteCandidate,
-  baseHue: number
+  baseHue: number,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): ScoredPalette {
-  const rejects = checkHardRejects(palette);
-  const score = scorePalette(palette, baseHue);
+  const rejects = checkHardRejects(palette, algorithm);
+  const score = scorePalette(palette, baseHue, algorithm);
   
   return {
     palette,
@@ -0,0 +1,322 @@
+/**
+ * Share Codes
+ * Compact, URL-safe encoding of a complete DualTheme plus the state that produced it
+ * Version: 25.12.2
+ *
+ * The theme is stored as a delta against what the recorded engine version
+ * regenerates from the seed, mode and adjustment levels, so an unedited theme
+ * costs ~25 bytes and each manual edit, lock or imported color adds three. A
+ * checksum over the reconstructed tokens rejects codes that engine can no
+ * longer reproduce; callers then fall back to the plain seed parameters.
+ *
+ * Byte layout (v3), base64url encoded:
+ *   version · flags · engine · mode · seed(3) · light sat/con/bri · dark sat/con/bri
+ *   · lock mask(4) · [harmony count · offsets(2n) · variance] · [palette mask(2) · colors(3n)]
+ *   · light delta mask(4) · colors(3n) · dark delta mask(4) · colors(3n) · checksum(2)
+ *
+ * v1 codes have no engine byte and always decode with engine 1.0.0, the only
+ * engine that existed when they were issued. v1 and v2 codes predate the
+ * interaction roles: their masks are three bytes wide and their checksum
+ * covers the first 20 tokens; a side with edits gets its roles re-derived.
+ * The harmony block is present only for the custom mode, which no v1 or v2
+ * code can name: offsets are stored as degrees + 180, variance in percent.
+ */
+
+import { ThemeTokens, DualTheme, GenerationMode, LockedColors, ContrastAlgorithm, EngineVersion, CustomHarmony } from '../types';
+import { AdjustmentLevels, generateTheme, paletteFromSlots, IMAGE_SLOT_KEYS } from './colorUtils';
+import { ROLE_TOKEN_KEYS, deriveRoleTokens, DEFAULT_CUSTOM_HARMONY, parseCustomHarmony } from './paletteEngine';
+import { ENGINE_VERSIONS, LEGACY_ENGINE_VERSION } from './engineVersion';
+
+// --- Configuration ---
+
+export const SHARE_CODE_VERSION = 3;
+
+const SHARE_CODE_V1 = 1;
+const SHARE_CODE_V2 = 2;
+
+export interface ShareState {
+  theme: Pick<DualTheme, 'light' | 'dark' | 'seed' | 'mode' | 'harmony'>;
+  lockedColors: LockedColors;
+  overridePalette: string[] | null;
+  importSourceSide: 'light' | 'dark' | null;
+  darkFirst: boolean;
+  contrastAlgorithm: ContrastAlgorithm;
+  engineVersion: EngineVersion;
+  levels: { light: Required<AdjustmentLevels>; dark: Required<AdjustmentLevels> };
+}
+
+// Index tables are part of the wire format: append only, never reorder
+const TOKEN_ORDER: Array<keyof ThemeTokens> = [
+  'bg', 'card', 'card2', 'text', 'textMuted', 'textOnColor',
+  'primary', 'primaryFg', 'secondary', 'secondaryFg', 'accent', 'accentFg',
+  'border', 'ring', 'good', 'goodFg', 'warn', 'warnFg', 'bad', 'badFg',
+  ...ROLE_TOKEN_KEYS,
+];
+
+// Tokens a v1/v2 code knows about
+const LEGACY_TOKEN_COUNT = 20;
+
+const MASK_BYTES = 4;
+const LEGACY_MASK_BYTES = 3;
+
+const MODE_ORDER: GenerationMode[] = [
+  'random', 'monochrome', 'analogous', 'complementary', 'split-complementary',
+  'triadic', 'tetradic', 'compound', 'triadic-split', 'image', 'custom',
+];
+
+const FLAG_DARK_FIRST = 1;
+const FLAG_APCA = 2;
+const FLAG_PALETTE = 4;
+const FLAG_IMPORT_DARK = 8;
+
+const LEVEL_MIN = -5;
+const LEVEL_MAX = 5;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/;
+
+// --- Byte Helpers ---
+
+function pushHex(bytes: number[], hex: string): void {
+  const value = parseInt(hex.slice(1), 16);
+  bytes.push((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function pushMask(bytes: number[], mask: number, size: number): void {
+  for (let i = size - 1; i >= 0; i--) bytes.push((mask >> (i * 8)) & 0xff);
+}
+
+// FNV-1a folded to 16 bits
+function checksum(bytes: number[]): number {
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return ((hash >>> 16) ^ hash) & 0xffff;
+}
+
+function tokenBytes(light: ThemeTokens, dark: ThemeTokens, order: Array<keyof ThemeTokens> = TOKEN_ORDER): number[] {
+  const bytes: number[] = [];
+  for (const tokens of [light, dark]) {
+    for (const key of order) pushHex(bytes, tokens[key]);
+  }
+  return bytes;
+}
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function toBase64Url(bytes: number[]): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+    for (let c = 0; c < chars; c++) out += BASE64URL[(chunk >> (18 - c * 6)) & 63];
+  }
+  return out;
+}
+
+function fromBase64Url(text: string): number[] | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) return null;
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 4) {
+    const group = text.slice(i, i + 4);
+    let chunk = 0;
+    for (let c = 0; c < 4; c++) chunk = (chunk << 6) | (c < group.length ? BASE64URL.indexOf(group[c]) : 0);
+    bytes.push((chunk >> 16) & 0xff);
+    if (group.length > 2) bytes.push((chunk >> 8) & 0xff);
+    if (group.length > 3) bytes.push(chunk & 0xff);
+  }
+  return bytes;
+}
+
+// --- Seeded Base ---
+
+type BaseState = Omit<ShareState, 'theme' | 'lockedColors'> & { mode: GenerationMode; seed: string; harmony?: CustomHarmony };
+
+function regenerateBase(state: BaseState) {
+  const { light, dark } = state.levels;
+  return generateTheme({
+    mode: state.mode,
+    seed: state.seed,
+    levels: light,
+    darkLevels: dark,
+    darkFirst: state.darkFirst,
+    palette: state.overridePalette ? paletteFromSlots(state.overridePalette) : undefined,
+    paletteSide: state.importSourceSide ?? undefined,
+    contrastAlgorithm: state.contrastAlgorithm,
+    engineVersion: state.engineVersion,
+    harmony: state.harmony
+  });
+}
+
+function isLevel(value: number): boolean {
+  return Number.isInteger(value) && value >= LEVEL_MIN && value <= LEVEL_MAX;
+}
+
+// --- Encoding ---
+
+/** Returns null when the state cannot be encoded (non-hex tokens or seed, out-of-range levels, unknown engine). */
+export function encodeShareCode(state: ShareState): string | null {
+  const { theme, levels } = state;
+  const palette = state.overridePalette;
+  const allLevels = [levels.light, levels.dark].flatMap((l) => [l.saturation, l.contrast, l.brightness]);
+  const modeIndex = MODE_ORDER.indexOf(theme.mode);
+  const engineIndex = ENGINE_VERSIONS.indexOf(state.engineVersion);
+
+  if (modeIndex < 0 || engineIndex < 0 || !HEX_PATTERN.test(theme.seed) || !allLevels.every(isLevel)) return null;
+  if (!TOKEN_ORDER.every((key) => HEX_PATTERN.test(theme.light[key]) && HEX_PATTERN.test(theme.dark[key]))) return null;
+  if (palette && (palette.length !== IMAGE_SLOT_KEYS.length || !palette.every((c) => c === '' || HEX_PATTERN.test(c)))) return null;
+
+  // Normalizing here keeps the stored offsets identical to what regenerates
+  const harmony = theme.mode === 'custom'
+    ? parseCustomHarmony(theme.harmony?.offsets ?? DEFAULT_CUSTOM_HARMONY.offsets, theme.harmony?.chromaVariance)
+    : undefined;
+  if (harmony === null) return null;
+
+  const base = regenerateBase({ ...state, mode: theme.mode, seed: theme.seed, harmony });
+
+  const flags =
+    (state.darkFirst ? FLAG_DARK_FIRST : 0) |
+    (state.contrastAlgorithm === 'apca' ? FLAG_APCA : 0) |
+    (palette ? FLAG_PALETTE : 0) |
+    (state.importSourceSide === 'dark' ? FLAG_IMPORT_DARK : 0);
+
+  const bytes: number[] = [SHARE_CODE_VERSION, flags, engineIndex, modeIndex];
+  pushHex(bytes, theme.seed);
+  for (const level of allLevels) bytes.push(level - LEVEL_MIN);
+  pushMask(bytes, TOKEN_ORDER.reduce((mask, key, i) => (state.lockedColors[key] ? mask | (1 << i) : mask), 0), MASK_BYTES);
+
+  if (harmony) {
+    bytes.push(harmony.offsets.length);
+    for (const degrees of harmony.offsets) pushMask(bytes, degrees + 180, 2);
+    bytes.push(Math.round(harmony.chromaVariance * 100));
+  }
+
+  if (palette) {
+    pushMask(bytes, palette.reduce((mask, color, i) => (color ? mask | (1 << i) : mask), 0), 2);
+    for (const color of palette) if (color) pushHex(bytes, color);
+  }
+
+  for (const side of ['light', 'dark'] as const) {
+    const changed = TOKEN_ORDER.filter((key) => theme[side][key] !== base[side][key]);
+    pushMask(bytes, changed.reduce((mask, key) => mask | (1 << TOKEN_ORDER.indexOf(key)), 0), MASK_BYTES);
+    for (const key of changed) pushHex(bytes, theme[side][key]);
+  }
+
+  pushMask(bytes, checksum([...bytes, ...tokenBytes(theme.light, theme.dark)]), 2);
+  return toBase64Url(bytes);
+}
+
+// --- Decoding ---
+
+/**
+ * Returns null for unknown versions or engines, truncated or corrupted codes,
+ * and codes whose reconstruction no longer matches the checksum.
+ */
+export function decodeShareCode(code: string): ShareState | null {
+  const bytes = fromBase64Url(code);
+  if (!bytes || ![SHARE_CODE_VERSION, SHARE_CODE_V2, SHARE_CODE_V1].includes(bytes[0])) return null;
+  const hasEngine = bytes[0] !== SHARE_CODE_V1;
+  const isLegacy = bytes[0] !== SHARE_CODE_VERSION;
+  const maskBytes = isLegacy ? LEGACY_MASK_BYTES : MASK_BYTES;
+  const order = isLegacy ? TOKEN_ORDER.slice(0, LEGACY_TOKEN_COUNT) : TOKEN_ORDER;
+  if (bytes.length < (hasEngine ? 15 : 14) + maskBytes) return null;
+
+  let offset = 0;
+  const take = (count: number): number[] | null => {
+    if (offset + count > bytes.length - 2) return null;
+    const slice = bytes.slice(offset, offset + count);
+    offset += count;
+    return slice;
+  };
+  const takeMask = (size: number) => take(size)?.reduce((mask, byte) => (mask << 8) | byte, 0) ?? null;
+  const takeHex = () => {
+    const rgb = take(3);
+    return rgb ? '#' + rgb.map((v) => v.toString(16).padStart(2, '0')).join('') : null;
+  };
+
+  const [, flags] = take(2)!;
+  const engineVersion = hasEngine ? ENGINE_VERSIONS[take(1)![0]] : LEGACY_ENGINE_VERSION;
+  const mode = MODE_ORDER[take(1)![0]];
+  const seed = takeHex();
+  const rawLevels = take(6);
+  const lockMask = takeMask(maskBytes);
+  if (!engineVersion || !mode || !seed || !rawLevels || lockMask === null) return null;
+
+  const levels = rawLevels.map((byte) => byte + LEVEL_MIN);
+  if (!levels.every(isLevel)) return null;
+
+  let harmony: CustomHarmony | undefined;
+  if (mode === 'custom') {
+    const count = take(1)?.[0];
+    if (count === undefined) return null;
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const stored = takeMask(2);
+      if (stored === null) return null;
+      offsets.push(stored - 180);
+    }
+    const variance = take(1)?.[0];
+    harmony = variance === undefined ? undefined : parseCustomHarmony(offsets, variance / 100) ?? undefined;
+    if (!harmony) return null;
+  }
+
+  let overridePalette: string[] | null = null;
+  if (flags & FLAG_PALETTE) {
+    const paletteMask = takeMask(2);
+    if (paletteMask === null) return null;
+    overridePalette = [];
+    for (let i = 0; i < IMAGE_SLOT_KEYS.length; i++) {
+      const color = paletteMask & (1 << i) ? takeHex() : '';
+      if (color === null) return null;
+      overridePalette.push(color);
+    }
+  }
+
+  const state: Omit<ShareState, 'theme' | 'lockedColors'> = {
+    overridePalette,
+    importSourceSide: flags & FLAG_PALETTE ? (flags & FLAG_IMPORT_DARK ? 'dark' : 'light') : null,
+    darkFirst: Boolean(flags & FLAG_DARK_FIRST),
+    contrastAlgorithm: flags & FLAG_APCA ? 'apca' : 'wcag2',
+    engineVersion,
+    levels: {
+      light: { saturation: levels[0], contrast: levels[1], brightness: levels[2] },
+      dark: { saturation: levels[3], contrast: levels[4], brightness: levels[5] },
+    },
+  };
+
+  const base = regenerateBase({ ...state, mode, seed, harmony });
+  const light = { ...base.light };
+  const dark = { ...base.dark };
+
+  const edited: boolean[] = [];
+  for (const tokens of [light, dark]) {
+    const deltaMask = takeMask(maskBytes);
+    if (deltaMask === null) return null;
+    edited.push(deltaMask !== 0);
+    for (let i = 0; i < order.length; i++) {
+      if (!(deltaMask & (1 << i))) continue;
+      const color = takeHex();
+      if (color === null) return null;
+      tokens[order[i]] = color;
+    }
+  }
+
+  if (offset !== bytes.length - 2) return null;
+  const expected = (bytes[offset] << 8) | bytes[offset + 1];
+  if (checksum([...bytes.slice(0, offset), ...tokenBytes(light, dark, order)]) !== expected) return null;
+
+  const lockedColors: LockedColors = {};
+  order.forEach((key, i) => {
+    if (lockMask & (1 << i)) lockedColors[key] = true;
+  });
+
+  // Legacy roles came from the unedited base; a side with edits re-derives them
+  if (isLegacy) {
+    [light, dark].forEach((tokens, i) => {
+      if (edited[i]) Object.assign(tokens, deriveRoleTokens(tokens, state.contrastAlgorithm));
+    });
+  }
+
+  return { ...state, theme: { light, dark, seed, mode, ...(harmony ? { harmony } : {}) }, lockedColors };
+}
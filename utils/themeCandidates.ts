@@ -0,0 +1,184 @@
+/**
+ * Theme Candidates
+ * Ranked, de-duplicated shortlists of generated themes for side-by-side picking
+ * Version: 25.12.2
+ *
+ * Generates a pool several times larger than the shortlist, scores both modes
+ * of every theme with the scoring engine, then fills the shortlist best-first
+ * while skipping any theme whose brand colors sit within
+ * `minDistance` of one already taken. Every candidate carries its own seed, so
+ * regenerating it with the requested mode reproduces it exactly.
+ */
+
+import { ThemeTokens, GenerationMode, ContrastAlgorithm, EngineVersion, CustomHarmony } from '../types';
+import { OklchColor, toOklch, toHex, deltaE, clampToSRGBGamut } from './oklch';
+import { evaluatePalette, RejectReason, ScoreBreakdown } from './scoringEngine';
+import { createSeededRandom, ENGINE_VERSION } from './engineVersion';
+import { generateTheme } from './colorUtils';
+
+// --- Configuration ---
+
+export const DEFAULT_CANDIDATE_COUNT = 6;
+export const MAX_CANDIDATE_COUNT = 12;
+
+// OKLab ΔE averaged over the brand colors of both modes; ~0.02 is a just-noticeable difference
+export const DEFAULT_MIN_DISTANCE = 0.05;
+
+// Themes generated per shortlist slot before diversity filtering
+const POOL_FACTOR = 4;
+
+// How far seed-anchored candidates may wander from the seed's hue
+const SEED_HUE_SPREAD = 75;
+
+const DISTANCE_TOKENS: Array<keyof ThemeTokens> = ['primary', 'secondary', 'accent'];
+
+const BREAKDOWN_KEYS: Array<keyof ScoreBreakdown> = [
+  'contrastHeadroom', 'harmonyConsistency', 'chromaBalance', 'uiUsability', 'aestheticBias', 'total',
+];
+
+// --- Types ---
+
+export interface CandidateOptions {
+  mode: GenerationMode;
+  seed?: string;                   // Hex; candidates vary around it. Omit to spread over the whole wheel
+  count?: number;                  // 1 to MAX_CANDIDATE_COUNT
+  minDistance?: number;            // Diversity floor between any two candidates
+  saturation?: number;
+  contrast?: number;
+  brightness?: number;
+  darkSaturation?: number;         // Dark-mode levels default to the shared ones
+  darkContrast?: number;
+  darkBrightness?: number;
+  darkFirst?: boolean;
+  contrastAlgorithm?: ContrastAlgorithm;
+  engineVersion?: EngineVersion;
+  harmony?: CustomHarmony;         // Offsets for the custom mode
+}
+
+export interface CandidateReject extends RejectReason {
+  side: 'light' | 'dark';
+}
+
+export interface ThemeCandidate {
+  rank: number;                    // 1 is best
+  seed: string;                    // Regenerate with the shortlist's mode to reproduce
+  mode: GenerationMode;            // Harmony the seed resolved to
+  light: ThemeTokens;
+  dark: ThemeTokens;
+  score: ScoreBreakdown;           // Mean of the light and dark breakdowns
+  rejects: CandidateReject[];
+  isValid: boolean;                // No critical rejects in either mode
+  nearestDistance: number | null;  // ΔE to the closest higher-ranked candidate
+}
+
+export interface CandidateShortlist {
+  mode: GenerationMode;
+  engineVersion: EngineVersion;
+  harmony?: CustomHarmony;
+  minDistance: number;
+  generated: number;               // Pool size
+  nearDuplicates: number;          // Pool themes dropped by the diversity floor
+  candidates: ThemeCandidate[];
+}
+
+// --- Scoring ---
+
+function averageBreakdown(a: ScoreBreakdown, b: ScoreBreakdown): ScoreBreakdown {
+  return Object.fromEntries(BREAKDOWN_KEYS.map((key) => [key, (a[key] + b[key]) / 2])) as unknown as ScoreBreakdown;
+}
+
+/** Mean OKLab ΔE between two themes' brand colors, over both modes. */
+export function candidateDistance(a: { light: ThemeTokens; dark: ThemeTokens }, b: { light: ThemeTokens; dark: ThemeTokens }): number {
+  let total = 0;
+  for (const side of ['light', 'dark'] as const) {
+    for (const key of DISTANCE_TOKENS) {
+      total += deltaE(toOklch(a[side][key]), toOklch(b[side][key]));
+    }
+  }
+  return total / (DISTANCE_TOKENS.length * 2);
+}
+
+// --- Generation ---
+
+// The engine only reads a seed's hue, so candidates differ in hue and in the random stream it starts
+function candidateSeed(draw: number, anchor: OklchColor | null): string {
+  if (!anchor) return toHex(clampToSRGBGamut({ L: 0.62, C: 0.15, H: draw * 360 }));
+  const hue = anchor.H + (draw * 2 - 1) * SEED_HUE_SPREAD;
+  return toHex(clampToSRGBGamut({ L: anchor.L, C: anchor.C, H: (hue + 360) % 360 }));
+}
+
+/**
+ * Ranked shortlist of up to `count` themes. Valid themes rank above invalid
+ * ones, then by total score. Fewer than `count` come back when the pool has
+ * no more themes far enough from those already taken.
+ */
+export function generateCandidates(options: CandidateOptions): CandidateShortlist {
+  const count = Math.max(1, Math.min(MAX_CANDIDATE_COUNT, Math.floor(options.count ?? DEFAULT_CANDIDATE_COUNT)));
+  const minDistance = options.minDistance ?? DEFAULT_MIN_DISTANCE;
+  const engineVersion = options.engineVersion ?? ENGINE_VERSION;
+  const algorithm = options.contrastAlgorithm ?? 'wcag2';
+  const saturation = options.saturation ?? 0;
+  const contrast = options.contrast ?? 0;
+  const brightness = options.brightness ?? 0;
+  const seed = options.seed?.toLowerCase();
+
+  // Seeded batches are reproducible; unseeded ones are as random as a fresh theme
+  const rng = createSeededRandom(seed ? `candidates:${options.mode}:${seed}` : `${Date.now()}-${Math.random()}`, engineVersion);
+  const anchor = seed ? toOklch(seed) : null;
+
+  const pool = Array.from({ length: count * POOL_FACTOR }, (_, i) => {
+    const candidateSeedHex = i === 0 && seed ? seed : candidateSeed(rng.next(), anchor);
+    const theme = generateTheme({
+      mode: options.mode,
+      seed: candidateSeedHex,
+      levels: { saturation, contrast, brightness },
+      darkLevels: { saturation: options.darkSaturation, contrast: options.darkContrast, brightness: options.darkBrightness },
+      darkFirst: options.darkFirst,
+      contrastAlgorithm: algorithm,
+      engineVersion,
+      harmony: options.harmony
+    });
+    const baseHue = toOklch(theme.seed).H;
+    const light = evaluatePalette(theme.light, baseHue, algorithm);
+    const dark = evaluatePalette(theme.dark, baseHue, algorithm);
+
+    return {
+      seed: theme.seed,
+      mode: theme.mode,
+      light: theme.light,
+      dark: theme.dark,
+      score: averageBreakdown(light.score, dark.score),
+      rejects: [
+        ...light.rejects.map((reject) => ({ ...reject, side: 'light' as const })),
+        ...dark.rejects.map((reject) => ({ ...reject, side: 'dark' as const })),
+      ],
+      isValid: light.isValid && dark.isValid,
+    };
+  });
+
+  // Same order selectBestPalette uses: validity first, then total score
+  pool.sort((a, b) => Number(b.isValid) - Number(a.isValid) || b.score.total - a.score.total);
+
+  const candidates: ThemeCandidate[] = [];
+  let nearDuplicates = 0;
+  for (const entry of pool) {
+    if (candidates.length === count) break;
+    const distances = candidates.map((taken) => candidateDistance(entry, taken));
+    const nearestDistance = distances.length > 0 ? Math.min(...distances) : null;
+    if (nearestDistance !== null && nearestDistance < minDistance) {
+      nearDuplicates++;
+      continue;
+    }
+    candidates.push({ rank: candidates.length + 1, ...entry, nearestDistance });
+  }
+
+  return {
+    mode: options.mode,
+    engineVersion,
+    ...(options.harmony && options.mode === 'custom' ? { harmony: options.harmony } : {}),
+    minDistance,
+    generated: pool.length,
+    nearDuplicates,
+    candidates,
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Theme Diff
+ * Per-token perceptual and contrast deltas between two themes, with release notes
+ * Version: 25.12.2
+ *
+ * Every token is measured in OKLCH against its baseline value and re-checked
+ * against the token it is read on (text on bg, fg on its fill, fills under
+ * their fg), so a swap that looks small can still surface as an a11y regression.
+ */
+
+import {
+  ThemeTokens,
+  CoreThemeTokens,
+  ThemeRoleTokens,
+  ContrastAlgorithm,
+  ThemeDiff,
+  ThemeDiffEntry,
+  ChangeSize,
+  ThemeChangelog,
+  ThemeChangelogEntry
+} from '../types';
+import { toOklch, deltaE } from './oklch';
+import { contrastRatio, apcaContrast, ratioToLcEquivalent } from './contrast';
+import { upgradeTheme } from './colorUtils';
+import { ROLE_TOKEN_KEYS } from './paletteEngine';
+
+// --- Configuration ---
+
+export const DIFF_TOKENS: Array<keyof ThemeTokens> = [
+  'bg', 'card', 'card2', 'text', 'textMuted', 'textOnColor', 'border', 'ring',
+  'primary', 'primaryFg', 'secondary', 'secondaryFg', 'accent', 'accentFg',
+  'good', 'goodFg', 'warn', 'warnFg', 'bad', 'badFg',
+  ...ROLE_TOKEN_KEYS,
+];
+
+// Token each one is read against, with the WCAG floor for that pairing
+const CONTRAST_PARTNERS: Record<keyof ThemeTokens, { partner: keyof ThemeTokens; minRatio: number }> = {
+  bg: { partner: 'text', minRatio: 4.5 },
+  card: { partner: 'text', minRatio: 4.5 },
+  card2: { partner: 'text', minRatio: 4.5 },
+  text: { partner: 'bg', minRatio: 4.5 },
+  textMuted: { partner: 'bg', minRatio: 4.5 },
+  textOnColor: { partner: 'primary', minRatio: 4.5 },
+  border: { partner: 'bg', minRatio: 3 },
+  ring: { partner: 'bg', minRatio: 3 },
+  primary: { partner: 'primaryFg', minRatio: 4.5 },
+  primaryFg: { partner: 'primary', minRatio: 4.5 },
+  secondary: { partner: 'secondaryFg', minRatio: 4.5 },
+  secondaryFg: { partner: 'secondary', minRatio: 4.5 },
+  accent: { partner: 'accentFg', minRatio: 4.5 },
+  accentFg: { partner: 'accent', minRatio: 4.5 },
+  good: { partner: 'goodFg', minRatio: 4.5 },
+  goodFg: { partner: 'good', minRatio: 4.5 },
+  warn: { partner: 'warnFg', minRatio: 4.5 },
+  warnFg: { partner: 'warn', minRatio: 4.5 },
+  bad: { partner: 'badFg', minRatio: 4.5 },
+  badFg: { partner: 'bad', minRatio: 4.5 },
+  info: { partner: 'infoFg', minRatio: 4.5 },
+  infoFg: { partner: 'info', minRatio: 4.5 },
+  link: { partner: 'bg', minRatio: 4.5 },
+  linkVisited: { partner: 'bg', minRatio: 4.5 },
+  selectionBg: { partner: 'text', minRatio: 4.5 },
+  inputBg: { partner: 'text', minRatio: 4.5 },
+  disabledBg: { partner: 'disabledFg', minRatio: 3 },
+  disabledFg: { partner: 'disabledBg', minRatio: 3 },
+  focus: { partner: 'bg', minRatio: 3 },
+  // Decorative: diffed for drift only, a 1:1 floor never fails
+  overlay: { partner: 'bg', minRatio: 1 },
+  divider: { partner: 'bg', minRatio: 1 },
+};
+
+export type ThemeDiffFormat = 'json' | 'markdown';
+
+export const THEME_DIFF_FORMATS: ThemeDiffFormat[] = ['json', 'markdown'];
+
+// OKLab ΔE upper bounds: ~0.02 is a just-noticeable difference side by side
+const CHANGE_SIZES: Array<[number, ChangeSize]> = [
+  [0.02, 'subtle'],
+  [0.08, 'noticeable'],
+];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Below this chroma a hue angle is noise
+const ACHROMATIC_CHROMA = 0.01;
+
+// Sources saved before the interaction roles existed are upgraded before diffing
+type DiffSource = { light: CoreThemeTokens; dark: CoreThemeTokens };
+
+// --- Measurement ---
+
+function passes(fg: string, bg: string, minRatio: number, algorithm: ContrastAlgorithm): boolean {
+  return algorithm === 'apca'
+    ? Math.abs(apcaContrast(fg, bg)) >= ratioToLcEquivalent(minRatio)
+    : contrastRatio(fg, bg) >= minRatio;
+}
+
+function signedHueTurn(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+function diffToken(
+  side: ThemeDiffEntry['side'],
+  token: keyof ThemeTokens,
+  baseline: ThemeTokens,
+  candidate: ThemeTokens,
+  algorithm: ContrastAlgorithm
+): ThemeDiffEntry {
+  const from = baseline[token];
+  const to = candidate[token];
+  const a = toOklch(from);
+  const b = toOklch(to);
+  const { partner, minRatio } = CONTRAST_PARTNERS[token];
+
+  return {
+    side,
+    token,
+    from,
+    to,
+    changed: from.toLowerCase() !== to.toLowerCase(),
+    deltaL: b.L - a.L,
+    deltaC: b.C - a.C,
+    deltaH: Math.min(a.C, b.C) < ACHROMATIC_CHROMA ? 0 : signedHueTurn(a.H, b.H),
+    deltaE: deltaE(a, b),
+    partner,
+    contrastFrom: contrastRatio(from, baseline[partner]),
+    contrastTo: contrastRatio(to, candidate[partner]),
+    minRatio,
+    passesFrom: passes(from, baseline[partner], minRatio, algorithm),
+    passesTo: passes(to, candidate[partner], minRatio, algorithm),
+  };
+}
+
+/**
+ * Contrast of `value` (by default the token's own) against the token's
+ * partner on the same side: the pairing the diff audits, read out live while
+ * a color is being tuned.
+ */
+export function measurePartnerContrast(
+  tokens: ThemeTokens,
+  token: keyof ThemeTokens,
+  value: string = tokens[token],
+  algorithm: ContrastAlgorithm = 'wcag2'
+): { partner: keyof ThemeTokens; ratio: number; lc: number; minRatio: number; passes: boolean } {
+  const { partner, minRatio } = CONTRAST_PARTNERS[token];
+  return {
+    partner,
+    ratio: contrastRatio(value, tokens[partner]),
+    lc: apcaContrast(value, tokens[partner]),
+    minRatio,
+    passes: passes(value, tokens[partner], minRatio, algorithm),
+  };
+}
+
+/** Diffs every token of both modes; unchanged tokens are kept (changed: false) so tables stay complete. */
+export function buildThemeDiff(
+  baseline: DiffSource,
+  candidate: DiffSource,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): ThemeDiff {
+  const from = upgradeTheme(baseline, algorithm);
+  const to = upgradeTheme(candidate, algorithm);
+  const entries = (['light', 'dark'] as const).flatMap((side) =>
+    DIFF_TOKENS.map((token) => diffToken(side, token, from[side], to[side], algorithm))
+  );
+
+  return {
+    algorithm,
+    entries,
+    summary: {
+      changed: entries.filter((entry) => entry.changed).length,
+      regressions: entries.filter((entry) => entry.passesFrom && !entry.passesTo).length,
+      improvements: entries.filter((entry) => !entry.passesFrom && entry.passesTo).length,
+      maxDeltaE: entries.reduce((max, entry) => Math.max(max, entry.deltaE), 0),
+    },
+  };
+}
+
+/** True when every core token is a plain hex color, as is every role present (older themes lack them). */
+export function hasThemeDiffSources(tokens: unknown): tokens is CoreThemeTokens {
+  if (!tokens || typeof tokens !== 'object') return false;
+  const record = tokens as Record<string, unknown>;
+  const isHex = (key: keyof ThemeTokens) => typeof record[key] === 'string' && HEX_PATTERN.test(record[key] as string);
+  return DIFF_TOKENS.every((key) => isHex(key) || (ROLE_TOKEN_KEYS.includes(key as keyof ThemeRoleTokens) && record[key] === undefined));
+}
+
+// --- Release Notes ---
+
+export function classifyChangeSize(deltaE: number, changed: boolean = deltaE > 0): ChangeSize {
+  if (!changed) return 'none';
+  for (const [limit, size] of CHANGE_SIZES) {
+    if (deltaE < limit) return size;
+  }
+  return 'major';
+}
+
+function toChangelogEntry(entry: ThemeDiffEntry): ThemeChangelogEntry {
+  return {
+    side: entry.side,
+    token: entry.token,
+    before: entry.from,
+    after: entry.to,
+    size: classifyChangeSize(entry.deltaE, entry.changed),
+    deltaE: entry.deltaE,
+    deltaL: entry.deltaL,
+    deltaC: entry.deltaC,
+    deltaH: entry.deltaH,
+    contrast: {
+      partner: entry.partner,
+      before: entry.contrastFrom,
+      after: entry.contrastTo,
+      minRatio: entry.minRatio,
+      passedBefore: entry.passesFrom,
+      passesAfter: entry.passesTo,
+    },
+  };
+}
+
+export function buildThemeChangelog(diff: ThemeDiff, baseline: string, now: Date = new Date()): ThemeChangelog {
+  return {
+    schemaVersion: 1,
+    generatedAt: now.toISOString(),
+    baseline,
+    algorithm: diff.algorithm,
+    summary: { ...diff.summary, size: classifyChangeSize(diff.summary.maxDeltaE, diff.summary.changed > 0) },
+    changes: diff.entries.filter((entry) => entry.changed).map(toChangelogEntry),
+    regressions: diff.entries.filter((entry) => entry.passesFrom && !entry.passesTo).map(toChangelogEntry),
+    improvements: diff.entries.filter((entry) => !entry.passesFrom && entry.passesTo).map(toChangelogEntry),
+  };
+}
+
+function contrastRow(entry: ThemeChangelogEntry): string {
+  const { partner, before, after, minRatio } = entry.contrast;
+  return `| ${entry.side} | \`${entry.token}\` | \`${partner}\` | ${before.toFixed(2)}:1 | ${after.toFixed(2)}:1 | ${minRatio}:1 |`;
+}
+
+export function formatThemeChangelogMarkdown(changelog: ThemeChangelog): string {
+  const { summary } = changelog;
+  const algorithmLabel = changelog.algorithm === 'apca' ? 'APCA Lc' : 'WCAG 2 ratio';
+  const lines = [
+    '# Theme Release Notes',
+    '',
+    `Compared with ${changelog.baseline}. ${summary.changed} token ${summary.changed === 1 ? 'value' : 'values'} changed; ` +
+    `overall change is ${summary.size} (max ΔE ${summary.maxDeltaE.toFixed(3)}).`,
+    '',
+    '## Accessibility',
+    '',
+  ];
+
+  if (changelog.regressions.length === 0) {
+    lines.push(`No pass/fail regressions (judged by ${algorithmLabel}).`);
+  } else {
+    lines.push(`${changelog.regressions.length} ${changelog.regressions.length === 1 ? 'pair' : 'pairs'} now fail (judged by ${algorithmLabel}):`, '');
+    lines.push('| Mode | Token | Against | Before | After | Target |', '| --- | --- | --- | ---: | ---: | ---: |');
+    lines.push(...changelog.regressions.map(contrastRow));
+  }
+  if (changelog.improvements.length > 0) {
+    lines.push('', `${changelog.improvements.length} previously failing ${changelog.improvements.length === 1 ? 'pair passes' : 'pairs pass'} now:`, '');
+    lines.push('| Mode | Token | Against | Before | After | Target |', '| --- | --- | --- | ---: | ---: | ---: |');
+    lines.push(...changelog.improvements.map(contrastRow));
+  }
+  lines.push('');
+
+  for (const side of ['light', 'dark'] as const) {
+    const changes = changelog.changes.filter((entry) => entry.side === side);
+    if (changes.length === 0) continue;
+    lines.push(`## ${side === 'light' ? 'Light' : 'Dark'} mode`, '');
+    lines.push('| Token | Before | After | ΔE | Change |', '| --- | --- | --- | ---: | --- |');
+    for (const entry of changes) {
+      lines.push(`| \`${entry.token}\` | ${entry.before} | ${entry.after} | ${entry.deltaE.toFixed(3)} | ${entry.size} |`);
+    }
+    lines.push('');
+  }
+
+  if (summary.changed === 0) lines.push('No token values changed.', '');
+  return lines.join('\n');
+}
+
+export function formatThemeChangelog(
+  changelog: ThemeChangelog,
+  format: ThemeDiffFormat
+): { content: string; filename: string } {
+  return format === 'markdown'
+    ? { content: formatThemeChangelogMarkdown(changelog), filename: 'taichi-release-notes.md' }
+    : { content: JSON.stringify(changelog, null, 2), filename: 'taichi-changelog.json' };
+}
+
+export function isThemeDiffFormat(value: unknown): value is ThemeDiffFormat {
+  return typeof value === 'string' && (THEME_DIFF_FORMATS as string[]).includes(value);
+}
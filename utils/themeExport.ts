@@ -0,0 +1,850 @@
+/**
+ * Theme Export Module
+ * Renders themes as CSS, SCSS, LESS, Tailwind (v3/v4), shadcn/ui, JSON, DTCG and native mobile files
+ * Version: 25.12.2
+ *
+ * Shared by /api/export-theme and the in-app Delivery tools so that both
+ * produce byte-identical files. Accepts a single token map or a
+ * `{ light, dark }` pair; pairs are emitted as one dual-mode file.
+ */
+
+import { ThemeScales, GamutTarget, WideGamutTokens, DataVizPalette, CustomHarmony } from '../types';
+import { SCALE_ROLES, buildThemeScales, flattenScales, hasScaleSources } from './scales';
+import { buildDataVizPalette, flattenDataViz, hasDataVizSources } from './dataViz';
+import { WIDE_GAMUT_ROLES, buildWideGamutTokens, hasWideGamutSources } from './gamut';
+import { toOklch, formatOklch } from './oklch';
+import { OVERLAY_OPACITY, parseCustomHarmony } from './paletteEngine';
+import { NATIVE_EXPORT_FORMATS, NativeExportFormat, exportNative } from './nativeExport';
+
+// --- Types ---
+
+export type ExportFormat =
+  | 'css' | 'scss' | 'less' | 'tailwind' | 'tailwind4' | 'shadcn' | 'json' | 'dtcg'
+  | NativeExportFormat;
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'css', 'json', 'tailwind', 'tailwind4', 'shadcn', 'scss', 'less', 'dtcg',
+  ...NATIVE_EXPORT_FORMATS,
+];
+
+export interface ExportOptions {
+  prefix?: string;            // Variable prefix; '' emits unprefixed names
+  includeComments?: boolean;
+  includeScales?: boolean;
+  scales?: unknown;           // ThemeScales, or { light, dark } for dual themes
+  includeDataViz?: boolean;
+  dataViz?: unknown;          // DataVizPalette, or { light, dark } for dual themes
+  gamut?: GamutTarget;        // 'p3' adds Display P3 overrides (CSS, JSON)
+  p3?: unknown;               // WideGamutTokens, or { light, dark }; implies gamut 'p3'
+  metadata?: { mode?: unknown; seed?: unknown; engineVersion?: unknown; harmony?: unknown };
+  packageName?: string;       // Kotlin package for Compose output
+  generatedAt?: string | null; // Timestamp in headers and DTCG metadata; null omits it (reproducible output)
+}
+
+export interface ExportResult {
+  content: string;
+  filename: string;
+  encoding?: 'base64';        // Set for ZIP archives (multi-file formats)
+}
+
+interface ExportSet {
+  name: 'theme' | 'light' | 'dark';
+  tokens: Record<string, string>;
+  scales: ThemeScales | null;
+  dataViz: DataVizPalette | null;
+  p3: WideGamutTokens | null;
+}
+
+// --- Selectors ---
+
+// Dark tokens apply when the OS prefers dark unless the page opts back into light,
+// and always when the page opts into dark via attribute or class.
+const LIGHT_SELECTOR = ':root';
+const PREFERS_DARK_QUERY = '@media (prefers-color-scheme: dark)';
+const PREFERS_DARK_SELECTOR = ':root:not([data-theme="light"]):not(.light)';
+const EXPLICIT_DARK_SELECTOR = '[data-theme="dark"], .dark';
+
+// Wide-gamut overrides only apply where P3 is both parsed and displayable.
+const P3_SUPPORTS_QUERY = '@supports (color: color(display-p3 1 1 1))';
+const P3_MEDIA_QUERY = '@media (color-gamut: p3)';
+
+// --- Input Normalization ---
+
+function isTokenObject(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isDualThemeInput(theme: Record<string, unknown>): boolean {
+  return isTokenObject(theme.light) && isTokenObject(theme.dark);
+}
+
+/**
+ * Uses caller-supplied scales (e.g. from /api/generate-theme) when complete,
+ * otherwise derives them from the theme's own brand and status tokens.
+ */
+function resolveScales(theme: Record<string, unknown>, scales: unknown): ThemeScales | null {
+  if (scales && typeof scales === 'object') {
+    const provided = scales as Record<string, unknown>;
+    if (SCALE_ROLES.every((role) => provided[role] && typeof provided[role] === 'object')) {
+      return provided as unknown as ThemeScales;
+    }
+  }
+  return hasScaleSources(theme) ? buildThemeScales(theme) : null;
+}
+
+// A custom-mode theme's offsets, from the theme itself or the export metadata
+function resolveCustomHarmony(value: unknown): CustomHarmony | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { offsets, chromaVariance } = value as Record<string, unknown>;
+  return parseCustomHarmony(offsets, chromaVariance) ?? undefined;
+}
+
+/** Same contract as resolveScales, for the chart palettes; `mode` and `harmony` pick their hues. */
+function resolveDataViz(
+  theme: Record<string, unknown>,
+  dataViz: unknown,
+  mode: unknown,
+  harmony?: CustomHarmony
+): DataVizPalette | null {
+  if (dataViz && typeof dataViz === 'object') {
+    const provided = dataViz as Record<string, unknown>;
+    if ((['categorical', 'sequential', 'diverging'] as const).every((key) => Array.isArray(provided[key]))) {
+      return provided as unknown as DataVizPalette;
+    }
+  }
+  return hasDataVizSources(theme)
+    ? buildDataVizPalette(theme, typeof mode === 'string' ? mode : undefined, undefined, harmony)
+    : null;
+}
+
+/** Same contract as resolveScales, for the Display P3 token pairs. */
+function resolveWideGamut(theme: Record<string, unknown>, p3: unknown): WideGamutTokens | null {
+  if (p3 && typeof p3 === 'object') {
+    const provided = p3 as Record<string, { p3?: unknown } | undefined>;
+    if (WIDE_GAMUT_ROLES.every((role) => typeof provided[role]?.p3 === 'string')) {
+      return provided as unknown as WideGamutTokens;
+    }
+  }
+  return hasWideGamutSources(theme) ? buildWideGamutTokens(theme) : null;
+}
+
+function resolveExportSets(theme: Record<string, unknown>, options: ExportOptions): ExportSet[] {
+  const includeScales = options.includeScales !== false;
+  const scales = options.scales && typeof options.scales === 'object'
+    ? options.scales as Record<string, unknown>
+    : undefined;
+  const includeDataViz = options.includeDataViz !== false;
+  const dataViz = options.dataViz && typeof options.dataViz === 'object'
+    ? options.dataViz as Record<string, unknown>
+    : undefined;
+  const mode = typeof theme.mode === 'string' ? theme.mode : options.metadata?.mode;
+  const harmony = resolveCustomHarmony(theme.harmony ?? options.metadata?.harmony);
+  const p3 = options.p3 && typeof options.p3 === 'object'
+    ? options.p3 as Record<string, unknown>
+    : undefined;
+  const wideGamut = options.gamut ? options.gamut === 'p3' : !!p3;
+
+  const toSet = (
+    name: ExportSet['name'],
+    tokens: Record<string, unknown>,
+    provided: unknown,
+    providedDataViz: unknown,
+    providedP3: unknown
+  ): ExportSet => {
+    const stringTokens: Record<string, string> = {};
+    Object.entries(tokens).forEach(([key, value]) => {
+      if (typeof value === 'string') stringTokens[key] = value;
+    });
+    return {
+      name,
+      tokens: stringTokens,
+      scales: includeScales ? resolveScales(tokens, provided) : null,
+      dataViz: includeDataViz ? resolveDataViz(tokens, providedDataViz, mode, harmony) : null,
+      p3: wideGamut ? resolveWideGamut(tokens, providedP3) : null,
+    };
+  };
+
+  if (isDualThemeInput(theme)) {
+    return [
+      toSet('light', theme.light as Record<string, unknown>, scales?.light, dataViz?.light, p3?.light),
+      toSet('dark', theme.dark as Record<string, unknown>, scales?.dark, dataViz?.dark, p3?.dark),
+    ];
+  }
+  return [toSet('theme', theme, scales, dataViz, p3)];
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Achromatic colors get a zero hue so greys read as `oklch(L 0 0)`.
+function toOklchValue(value: string): string {
+  if (!HEX_COLOR.test(value)) return value;
+  const color = toOklch(value);
+  return formatOklch(color.C < 0.0005 ? { L: color.L, C: 0, H: 0 } : color);
+}
+
+function toKebab(key: string): string {
+  return key.replace(/([A-Z])/g, '-$1').toLowerCase();
+}
+
+function cssVarName(prefix: string, key: string): string {
+  return prefix ? `--${prefix}-${key}` : `--${key}`;
+}
+
+function resolveGeneratedAt(generatedAt: string | null | undefined): string | null {
+  return generatedAt === undefined ? new Date().toISOString() : generatedAt;
+}
+
+function headerLines(style: 'block' | 'line', format: string, generatedAt: string | null): string[] {
+  if (style === 'block') {
+    return [
+      '/**',
+      ' * Taichi Theme Generator - Theme Export',
+      ...(generatedAt ? [` * Generated: ${generatedAt}`] : []),
+      ` * Format: ${format}`,
+      ' */\n',
+    ];
+  }
+  return [
+    '//',
+    '// Taichi Theme Generator - Theme Export',
+    ...(generatedAt ? [`// Generated: ${generatedAt}`] : []),
+    `// Format: ${format}`,
+    '//\n',
+  ];
+}
+
+// --- Public API ---
+
+export function exportThemeAs(
+  input: object,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportResult {
+  const theme = input as Record<string, unknown>;
+  const prefix = options.prefix ?? 'taichi';
+  const includeComments = options.includeComments !== false;
+  const sets = resolveExportSets(theme, options);
+  const filePrefix = prefix || 'taichi';
+  const generatedAt = resolveGeneratedAt(options.generatedAt);
+
+  switch (format) {
+    case 'css':
+      return { content: exportAsCSS(sets, prefix, includeComments, generatedAt), filename: `${filePrefix}-theme.css` };
+    case 'scss':
+      return { content: exportAsSCSS(sets, prefix, includeComments, generatedAt), filename: `${filePrefix}-theme.scss` };
+    case 'less':
+      return { content: exportAsLESS(sets, prefix, includeComments, generatedAt), filename: `${filePrefix}-theme.less` };
+    case 'tailwind':
+      return { content: exportAsTailwind(sets, prefix, includeComments, generatedAt), filename: 'tailwind.config.js' };
+    case 'tailwind4':
+      return { content: exportAsTailwind4(sets, prefix, includeComments, generatedAt), filename: `${filePrefix}-tailwind.css` };
+    case 'shadcn':
+      return { content: exportAsShadcn(sets, includeComments, generatedAt), filename: `${filePrefix}-shadcn.css` };
+    case 'dtcg':
+      return { content: exportAsDTCG(sets, theme, options), filename: `${filePrefix}-theme.tokens.json` };
+    case 'xcassets':
+    case 'swiftui':
+    case 'android':
+    case 'compose':
+    case 'flutter':
+      return exportNative(
+        sets.map((set) => ({ name: set.name, entries: preprocessorEntries(set) })),
+        format,
+        { prefix: filePrefix, includeComments, packageName: options.packageName, generatedAt }
+      );
+    case 'json':
+    default:
+      return { content: exportAsJSON(sets, theme), filename: `${filePrefix}-theme.json` };
+  }
+}
+
+// --- CSS ---
+
+function cssDeclarations(set: ExportSet, prefix: string, includeComments: boolean, indent: string): string[] {
+  const lines = Object.entries(set.tokens).map(
+    ([key, value]) => `${indent}${cssVarName(prefix, toKebab(key))}: ${value};`
+  );
+  if (set.scales) {
+    if (includeComments) lines.push(`\n${indent}/* Tonal scales (50-900) */`);
+    Object.entries(flattenScales(set.scales)).forEach(([key, value]) => {
+      lines.push(`${indent}${cssVarName(prefix, key)}: ${value};`);
+    });
+  }
+  if (set.dataViz) {
+    if (includeComments) lines.push(`\n${indent}/* Data visualization (categorical, sequential, diverging) */`);
+    Object.entries(flattenDataViz(set.dataViz)).forEach(([key, value]) => {
+      lines.push(`${indent}${cssVarName(prefix, key)}: ${value};`);
+    });
+  }
+  return lines;
+}
+
+function wideGamutDeclarations(p3: WideGamutTokens, prefix: string, indent: string): string[] {
+  return WIDE_GAMUT_ROLES.map((role) => `${indent}${cssVarName(prefix, toKebab(role))}: ${p3[role].p3};`);
+}
+
+function exportAsCSS(sets: ExportSet[], prefix: string, includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+
+  if (includeComments) {
+    lines.push(...headerLines('block', sets.length > 1 ? 'CSS Custom Properties (light + dark)' : 'CSS Custom Properties', generatedAt));
+  }
+
+  const [base, dark] = sets;
+  lines.push(`${LIGHT_SELECTOR} {`);
+  lines.push(...cssDeclarations(base, prefix, includeComments, '  '));
+  lines.push('}\n');
+
+  if (dark) {
+    lines.push(`${PREFERS_DARK_QUERY} {`);
+    lines.push(`  ${PREFERS_DARK_SELECTOR} {`);
+    lines.push(...cssDeclarations(dark, prefix, includeComments, '    '));
+    lines.push('  }');
+    lines.push('}\n');
+    lines.push(`${EXPLICIT_DARK_SELECTOR} {`);
+    lines.push(...cssDeclarations(dark, prefix, includeComments, '  '));
+    lines.push('}\n');
+  }
+
+  if (sets.some((set) => set.p3)) {
+    if (includeComments) lines.push('/* Display P3 overrides; the values above are the sRGB fallback */');
+    lines.push(`${P3_SUPPORTS_QUERY} {`);
+    lines.push(`  ${P3_MEDIA_QUERY} {`);
+    if (base.p3) {
+      lines.push(`    ${LIGHT_SELECTOR} {`);
+      lines.push(...wideGamutDeclarations(base.p3, prefix, '      '));
+      lines.push('    }');
+    }
+    if (dark?.p3) {
+      lines.push(`    ${PREFERS_DARK_QUERY} {`);
+      lines.push(`      ${PREFERS_DARK_SELECTOR} {`);
+      lines.push(...wideGamutDeclarations(dark.p3, prefix, '        '));
+      lines.push('      }');
+      lines.push('    }');
+      lines.push(`    ${EXPLICIT_DARK_SELECTOR} {`);
+      lines.push(...wideGamutDeclarations(dark.p3, prefix, '      '));
+      lines.push('    }');
+    }
+    lines.push('  }');
+    lines.push('}\n');
+  }
+
+  if (includeComments) {
+    lines.push('/* Usage example:');
+    lines.push(` * color: var(${cssVarName(prefix, 'primary')});`);
+    if (base.scales) lines.push(` * background: var(${cssVarName(prefix, 'primary-100')});`);
+    if (dark) {
+      lines.push(' * Dark tokens follow the OS setting; force a mode with');
+      lines.push(' * <html data-theme="light|dark"> or class="light|dark".');
+    }
+    lines.push(' */');
+  }
+
+  return lines.join('\n');
+}
+
+// --- SCSS / LESS ---
+
+function preprocessorEntries(set: ExportSet): Array<[string, string]> {
+  const entries: Array<[string, string]> = Object.entries(set.tokens).map(([key, value]) => [toKebab(key), value]);
+  if (set.scales) entries.push(...Object.entries(flattenScales(set.scales)));
+  if (set.dataViz) entries.push(...Object.entries(flattenDataViz(set.dataViz)));
+  return entries;
+}
+
+function exportAsSCSS(sets: ExportSet[], prefix: string, includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+  const [base, dark] = sets;
+
+  if (includeComments) {
+    lines.push(...headerLines('line', dark ? 'SCSS Variables and Theme Maps (light + dark)' : 'SCSS Variables', generatedAt));
+  }
+
+  if (!dark) {
+    Object.entries(base.tokens).forEach(([key, value]) => {
+      lines.push(`$${prefix}-${toKebab(key)}: ${value};`);
+    });
+
+    if (base.scales) {
+      if (includeComments) lines.push('\n// Tonal scales (50-900)');
+      Object.entries(flattenScales(base.scales)).forEach(([key, value]) => {
+        lines.push(`$${prefix}-${key}: ${value};`);
+      });
+    }
+
+    if (base.dataViz) {
+      if (includeComments) lines.push('\n// Data visualization (categorical, sequential, diverging)');
+      Object.entries(flattenDataViz(base.dataViz)).forEach(([key, value]) => {
+        lines.push(`$${prefix}-${key}: ${value};`);
+      });
+    }
+
+    if (includeComments) {
+      lines.push('\n// Usage example:');
+      lines.push(`// color: $${prefix}-primary;`);
+    }
+
+    return lines.join('\n');
+  }
+
+  const mapName = `$${prefix}-themes`;
+  const mixinName = `${prefix}-theme`;
+
+  lines.push('@use "sass:map";\n');
+  lines.push(`${mapName}: (`);
+  [base, dark].forEach((set) => {
+    lines.push(`  ${set.name}: (`);
+    preprocessorEntries(set).forEach(([key, value]) => {
+      lines.push(`    ${key}: ${value},`);
+    });
+    lines.push('  ),');
+  });
+  lines.push(');\n');
+
+  lines.push(`@mixin ${mixinName}($mode) {`);
+  lines.push(`  @each $key, $value in map.get(${mapName}, $mode) {`);
+  lines.push(`    ${cssVarName(prefix, '#{$key}')}: #{$value};`);
+  lines.push('  }');
+  lines.push('}\n');
+
+  lines.push(`${LIGHT_SELECTOR} {`);
+  lines.push(`  @include ${mixinName}(light);`);
+  lines.push('}\n');
+  lines.push(`${PREFERS_DARK_QUERY} {`);
+  lines.push(`  ${PREFERS_DARK_SELECTOR} {`);
+  lines.push(`    @include ${mixinName}(dark);`);
+  lines.push('  }');
+  lines.push('}\n');
+  lines.push(`${EXPLICIT_DARK_SELECTOR} {`);
+  lines.push(`  @include ${mixinName}(dark);`);
+  lines.push('}');
+
+  if (includeComments) {
+    lines.push('\n// Usage example:');
+    lines.push(`// color: var(${cssVarName(prefix, 'primary')});`);
+    lines.push(`// $brand: map.get(${mapName}, light, primary);`);
+  }
+
+  return lines.join('\n');
+}
+
+function exportAsLESS(sets: ExportSet[], prefix: string, includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+  const [base, dark] = sets;
+
+  if (includeComments) {
+    lines.push(...headerLines('line', dark ? 'LESS Variables (light + dark)' : 'LESS Variables', generatedAt));
+  }
+
+  Object.entries(base.tokens).forEach(([key, value]) => {
+    lines.push(`@${prefix}-${toKebab(key)}: ${value};`);
+  });
+
+  if (base.scales) {
+    if (includeComments) lines.push('\n// Tonal scales (50-900)');
+    Object.entries(flattenScales(base.scales)).forEach(([key, value]) => {
+      lines.push(`@${prefix}-${key}: ${value};`);
+    });
+  }
+
+  if (base.dataViz) {
+    if (includeComments) lines.push('\n// Data visualization (categorical, sequential, diverging)');
+    Object.entries(flattenDataViz(base.dataViz)).forEach(([key, value]) => {
+      lines.push(`@${prefix}-${key}: ${value};`);
+    });
+  }
+
+  if (dark) {
+    if (includeComments) lines.push('\n// Dark mode');
+    preprocessorEntries(dark).forEach(([key, value]) => {
+      lines.push(`@${prefix}-dark-${key}: ${value};`);
+    });
+
+    const declarations = (set: ExportSet, indent: string) =>
+      preprocessorEntries(set).map(([key]) =>
+        `${indent}${cssVarName(prefix, key)}: @${prefix}-${set.name === 'dark' ? 'dark-' : ''}${key};`
+      );
+
+    lines.push('');
+    lines.push(`${LIGHT_SELECTOR} {`);
+    lines.push(...declarations(base, '  '));
+    lines.push('}\n');
+    lines.push(`${PREFERS_DARK_QUERY} {`);
+    lines.push(`  ${PREFERS_DARK_SELECTOR} {`);
+    lines.push(...declarations(dark, '    '));
+    lines.push('  }');
+    lines.push('}\n');
+    lines.push(`${EXPLICIT_DARK_SELECTOR} {`);
+    lines.push(...declarations(dark, '  '));
+    lines.push('}');
+  }
+
+  if (includeComments) {
+    lines.push('\n// Usage example:');
+    lines.push(dark ? `// color: var(${cssVarName(prefix, 'primary')});` : `// color: @${prefix}-primary;`);
+  }
+
+  return lines.join('\n');
+}
+
+// --- Tailwind ---
+
+function exportAsTailwind(sets: ExportSet[], prefix: string, includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+  const [base, dark] = sets;
+
+  if (includeComments) {
+    lines.push(...headerLines('block', dark ? 'Tailwind CSS Configuration (light + dark)' : 'Tailwind CSS Configuration', generatedAt));
+  }
+
+  // Dual themes point colors at CSS variables so `dark` swaps them in place.
+  const entries = preprocessorEntries(base).map(([key, value]): [string, string] =>
+    [key, dark ? `var(${cssVarName(prefix, key)})` : value]
+  );
+
+  lines.push('module.exports = {');
+  if (dark) {
+    lines.push(`  darkMode: ['variant', ['&:is(.dark *)', '&:is([data-theme="dark"] *)']],`);
+  }
+  lines.push('  theme: {');
+  lines.push('    extend: {');
+  lines.push('      colors: {');
+  lines.push('        taichi: {');
+
+  entries.forEach(([kebabKey, value], index) => {
+    const isLast = index === entries.length - 1;
+    lines.push(`          '${kebabKey}': '${value}'${isLast ? '' : ','}`);
+  });
+
+  lines.push('        }');
+  lines.push('      }');
+  lines.push('    }');
+
+  if (dark) {
+    const block = (set: ExportSet, indent: string) => {
+      const vars = preprocessorEntries(set);
+      return vars.map(([key, value], index) =>
+        `${indent}'${cssVarName(prefix, key)}': '${value}'${index === vars.length - 1 ? '' : ','}`
+      );
+    };
+
+    lines.push('  },');
+    lines.push('  plugins: [');
+    lines.push('    function ({ addBase }) {');
+    lines.push('      addBase({');
+    lines.push(`        '${LIGHT_SELECTOR}': {`);
+    lines.push(...block(base, '          '));
+    lines.push('        },');
+    lines.push(`        '${PREFERS_DARK_QUERY}': {`);
+    lines.push(`          '${PREFERS_DARK_SELECTOR}': {`);
+    lines.push(...block(dark, '            '));
+    lines.push('          }');
+    lines.push('        },');
+    lines.push(`        '${EXPLICIT_DARK_SELECTOR}': {`);
+    lines.push(...block(dark, '          '));
+    lines.push('        }');
+    lines.push('      });');
+    lines.push('    }');
+    lines.push('  ]');
+  } else {
+    lines.push('  }');
+  }
+  lines.push('}');
+
+  if (includeComments) {
+    lines.push('\n// Usage example:');
+    lines.push('// <div className="bg-taichi-primary text-taichi-text">...');
+  }
+
+  return lines.join('\n');
+}
+
+// --- Tailwind v4 ---
+
+// Light variables on :root, plus the dark-mode blocks when a dark set is present.
+function modeVariableBlocks(
+  sets: ExportSet[],
+  entries: (set: ExportSet) => Array<[string, string]>,
+  darkSelector: string,
+  withMediaQuery: boolean
+): string[] {
+  const [base, dark] = sets;
+  const declare = (set: ExportSet, indent: string) =>
+    entries(set).map(([name, value]) => `${indent}${name}: ${value};`);
+
+  const lines = [`${LIGHT_SELECTOR} {`, ...declare(base, '  '), '}\n'];
+  if (dark) {
+    if (withMediaQuery) {
+      lines.push(`${PREFERS_DARK_QUERY} {`);
+      lines.push(`  ${PREFERS_DARK_SELECTOR} {`);
+      lines.push(...declare(dark, '    '));
+      lines.push('  }');
+      lines.push('}\n');
+    }
+    lines.push(`${darkSelector} {`, ...declare(dark, '  '), '}\n');
+  }
+  return lines;
+}
+
+function exportAsTailwind4(sets: ExportSet[], prefix: string, includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+  const [base, dark] = sets;
+  const colorName = (key: string) => (prefix ? `--color-${prefix}-${key}` : `--color-${key}`);
+
+  if (includeComments) {
+    lines.push(...headerLines('block', dark ? 'Tailwind CSS v4 @theme (light + dark)' : 'Tailwind CSS v4 @theme', generatedAt));
+  }
+
+  if (!dark) {
+    lines.push('@theme {');
+    preprocessorEntries(base).forEach(([key, value]) => {
+      lines.push(`  ${colorName(key)}: ${toOklchValue(value)};`);
+    });
+    lines.push('}\n');
+  } else {
+    // Runtime variables switch per mode; @theme inline points utilities at them.
+    lines.push('@custom-variant dark (&:where(.dark, .dark *, [data-theme="dark"], [data-theme="dark"] *));\n');
+    lines.push(...modeVariableBlocks(
+      sets,
+      (set) => preprocessorEntries(set).map(([key, value]) => [cssVarName(prefix, key), toOklchValue(value)]),
+      EXPLICIT_DARK_SELECTOR,
+      true
+    ));
+    lines.push('@theme inline {');
+    preprocessorEntries(base).forEach(([key]) => {
+      lines.push(`  ${colorName(key)}: var(${cssVarName(prefix, key)});`);
+    });
+    lines.push('}\n');
+  }
+
+  if (includeComments) {
+    const utility = prefix ? `${prefix}-primary` : 'primary';
+    lines.push('/* Usage example:');
+    lines.push(' * @import "tailwindcss";');
+    lines.push(` * @import "./${prefix || 'taichi'}-tailwind.css";`);
+    lines.push(` * <div class="bg-${utility} text-${prefix ? `${prefix}-` : ''}primary-fg">...`);
+    lines.push(' */');
+  }
+
+  return lines.join('\n');
+}
+
+// --- shadcn/ui ---
+
+// shadcn/ui variable -> Taichi token. shadcn's `accent` is a subtle hover
+// surface, so it maps to card2; the brand accent ships as a chart color
+// unless the set carries a data-viz palette, whose first series replace them.
+// shadcn's `ring` draws focus outlines, so it takes the focus role.
+const SHADCN_VARIABLES: Array<[string, string]> = [
+  ['background', 'bg'],
+  ['foreground', 'text'],
+  ['card', 'card'],
+  ['card-foreground', 'text'],
+  ['popover', 'card'],
+  ['popover-foreground', 'text'],
+  ['primary', 'primary'],
+  ['primary-foreground', 'primaryFg'],
+  ['secondary', 'secondary'],
+  ['secondary-foreground', 'secondaryFg'],
+  ['muted', 'card2'],
+  ['muted-foreground', 'textMuted'],
+  ['accent', 'card2'],
+  ['accent-foreground', 'text'],
+  ['destructive', 'bad'],
+  ['destructive-foreground', 'badFg'],
+  ['border', 'border'],
+  ['input', 'border'],
+  ['ring', 'focus'],
+  ['chart-1', 'primary'],
+  ['chart-2', 'secondary'],
+  ['chart-3', 'accent'],
+  ['chart-4', 'good'],
+  ['chart-5', 'warn'],
+  ['sidebar', 'card'],
+  ['sidebar-foreground', 'text'],
+  ['sidebar-primary', 'primary'],
+  ['sidebar-primary-foreground', 'primaryFg'],
+  ['sidebar-accent', 'card2'],
+  ['sidebar-accent-foreground', 'text'],
+  ['sidebar-border', 'border'],
+  ['sidebar-ring', 'focus'],
+];
+
+// Sets saved before the focus role existed fall back to the brand ring
+const SHADCN_FALLBACKS: Record<string, string> = {
+  focus: 'ring',
+};
+
+function shadcnEntries(set: ExportSet): Array<[string, string]> {
+  const series = set.dataViz?.categorical ?? [];
+  return SHADCN_VARIABLES
+    .map(([name, token]): [string, string] => [name, typeof set.tokens[token] === 'string' ? token : SHADCN_FALLBACKS[token] ?? token])
+    .filter(([, token]) => typeof set.tokens[token] === 'string')
+    .map(([name, token]) => {
+      const chart = /^chart-(\d)$/.exec(name);
+      const value = chart && series[Number(chart[1]) - 1] ? series[Number(chart[1]) - 1] : set.tokens[token];
+      return [`--${name}`, toOklchValue(value)];
+    });
+}
+
+function exportAsShadcn(sets: ExportSet[], includeComments: boolean, generatedAt: string | null): string {
+  const lines: string[] = [];
+
+  if (includeComments) {
+    lines.push(...headerLines('block', sets.length > 1 ? 'shadcn/ui CSS Variables (light + dark)' : 'shadcn/ui CSS Variables', generatedAt));
+  }
+
+  lines.push('@custom-variant dark (&:is(.dark *));\n');
+  lines.push(...modeVariableBlocks(sets, shadcnEntries, '.dark', false));
+
+  lines.push('@theme inline {');
+  shadcnEntries(sets[0]).forEach(([name]) => {
+    lines.push(`  --color-${name.slice(2)}: var(${name});`);
+  });
+  lines.push('}\n');
+
+  if (includeComments) {
+    lines.push('/* Usage example:');
+    lines.push(' * Replace the color variables in app/globals.css (keep --radius).');
+    lines.push(' */');
+  }
+
+  return lines.join('\n');
+}
+
+// --- JSON ---
+
+function exportAsJSON(sets: ExportSet[], theme: Record<string, unknown>): string {
+  const withScales = (set: ExportSet) => ({
+    ...set.tokens,
+    ...(set.scales ? { scales: set.scales } : {}),
+    ...(set.dataViz ? { dataViz: set.dataViz } : {}),
+    ...(set.p3 ? { p3: set.p3 } : {}),
+  });
+
+  if (sets.length === 1) {
+    return JSON.stringify(withScales(sets[0]), null, 2);
+  }
+
+  return JSON.stringify({
+    ...(typeof theme.mode === 'string' ? { mode: theme.mode } : {}),
+    ...(typeof theme.seed === 'string' ? { seed: theme.seed } : {}),
+    ...(typeof theme.engineVersion === 'string' ? { engineVersion: theme.engineVersion } : {}),
+    light: withScales(sets[0]),
+    dark: withScales(sets[1]),
+  }, null, 2);
+}
+
+// --- Design Tokens (W3C DTCG) ---
+
+// Tokens that are derived from another token and usually share its value.
+// They are emitted as aliases whenever the values still match.
+const DTCG_ALIASES: Record<string, string> = {
+  ring: 'primary',
+  textOnColor: 'primaryFg',
+  link: 'primary',
+  focus: 'ring',
+};
+
+const DTCG_DESCRIPTIONS: Record<string, string> = {
+  bg: 'Page background',
+  card: 'Raised surface',
+  card2: 'Secondary surface',
+  text: 'Body text',
+  textMuted: 'Secondary text',
+  textOnColor: 'Text on colored fills',
+  border: 'Component borders',
+  ring: 'Brand ring, source of the focus indicator',
+  info: 'Informational status',
+  link: 'Link text',
+  linkVisited: 'Visited link text',
+  overlay: `Modal scrim, used at ${OVERLAY_OPACITY * 100}% opacity`,
+  selectionBg: 'Text selection highlight',
+  disabledBg: 'Disabled control fill',
+  disabledFg: 'Disabled control text',
+  inputBg: 'Form field background',
+  divider: 'Hairline separators',
+  focus: 'Focus indicator, 3:1 on every surface',
+};
+
+/**
+ * Emits W3C Design Tokens (DTCG) JSON. Each set becomes a top-level group
+ * with a `color` group; generation mode and seed go into `$description`,
+ * and the engine version that reproduces them into the Taichi extension.
+ */
+function exportAsDTCG(sets: ExportSet[], theme: Record<string, unknown>, options: ExportOptions): string {
+  const generatedAt = resolveGeneratedAt(options.generatedAt);
+  const mode = typeof theme.mode === 'string' ? theme.mode : options.metadata?.mode;
+  const seed = typeof theme.seed === 'string' ? theme.seed : options.metadata?.seed;
+  const engineVersion = typeof theme.engineVersion === 'string' ? theme.engineVersion : options.metadata?.engineVersion;
+  const harmony = mode === 'custom' ? resolveCustomHarmony(theme.harmony ?? options.metadata?.harmony) : undefined;
+  const details = [
+    typeof mode === 'string' ? `${mode} harmony` : null,
+    typeof seed === 'string' ? `seed ${seed}` : null,
+  ].filter(Boolean);
+
+  const tokenDocument: Record<string, unknown> = {
+    $description: `Taichi Theme Generator${details.length ? ` - ${details.join(', ')}` : ''}`,
+    $extensions: {
+      'com.bucaastudio.taichi': {
+        ...(typeof mode === 'string' ? { mode } : {}),
+        ...(typeof seed === 'string' ? { seed } : {}),
+        ...(typeof engineVersion === 'string' ? { engineVersion } : {}),
+        ...(harmony ? { harmony } : {}),
+        ...(generatedAt ? { generated: generatedAt } : {}),
+      },
+    },
+  };
+
+  sets.forEach(({ name, tokens, scales, dataViz }) => {
+    const group: Record<string, unknown> = { $type: 'color' };
+
+    Object.entries(tokens).forEach(([key, value]) => {
+      const target = DTCG_ALIASES[key];
+      const hasSource = !!target && typeof tokens[target] === 'string';
+      const reference = `{${name}.color.${target}}`;
+      const isAlias = hasSource && tokens[target].toLowerCase() === value.toLowerCase();
+      const token: Record<string, unknown> = {
+        $value: isAlias ? reference : value,
+      };
+      if (DTCG_DESCRIPTIONS[key]) token.$description = DTCG_DESCRIPTIONS[key];
+      // A derived token the engine shifted away from its source keeps its own
+      // value and names the source instead (e.g. ring is primary at another lightness)
+      if (hasSource && !isAlias) {
+        token.$extensions = { 'com.bucaastudio.taichi': { derivedFrom: reference } };
+      }
+      group[key] = token;
+    });
+
+    if (scales) {
+      const scaleGroup: Record<string, unknown> = { $description: 'Tonal scales (50-900)' };
+      Object.entries(scales).forEach(([role, scale]) => {
+        const steps: Record<string, unknown> = {};
+        Object.entries(scale).forEach(([step, hex]) => {
+          steps[step] = { $value: hex };
+        });
+        scaleGroup[role] = steps;
+      });
+      group.scale = scaleGroup;
+    }
+
+    if (dataViz) {
+      const vizGroup: Record<string, unknown> = { $description: 'Data visualization palettes' };
+      (['categorical', 'sequential', 'diverging'] as const).forEach((kind) => {
+        const steps: Record<string, unknown> = {};
+        dataViz[kind].forEach((hex, i) => {
+          steps[String(i + 1)] = { $value: hex };
+        });
+        vizGroup[kind] = steps;
+      });
+      group.dataViz = vizGroup;
+    }
+
+    tokenDocument[name] = {
+      $description: name === 'theme' ? 'Theme' : `${name === 'light' ? 'Light' : 'Dark'} mode`,
+      color: group,
+    };
+  });
+
+  return JSON.stringify(tokenDocument, null, 2);
+}
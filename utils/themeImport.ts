@@ -0,0 +1,339 @@
+/**
+ * Theme Import
+ * Reads CSS custom properties, Taichi JSON exports and Tailwind color objects
+ * Version: 25.12.2
+ *
+ * Every color found is kept under its source name; a name heuristic proposes
+ * the ThemeTokens slot for each, and callers may override that mapping before
+ * the values are applied. Selectors, media queries or object keys mentioning
+ * `dark` place a value on the dark side.
+ */
+
+import { ThemeTokens } from '../types';
+import { IMAGE_SLOT_KEYS, parseToHex, hslToHex } from './colorUtils';
+import { toHex, clampToSRGBGamut } from './oklch';
+import { getLuminance } from './contrast';
+import { ROLE_TOKEN_KEYS } from './paletteEngine';
+
+// --- Configuration ---
+
+export type ThemeImportFormat = 'css' | 'json' | 'tailwind';
+
+export type ImportSide = 'light' | 'dark';
+
+export interface ImportedColor {
+  name: string;   // As written in the source (e.g. `--taichi-primary`, `primary-foreground`)
+  value: string;  // Normalized hex
+  side: ImportSide;
+}
+
+export interface ParsedThemeSource {
+  format: ThemeImportFormat;
+  colors: ImportedColor[];
+}
+
+// Name -> slot; null leaves the color out of the import
+export type ImportMapping = Record<string, keyof ThemeTokens | null>;
+
+export interface ImportedTokens {
+  light: Partial<ThemeTokens>;
+  dark: Partial<ThemeTokens>;
+}
+
+// Every slot a color can be mapped onto, in the editor's display order
+export const IMPORT_SLOTS: Array<keyof ThemeTokens> = [
+  'bg', 'card', 'card2', 'text', 'textMuted', 'textOnColor', 'border', 'ring',
+  'primary', 'primaryFg', 'secondary', 'secondaryFg', 'accent', 'accentFg',
+  'good', 'goodFg', 'warn', 'warnFg', 'bad', 'badFg',
+  ...ROLE_TOKEN_KEYS,
+];
+
+const FILL_ROLES = ['primary', 'secondary', 'accent', 'good', 'warn', 'bad', 'info'] as const;
+
+// Compact (lowercase, separator-free) names per slot
+const SLOT_ALIASES: Partial<Record<keyof ThemeTokens, string[]>> = {
+  bg: ['bg', 'background', 'page', 'canvas', 'base', 'backgroundprimary'],
+  card: ['card', 'surface', 'panel', 'popover', 'backgroundsecondary'],
+  card2: ['card2', 'surface2', 'muted', 'cardsecondary', 'surfacesecondary', 'backgroundtertiary'],
+  text: ['text', 'foreground', 'fg', 'textprimary', 'body', 'ink', 'onbackground', 'onsurface'],
+  textMuted: ['textmuted', 'mutedforeground', 'mutedtext', 'textsecondary', 'textsubtle', 'subtletext'],
+  textOnColor: ['textoncolor', 'oncolor', 'textinverse', 'inversetext'],
+  primary: ['primary', 'brand'],
+  secondary: ['secondary'],
+  accent: ['accent', 'tertiary', 'highlight'],
+  border: ['border', 'stroke', 'outline', 'input'],
+  ring: ['ring'],
+  good: ['good', 'success', 'positive'],
+  warn: ['warn', 'warning', 'caution'],
+  bad: ['bad', 'danger', 'error', 'destructive', 'negative'],
+  info: ['info', 'information', 'notice'],
+  link: ['link', 'textlink', 'anchor', 'hyperlink'],
+  linkVisited: ['linkvisited', 'visited', 'visitedlink'],
+  overlay: ['overlay', 'scrim', 'backdrop'],
+  selectionBg: ['selectionbg', 'selection', 'selectionbackground', 'highlightbg'],
+  disabledBg: ['disabledbg', 'disabled', 'disabledbackground'],
+  disabledFg: ['disabledfg', 'disabledforeground', 'disabledtext', 'textdisabled'],
+  inputBg: ['inputbg', 'inputbackground', 'field', 'fieldbg', 'fieldbackground'],
+  divider: ['divider', 'separator', 'hairline', 'rule'],
+  focus: ['focus', 'focusring', 'focusindicator', 'focusoutline'],
+};
+
+// Prefixes stripped before matching (`--taichi-color-primary` -> `primary`)
+const NAME_PREFIXES = ['taichi', 'color', 'colors', 'theme', 'tw'];
+
+// Tonal steps (`primary-500`) are scale entries, not slots
+const SCALE_STEP_SUFFIX = /[-_.](50|[1-9]00|950)$/;
+
+// JSON subtrees that never hold slot colors
+const SKIPPED_JSON_KEYS = new Set(['scales', 'scale', 'p3', 'metadata', 'seed', '$extensions']);
+
+const DARK_CONTEXT = /\.dark\b|data-theme=["']?dark|prefers-color-scheme:\s*dark|^dark$/i;
+
+// Luminance below this marks an unlabeled single theme as dark
+const DARK_BG_LUMINANCE = 0.18;
+
+// --- Slot Heuristics ---
+
+function buildAliasLookup(): Map<string, keyof ThemeTokens> {
+  const lookup = new Map<string, keyof ThemeTokens>();
+  for (const [slot, aliases] of Object.entries(SLOT_ALIASES) as Array<[keyof ThemeTokens, string[]]>) {
+    for (const alias of aliases) lookup.set(alias, slot);
+  }
+  // On-color foregrounds: primaryFg, primary-foreground, on-primary, destructive-foreground, ...
+  for (const role of FILL_ROLES) {
+    for (const alias of SLOT_ALIASES[role] ?? []) {
+      for (const variant of [`${alias}fg`, `${alias}foreground`, `on${alias}`, `${alias}text`, `${alias}contrast`]) {
+        lookup.set(variant, `${role}Fg` as keyof ThemeTokens);
+      }
+    }
+  }
+  return lookup;
+}
+
+const ALIAS_LOOKUP = buildAliasLookup();
+
+function compactName(name: string): string {
+  let segments = name.replace(/^--/, '').replace(/DEFAULT$/, '').split(/[-_.\s]+/).filter(Boolean);
+  while (segments.length > 1 && NAME_PREFIXES.includes(segments[0].toLowerCase())) {
+    segments = segments.slice(1);
+  }
+  return segments.join('').toLowerCase();
+}
+
+export function guessTokenSlot(name: string): keyof ThemeTokens | null {
+  if (SCALE_STEP_SUFFIX.test(name)) return null;
+  return ALIAS_LOOKUP.get(compactName(name)) ?? null;
+}
+
+// --- Color Values ---
+
+/** Accepts hex (3/6/8 digits), rgb(), hsl(), bare `H S% L%` triplets and oklch(). */
+export function parseImportedColor(raw: string): string | null {
+  const value = raw.replace(/!important/i, '').trim();
+
+  const oklch = value.match(/^oklch\(\s*([\d.]+)(%?)\s+([\d.]+)\s+([\d.]+)/i);
+  if (oklch) {
+    const L = parseFloat(oklch[1]) / (oklch[2] ? 100 : 1);
+    return toHex(clampToSRGBGamut({ L, C: parseFloat(oklch[3]), H: parseFloat(oklch[4]) }));
+  }
+
+  const hsl = value.match(/^(?:hsla?\()?\s*([\d.]+)(?:deg)?[,\s]+([\d.]+)%[,\s]+([\d.]+)%/i);
+  if (hsl) {
+    return hslToHex(parseFloat(hsl[1]) % 360, parseFloat(hsl[2]), parseFloat(hsl[3]));
+  }
+
+  const hexWithAlpha = value.match(/^#([0-9a-f]{6})[0-9a-f]{2}$/i);
+  if (hexWithAlpha) return `#${hexWithAlpha[1].toLowerCase()}`;
+
+  if (!/^#|^rgba?\(/i.test(value)) return null;
+  return parseToHex(value);
+}
+
+// --- Source Parsers ---
+
+interface RawEntry {
+  name: string;
+  raw: string;
+  side: ImportSide;
+}
+
+function sideOf(context: string[]): ImportSide {
+  const scope = context.join(' ').replace(/:not\([^)]*\)/g, '');
+  return context.some((segment) => DARK_CONTEXT.test(segment.trim())) || DARK_CONTEXT.test(scope) ? 'dark' : 'light';
+}
+
+function parseCss(text: string): RawEntry[] {
+  const css = text.replace(/\/\*[\s\S]*?\*\//g, '');
+  const entries: RawEntry[] = [];
+  const stack: string[] = [];
+  let buffer = '';
+
+  const collect = (chunk: string) => {
+    const match = chunk.match(/(--[\w-]+)\s*:\s*([^;]+)/);
+    if (match) entries.push({ name: match[1], raw: match[2].trim(), side: sideOf(stack) });
+  };
+
+  for (const ch of css) {
+    if (ch === '{') {
+      stack.push(buffer.trim());
+      buffer = '';
+    } else if (ch === '}') {
+      collect(buffer);
+      stack.pop();
+      buffer = '';
+    } else if (ch === ';') {
+      collect(buffer);
+      buffer = '';
+    } else {
+      buffer += ch;
+    }
+  }
+  collect(buffer);
+  return entries;
+}
+
+function parseJson(data: unknown): RawEntry[] {
+  const entries: RawEntry[] = [];
+
+  const walk = (node: unknown, path: string[]) => {
+    if (typeof node === 'string') {
+      const segments = path.filter((segment) => !['light', 'dark', 'color', 'colors', '$value'].includes(segment));
+      if (segments.length > 0) {
+        entries.push({ name: segments.join('.'), raw: node, side: path.includes('dark') ? 'dark' : 'light' });
+      }
+      return;
+    }
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return;
+    for (const [key, child] of Object.entries(node as Record<string, unknown>)) {
+      if (SKIPPED_JSON_KEYS.has(key)) continue;
+      walk(child, [...path, key]);
+    }
+  };
+
+  walk(data, []);
+  return entries;
+}
+
+// key: { | key: 'value' | { | }   (keys may be quoted selectors such as '.dark')
+const TAILWIND_TOKEN = /(?:'([^'\n]*)'|"([^"\n]*)"|([A-Za-z_$][\w$-]*|\d+))\s*:\s*(?:(\{)|'([^'\n]*)'|"([^"\n]*)"|`([^`\n]*)`)|(\{)|(\})/g;
+
+function parseTailwind(text: string): RawEntry[] {
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+  const entries: RawEntry[] = [];
+  const stack: string[] = [];
+
+  for (const match of source.matchAll(TAILWIND_TOKEN)) {
+    const key = match[1] ?? match[2] ?? match[3];
+    const value = match[5] ?? match[6] ?? match[7];
+    if (match[9]) {
+      stack.pop();
+    } else if (match[8]) {
+      stack.push('');
+    } else if (match[4]) {
+      stack.push(key);
+    } else if (value !== undefined) {
+      const path = [...stack, key].filter(Boolean);
+      const colorsAt = path.lastIndexOf('colors');
+      const local = (colorsAt >= 0 ? path.slice(colorsAt + 1) : path)
+        .filter((segment) => !DARK_CONTEXT.test(segment) && segment !== 'light' && segment !== 'DEFAULT');
+      const name = key.startsWith('--') ? key : local.join('-');
+      if (name) entries.push({ name, raw: value, side: sideOf(stack) });
+    }
+  }
+
+  return entries;
+}
+
+export function detectImportFormat(text: string): ThemeImportFormat | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^[{[]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Object literals (Tailwind configs) are not valid JSON
+    }
+  }
+  if (/module\.exports|export\s+default|colors\s*:/.test(trimmed)) return 'tailwind';
+  if (/--[\w-]+\s*:/.test(trimmed)) return 'css';
+  if (/[\w'"-]+\s*:\s*['"`]/.test(trimmed)) return 'tailwind';
+  return null;
+}
+
+/** Resolves `var(--x)` references against the other entries (same side first). */
+function resolveEntries(entries: RawEntry[]): ImportedColor[] {
+  const colors: ImportedColor[] = [];
+  const seen = new Set<string>();
+
+  const lookup = (name: string, side: ImportSide) =>
+    entries.find((entry) => entry.name === name && entry.side === side) ??
+    entries.find((entry) => entry.name === name);
+
+  for (const entry of entries) {
+    let raw = entry.raw;
+    for (let depth = 0; depth < 5; depth++) {
+      const ref = raw.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*([^)]+))?\)$/);
+      if (!ref) break;
+      raw = lookup(ref[1], entry.side)?.raw ?? ref[2] ?? raw;
+      if (!ref[2] && !lookup(ref[1], entry.side)) break;
+    }
+
+    const value = parseImportedColor(raw);
+    const key = `${entry.side}:${entry.name}`;
+    if (!value || seen.has(key) || SCALE_STEP_SUFFIX.test(entry.name)) continue;
+    seen.add(key);
+    colors.push({ name: entry.name, value, side: entry.side });
+  }
+
+  return colors;
+}
+
+export function parseThemeSource(text: string, format: ThemeImportFormat | null = detectImportFormat(text)): ParsedThemeSource | null {
+  if (!format) return null;
+  let entries: RawEntry[];
+  if (format === 'json') {
+    try {
+      entries = parseJson(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  } else {
+    entries = format === 'css' ? parseCss(text) : parseTailwind(text);
+  }
+  return { format, colors: resolveEntries(entries) };
+}
+
+// --- Mapping ---
+
+export function buildImportMapping(colors: ImportedColor[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const color of colors) {
+    if (!(color.name in mapping)) mapping[color.name] = guessTokenSlot(color.name);
+  }
+  return mapping;
+}
+
+/**
+ * Applies a (possibly user-edited) mapping. The first value per side and slot
+ * wins. A single unlabeled theme whose background is dark lands on the dark side.
+ */
+export function applyImportMapping(colors: ImportedColor[], mapping: ImportMapping): ImportedTokens {
+  const tokens: ImportedTokens = { light: {}, dark: {} };
+  for (const color of colors) {
+    const slot = mapping[color.name];
+    if (!slot || tokens[color.side][slot]) continue;
+    tokens[color.side][slot] = color.value;
+  }
+
+  const hasDark = Object.keys(tokens.dark).length > 0;
+  if (!hasDark && tokens.light.bg && getLuminance(tokens.light.bg) < DARK_BG_LUMINANCE) {
+    return { light: {}, dark: tokens.light };
+  }
+  return tokens;
+}
+
+/** `overridePalette` for generateTheme: imported slots exact, '' lets the engine fill the rest. */
+export function toOverridePalette(tokens: Partial<ThemeTokens>): string[] {
+  return IMAGE_SLOT_KEYS.map((key) => tokens[key] ?? '');
+}
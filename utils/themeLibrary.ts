@@ -0,0 +1,216 @@
+/**
+ * Theme Library
+ * Named, starred, tagged and grouped themes persisted in IndexedDB
+ * Version: 25.12.2
+ *
+ * The schema is versioned through an append-only migration list: each entry
+ * upgrades the database by one version, so a browser several releases behind
+ * replays every step it missed. Records are normalized on read so fields added
+ * later get defaults instead of a data migration.
+ */
+
+import { DualTheme, SavedTheme, ThemeCollection, ThemeTokens } from '../types';
+import { toOklch } from './oklch';
+import { upgradeTheme } from './colorUtils';
+
+// --- Configuration ---
+
+const DB_NAME = 'taichi-library';
+const THEMES_STORE = 'themes';
+const COLLECTIONS_STORE = 'collections';
+
+// Each entry upgrades the database from version i to i + 1; append only
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  (db) => {
+    const themes = db.createObjectStore(THEMES_STORE, { keyPath: 'id' });
+    themes.createIndex('updatedAt', 'updatedAt');
+    themes.createIndex('collectionId', 'collectionId');
+    db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+  },
+];
+
+export const LIBRARY_DB_VERSION = MIGRATIONS.length;
+
+// Swatch strip drawn for each saved theme, left to right
+export const THUMBNAIL_TOKENS: Array<{ side: 'light' | 'dark'; key: keyof ThemeTokens }> = [
+  { side: 'light', key: 'bg' },
+  { side: 'light', key: 'primary' },
+  { side: 'light', key: 'secondary' },
+  { side: 'light', key: 'accent' },
+  { side: 'light', key: 'good' },
+  { side: 'light', key: 'bad' },
+  { side: 'dark', key: 'primary' },
+  { side: 'dark', key: 'bg' },
+];
+
+// OKLCH hue buckets searchable by name; lower bound inclusive
+const HUE_NAMES: Array<[number, string]> = [
+  [0, 'red'],
+  [38, 'orange'],
+  [75, 'yellow'],
+  [115, 'green'],
+  [170, 'teal'],
+  [215, 'blue'],
+  [280, 'purple'],
+  [320, 'pink'],
+];
+
+// Primaries below this chroma read as grey
+const NEUTRAL_CHROMA = 0.03;
+
+// --- Search ---
+
+/** Hue and bucket name of the light-mode primary, the color a theme is remembered by. */
+export function getDominantHue(theme: DualTheme): { hue: number; name: string } {
+  const { H, C } = toOklch(theme.light.primary);
+  if (C < NEUTRAL_CHROMA) return { hue: H, name: 'neutral' };
+  let name = HUE_NAMES[0][1];
+  for (const [start, bucket] of HUE_NAMES) {
+    if (H >= start) name = bucket;
+  }
+  return { hue: H, name };
+}
+
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+function matchesTerm(saved: SavedTheme, term: string, hueName: string): boolean {
+  return (
+    saved.name.toLowerCase().includes(term) ||
+    saved.tags.some((tag) => tag.includes(term)) ||
+    saved.theme.mode.startsWith(term) ||
+    hueName === term
+  );
+}
+
+/**
+ * Every whitespace-separated term must match the name, a tag, the generation
+ * mode or the dominant hue name. Starred themes sort first, then most recent.
+ */
+export function filterSavedThemes(
+  themes: SavedTheme[],
+  filter: { query?: string; collectionId?: string | null; starredOnly?: boolean } = {}
+): SavedTheme[] {
+  const terms = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return themes
+    .filter((saved) => {
+      if (filter.starredOnly && !saved.starred) return false;
+      if (filter.collectionId !== undefined && saved.collectionId !== filter.collectionId) return false;
+      const hueName = getDominantHue(saved.theme).name;
+      return terms.every((term) => matchesTerm(saved, term, hueName));
+    })
+    .sort((a, b) => Number(b.starred) - Number(a.starred) || b.updatedAt - a.updatedAt);
+}
+
+// --- Records ---
+
+export function createSavedTheme(theme: DualTheme, name: string, now: number = Date.now()): SavedTheme {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || 'Untitled theme',
+    starred: false,
+    tags: [],
+    collectionId: null,
+    theme,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createCollection(name: string, now: number = Date.now()): ThemeCollection {
+  return { id: crypto.randomUUID(), name: name.trim() || 'Untitled collection', createdAt: now };
+}
+
+/** Fills fields (and theme roles) missing from records written by older builds; null for unusable records. */
+export function normalizeSavedTheme(record: unknown): SavedTheme | null {
+  if (!record || typeof record !== 'object') return null;
+  const value = record as Partial<SavedTheme>;
+  if (typeof value.id !== 'string' || !value.theme?.light || !value.theme?.dark) return null;
+  const createdAt = typeof value.createdAt === 'number' ? value.createdAt : value.theme.timestamp ?? 0;
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' ? value.name : 'Untitled theme',
+    starred: value.starred === true,
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    collectionId: typeof value.collectionId === 'string' ? value.collectionId : null,
+    theme: upgradeTheme(value.theme),
+    createdAt,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : createdAt,
+  };
+}
+
+// --- IndexedDB Storage ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLibrary(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, LIBRARY_DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < LIBRARY_DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openLibrary();
+  return settle(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export async function listSavedThemes(): Promise<SavedTheme[]> {
+  const records = await withStore<unknown[]>(THEMES_STORE, 'readonly', (store) => store.getAll());
+  return records.map(normalizeSavedTheme).filter((saved): saved is SavedTheme => saved !== null);
+}
+
+export async function putSavedTheme(saved: SavedTheme): Promise<void> {
+  await withStore(THEMES_STORE, 'readwrite', (store) => store.put(saved));
+}
+
+export async function deleteSavedTheme(id: string): Promise<void> {
+  await withStore(THEMES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function listCollections(): Promise<ThemeCollection[]> {
+  const collections = await withStore<ThemeCollection[]>(COLLECTIONS_STORE, 'readonly', (store) => store.getAll());
+  return collections.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function putCollection(collection: ThemeCollection): Promise<void> {
+  await withStore(COLLECTIONS_STORE, 'readwrite', (store) => store.put(collection));
+}
+
+/** Deletes a collection; its themes stay in the library, ungrouped. */
+export async function deleteCollection(id: string): Promise<void> {
+  const db = await openLibrary();
+  const transaction = db.transaction([THEMES_STORE, COLLECTIONS_STORE], 'readwrite');
+  const themes = transaction.objectStore(THEMES_STORE);
+  const members = await settle<unknown[]>(themes.index('collectionId').getAll(id));
+  for (const record of members) {
+    const saved = normalizeSavedTheme(record);
+    if (saved) themes.put({ ...saved, collectionId: null });
+  }
+  await settle(transaction.objectStore(COLLECTIONS_STORE).delete(id));
+}
@@ -14,9 +14,11 @@ const appVersion = (() => {
   }
 })();
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // SSR builds are the `taichi` CLI bundle, which needs none of the site assets
+      ...(isSsrBuild ? { publicDir: false } : {}),
       server: {
         port: 3000,
         host: '0.0.0.0',